@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+/**
+ * Builds src/features/auth/data/compromised-password-prefixes.json from a plain-text list of
+ * compromised passwords (one per line), e.g. a "top N" list from a breach corpus.
+ *
+ * The output uses the same k-anonymity layout as the Have I Been Pwned range API: SHA-1 hashes
+ * (uppercase hex) grouped by their first 5 characters, storing only the remaining 35. The app
+ * never ships the plaintext list, and lookups only touch one small bucket.
+ *
+ * Usage: node scripts/build-compromised-password-prefixes.mjs <passwords.txt>
+ */
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const inputPath = process.argv[2];
+if (!inputPath) {
+  console.error('Usage: node scripts/build-compromised-password-prefixes.mjs <passwords.txt>');
+  process.exit(1);
+}
+
+const outputPath = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  '../src/features/auth/data/compromised-password-prefixes.json',
+);
+
+const passwords = new Set(
+  readFileSync(inputPath, 'utf8')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean),
+);
+
+const ranges = {};
+for (const password of passwords) {
+  const hash = createHash('sha1').update(password).digest('hex').toUpperCase();
+  const prefix = hash.slice(0, 5);
+  (ranges[prefix] ??= []).push(hash.slice(5));
+}
+
+const sorted = Object.fromEntries(
+  Object.keys(ranges).sort().map((prefix) => [prefix, ranges[prefix].sort()]),
+);
+writeFileSync(outputPath, `${JSON.stringify(sorted, null, 0)}\n`);
+console.log(`Wrote ${passwords.size} hashes in ${Object.keys(sorted).length} prefixes to ${outputPath}`);
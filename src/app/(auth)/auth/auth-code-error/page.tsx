@@ -0,0 +1,21 @@
+import { AuthCodeErrorCard } from '@/features/auth/components';
+import { parseAuthCodeErrorParams } from '@/features/auth/utils/auth-code-error';
+
+interface AuthCodeErrorPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Renders the page failed auth links land on (`/auth/confirm` and `/auth/callback`).
+ * The `reason` and `flow` query parameters choose the explanation and the recovery action, and
+ * `email` (carried by password reset links) prefills the form for a new link.
+ *
+ * @param {AuthCodeErrorPageProps} props - The page props, including the URL search parameters.
+ * @returns {Promise<JSX.Element>} The auth error page.
+ */
+export default async function AuthCodeErrorPage({ searchParams }: AuthCodeErrorPageProps): Promise<JSX.Element> {
+  const params = await searchParams;
+  const { reason, flow } = parseAuthCodeErrorParams(params);
+  const email = params['email'];
+  return <AuthCodeErrorCard reason={reason} flow={flow} email={typeof email === 'string' ? email : undefined} />;
+}
@@ -0,0 +1,64 @@
+
+import { type NextRequest, NextResponse } from 'next/server';
+import * as authService from '@/features/auth/services/auth.service';
+import { RETURN_URL_PARAM, buildAuthCodeErrorPath, getAuthCodeErrorReason, sanitizeReturnUrl } from '@/features/auth/utils';
+import { INVITE_CODE_PARAM, REGISTRATION_ERROR_PARAM } from '@/features/invites/constants';
+import { admitOAuthUser } from '@/features/invites/utils/registration';
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('AuthCallbackRoute');
+
+/**
+ * Handles GET requests to the /auth/callback endpoint.
+ * This route completes the PKCE flow for OAuth sign-ins: the provider redirects back here
+ * with a `code` query parameter, which is exchanged for a session. The session cookies are
+ * written by the server Supabase client during the exchange.
+ *
+ * An optional 'next' query parameter specifies where to send the user afterwards. It is
+ * validated by `sanitizeReturnUrl`, so only same-origin relative paths are honored and
+ * anything else falls back to `/dashboard`.
+ *
+ * An account that was never admitted (`admitOAuthUser`) is admitted if registration is open, or with
+ * a valid invite (the 'invite' query parameter, passed on by `signInWithOAuth`). Otherwise it is deleted and
+ * the user is sent back to the registration page with the reason in 'registration_error'.
+ * Other failures go to `/auth/auth-code-error` with a reason code: `provider_error` when the provider
+ * refused, otherwise the reason Supabase reports (e.g. `used` for a code that was already exchanged).
+ *
+ * @param {NextRequest} request - The incoming Next.js request object, containing URL and query parameters.
+ * @returns {Promise<NextResponse>} A redirect to the 'next' path on success or to the auth error page on failure.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const { searchParams, origin } = new URL(request.url);
+
+  const code = searchParams.get('code');
+  const nextPath = sanitizeReturnUrl(searchParams.get(RETURN_URL_PARAM));
+
+  // Providers report denied consent or misconfiguration through these parameters instead of a code.
+  // Supabase also redirects here with `error_code` (e.g. `otp_expired`) when a link it verified itself had expired.
+  const providerError = searchParams.get('error_description') ?? searchParams.get('error');
+  if (providerError) {
+    const errorCode = searchParams.get('error_code');
+    logger.warn('OAuth provider returned an error to the callback route.', { providerError, errorCode });
+    const reason = errorCode ? getAuthCodeErrorReason({ code: errorCode }) : 'provider_error';
+    return NextResponse.redirect(`${origin}${buildAuthCodeErrorPath(reason, 'oauth')}`);
+  }
+
+  let exchangeError: { code?: string } | null = null;
+  if (code) {
+    const { data, error } = await authService.exchangeCodeForSessionWithSupabase(code);
+    if (!error && data.user) {
+      const admission = await admitOAuthUser(data.user, searchParams.get(INVITE_CODE_PARAM));
+      if (!admission.allowed) {
+        // The account is gone; this clears the session cookies the exchange just wrote.
+        await authService.signOutWithSupabase();
+        return NextResponse.redirect(`${origin}/register?${REGISTRATION_ERROR_PARAM}=${admission.reason}`);
+      }
+      return NextResponse.redirect(`${origin}${nextPath}`);
+    }
+    exchangeError = error;
+  } else {
+    logger.warn('Callback route called without an authorization code.');
+  }
+
+  return NextResponse.redirect(`${origin}${buildAuthCodeErrorPath(getAuthCodeErrorReason(exchangeError), 'oauth')}`);
+}
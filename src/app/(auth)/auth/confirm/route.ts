@@ -2,16 +2,28 @@
 import { type EmailOtpType } from '@supabase/supabase-js';
 import { type NextRequest, NextResponse } from 'next/server'; // NextResponse might be needed for complex redirects
 import { redirect } from 'next/navigation';
-import { createClient } from '@/lib/supabase/server';
+import * as authService from '@/features/auth/services/auth.service';
+import { EMAIL_CHANGE_STATUS_PARAM, type EmailChangeStatus } from '@/features/auth/constants';
+import { RETURN_URL_PARAM, buildAuthCodeErrorPath, getAuthCodeErrorReason, getAuthLinkFlow, sanitizeReturnUrl } from '@/features/auth/utils';
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('AuthConfirmRoute');
 
 /**
  * Handles GET requests to the /auth/confirm endpoint.
  * This route is responsible for verifying One-Time Passwords (OTPs) sent via email,
- * typically for email confirmation or password recovery.
+ * typically for email confirmation, password recovery, or magic-link sign-in.
+ * Verification goes through `verifyOtpWithSupabase`, the same service the typed-code
+ * login step uses, so both paths create the session identically.
  *
  * It expects 'token_hash' and 'type' query parameters from the confirmation link.
  * An optional 'next' query parameter can specify where to redirect the user upon successful verification.
+ * It is validated by `sanitizeReturnUrl`, so only same-origin relative paths are honored.
  * Additional query parameters (e.g., 'email' for password reset context) are forwarded to the 'next' URL.
+ * For `email_change` links, an `email_change` parameter tells the page whether the change is still
+ * waiting for the other address (`pending`) or is done (`complete`, when a session is returned).
+ * Failed links go to `/auth/auth-code-error` with the reason (expired, used or invalid), the kind of
+ * link and, for password reset links, the email address, so the page can offer to send a new link.
  *
  * @param {NextRequest} request - The incoming Next.js request object, containing URL and query parameters.
  * @returns {Promise<NextResponse>} A promise that resolves to a NextResponse, typically a redirect
@@ -25,17 +37,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
   const token_hash = searchParams.get('token_hash');
   const type = searchParams.get('type') as EmailOtpType | null;
-  const nextPath = searchParams.get('next') ?? '/'; // Default to home if 'next' is not provided
+  const nextPath = sanitizeReturnUrl(searchParams.get(RETURN_URL_PARAM)); // Defaults to the dashboard if missing or unsafe
 
-  console.log('Confirm route received:', { token_hash, type, nextPath });
+  logger.info('Confirm route received a link.', { type, hasTokenHash: !!token_hash, nextPath });
 
+  let verificationError: { code?: string; message: string } | null = null;
   if (token_hash && type) {
-    const supabase = await createClient();
-
-    console.log('Supabase client created successfully');
-
-    const { error } = await supabase.auth.verifyOtp(
-    {
+    const { data, error } = await authService.verifyOtpWithSupabase({
       type,
       token_hash,
     });
@@ -43,25 +51,26 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     if (!error) {
       // Forward all query parameters from the original request,
       // except for Supabase-specific OTP ones (token_hash, type, next itself).
-      const paramsToForward = new URLSearchParams();
+      // The next path may carry its own query string, so the parameters are merged into it.
+      const redirectUrl = new URL(nextPath, originalUrl.origin);
       searchParams.forEach((value, key) => {
-        if (key !== 'token_hash' && key !== 'type' && key !== 'next') {
-          paramsToForward.append(key, value);
+        if (key !== 'token_hash' && key !== 'type' && key !== RETURN_URL_PARAM) {
+          redirectUrl.searchParams.append(key, value);
         }
       });
-      
-      let redirectUrl = nextPath;
-      if (paramsToForward.toString()) {
-        redirectUrl = `${nextPath}?${paramsToForward.toString()}`;
+      if (type === 'email_change') {
+        // The first of the two links verifies without returning a session; the second completes the change.
+        const status: EmailChangeStatus = data.session ? 'complete' : 'pending';
+        redirectUrl.searchParams.set(EMAIL_CHANGE_STATUS_PARAM, status);
       }
+
       // Supabase recommends redirecting from the server so that cookies are set correctly.
-      return redirect(redirectUrl);
+      return redirect(`${redirectUrl.pathname}${redirectUrl.search}${redirectUrl.hash}`);
     }
+    verificationError = error;
   }
 
-  console.error('OTP verification failed or missing token/type:', error);
-
-  // Redirect the user to an error page with some instructions
-  // Ensure /auth/auth-code-error page exists
-  return redirect('/auth/auth-code-error');
+  const reason = getAuthCodeErrorReason(verificationError);
+  logger.warn(`Confirm route failed (${reason}).`, { type, hasTokenHash: !!token_hash, errorCode: verificationError?.code, errorMessage: verificationError?.message });
+  return redirect(buildAuthCodeErrorPath(reason, getAuthLinkFlow(type), searchParams.get('email')));
 }
@@ -0,0 +1,20 @@
+import { MfaChallengeForm } from '@/features/auth/components';
+import { RETURN_URL_PARAM, sanitizeReturnUrl } from '@/features/auth/utils/return-url';
+
+interface MfaChallengePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Renders the multi-factor authentication challenge page.
+ * Users with an authenticator app are sent here by the middleware after signing in,
+ * and must enter a code before they can reach the dashboard.
+ * The `next` query parameter is sanitized and used as the page to continue to.
+ *
+ * @param {MfaChallengePageProps} props - The page props, including the URL search parameters.
+ * @returns {Promise<JSX.Element>} The MFA challenge page component.
+ */
+export default async function MfaChallengePage({ searchParams }: MfaChallengePageProps): Promise<JSX.Element> {
+  const returnUrl = sanitizeReturnUrl((await searchParams)[RETURN_URL_PARAM]);
+  return <MfaChallengeForm returnUrl={returnUrl} />;
+}
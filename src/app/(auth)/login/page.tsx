@@ -1,15 +1,32 @@
-
-"use client";
-
 import { LoginForm } from '@/features/auth/components';
+import { RETURN_URL_PARAM, sanitizeReturnUrl } from '@/features/auth/utils/return-url';
+import { areGuestSessionsEnabled } from '@/features/auth/utils/guest-sessions';
+import { parseSessionEndReason } from '@/features/auth/utils/session-timeouts';
+import { SESSION_END_REASON_PARAM } from '@/features/auth/constants/session-timeouts';
+
+interface LoginPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
 
 /**
  * Renders the login page for the PassForge application.
  * This page allows users to sign in using their email and password.
  * It primarily displays the `LoginForm` component which handles the form submission and authentication logic.
+ * The `next` query parameter (set by the middleware for deep links) is sanitized and passed on as the return URL.
+ * "Continue as guest" is offered only while guest sessions are enabled (`areGuestSessionsEnabled`).
+ * The `reason` parameter, set when a session timed out, is passed on so the form can explain why.
  *
- * @returns {JSX.Element} The login page component.
+ * @param {LoginPageProps} props - The page props, including the URL search parameters.
+ * @returns {Promise<JSX.Element>} The login page component.
  */
-export default function LoginPage(): JSX.Element {
-  return <LoginForm />;
+export default async function LoginPage({ searchParams }: LoginPageProps): Promise<JSX.Element> {
+  const params = await searchParams;
+  const returnUrl = sanitizeReturnUrl(params[RETURN_URL_PARAM]);
+  return (
+    <LoginForm
+      returnUrl={returnUrl}
+      guestSessionsEnabled={areGuestSessionsEnabled()}
+      sessionEndReason={parseSessionEndReason(params[SESSION_END_REASON_PARAM])}
+    />
+  );
 }
@@ -1,15 +1,43 @@
-
-"use client";
-
 import { RegisterForm } from "@/features/auth/components";
+import { RETURN_URL_PARAM, sanitizeReturnUrl } from "@/features/auth/utils/return-url";
+import {
+  INVITE_CODE_PARAM,
+  REGISTRATION_ERROR_PARAM,
+  REGISTRATION_REFUSAL_MESSAGES,
+  type RegistrationRefusal,
+} from "@/features/invites/constants";
+import { getRegistrationMode } from "@/features/invites/utils/registration";
+
+interface RegisterPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
 
 /**
  * Renders the registration page for the PassForge application.
  * This page allows new users to create an account.
  * It primarily displays the `RegisterForm` component which handles the form submission and user creation logic.
+ * The `next` query parameter is sanitized and passed on as the return URL.
+ * The registration mode, the invite code of `?invite=` links and the reason a social sign-up was
+ * refused (`?registration_error=`, set by `/auth/callback` and the middleware) are passed to the form as well.
  *
- * @returns {JSX.Element} The registration page component.
+ * @param {RegisterPageProps} props - The page props, including the URL search parameters.
+ * @returns {Promise<JSX.Element>} The registration page component.
  */
-export default function RegisterPage(): JSX.Element {
-  return <RegisterForm />;
+export default async function RegisterPage({ searchParams }: RegisterPageProps): Promise<JSX.Element> {
+  const params = await searchParams;
+  const returnUrl = sanitizeReturnUrl(params[RETURN_URL_PARAM]);
+  const inviteCode = params[INVITE_CODE_PARAM];
+  const registrationError = params[REGISTRATION_ERROR_PARAM];
+  return (
+    <RegisterForm
+      returnUrl={returnUrl}
+      registrationMode={getRegistrationMode()}
+      inviteCode={typeof inviteCode === "string" ? inviteCode : undefined}
+      registrationError={
+        typeof registrationError === "string" && registrationError in REGISTRATION_REFUSAL_MESSAGES
+          ? REGISTRATION_REFUSAL_MESSAGES[registrationError as RegistrationRefusal]
+          : undefined
+      }
+    />
+  );
 }
@@ -0,0 +1,16 @@
+// src/app/(dashboard)/admin/invites/page.tsx
+import { InvitesView } from '@/features/dashboard/admin';
+
+/**
+ * Renders the admin invites page, accessible at /admin/invites to admins only.
+ * This page component uses the InvitesView component, which holds the invite cards.
+ *
+ * @returns {JSX.Element} The admin invites page component.
+ */
+export default function AdminInvitesPage(): JSX.Element {
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <InvitesView />
+    </main>
+  );
+}
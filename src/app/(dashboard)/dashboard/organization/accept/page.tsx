@@ -0,0 +1,25 @@
+// src/app/(dashboard)/dashboard/organization/accept/page.tsx
+import { AcceptInvitationView } from '@/features/dashboard/organization';
+
+interface AcceptInvitationPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Renders the page workspace invitation emails link to, accessible at /dashboard/organization/accept.
+ * Visitors without a session are sent to the login page first (see the `/dashboard/**` route policy)
+ * and come back here afterwards. The `token` query parameter is passed on to the view.
+ *
+ * @param {AcceptInvitationPageProps} props - The page props, including the URL search parameters.
+ * @returns {Promise<JSX.Element>} The accept invitation page component.
+ */
+export default async function AcceptInvitationPage({ searchParams }: AcceptInvitationPageProps): Promise<JSX.Element> {
+  const tokenParam = (await searchParams)['token'];
+  const token = typeof tokenParam === 'string' && tokenParam ? tokenParam : null;
+
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <AcceptInvitationView token={token} />
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+// src/app/(dashboard)/dashboard/organization/page.tsx
+import { OrganizationView } from '@/features/dashboard/organization';
+
+/**
+ * Renders the workspace settings page, accessible at /dashboard/organization.
+ * This page component uses the OrganizationView component, which holds the workspace cards.
+ *
+ * @returns {JSX.Element} The workspace settings page component.
+ */
+export default function DashboardOrganizationPage(): JSX.Element {
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <OrganizationView />
+    </main>
+  );
+}
@@ -1,26 +1,40 @@
 // src/app/(dashboard)/dashboard/profile/page.tsx
 import { ProfileView } from '@/features/dashboard/profile'; // Updated import
+import { ChangeEmailCard, DeleteAccountCard } from '@/features/dashboard/profile/components';
+import { EMAIL_CHANGE_STATUS_PARAM, type EmailChangeStatus } from '@/features/auth/constants';
 import { HydrationBoundary, QueryClient, dehydrate } from '@tanstack/react-query';
 // User profile is already prefetched by the (dashboard)/layout.tsx.
 
+interface ProfilePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
 /**
  * Renders the user's profile page, accessible at /dashboard/profile.
  * The user profile data is expected to be prefetched by the parent (dashboard) layout
  * and made available via HydrationBoundary.
+ * The change email and account deletion cards sit below the profile form, outside of it.
+ * The `email_change` query parameter, set by `/auth/confirm`, is passed on to the change email card.
  *
+ * @param {ProfilePageProps} props - The page props, including the URL search parameters.
  * @returns {Promise<JSX.Element>} The profile page component.
  */
-export default async function ProfilePage(): Promise<JSX.Element> {
+export default async function ProfilePage({ searchParams }: ProfilePageProps): Promise<JSX.Element> {
   const queryClient = new QueryClient();
   // The actual prefetching of userProfile happens in (dashboard)/layout.tsx.
   // We still use HydrationBoundary here to ensure any dehydrated state from the layout
   // is correctly passed down and available for client-side hydration.
+  const emailChangeParam = (await searchParams)[EMAIL_CHANGE_STATUS_PARAM];
+  const emailChangeStatus: EmailChangeStatus | undefined =
+    emailChangeParam === 'pending' || emailChangeParam === 'complete' ? emailChangeParam : undefined;
 
   return (
     <HydrationBoundary state={dehydrate(queryClient)}>
-      <main className="container mx-auto py-8 px-4">
+      <main className="container mx-auto py-8 px-4 space-y-8">
         {/* Title will be handled by DashboardHeader based on route */}
         <ProfileView />
+        <ChangeEmailCard emailChangeStatus={emailChangeStatus} />
+        <DeleteAccountCard />
       </main>
     </HydrationBoundary>
   );
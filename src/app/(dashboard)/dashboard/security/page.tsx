@@ -0,0 +1,16 @@
+// src/app/(dashboard)/dashboard/security/page.tsx
+import { SecurityView } from '@/features/dashboard/security';
+
+/**
+ * Renders the account security page, accessible at /dashboard/security.
+ * This page component uses the SecurityView component, which holds the security settings cards.
+ *
+ * @returns {JSX.Element} The dashboard security page component.
+ */
+export default function DashboardSecurityPage(): JSX.Element {
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <SecurityView />
+    </main>
+  );
+}
@@ -0,0 +1,27 @@
+// src/app/(dashboard)/dashboard/upgrade/page.tsx
+import { UpgradeView } from '@/features/dashboard/upgrade';
+import { EMAIL_CHANGE_STATUS_PARAM, type EmailChangeStatus } from '@/features/auth/constants';
+
+interface UpgradePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Renders the page where guests save their account, accessible at /dashboard/upgrade.
+ * The `email_change` query parameter, set by `/auth/confirm` when the guest confirms their
+ * email address, is passed on to the view.
+ *
+ * @param {UpgradePageProps} props - The page props, including the URL search parameters.
+ * @returns {Promise<JSX.Element>} The upgrade page component.
+ */
+export default async function UpgradePage({ searchParams }: UpgradePageProps): Promise<JSX.Element> {
+  const emailChangeParam = (await searchParams)[EMAIL_CHANGE_STATUS_PARAM];
+  const emailChangeStatus: EmailChangeStatus | undefined =
+    emailChangeParam === 'pending' || emailChangeParam === 'complete' ? emailChangeParam : undefined;
+
+  return (
+    <main className="container mx-auto py-8 px-4">
+      <UpgradeView emailChangeStatus={emailChangeStatus} />
+    </main>
+  );
+}
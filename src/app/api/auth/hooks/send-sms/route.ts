@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { fromSupabasePhone } from '@/features/auth/utils/phone';
+import { verifyAuthHookRequest } from '@/lib/auth-hooks';
+import { getSmsSender } from '@/lib/sms';
+import { getServerLogger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const logger = getServerLogger('SendSmsHookRoute');
+
+interface SendSmsHookPayload {
+  user?: { phone?: string };
+  sms?: { otp?: string };
+}
+
+/**
+ * Builds the error response format Supabase expects from auth hooks; the message is shown to the user.
+ * @param {number} status - The HTTP status.
+ * @param {string} message - The error message.
+ * @returns {NextResponse} The error response.
+ */
+function hookError(status: number, message: string): NextResponse {
+  return NextResponse.json({ error: { http_code: status, message } }, { status });
+}
+
+/**
+ * Handles POST requests to /api/auth/hooks/send-sms.
+ * Supabase's Send SMS hook calls this instead of its built-in SMS provider whenever it issues a phone
+ * sign-in code, so the code goes out through the app's own `SmsSender`. Configure the hook in
+ * Supabase (Authentication → Hooks) with this URL and set its secret as `SEND_SMS_HOOK_SECRET`.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {Promise<NextResponse>} An empty object once the message is sent, or an error status.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const body = await request.text();
+  const authorization = verifyAuthHookRequest(request, body, process.env['SEND_SMS_HOOK_SECRET']);
+  if (authorization === 'not-configured') {
+    logger.error('Send SMS hook called but SEND_SMS_HOOK_SECRET is not configured.');
+    return hookError(503, 'SMS sending is not configured.');
+  }
+  if (authorization === 'unauthorized') {
+    logger.warn('Send SMS hook called with an invalid signature.');
+    return hookError(401, 'Unauthorized.');
+  }
+
+  let payload: SendSmsHookPayload;
+  try {
+    payload = JSON.parse(body) as SendSmsHookPayload;
+  } catch {
+    return hookError(400, 'Invalid hook payload.');
+  }
+  const phone = fromSupabasePhone(payload.user?.phone);
+  const otp = payload.sms?.otp;
+  if (!phone || !otp) {
+    return hookError(400, 'Invalid hook payload.');
+  }
+
+  try {
+    await getSmsSender().send({ to: phone, body: `Your PassForge code is ${otp}. It expires shortly; don't share it with anyone.` });
+    return NextResponse.json({});
+  } catch (error) {
+    logger.error({
+      message: 'Sending a sign-in code by SMS failed.',
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return hookError(500, 'We could not send the text message. Please try again.');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { verifyCronRequest } from '@/lib/cron';
+import { AUTH_EVENT_RETENTION_DAYS } from '@/features/auth/constants';
+import { pruneAuthEvents } from '@/features/auth/utils/auth-event-log';
+import { getServerLogger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const logger = getServerLogger('PruneAuthEventsRoute');
+
+/**
+ * Handles GET requests to /api/cron/prune-auth-events.
+ * Deletes authentication audit events older than `AUTH_EVENT_RETENTION_DAYS`. Meant to be called
+ * daily by a scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {Promise<NextResponse>} The number of deleted events, or an error status.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authorization = verifyCronRequest(request);
+  if (authorization === 'not-configured') {
+    logger.error('Auth event pruning called but CRON_SECRET is not configured.');
+    return NextResponse.json({ error: 'Cron secret is not configured.' }, { status: 503 });
+  }
+  if (authorization === 'unauthorized') {
+    logger.warn('Auth event pruning called with an invalid cron secret.');
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  try {
+    const deleted = await pruneAuthEvents(AUTH_EVENT_RETENTION_DAYS);
+    return NextResponse.json({ deleted, retentionDays: AUTH_EVENT_RETENTION_DAYS });
+  } catch (error) {
+    logger.error({
+      message: 'Auth event pruning failed.',
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return NextResponse.json({ error: 'Auth event pruning failed.' }, { status: 500 });
+  }
+}
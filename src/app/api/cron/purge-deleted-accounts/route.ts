@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { verifyCronRequest } from '@/lib/cron';
+import { purgeDueAccountDeletions } from '@/features/user-auth-data/utils/account-purge';
+import { getServerLogger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const logger = getServerLogger('PurgeDeletedAccountsRoute');
+
+/**
+ * Handles GET requests to /api/cron/purge-deleted-accounts.
+ * Permanently removes accounts whose deletion grace period has ended. Meant to be called
+ * daily by a scheduler (e.g. Cloud Scheduler) with `Authorization: Bearer <CRON_SECRET>`.
+ * Each run purges a bounded batch; any remainder is picked up by the next run.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {Promise<NextResponse>} The IDs of the purged and failed accounts, or an error status.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authorization = verifyCronRequest(request);
+  if (authorization === 'not-configured') {
+    logger.error('Account purge called but CRON_SECRET is not configured.');
+    return NextResponse.json({ error: 'Cron secret is not configured.' }, { status: 503 });
+  }
+  if (authorization === 'unauthorized') {
+    logger.warn('Account purge called with an invalid cron secret.');
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  try {
+    const summary = await purgeDueAccountDeletions();
+    return NextResponse.json(summary, { status: summary.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    logger.error({
+      message: 'Account purge run failed.',
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return NextResponse.json({ error: 'Account purge failed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getDevSmsOutbox } from '@/lib/sms';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles GET requests to /api/dev/sms-outbox.
+ * Lists the text messages the development SMS sender kept instead of delivering them, newest first,
+ * so phone sign-in can be tried locally. Not available in production.
+ *
+ * @returns {NextResponse} The outbox, or 404 in production.
+ */
+export function GET(): NextResponse {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ messages: getDevSmsOutbox() });
+}
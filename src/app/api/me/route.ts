@@ -0,0 +1,139 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ApiProfileUpdateSchema } from '@/features/api-tokens/schemas';
+import type { ApiUserContext } from '@/features/api-tokens/types';
+import { apiAuthErrorResponse, authenticateApiRequest } from '@/features/api-tokens/utils/api-request-auth';
+import { getServerLogger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const logger = getServerLogger('MeApiRoute');
+
+const PROFILE_COLUMNS = 'first_name, last_name, language, bio, avatar_url, role, created_at, updated_at';
+
+interface ProfileRow {
+  first_name: string | null;
+  last_name: string | null;
+  language: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  role: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Builds the response body for the account behind a request.
+ * @param {ApiUserContext} user - The authenticated user.
+ * @param {ProfileRow | null} profile - Their profile row, if they have one.
+ * @returns {object} The account, in camelCase.
+ */
+function toMeResponse(user: ApiUserContext, profile: ProfileRow | null) {
+  return {
+    id: user.userId,
+    email: user.email,
+    firstName: profile?.first_name ?? null,
+    lastName: profile?.last_name ?? null,
+    language: profile?.language ?? 'en',
+    bio: profile?.bio ?? null,
+    avatarUrl: profile?.avatar_url ?? null,
+    role: profile?.role ?? 'user',
+    createdAt: profile?.created_at ?? null,
+    updatedAt: profile?.updated_at ?? null,
+    auth: { via: user.via, scopes: user.scopes },
+  };
+}
+
+/**
+ * Handles GET requests to /api/me.
+ * Returns the account and profile of the caller, authenticated with the session cookie or a
+ * personal access token with the `profile:read` scope (`Authorization: Bearer pf_...`).
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {Promise<NextResponse>} The account, or an error status.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const auth = await authenticateApiRequest(request, 'profile:read');
+    if (auth.status !== 'ok') {
+      return apiAuthErrorResponse(auth);
+    }
+
+    // Token requests have no Supabase session, so the profile is read with the service role for this user only.
+    const { data, error } = await createAdminClient()
+      .from('profiles')
+      .select(PROFILE_COLUMNS)
+      .eq('id', auth.user.userId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to load profile: ${error.message}`);
+    }
+    return NextResponse.json(toMeResponse(auth.user, data as ProfileRow | null));
+  } catch (error) {
+    logger.error({
+      message: 'GET /api/me failed.',
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return NextResponse.json({ error: 'Your account could not be loaded.' }, { status: 500 });
+  }
+}
+
+/**
+ * Handles PATCH requests to /api/me.
+ * Updates the caller's first name, last name, language or bio from a JSON body, with the session
+ * cookie or a personal access token with the `profile:write` scope. The body must be sent as
+ * `application/json`, which cross-site HTML forms cannot do, so cookie-authenticated requests
+ * cannot be forged by other sites.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {Promise<NextResponse>} The updated account, or an error status.
+ */
+export async function PATCH(request: Request): Promise<NextResponse> {
+  if (!request.headers.get('content-type')?.toLowerCase().startsWith('application/json')) {
+    return NextResponse.json({ error: 'Send the update as application/json.' }, { status: 415 });
+  }
+
+  try {
+    const auth = await authenticateApiRequest(request, 'profile:write');
+    if (auth.status !== 'ok') {
+      return apiAuthErrorResponse(auth);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'The request body is not valid JSON.' }, { status: 400 });
+    }
+    const validation = ApiProfileUpdateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors.map((e) => e.message).join(", ") }, { status: 400 });
+    }
+
+    const { firstName, lastName, language, bio } = validation.data;
+    const patch = Object.entries({ first_name: firstName, last_name: lastName, language, bio })
+      .filter(([, value]) => value !== undefined)
+      .reduce<Record<string, unknown>>((columns, [column, value]) => ({ ...columns, [column]: value }), {});
+    const { data, error } = await createAdminClient()
+      .from('profiles')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', auth.user.userId)
+      .select(PROFILE_COLUMNS)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`Failed to update profile: ${error.message}`);
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Your profile was not found.' }, { status: 404 });
+    }
+
+    logger.info(`Profile of user ${auth.user.userId} updated through the API (${auth.user.via}).`, { fields: Object.keys(patch) });
+    return NextResponse.json(toMeResponse(auth.user, data as ProfileRow));
+  } catch (error) {
+    logger.error({
+      message: 'PATCH /api/me failed.',
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return NextResponse.json({ error: 'Your account could not be updated.' }, { status: 500 });
+  }
+}
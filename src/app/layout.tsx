@@ -6,6 +6,11 @@ import '../styles/globals.css';
 import { Toaster } from "@/components/ui";
 import { AuthSessionProvider, QueryClientProvider, ThemeProvider } from '@/providers';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
+import type { User } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('RootLayout');
 
 const inter = Inter({
   variable: '--font-sans', // Changed to --font-sans for Tailwind compatibility
@@ -19,19 +24,46 @@ export const metadata: Metadata = {
   description: 'Secure password management by PassForge.',
 };
 
+/**
+ * Reads the signed-in user on the server, verified with Supabase Auth, to seed `AuthSessionProvider`.
+ *
+ * @returns {Promise<User | null | undefined>} The user, null when signed out, or undefined if the
+ *   session could not be checked, in which case the provider waits for the browser's first auth event.
+ */
+async function getInitialUser(): Promise<User | null | undefined> {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error } = await supabase.auth.getUser();
+    // A missing session is reported as an error too; it simply means no one is signed in.
+    if (error && error.name !== 'AuthSessionMissingError') {
+      logger.warn('RootLayout (Server): Could not verify the session for the initial user.', { error: error.message });
+      return undefined;
+    }
+    return user ?? null;
+  } catch (error) {
+    logger.error('RootLayout (Server): Reading the initial user failed.', { error: (error as Error).message });
+    return undefined;
+  }
+}
+
 /**
  * Root layout for the PassForge application.
  * Sets up global styles, fonts, and context providers.
+ * The user verified on the server is passed to `AuthSessionProvider` as its initial state, so
+ * client components know right away whether someone is signed in instead of showing skeletons
+ * until the browser's first auth event. Reading the session makes every page render dynamically.
  *
  * @param {object} props - The component's props.
  * @param {React.ReactNode} props.children - The child components to render.
- * @returns {JSX.Element} The root layout structure.
+ * @returns {Promise<JSX.Element>} The root layout structure.
  */
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
-}>): JSX.Element {
+}>): Promise<JSX.Element> {
+  const initialUser = await getInitialUser();
+
   return (
     <html lang="en" suppressHydrationWarning>
       <body className={`${inter.variable} font-sans antialiased`}>
@@ -41,7 +73,7 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <AuthSessionProvider> {/* Auth provider wraps QueryClientProvider */}
+          <AuthSessionProvider initialUser={initialUser}> {/* Auth provider wraps QueryClientProvider */}
             <QueryClientProvider>
               {children}
               <Toaster />
@@ -1,2 +1,3 @@
 
 export * from "./passforge-logo";
+export * from "./google-icon";
@@ -0,0 +1,122 @@
+import { createApiToken, revokeApiToken } from './api-token.actions';
+import { getApiTokens } from '../queries/api-token.queries';
+import { authenticateApiRequest } from '../utils/api-request-auth';
+import { API_TOKEN_PREFIX } from '../constants/api-tokens';
+import { FakeSupabase } from '@/lib/supabase/testing';
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(() => new Headers()),
+  cookies: jest.fn(() => ({ get: () => undefined, getAll: () => [], set: jest.fn() })),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  getServerLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const initialState = { success: false, message: null };
+
+function form(fields: Record<string, string | string[]>): FormData {
+  const formData = new FormData();
+  Object.keys(fields).forEach((name) => {
+    const value = fields[name]!;
+    (Array.isArray(value) ? value : [value]).forEach((item) => formData.append(name, item));
+  });
+  return formData;
+}
+
+function apiRequest(authorization?: string): Request {
+  return new Request('http://localhost:9002/api/me', authorization ? { headers: { authorization } } : {});
+}
+
+describe('personal access tokens', () => {
+  let supabase: FakeSupabase;
+  let userId: string;
+
+  beforeEach(() => {
+    supabase = new FakeSupabase();
+    supabase.install();
+    userId = supabase.auth.createUser({ email: 'ada@example.com' }).id;
+    supabase.auth.setCurrentUser(userId);
+  });
+
+  afterEach(() => supabase.uninstall());
+
+  it('shows the token once, stores only its hash and authenticates bearer requests as its owner', async () => {
+    const state = await createApiToken(initialState, form({ name: 'CI', scopes: ['profile:read'], expiresInDays: '30' }));
+
+    expect(state.success).toBe(true);
+    expect(state.token).toMatch(new RegExp(`^${API_TOKEN_PREFIX}`));
+    const [row] = supabase.db.rows('api_tokens');
+    expect(row?.['token_hash']).not.toEqual(state.token);
+    expect(JSON.stringify(row)).not.toContain(state.token!);
+
+    supabase.auth.setCurrentUser(null);
+    const result = await authenticateApiRequest(apiRequest(`Bearer ${state.token}`), 'profile:read');
+    expect(result).toEqual({
+      status: 'ok',
+      user: { userId, email: 'ada@example.com', via: 'token', scopes: ['profile:read'], tokenId: row?.['id'] },
+    });
+    expect(supabase.db.rows('api_tokens')[0]?.['last_used_at']).not.toBeNull();
+  });
+
+  it('refuses tokens without the required scope, and unknown or revoked tokens', async () => {
+    const { token } = await createApiToken(initialState, form({ name: 'Reader', scopes: ['profile:read'], expiresInDays: '7' }));
+
+    expect((await authenticateApiRequest(apiRequest(`Bearer ${token}`), 'profile:write')).status).toBe('forbidden');
+    expect((await authenticateApiRequest(apiRequest(`Bearer ${API_TOKEN_PREFIX}unknown`), 'profile:read')).status).toBe('unauthorized');
+
+    const [summary] = await getApiTokens();
+    const revoked = await revokeApiToken(initialState, form({ tokenId: summary!.id }));
+    expect(revoked.success).toBe(true);
+    expect((await authenticateApiRequest(apiRequest(`Bearer ${token}`), 'profile:read')).status).toBe('unauthorized');
+    expect((await getApiTokens())[0]?.status).toBe('revoked');
+  });
+
+  it('refuses tokens of banned users and of accounts with a pending deletion', async () => {
+    const { token } = await createApiToken(initialState, form({ name: 'Script', scopes: ['profile:read'], expiresInDays: '30' }));
+    supabase.auth.setCurrentUser(null);
+
+    await supabase.auth.admin.updateUserById(userId, { ban_duration: '24h' });
+    expect((await authenticateApiRequest(apiRequest(`Bearer ${token}`), 'profile:read')).status).toBe('unauthorized');
+    await supabase.auth.admin.updateUserById(userId, { ban_duration: 'none' });
+    expect((await authenticateApiRequest(apiRequest(`Bearer ${token}`), 'profile:read')).status).toBe('ok');
+
+    supabase.db.insertRow('account_deletions', { user_id: userId, requested_at: new Date().toISOString(), purge_after: '2026-11-18T00:00:00Z' });
+    expect((await authenticateApiRequest(apiRequest(`Bearer ${token}`), 'profile:read')).status).toBe('unauthorized');
+  });
+
+  it('accepts the session cookie with every scope, but never falls back to it for a bad token', async () => {
+    const session = await authenticateApiRequest(apiRequest(), 'profile:write');
+    expect(session).toMatchObject({ status: 'ok', user: { userId, via: 'session', tokenId: null } });
+
+    expect((await authenticateApiRequest(apiRequest('Bearer nope'), 'profile:read')).status).toBe('unauthorized');
+  });
+
+  it('refuses sessions of guests, with a pending MFA challenge, or past their time limits', async () => {
+    const twelveHoursLater = new Date(Date.now() + 12 * 60 * 60 * 1000);
+    expect(await authenticateApiRequest(apiRequest(), 'profile:read', twelveHoursLater))
+      .toMatchObject({ status: 'unauthorized', message: expect.stringContaining('expired') });
+
+    supabase.auth.setAssuranceLevel('aal1', 'aal2');
+    expect(await authenticateApiRequest(apiRequest(), 'profile:read'))
+      .toMatchObject({ status: 'unauthorized', message: 'Multi-factor authentication required.' });
+    expect((await createApiToken(initialState, form({ name: 'CI', scopes: ['profile:read'], expiresInDays: '30' }))).success).toBe(false);
+    expect(supabase.db.rows('api_tokens')).toHaveLength(0);
+
+    supabase.auth.setAssuranceLevel('aal2', 'aal2');
+    expect((await authenticateApiRequest(apiRequest(), 'profile:read')).status).toBe('ok');
+
+    const guest = supabase.auth.createUser({ email: 'guest@example.com' });
+    guest.is_anonymous = true;
+    supabase.auth.setCurrentUser(guest.id);
+    expect((await authenticateApiRequest(apiRequest(), 'profile:read')).status).toBe('unauthorized');
+  });
+
+  it('rejects invalid input with field errors', async () => {
+    const state = await createApiToken(initialState, form({ name: '', expiresInDays: '12' }));
+
+    expect(state.success).toBe(false);
+    expect(Object.keys(state.errorFields ?? {}).sort()).toEqual(['expiresInDays', 'name', 'scopes']);
+    expect(supabase.db.rows('api_tokens')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,124 @@
+// src/features/api-tokens/actions/api-token.actions.ts
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { AuthActionState } from "@/features/auth/types";
+import * as apiTokenService from '../services/api-token.service';
+import { CreateApiTokenSchema, apiTokenIdSchema } from "../schemas/api-token.schema";
+import { API_TOKEN_MAX_ACTIVE } from "../constants/api-tokens";
+import type { ApiTokenActionState } from "../types";
+import { generateApiToken } from "../utils/api-token-secret";
+import { storeApiToken } from "../utils/api-token-store";
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('ApiTokenActions');
+
+/**
+ * Returns the current user if they have a permanent account. Guests cannot create tokens, since
+ * their account disappears when they sign out. Users with a second factor must have completed the
+ * challenge in this session, so a stolen password alone cannot mint a token.
+ *
+ * @returns {Promise<{ id: string } | null>} The user, or null.
+ */
+async function getCurrentAccountUser(): Promise<{ id: string } | null> {
+  const supabase = await createClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user || user.is_anonymous) {
+    return null;
+  }
+
+  const { data: aal, error: aalError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (aalError || !aal || (aal.nextLevel === 'aal2' && aal.currentLevel !== 'aal2')) {
+    logger.warn(`API token creation refused for user ${user.id}: the MFA challenge has not been completed.`);
+    return null;
+  }
+  return { id: user.id };
+}
+
+/**
+ * Server Action to create a personal access token for the API. The token is returned once in
+ * `token` and only its hash is stored, so it cannot be shown again.
+ *
+ * @param {ApiTokenActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'name', 'expiresInDays' and one or more 'scopes'.
+ * @returns {Promise<ApiTokenActionState>} The new state, with the token on success.
+ */
+export async function createApiToken(_prevState: ApiTokenActionState, formData: FormData): Promise<ApiTokenActionState> {
+  const user = await getCurrentAccountUser();
+  if (!user) {
+    logger.warn('API token creation attempted without a permanent account.');
+    return { success: false, message: "Save your account to create API tokens." };
+  }
+
+  const validation = CreateApiTokenSchema.safeParse({
+    name: formData.get("name"),
+    scopes: formData.getAll("scopes"),
+    expiresInDays: formData.get("expiresInDays"),
+  });
+  if (!validation.success) {
+    const fieldErrors = validation.error.flatten().fieldErrors;
+    return {
+      success: false,
+      message: "Please check the highlighted fields.",
+      errorFields: Object.fromEntries(
+        Object.entries(fieldErrors).map(([field, messages]) => [field, (messages ?? []).join(", ")]),
+      ),
+    };
+  }
+
+  const { count, error: countError } = await apiTokenService.countActiveApiTokensWithSupabase(user.id);
+  if (countError || count === null) {
+    return { success: false, message: "The token could not be created. Please try again." };
+  }
+  if (count >= API_TOKEN_MAX_ACTIVE) {
+    return { success: false, message: `You can have at most ${API_TOKEN_MAX_ACTIVE} active tokens. Revoke one first.` };
+  }
+
+  const { name, scopes, expiresInDays } = validation.data;
+  const { token, tokenHash, tokenPrefix } = generateApiToken();
+  const { error } = await storeApiToken({
+    userId: user.id,
+    name,
+    tokenPrefix,
+    tokenHash,
+    scopes,
+    expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+  });
+  if (error) {
+    return { success: false, message: "The token could not be created. Please try again." };
+  }
+
+  logger.info(`API token created by user: ${user.id}`);
+  return { success: true, message: `Token "${name}" created. Copy it now; it will not be shown again.`, token };
+}
+
+/**
+ * Server Action to revoke one of the current user's personal access tokens.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'tokenId'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function revokeApiToken(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const idValidation = apiTokenIdSchema.safeParse(formData.get("tokenId"));
+  if (!idValidation.success) {
+    return { success: false, message: idValidation.error.errors.map((e) => e.message).join(", ") };
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, message: "Please log in to manage your API tokens." };
+  }
+
+  const { revoked, error } = await apiTokenService.revokeApiTokenWithSupabase(user.id, idValidation.data);
+  if (error) {
+    return { success: false, message: "The token could not be revoked. Please try again." };
+  }
+  if (!revoked) {
+    return { success: false, message: "This token was not found or is already revoked." };
+  }
+
+  logger.info(`API token ${idValidation.data} revoked by user: ${user.id}`);
+  return { success: true, message: "The token has been revoked." };
+}
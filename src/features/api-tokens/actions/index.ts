@@ -0,0 +1,2 @@
+// src/features/api-tokens/actions/index.ts
+export * from './api-token.actions';
@@ -0,0 +1,37 @@
+// src/features/api-tokens/constants/api-tokens.ts
+
+/**
+ * What a personal access token may do:
+ * - `profile:read`: read the account's profile (`GET /api/me`).
+ * - `profile:write`: change the account's profile (`PATCH /api/me`).
+ *
+ * Requests authenticated with the session cookie have every scope.
+ */
+export type ApiTokenScope = 'profile:read' | 'profile:write';
+
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = ['profile:read', 'profile:write'];
+
+export const API_TOKEN_SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  'profile:read': 'Read your profile',
+  'profile:write': 'Update your profile',
+};
+
+/** Every token starts with this, so leaked tokens are easy to recognize (e.g. by secret scanners). */
+export const API_TOKEN_PREFIX = 'pf_';
+
+/** How many characters of a token (after `API_TOKEN_PREFIX`) are stored and shown to tell tokens apart. */
+export const API_TOKEN_VISIBLE_CHARACTERS = 6;
+
+/** The lifetimes offered when creating a token, in days. Tokens always expire. */
+export const API_TOKEN_EXPIRY_OPTIONS_DAYS = [7, 30, 90, 365] as const;
+
+export const API_TOKEN_DEFAULT_EXPIRY_DAYS = 30;
+
+/** How many tokens that are neither revoked nor expired a user can hold. */
+export const API_TOKEN_MAX_ACTIVE = 20;
+
+/** `last_used_at` is written at most this often per token, so busy scripts do not write on every request. */
+export const API_TOKEN_LAST_USED_PRECISION_SECONDS = 60;
+
+/** The state of a token as shown on the security page. */
+export type ApiTokenStatus = 'active' | 'expired' | 'revoked';
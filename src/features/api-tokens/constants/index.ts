@@ -0,0 +1,2 @@
+// src/features/api-tokens/constants/index.ts
+export * from './api-tokens';
@@ -0,0 +1,2 @@
+// src/features/api-tokens/hooks/index.ts
+export * from './use-api-tokens-query';
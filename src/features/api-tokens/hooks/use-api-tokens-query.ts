@@ -0,0 +1,22 @@
+// src/features/api-tokens/hooks/use-api-tokens-query.ts
+'use client';
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { getApiTokens } from '../queries/api-token.queries';
+import { type ApiTokenSummary } from '../types';
+
+/**
+ * Custom hook to fetch the signed-in user's personal access tokens using TanStack Query.
+ *
+ * @param userId - The ID of the signed-in user. The query is enabled only if it is provided.
+ * @returns The TanStack Query result, with `data` holding the tokens.
+ */
+export const useApiTokensQuery = (
+  userId: string | null | undefined,
+): UseQueryResult<ApiTokenSummary[], Error> => {
+  return useQuery<ApiTokenSummary[], Error, ApiTokenSummary[], (string | null | undefined)[]>({
+    queryKey: ['apiTokens', userId],
+    queryFn: () => getApiTokens(),
+    enabled: !!userId,
+  });
+};
@@ -0,0 +1,7 @@
+// src/features/api-tokens/index.ts
+export * from './constants';
+export * from './hooks';
+export * from './queries';
+export * from './schemas';
+export * from './services';
+export * from './types';
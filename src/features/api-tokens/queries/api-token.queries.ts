@@ -0,0 +1,40 @@
+// src/features/api-tokens/queries/api-token.queries.ts
+"use server";
+
+import { createClient } from '@/lib/supabase/server';
+import * as apiTokenService from '../services/api-token.service';
+import type { ApiTokenSummary } from '../types';
+import { getApiTokenStatus } from '../utils/api-token-status';
+
+/**
+ * Server Action to get the signed-in user's personal access tokens, for the security page.
+ * This function is intended to be used as a queryFn for TanStack Query.
+ *
+ * @returns {Promise<ApiTokenSummary[]>} The tokens, newest first. Empty without a session.
+ * @throws {Error} If the tokens cannot be listed.
+ */
+export async function getApiTokens(): Promise<ApiTokenSummary[]> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await apiTokenService.listApiTokensWithSupabase(user.id);
+  if (error || !data) {
+    throw new Error(`Failed to load API tokens: ${error?.message ?? 'no data returned'}`);
+  }
+
+  const now = new Date();
+  return data.map((token) => {
+    const summary = {
+      id: token.id,
+      name: token.name,
+      tokenPrefix: token.token_prefix,
+      scopes: token.scopes,
+      expiresAt: token.expires_at,
+      lastUsedAt: token.last_used_at,
+      revokedAt: token.revoked_at,
+      createdAt: token.created_at,
+    };
+    return { ...summary, status: getApiTokenStatus(summary, now) };
+  });
+}
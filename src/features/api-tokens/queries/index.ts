@@ -0,0 +1,2 @@
+// src/features/api-tokens/queries/index.ts
+export * from "./api-token.queries";
@@ -0,0 +1,42 @@
+// src/features/api-tokens/schemas/api-token.schema.ts
+import { z } from 'zod';
+import { UserProfileSchema } from '@/features/user-auth-data/schemas/profile.schema';
+import { API_TOKEN_EXPIRY_OPTIONS_DAYS, API_TOKEN_SCOPES, type ApiTokenScope } from '../constants/api-tokens';
+
+/**
+ * Schema for the form that creates a personal access token.
+ */
+export const CreateApiTokenSchema = z.object({
+  name: z
+    .string({ required_error: 'A name is required.' })
+    .trim()
+    .min(1, { message: 'A name is required.' })
+    .max(60, { message: 'The name must be at most 60 characters.' }),
+  scopes: z
+    .array(z.string())
+    .min(1, { message: 'Choose at least one scope.' })
+    .refine((scopes) => scopes.every((scope) => (API_TOKEN_SCOPES as readonly string[]).includes(scope)), { message: 'Choose valid scopes.' })
+    .transform((scopes) => API_TOKEN_SCOPES.filter((scope) => scopes.includes(scope)) as ApiTokenScope[]),
+  expiresInDays: z.coerce
+    .number({ invalid_type_error: 'Choose an expiry.' })
+    .refine((days) => (API_TOKEN_EXPIRY_OPTIONS_DAYS as readonly number[]).includes(days), { message: 'Choose a valid expiry.' }),
+});
+
+export type CreateApiTokenInput = z.infer<typeof CreateApiTokenSchema>;
+
+/**
+ * Schema for the ID of a token to revoke.
+ */
+export const apiTokenIdSchema = z.string().uuid({ message: 'Invalid token.' });
+
+/**
+ * Schema for the body of `PATCH /api/me`: the profile fields scripts may change. Unknown fields are
+ * refused rather than ignored, so typos do not look like successful updates.
+ */
+export const ApiProfileUpdateSchema = UserProfileSchema
+  .pick({ firstName: true, lastName: true, language: true, bio: true })
+  .partial()
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, { message: 'Provide at least one field to update.' });
+
+export type ApiProfileUpdate = z.infer<typeof ApiProfileUpdateSchema>;
@@ -0,0 +1,2 @@
+// src/features/api-tokens/schemas/index.ts
+export * from './api-token.schema';
@@ -0,0 +1,112 @@
+// src/features/api-tokens/services/api-token.service.ts
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getServerLogger } from '@/lib/logger';
+import type { ApiTokenScope } from '../constants/api-tokens';
+
+const logger = getServerLogger('ApiTokenService');
+
+/**
+ * A token row as selected by `listApiTokensWithSupabase`. The hash is never selected.
+ */
+export interface ApiTokenRow {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  expires_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Lists the current user's personal access tokens, newest first.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<{ data: ApiTokenRow[] | null, error: Error | null }>} The tokens, or an error.
+ */
+export async function listApiTokensWithSupabase(userId: string) {
+  logger.info(`Listing API tokens for user: ${userId}`);
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .select('id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error({
+      message: `Listing API tokens for user ${userId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  const tokens = (data ?? []) as ApiTokenRow[];
+  logger.info(`Listing API tokens successful. Token count: ${tokens.length}`);
+  return { data: tokens, error: null };
+}
+
+/**
+ * Counts the current user's tokens that are neither revoked nor expired.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<{ count: number | null, error: Error | null }>} The count, or an error.
+ */
+export async function countActiveApiTokensWithSupabase(userId: string) {
+  const supabase = await createClient();
+  const { count, error } = await supabase
+    .from('api_tokens')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) {
+    logger.error({
+      message: `Counting API tokens for user ${userId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { count: null, error };
+  }
+  return { count: count ?? 0, error: null };
+}
+
+/**
+ * Revokes one of the current user's tokens; requests using it are refused from then on.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} userId - The ID of the owner.
+ * @param {string} tokenId - The ID of the token.
+ * @returns {Promise<{ revoked: boolean, error: Error | null }>} Whether an unrevoked token was revoked, or an error.
+ */
+export async function revokeApiTokenWithSupabase(userId: string, tokenId: string) {
+  logger.info(`Revoking API token ${tokenId} of user ${userId}.`);
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    logger.error({
+      message: `Revoking API token ${tokenId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { revoked: false, error };
+  }
+
+  const revoked = (data ?? []).length > 0;
+  logger.info(`API token revocation completed. Revoked: ${revoked}`);
+  return { revoked, error: null };
+}
@@ -0,0 +1,2 @@
+// src/features/api-tokens/services/index.ts
+export * from './api-token.service';
@@ -0,0 +1,42 @@
+// src/features/api-tokens/types/api-token.types.ts
+import type { AuthActionState } from '@/features/auth/types';
+import type { ApiTokenScope, ApiTokenStatus } from '../constants/api-tokens';
+
+/**
+ * A personal access token as listed on the security page. The secret is never included.
+ */
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  /** The start of the token, e.g. `pf_a1B2c3`, to tell tokens apart. */
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  status: ApiTokenStatus;
+}
+
+/**
+ * The state of the form that creates a token. `token` holds the secret on success; it is shown
+ * once and cannot be retrieved later.
+ */
+export interface ApiTokenActionState extends AuthActionState {
+  token?: string | null;
+}
+
+/**
+ * Who an API request acts for, as resolved by `authenticateApiRequest` from either the session
+ * cookie or a bearer token.
+ */
+export interface ApiUserContext {
+  userId: string;
+  email: string | null;
+  /** How the request was authenticated. */
+  via: 'session' | 'token';
+  /** What the request may do; every scope for session requests. */
+  scopes: ApiTokenScope[];
+  /** The token used, for token requests. */
+  tokenId: string | null;
+}
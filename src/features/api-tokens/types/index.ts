@@ -0,0 +1,2 @@
+// src/features/api-tokens/types/index.ts
+export * from './api-token.types';
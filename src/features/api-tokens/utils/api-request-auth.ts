@@ -0,0 +1,200 @@
+// src/features/api-tokens/utils/api-request-auth.ts
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getServerLogger } from '@/lib/logger';
+import { SESSION_ACTIVITY_COOKIE } from '@/features/auth/constants/session-timeouts';
+import { evaluateSessionTimeouts, readSessionClaims } from '@/features/auth/utils/session-timeouts';
+import { API_TOKEN_LAST_USED_PRECISION_SECONDS, API_TOKEN_SCOPES, type ApiTokenScope } from '../constants/api-tokens';
+import type { ApiUserContext } from '../types';
+import { hashApiToken } from './api-token-secret';
+import { getApiTokenStatus, hasApiScope, parseBearerToken } from './api-token-status';
+
+// Deliberately not a "use server" module: it looks tokens up with the service role, and its exports
+// would otherwise become endpoints callable from the browser. Not part of the utils barrel.
+
+const logger = getServerLogger('ApiRequestAuth');
+
+/** The outcome of `authenticateApiRequest`. */
+export type ApiAuthResult =
+  | { status: 'ok'; user: ApiUserContext }
+  | { status: 'unauthorized' | 'forbidden'; message: string; requiredScope: ApiTokenScope };
+
+interface ApiTokenLookupRow {
+  id: string;
+  user_id: string;
+  scopes: ApiTokenScope[];
+  expires_at: string;
+  revoked_at: string | null;
+  last_used_at: string | null;
+}
+
+/**
+ * Resolves a bearer token to its user. Records when the token was used, at most once per
+ * `API_TOKEN_LAST_USED_PRECISION_SECONDS`.
+ *
+ * @param {string} token - The token from the Authorization header.
+ * @param {Date} now - The current time.
+ * @returns {Promise<ApiUserContext | null>} The user, or null if the token is unknown, revoked or expired,
+ *   or its user is banned or has a pending account deletion.
+ * @throws {Error} If the token or the user's pending deletion cannot be looked up.
+ */
+async function authenticateToken(token: string, now: Date): Promise<ApiUserContext | null> {
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from('api_tokens')
+    .select('id, user_id, scopes, expires_at, revoked_at, last_used_at')
+    .eq('token_hash', hashApiToken(token))
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to look up API token: ${error.message}`);
+  }
+
+  const row = data as ApiTokenLookupRow | null;
+  if (!row || getApiTokenStatus({ revokedAt: row.revoked_at, expiresAt: row.expires_at }, now) !== 'active') {
+    return null;
+  }
+
+  const { data: { user }, error: userError } = await admin.auth.admin.getUserById(row.user_id);
+  if (userError || !user) {
+    logger.warn(`API token ${row.id} belongs to a user that could not be loaded.`, { error: userError?.message });
+    return null;
+  }
+
+  // Tokens do not go through Supabase sign-in, so they must be refused here for the accounts it would refuse.
+  const bannedUntil = (user as typeof user & { banned_until?: string | null }).banned_until;
+  if (bannedUntil && new Date(bannedUntil).getTime() > now.getTime()) {
+    logger.warn(`API token ${row.id} refused: user ${user.id} is banned until ${bannedUntil}.`);
+    return null;
+  }
+  const { data: deletion, error: deletionError } = await admin
+    .from('account_deletions')
+    .select('user_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (deletionError) {
+    throw new Error(`Failed to look up account deletion: ${deletionError.message}`);
+  }
+  if (deletion) {
+    logger.warn(`API token ${row.id} refused: user ${user.id} has requested the deletion of their account.`);
+    return null;
+  }
+
+  const lastUsed = row.last_used_at ? new Date(row.last_used_at).getTime() : 0;
+  if (now.getTime() - lastUsed >= API_TOKEN_LAST_USED_PRECISION_SECONDS * 1000) {
+    const { error: touchError } = await admin.from('api_tokens').update({ last_used_at: now.toISOString() }).eq('id', row.id);
+    if (touchError) {
+      logger.error({
+        message: `Recording the use of API token ${row.id} failed.`,
+        error: { name: touchError.name, message: touchError.message, code: touchError.code },
+      });
+    }
+  }
+
+  return { userId: user.id, email: user.email || null, via: 'token', scopes: row.scopes, tokenId: row.id };
+}
+
+/**
+ * Resolves the Supabase session cookie to its user, with the same rules as pages: guests are refused
+ * (the API is for permanent accounts, like tokens), users with a second factor must have completed the
+ * challenge, and the session must be within its idle timeout and maximum age. The middleware enforces
+ * these for pages but does not run for `/api`. API calls do not count as activity, so a script holding
+ * a browser cookie cannot keep an abandoned session alive.
+ *
+ * @param {Date} now - The current time.
+ * @returns {Promise<{ user: ApiUserContext } | { message: string }>} The user, or why the session is refused.
+ */
+async function authenticateSession(now: Date): Promise<{ user: ApiUserContext } | { message: string }> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { message: 'Authentication required.' };
+  }
+  if (user.is_anonymous) {
+    logger.warn(`API request refused for guest session of user ${user.id}.`);
+    return { message: 'Guest sessions cannot use the API. Save your account first.' };
+  }
+
+  const { data: aal, error: aalError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  // nextLevel is 'aal2' as soon as the user has a verified factor; currentLevel only reaches 'aal2' after a challenge.
+  if (aalError || !aal || (aal.nextLevel === 'aal2' && aal.currentLevel !== 'aal2')) {
+    logger.warn(`API request refused for user ${user.id}: the MFA challenge has not been completed.`);
+    return { message: 'Multi-factor authentication required.' };
+  }
+
+  // getUser() has just validated this session's access token, so its claims can be trusted.
+  const { data: { session } } = await supabase.auth.getSession();
+  const claims = readSessionClaims(session?.access_token);
+  if (!claims) {
+    return { message: 'Authentication required.' };
+  }
+  const activityCookie = (await cookies()).get(SESSION_ACTIVITY_COOKIE)?.value;
+  const verdict = await evaluateSessionTimeouts(claims, activityCookie, { now: Math.floor(now.getTime() / 1000), recordActivity: false });
+  if (verdict.status === 'expired') {
+    logger.info(`API request refused for user ${user.id}: the session reached the ${verdict.reason} limit.`);
+    return { message: 'Your session has expired. Please log in again.' };
+  }
+
+  return { user: { userId: user.id, email: user.email || null, via: 'session', scopes: [...API_TOKEN_SCOPES], tokenId: null } };
+}
+
+/**
+ * The shared guard for route handlers under `/api`, which the middleware does not cover.
+ * Accepts either a personal access token (`Authorization: Bearer pf_...`) or the Supabase session
+ * cookie, and resolves both to the same user context. When an Authorization header is present the
+ * cookie is ignored, so a bad token never falls back to the browser session. Session requests have
+ * every scope; token requests only those the token was created with. Sessions are checked like pages
+ * (see `authenticateSession`).
+ *
+ * Token requests carry no Supabase session, so handlers must read and write data for `user.userId`
+ * with `createAdminClient()` and filter by it explicitly; Row Level Security does not apply.
+ *
+ * @param {Request} request - The incoming request.
+ * @param {ApiTokenScope} requiredScope - The scope the operation needs.
+ * @param {Date} [now=new Date()] - The current time.
+ * @returns {Promise<ApiAuthResult>} The user context, or why the request is refused.
+ * @throws {Error} If a token cannot be looked up.
+ */
+export async function authenticateApiRequest(request: Request, requiredScope: ApiTokenScope, now: Date = new Date()): Promise<ApiAuthResult> {
+  const authorization = request.headers.get('authorization');
+
+  let user: ApiUserContext | null;
+  if (authorization !== null) {
+    const token = parseBearerToken(authorization);
+    user = token ? await authenticateToken(token, now) : null;
+    if (!user) {
+      logger.warn('API request with an invalid, revoked or expired token.');
+      return { status: 'unauthorized', message: 'Invalid, revoked or expired token.', requiredScope };
+    }
+  } else {
+    const session = await authenticateSession(now);
+    if ('message' in session) {
+      return { status: 'unauthorized', message: session.message, requiredScope };
+    }
+    user = session.user;
+  }
+
+  if (!hasApiScope(user.scopes, requiredScope)) {
+    logger.warn(`API token ${user.tokenId} used without the ${requiredScope} scope.`);
+    return { status: 'forbidden', message: `This token does not have the ${requiredScope} scope.`, requiredScope };
+  }
+  return { status: 'ok', user };
+}
+
+/**
+ * Builds the error response for a refused API request, with the `WWW-Authenticate` header
+ * bearer-token clients expect (RFC 6750).
+ *
+ * @param {Exclude<ApiAuthResult, { status: 'ok' }>} result - The refusal from `authenticateApiRequest`.
+ * @returns {NextResponse} A 401 or 403 response.
+ */
+export function apiAuthErrorResponse(result: Exclude<ApiAuthResult, { status: 'ok' }>): NextResponse {
+  const challenge = result.status === 'forbidden'
+    ? `Bearer error="insufficient_scope", scope="${result.requiredScope}"`
+    : 'Bearer';
+  return NextResponse.json(
+    { error: result.message },
+    { status: result.status === 'forbidden' ? 403 : 401, headers: { 'WWW-Authenticate': challenge } },
+  );
+}
@@ -0,0 +1,29 @@
+// src/features/api-tokens/utils/api-token-secret.ts
+import { createHash, randomBytes } from 'crypto';
+import { API_TOKEN_PREFIX, API_TOKEN_VISIBLE_CHARACTERS } from '../constants/api-tokens';
+
+// Server-only (Node crypto). Not part of the utils barrel, which client components import.
+
+/**
+ * Hashes a token for storage and lookup. Tokens carry 256 random bits, so a fast hash is enough;
+ * a leaked `api_tokens` table does not contain usable tokens.
+ *
+ * @param {string} token - The token.
+ * @returns {string} The SHA-256 hash, hex-encoded.
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generates a personal access token such as `pf_a1B2c3...` (the prefix plus 43 base64url characters).
+ * @returns {{ token: string, tokenHash: string, tokenPrefix: string }} The token to show once, its hash, and its visible start.
+ */
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.substring(0, API_TOKEN_PREFIX.length + API_TOKEN_VISIBLE_CHARACTERS),
+  };
+}
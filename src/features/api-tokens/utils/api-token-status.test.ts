@@ -0,0 +1,35 @@
+import { getApiTokenStatus, hasApiScope, parseBearerToken } from './api-token-status';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('getApiTokenStatus', () => {
+  it('reports tokens before their expiry as active and others as expired', () => {
+    expect(getApiTokenStatus({ revokedAt: null, expiresAt: '2026-11-18T12:00:00Z' }, NOW)).toBe('active');
+    expect(getApiTokenStatus({ revokedAt: null, expiresAt: '2026-10-19T12:00:00Z' }, NOW)).toBe('expired');
+  });
+
+  it('reports revocation before expiry', () => {
+    expect(getApiTokenStatus({ revokedAt: '2026-10-01T00:00:00Z', expiresAt: '2026-10-02T00:00:00Z' }, NOW)).toBe('revoked');
+  });
+});
+
+describe('parseBearerToken', () => {
+  it('extracts the app\'s tokens from a bearer header', () => {
+    expect(parseBearerToken('Bearer pf_abc123')).toBe('pf_abc123');
+    expect(parseBearerToken('bearer   pf_abc123 ')).toBe('pf_abc123');
+  });
+
+  it('ignores missing headers, other schemes and foreign tokens', () => {
+    expect(parseBearerToken(null)).toBeNull();
+    expect(parseBearerToken('Basic cGY6eA==')).toBeNull();
+    expect(parseBearerToken('Bearer eyJhbGciOiJIUzI1NiJ9.e30.sig')).toBeNull();
+    expect(parseBearerToken('Bearer pf_a pf_b')).toBeNull();
+  });
+});
+
+describe('hasApiScope', () => {
+  it('allows only granted scopes', () => {
+    expect(hasApiScope(['profile:read'], 'profile:read')).toBe(true);
+    expect(hasApiScope(['profile:read'], 'profile:write')).toBe(false);
+  });
+});
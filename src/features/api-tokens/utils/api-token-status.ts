@@ -0,0 +1,39 @@
+// src/features/api-tokens/utils/api-token-status.ts
+import { API_TOKEN_PREFIX, type ApiTokenScope, type ApiTokenStatus } from '../constants/api-tokens';
+
+/**
+ * Works out whether a token can still be used: revoked first, then expired.
+ *
+ * @param {object} token - The token's limits.
+ * @param {string | null} token.revokedAt - When the token was revoked, if it was.
+ * @param {string} token.expiresAt - When the token expires.
+ * @param {Date} [now=new Date()] - The current time.
+ * @returns {ApiTokenStatus} The token's status.
+ */
+export function getApiTokenStatus(token: { revokedAt: string | null; expiresAt: string }, now: Date = new Date()): ApiTokenStatus {
+  if (token.revokedAt) return 'revoked';
+  if (new Date(token.expiresAt).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+/**
+ * Extracts a personal access token from an `Authorization: Bearer <token>` header.
+ *
+ * @param {string | null} authorization - The Authorization header.
+ * @returns {string | null} The token, or null when the header is missing or is not a bearer token with the app's prefix.
+ */
+export function parseBearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  const token = match?.[1];
+  return token && token.startsWith(API_TOKEN_PREFIX) ? token : null;
+}
+
+/**
+ * Whether a set of granted scopes allows an operation.
+ * @param {readonly ApiTokenScope[]} granted - The scopes of the token or session.
+ * @param {ApiTokenScope} required - The scope the operation needs.
+ * @returns {boolean} Whether the operation is allowed.
+ */
+export function hasApiScope(granted: readonly ApiTokenScope[], required: ApiTokenScope): boolean {
+  return granted.includes(required);
+}
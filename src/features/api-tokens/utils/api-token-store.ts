@@ -0,0 +1,55 @@
+// src/features/api-tokens/utils/api-token-store.ts
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getServerLogger } from '@/lib/logger';
+import type { ApiTokenScope } from '../constants/api-tokens';
+
+// Deliberately not a "use server" module: it inserts tokens with the service role, which is the only
+// role allowed to, and its exports would otherwise become endpoints callable from the browser.
+// Not part of the utils barrel.
+
+const logger = getServerLogger('ApiTokenStore');
+
+/**
+ * Stores a personal access token created by `createApiToken`. Users cannot insert tokens themselves,
+ * so the hash, scopes and expiry date in the table are only ever what the action validated.
+ * Logs the attempt and the outcome (never the token or its hash).
+ *
+ * @param {object} token - The token to store.
+ * @param {string} token.userId - The ID of the owner.
+ * @param {string} token.name - The name the user gave it.
+ * @param {string} token.tokenPrefix - The visible start of the token.
+ * @param {string} token.tokenHash - The hash of the token.
+ * @param {ApiTokenScope[]} token.scopes - What the token may do.
+ * @param {string} token.expiresAt - When it expires (ISO string).
+ * @returns {Promise<{ error: Error | null }>} An error if the token could not be stored.
+ */
+export async function storeApiToken(token: {
+  userId: string;
+  name: string;
+  tokenPrefix: string;
+  tokenHash: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string;
+}): Promise<{ error: Error | null }> {
+  logger.info(`Creating API token for user: ${token.userId}`, { scopes: token.scopes, expiresAt: token.expiresAt });
+  const { error } = await createAdminClient().from('api_tokens').insert({
+    user_id: token.userId,
+    name: token.name,
+    token_prefix: token.tokenPrefix,
+    token_hash: token.tokenHash,
+    scopes: token.scopes,
+    expires_at: token.expiresAt,
+  });
+
+  if (error) {
+    logger.error({
+      message: `Creating API token for user ${token.userId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { error };
+  }
+
+  logger.info('API token created.');
+  return { error: null };
+}
@@ -0,0 +1,2 @@
+// src/features/api-tokens/utils/index.ts
+export * from './api-token-status';
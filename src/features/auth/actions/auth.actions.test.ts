@@ -0,0 +1,145 @@
+import type { NextRequest } from 'next/server';
+import { requestPasswordReset, signInWithPassword, signUpNewUser, updateUserPassword, verifyEmailOtp } from './auth.actions';
+import { GET as confirmLink } from '@/app/(auth)/auth/confirm/route';
+import { FakeSupabase } from '@/lib/supabase/testing';
+
+const mockRequestHeaders = new Headers({ origin: 'http://localhost:9002', 'x-forwarded-for': '203.0.113.7' });
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(() => mockRequestHeaders),
+  cookies: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  getServerLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const PASSWORD = 'Plum-Tractor-42-Lantern';
+const initialState = { success: false, message: null };
+
+function form(fields: Record<string, string>): FormData {
+  const formData = new FormData();
+  Object.keys(fields).forEach((name) => formData.set(name, fields[name]!));
+  return formData;
+}
+
+function signUpForm(email: string): FormData {
+  return form({ firstName: 'Ada', lastName: 'Lovelace', email, password: PASSWORD, confirmPassword: PASSWORD });
+}
+
+/** Resolves to the redirect target when the action redirects, as `redirect()` throws. */
+async function redirectOf(action: Promise<unknown>): Promise<string | null> {
+  try {
+    await action;
+    return null;
+  } catch (error) {
+    const digest = (error as { digest?: string }).digest ?? '';
+    if (!digest.startsWith('NEXT_REDIRECT')) throw error;
+    return digest.split(';')[2] ?? null;
+  }
+}
+
+describe('auth actions against the fake Supabase', () => {
+  let supabase: FakeSupabase;
+
+  beforeEach(() => {
+    supabase = new FakeSupabase();
+    supabase.install();
+    mockRequestHeaders.delete('accept-language');
+  });
+
+  afterEach(() => supabase.uninstall());
+
+  it('signs up, confirms the email link and signs in', async () => {
+    const email = 'ada@example.com';
+
+    const signUp = await signUpNewUser(initialState, signUpForm(email));
+    expect(signUp).toEqual(expect.objectContaining({ success: true }));
+    const user = supabase.auth.findUserByEmail(email)!;
+    expect(user.app_metadata['admitted']).toBe(true);
+    expect(supabase.db.rows('profiles')).toEqual([expect.objectContaining({ id: user.id, first_name: 'Ada', last_name: 'Lovelace' })]);
+
+    const beforeConfirming = await signInWithPassword(initialState, form({ email, password: PASSWORD }));
+    expect(beforeConfirming).toEqual(expect.objectContaining({ success: false, errorCode: 'email_not_confirmed' }));
+
+    const link = supabase.auth.lastEmail(email, 'signup')!;
+    expect(link.redirectTo).toBe('http://localhost:9002/auth/confirm');
+    const confirmed = await redirectOf(confirmLink({ url: `http://localhost:9002/auth/confirm?token_hash=${link.tokenHash}&type=signup` } as NextRequest));
+    expect(confirmed).toBe('/dashboard');
+    await supabase.auth.signOut();
+
+    expect(await redirectOf(signInWithPassword(initialState, form({ email, password: PASSWORD, next: '/dashboard/profile' })))).toBe('/dashboard/profile');
+    expect(supabase.auth.signedInUserId).toBe(user.id);
+    expect(supabase.db.rows('auth_events')).toEqual(expect.arrayContaining([
+      expect.objectContaining({ event_type: 'sign_in', outcome: 'success', user_id: user.id }),
+    ]));
+  });
+
+  it('answers a sign-up for an existing account like a new one', async () => {
+    supabase.auth.createUser({ email: 'taken@example.com', password: PASSWORD });
+
+    const result = await signUpNewUser(initialState, signUpForm('taken@example.com'));
+
+    expect(result).toEqual(await signUpNewUser(initialState, signUpForm('new@example.com')));
+    expect(supabase.auth.lastEmail('taken@example.com')).toBeUndefined();
+    expect(supabase.auth.findUserByEmail('taken@example.com')!.app_metadata['admitted']).toBeUndefined();
+  });
+
+  it('stops checking email codes after repeated wrong guesses', async () => {
+    const email = 'otp-guess@example.com';
+    supabase.auth.createUser({ email });
+    await supabase.auth.signInWithOtp({ email });
+    const code = supabase.auth.lastEmail(email, 'magiclink')!.token;
+    const wrongCode = code === '000000' ? '111111' : '000000';
+
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      expect(await verifyEmailOtp(initialState, form({ email, token: wrongCode }))).toEqual(expect.objectContaining({ errorCode: 'invalid_code' }));
+    }
+    expect(await verifyEmailOtp(initialState, form({ email, token: code }))).toEqual(expect.objectContaining({ errorCode: 'rate_limited' }));
+    expect(supabase.auth.signedInUserId).toBeNull();
+  });
+
+  it('rejects a wrong password with a localized message', async () => {
+    supabase.auth.createUser({ email: 'grace@example.com', password: PASSWORD });
+    mockRequestHeaders.set('accept-language', 'fr-CA,fr;q=0.9');
+
+    const result = await signInWithPassword(initialState, form({ email: 'grace@example.com', password: 'not-the-password' }));
+
+    expect(result).toEqual(expect.objectContaining({
+      success: false,
+      errorCode: 'invalid_credentials',
+      message: 'Adresse e-mail ou mot de passe incorrect.',
+    }));
+    expect(supabase.auth.signedInUserId).toBeNull();
+  });
+
+  it('resets a forgotten password through the emailed link', async () => {
+    const email = 'katherine@example.com';
+    supabase.auth.createUser({ email, password: PASSWORD });
+
+    expect(await requestPasswordReset(initialState, form({ email }))).toEqual(expect.objectContaining({ success: true }));
+    const link = supabase.auth.lastEmail(email, 'recovery')!;
+    await redirectOf(confirmLink({ url: `http://localhost:9002/auth/confirm?token_hash=${link.tokenHash}&type=recovery&next=/reset-password` } as NextRequest));
+
+    const newPassword = 'Quartz-Harbor-17-Meadow';
+    const update = await updateUserPassword(initialState, form({ password: newPassword, confirmPassword: newPassword }));
+    expect(update).toEqual(expect.objectContaining({ success: true }));
+
+    await supabase.auth.signOut();
+    expect(await signInWithPassword(initialState, form({ email, password: PASSWORD }))).toEqual(expect.objectContaining({ errorCode: 'invalid_credentials' }));
+    expect(await redirectOf(signInWithPassword(initialState, form({ email, password: newPassword })))).toBe('/dashboard');
+  });
+
+  it('only lets sessions opened by a reset link set a password without the current one', async () => {
+    const email = 'mary@example.com';
+    supabase.auth.createUser({ email, password: PASSWORD });
+    await redirectOf(signInWithPassword(initialState, form({ email, password: PASSWORD })));
+
+    const newPassword = 'Quartz-Harbor-17-Meadow';
+    const update = await updateUserPassword(initialState, form({ password: newPassword, confirmPassword: newPassword }));
+    expect(update).toEqual(expect.objectContaining({ success: false, errorCode: 'not_authenticated' }));
+
+    await supabase.auth.signOut();
+    expect(await redirectOf(signInWithPassword(initialState, form({ email, password: PASSWORD })))).toBe('/dashboard');
+  });
+});
@@ -4,32 +4,41 @@
 import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import * as authService from '@/features/auth/services/auth.service';
+import * as sessionService from '@/features/auth/services/session.service';
 import {
   emailSchema as commonEmailSchema,
-  passwordSchema as commonPasswordSchema,
   firstNameSchema as commonFirstNameSchema,
   lastNameSchema as commonLastNameSchema,
+  oauthProviderSchema,
+  passwordlessModeSchema,
+  emailOtpCodeSchema,
 } from "@/features/auth/schemas";
+import { EMAIL_CHANGE_RETURN_PATH, OAUTH_PROVIDER_LABELS } from "@/features/auth/constants";
 import { loginPasswordSchema } from "@/features/auth/schemas/login.schema"; // Ensure this path is correct
+import type { AuthActionState } from "@/features/auth/types";
+import { RETURN_URL_PARAM, sanitizeReturnUrl, withReturnUrl } from "@/features/auth/utils";
+import { checkAuthCaptcha, recordCaptchaFailure, resetCaptchaFailures } from "@/features/auth/utils/auth-captcha";
+import { authErrorState, supabaseErrorState } from "@/features/auth/utils/auth-error-state";
+import { mapSupabaseAuthError } from "@/features/auth/utils/auth-errors";
+import { checkAuthRateLimit, resetAuthRateLimit } from "@/features/auth/utils/auth-rate-limit";
+import { verifyUserPassword } from "@/features/auth/utils/password-verification";
+import { serverPasswordSchema } from "@/features/auth/utils/compromised-password";
+import { getClientIp, getUserAgent } from "@/features/auth/utils/request-context";
+import { readSessionClaims } from "@/features/auth/utils/session-timeouts";
+import { sendPasswordChangedNotification } from "@/features/auth/utils/security-notifications";
+import { INVITE_CODE_PARAM, REGISTRATION_REFUSAL_MESSAGES } from "@/features/invites/constants";
+import { inviteCodeSchema } from "@/features/invites/schemas";
+import { admitUser, claimInvite, getRegistrationMode, recordInviteRedemption, releaseInvite } from "@/features/invites/utils/registration";
 import { getServerLogger } from '@/lib/logger';
+import { createClient } from "@/lib/supabase/server";
 
 const logger = getServerLogger('AuthActions');
 
-/**
- * Represents the state returned by authentication server actions.
- * @property {boolean} success - Indicates if the action was successful.
- * @property {string | null} message - A message describing the result of the action.
- * @property {Record<string, string> | null} [errorFields] - Optional. A record of field-specific error messages.
- */
-interface AuthActionState {
-  success: boolean;
-  message: string | null;
-  errorFields?: Record<string, string> | null;
-}
-
 /**
  * Server Action to request a password reset link for a user.
  * Validates the email, then calls the authentication service to send a reset link.
+ * Rate limited per IP and per email (`AUTH_RATE_LIMITS.passwordReset`) to stop reset-email spam, and
+ * protected by a CAPTCHA after repeated requests (`CAPTCHA_FAILURE_THRESHOLDS.passwordReset`).
  *
  * @param {AuthActionState} prevState - The previous state of the form action.
  * @param {FormData} formData - The form data submitted by the user, expected to contain an 'email'.
@@ -50,35 +59,92 @@ export async function requestPasswordReset(prevState: AuthActionState, formData:
     };
   }
 
-  const origin = headers().get("origin");
+  const rateLimitState = await checkAuthRateLimit('passwordReset', email);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const captchaState = await checkAuthCaptcha('passwordReset', formData, email);
+  if (captchaState) {
+    return captchaState;
+  }
+
+  const origin = (await headers()).get("origin");
   if (!origin) {
     logger.error('Could not determine application origin for password reset.');
-    return {
-      success: false,
-      message: "Could not determine application origin. Password reset failed.",
-    };
+    return authErrorState('unexpected');
   }
   const redirectTo = `${origin}/auth/confirm?next=/reset-password&email=${encodeURIComponent(email)}`;
 
   const { error } = await authService.resetPasswordForEmailWithSupabase(email, { redirectTo });
+  // Counted whatever the outcome, since requests for unknown addresses succeed too.
+  const captchaRequired = await recordCaptchaFailure('passwordReset', email);
 
   if (error) {
-    logger.error('Service error during password reset request.', { email, serviceError: error.message });
+    logger.error('Service error during password reset request.', { email: email?.substring(0,3), serviceError: error.message, code: error.code });
+    return supabaseErrorState(error, captchaRequired ? { captchaRequired } : undefined);
+  }
+  logger.info(`Password reset email sent successfully for email: ${email?.substring(0,3)}...`);
+  return {
+    success: true,
+    message: "If an account exists for this email, a password reset link has been sent.",
+    ...(captchaRequired && { captchaRequired }),
+  };
+}
+
+/**
+ * Server Action to send a new sign-up confirmation link, offered on `/auth/auth-code-error` when the
+ * first link expired. Like the reset form, it gives the same answer whether or not the address has an
+ * unconfirmed account. Rate limited per IP and per email (`AUTH_RATE_LIMITS.resendConfirmation`).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'email' and optionally 'next'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function resendConfirmationEmail(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const emailValidation = commonEmailSchema.safeParse(formData.get("email"));
+  if (!emailValidation.success) {
+    const errorMessage = emailValidation.error.errors.map((e) => e.message).join(", ");
+    logger.warn('Confirmation resend validation failed for email.', { error: errorMessage });
     return {
       success: false,
-      message: `Password reset request failed: ${error.message}`,
+      message: errorMessage,
+      errorFields: { email: errorMessage }
     };
   }
-  logger.info(`Password reset email sent successfully for email: ${email?.substring(0,3)}...`);
+  const email = emailValidation.data;
+
+  const rateLimitState = await checkAuthRateLimit('resendConfirmation', email);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const origin = (await headers()).get("origin");
+  if (!origin) {
+    logger.error('Could not determine application origin for confirmation resend.');
+    return authErrorState('unexpected');
+  }
+  const emailRedirectTo = `${origin}${withReturnUrl('/auth/confirm', formData.get(RETURN_URL_PARAM))}`;
+
+  const { error } = await authService.resendEmailWithSupabase('signup', email, { emailRedirectTo });
+  if (error) {
+    logger.error('Service error during confirmation resend.', { email: email.substring(0,3), serviceError: error.message, code: error.code });
+    return supabaseErrorState(error);
+  }
+
+  logger.info(`Confirmation resend processed for email: ${email.substring(0,3)}...`);
   return {
     success: true,
-    message: "If an account exists for this email, a password reset link has been sent.",
+    message: "If this address is waiting to be confirmed, we've sent a new confirmation link.",
   };
 }
 
 /**
  * Server Action to update a user's password after they've confirmed via email link.
- * Validates the new password and confirmation, then calls the authentication service.
+ * Only sessions opened by a password reset link (a `recovery` entry in the token's `amr`) may use it;
+ * other sessions change the password with `changePassword`, which asks for the current one first.
+ * Validates the new password (policy and compromised-password list) and confirmation,
+ * then calls the authentication service.
  *
  * @param {AuthActionState} prevState - The previous state of the form action.
  * @param {FormData} formData - The form data, expected to contain 'password' and 'confirmPassword'.
@@ -100,7 +166,7 @@ export async function updateUserPassword(prevState: AuthActionState, formData: F
     };
   }
 
-  const passwordValidation = commonPasswordSchema.safeParse(password);
+  const passwordValidation = serverPasswordSchema.safeParse(password);
   if (!passwordValidation.success) {
     const errorMessage = passwordValidation.error.errors.map((e) => e.message).join(", ");
     logger.warn('Password update validation failed for new password.', { error: errorMessage });
@@ -111,36 +177,259 @@ export async function updateUserPassword(prevState: AuthActionState, formData: F
     };
   }
 
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  // getUser() has just validated this session's access token, so its claims can be trusted.
+  const { data: { session } } = await supabase.auth.getSession();
+  const claims = user ? readSessionClaims(session?.access_token) : null;
+  if (!claims?.authenticationMethods.includes('recovery')) {
+    logger.warn(`Password update refused: ${user ? `session of user ${user.id} was not opened by a reset link` : 'no session'}.`);
+    return authErrorState('not_authenticated');
+  }
+
   const { error } = await authService.updateUserWithSupabase({ password });
 
   if (error) {
-    let friendlyMessage = `Failed to update password: ${error.message}`;
-    if (error.message.includes("User not found") || error.message.includes("Auth session missing")) {
-        friendlyMessage = "User not authenticated or session invalid. Please try the password reset process again.";
+    logger.error('Service error during password update.', { serviceError: error.message, code: error.code });
+    return supabaseErrorState(error);
+  }
+
+  logger.info(`Password updated successfully for user (email from form: ${email?.substring(0,3)}...).`);
+  return {
+    success: true,
+    message: "Your password has been updated successfully. You can now log in with your new password.",
+  };
+}
+
+/**
+ * Server Action to change the signed-in user's email address.
+ * Supabase does not switch the address until it is confirmed: with "Secure email change" enabled,
+ * both the current and the new address receive a link, and the change completes once both are
+ * clicked. The links go through `/auth/confirm` (type `email_change`) back to the profile page.
+ * Rate limited per IP and per new address (`AUTH_RATE_LIMITS.emailChange`).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'email' (the new address).
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure, with messages.
+ */
+export async function requestEmailChange(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const newEmail = formData.get("email") as string;
+
+  const emailValidation = commonEmailSchema.safeParse(newEmail);
+  if (!emailValidation.success) {
+    const errorMessage = emailValidation.error.errors.map((e) => e.message).join(", ");
+    logger.warn('Email change validation failed.', { emailProvided: !!newEmail, error: errorMessage });
+    return {
+      success: false,
+      message: errorMessage,
+      errorFields: { email: errorMessage }
+    };
+  }
+
+  const { data: { user }, error: userError } = await authService.getUserWithSupabase();
+  if (userError || !user) {
+    return {
+      success: false,
+      message: "You must be signed in to change your email address.",
+    };
+  }
+  if (user.email?.toLowerCase() === emailValidation.data.toLowerCase()) {
+    return {
+      success: false,
+      message: "That is already your email address.",
+      errorFields: { email: "Enter a different email address." }
+    };
+  }
+
+  const rateLimitState = await checkAuthRateLimit('emailChange', emailValidation.data);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const origin = (await headers()).get("origin");
+  if (!origin) {
+    logger.error('Could not determine application origin for email change.');
+    return authErrorState('unexpected');
+  }
+  const emailRedirectTo = `${origin}${withReturnUrl('/auth/confirm', EMAIL_CHANGE_RETURN_PATH)}`;
+
+  const { error } = await authService.updateUserWithSupabase({ email: emailValidation.data }, { emailRedirectTo });
+  if (error) {
+    logger.error('Service error during email change request.', { userId: user.id, serviceError: error.message });
+    return supabaseErrorState(error);
+  }
+
+  logger.info(`Email change requested for user ID: ${user.id}`);
+  return {
+    success: true,
+    message: `We've sent confirmation links to ${user.email} and ${emailValidation.data}. Your email changes once you've clicked the links in both emails.`,
+  };
+}
+
+/**
+ * Server Action to send a reauthentication code to the signed-in user's email.
+ * The code lets `changePassword` proceed without the current password, e.g. for users who
+ * signed up with a social login or a magic link and never set one.
+ * Rate limited like other emailed codes (`AUTH_RATE_LIMITS.emailOtp`).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure, with messages.
+ */
+export async function requestReauthenticationCode(_prevState: AuthActionState): Promise<AuthActionState> {
+  const { data: { user }, error: userError } = await authService.getUserWithSupabase();
+  if (userError || !user?.email) {
+    return {
+      success: false,
+      message: "You must be signed in to request a verification code.",
+    };
+  }
+
+  const rateLimitState = await checkAuthRateLimit('emailOtp', user.email);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const { error } = await authService.reauthenticateWithSupabase();
+  if (error) {
+    logger.error('Service error during reauthentication code request.', { userId: user.id, serviceError: error.message, code: error.code });
+    return supabaseErrorState(error);
+  }
+
+  return {
+    success: true,
+    message: `We've sent a verification code to ${user.email}.`,
+  };
+}
+
+/**
+ * Server Action to change the signed-in user's password from the dashboard.
+ * The user proves their presence with either the current password (checked without creating a
+ * new session) or a code from `requestReauthenticationCode`, which Supabase checks as the `nonce`.
+ * The new password is validated against the policy and the compromised-password list.
+ * On success, other sessions are signed out if requested, and a notification is emailed.
+ * Current-password attempts count against the sign-in rate limit (`AUTH_RATE_LIMITS.signIn`).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'currentPassword' or 'nonce',
+ *   'password', 'confirmPassword' and optionally 'signOutOtherSessions'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure, with messages.
+ */
+export async function changePassword(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const currentPassword = (formData.get("currentPassword") as string | null) ?? "";
+  const nonce = (formData.get("nonce") as string | null) ?? "";
+  const password = formData.get("password") as string;
+  const confirmPassword = formData.get("confirmPassword") as string;
+  const signOutOthers = formData.get("signOutOtherSessions") === "on";
+
+  const { data: { user }, error: userError } = await authService.getUserWithSupabase();
+  if (userError || !user?.email) {
+    return {
+      success: false,
+      message: "You must be signed in to change your password.",
+    };
+  }
+
+  if (!currentPassword && !nonce) {
+    return {
+      success: false,
+      message: "Enter your current password, or request a verification code.",
+      errorFields: { currentPassword: "Current password is required." }
+    };
+  }
+
+  let validatedNonce: string | undefined;
+  if (nonce) {
+    const nonceValidation = emailOtpCodeSchema.safeParse(nonce);
+    if (!nonceValidation.success) {
+      const errorMessage = nonceValidation.error.errors.map((e) => e.message).join(", ");
+      return {
+        success: false,
+        message: errorMessage,
+        errorFields: { nonce: errorMessage }
+      };
     }
-    logger.error('Service error during password update.', { serviceError: error.message, friendlyMessage });
+    validatedNonce = nonceValidation.data;
+  }
+
+  if (password !== confirmPassword) {
     return {
       success: false,
-      message: friendlyMessage,
+      message: "Passwords do not match.",
+      errorFields: { confirmPassword: "Passwords do not match." }
     };
   }
 
-  logger.info(`Password updated successfully for user (email from form: ${email?.substring(0,3)}...).`);
+  const passwordValidation = serverPasswordSchema.safeParse(password);
+  if (!passwordValidation.success) {
+    const errorMessage = passwordValidation.error.errors.map((e) => e.message).join(", ");
+    logger.warn('Password change validation failed for new password.', { error: errorMessage });
+    return {
+      success: false,
+      message: errorMessage,
+      errorFields: { password: errorMessage }
+    };
+  }
+
+  if (!validatedNonce) {
+    const rateLimitState = await checkAuthRateLimit('signIn', user.email);
+    if (rateLimitState) {
+      return rateLimitState;
+    }
+
+    const { valid, error: verifyError } = await verifyUserPassword(user.id, currentPassword);
+    if (verifyError) {
+      return {
+        success: false,
+        message: "We couldn't verify your current password. Please try again.",
+      };
+    }
+    if (!valid) {
+      logger.warn(`Password change rejected: incorrect current password for user ID: ${user.id}`);
+      return {
+        success: false,
+        message: "Your current password is incorrect.",
+        errorFields: { currentPassword: "Incorrect password." }
+      };
+    }
+  }
+
+  const { error } = await authService.updateUserWithSupabase({ password, ...(validatedNonce && { nonce: validatedNonce }) });
+  if (error) {
+    const errorCode = mapSupabaseAuthError(error);
+    logger.error('Service error during password change.', { userId: user.id, serviceError: error.message, code: error.code });
+    return authErrorState(errorCode, errorCode === 'invalid_code' ? { errorFields: { nonce: "Invalid or expired code." } } : undefined);
+  }
+
+  if (signOutOthers) {
+    const { error: signOutError } = await authService.signOutWithSupabase('others');
+    if (signOutError) {
+      logger.error(`Password changed but signing out other sessions failed for user ID: ${user.id}`, { serviceError: signOutError.message });
+    }
+  }
+  await sendPasswordChangedNotification(user.email);
+
+  logger.info(`Password changed for user ID: ${user.id}`, { signedOutOtherSessions: signOutOthers });
   return {
     success: true,
-    message: "Your password has been updated successfully. You can now log in with your new password.",
+    message: signOutOthers
+      ? "Your password has been changed and your other devices have been signed out."
+      : "Your password has been changed.",
   };
 }
 
 /**
  * Server Action to sign in a user with their email and password.
- * Validates credentials, calls the authentication service, and redirects on success.
+ * Validates credentials, calls the authentication service, and redirects on success
+ * to the sanitized return URL (or the dashboard).
+ * Rate limited per IP and per email (`AUTH_RATE_LIMITS.signIn`); the email counter is cleared on success.
+ * After repeated failures (`CAPTCHA_FAILURE_THRESHOLDS.signIn`) a solved CAPTCHA is required as well.
+ * On success, the device (user agent and IP) is recorded for the sessions list on the security page.
  *
  * @param {AuthActionState} prevState - The previous state of the form action.
- * @param {FormData} formData - The form data, expected to contain 'email' and 'password'.
- * @returns {Promise<AuthActionState | void>} The new state on failure, or void on successful redirect.
+ * @param {FormData} formData - The form data, expected to contain 'email', 'password' and optionally 'next'.
+ * @returns {Promise<AuthActionState>} The new state on failure; on success the action redirects and does not return.
  */
-export async function signInWithPassword(prevState: AuthActionState, formData: FormData): Promise<AuthActionState | void> {
+export async function signInWithPassword(prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
   const email = formData.get("email") as string;
   const password = formData.get("password") as string;
   logger.info(`Sign-in attempt for email: ${email?.substring(0,3)}...`);
@@ -167,35 +456,238 @@ export async function signInWithPassword(prevState: AuthActionState, formData: F
     };
   }
 
+  const rateLimitState = await checkAuthRateLimit('signIn', email);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const captchaState = await checkAuthCaptcha('signIn', formData, email);
+  if (captchaState) {
+    return captchaState;
+  }
+
   const { data, error } = await authService.signInWithPasswordWithSupabase({ email, password });
 
   if (error) {
-    logger.error('Service error during sign-in.', { email: email?.substring(0,3), serviceError: error.message });
+    logger.error('Service error during sign-in.', { email: email?.substring(0,3), serviceError: error.message, code: error.code });
+    const captchaRequired = await recordCaptchaFailure('signIn', email);
+    return supabaseErrorState(error, captchaRequired ? { captchaRequired } : undefined);
+  }
+
+  if (!data.user) {
+     logger.warn('Sign-in failed: No user data returned despite no service error.', { email: email?.substring(0,3) });
+     return authErrorState('unexpected');
+  }
+  
+  await resetAuthRateLimit('signIn', email);
+  await resetCaptchaFailures('signIn', email);
+  // Best effort: the sessions list falls back to what Supabase stores if this fails.
+  await sessionService.recordUserSessionWithSupabase({ userAgent: await getUserAgent(), ipAddress: await getClientIp() });
+  const returnUrl = sanitizeReturnUrl(formData.get(RETURN_URL_PARAM));
+  logger.info(`Sign-in successful, redirecting user: ${data.user.id} to ${returnUrl}`);
+  redirect(returnUrl);
+}
+
+/**
+ * Server Action to start an OAuth sign-in (e.g., Google, GitHub).
+ * Validates the provider submitted by the clicked button, asks Supabase for the provider's
+ * authorization URL, and redirects the browser there. The provider sends the user back to
+ * `/auth/callback`, which exchanges the PKCE code for a session.
+ * An invite code submitted from the registration page is passed on to the callback, which needs it
+ * to admit new accounts while registration is invite-only.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'provider' and optionally 'next' and 'invite'.
+ * @returns {Promise<AuthActionState>} The new state on failure; on success the action redirects and does not return.
+ */
+export async function signInWithOAuth(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const providerValidation = oauthProviderSchema.safeParse(formData.get("provider"));
+  if (!providerValidation.success) {
+    const errorMessage = providerValidation.error.errors.map((e) => e.message).join(", ");
+    logger.warn('OAuth sign-in validation failed for provider.', { error: errorMessage });
     return {
       success: false,
-      message: error.message || "Invalid login credentials.",
+      message: errorMessage,
     };
   }
+  const provider = providerValidation.data;
+  logger.info(`OAuth sign-in attempt with provider: ${provider}`);
 
-  if (!data.user) {
-     logger.warn('Sign-in failed: No user data returned despite no service error.', { email: email?.substring(0,3) });
-     return {
+  const origin = (await headers()).get("origin");
+  if (!origin) {
+    logger.error('Could not determine application origin for OAuth sign-in.');
+    return authErrorState('unexpected');
+  }
+  const callbackUrl = new URL(withReturnUrl('/auth/callback', formData.get(RETURN_URL_PARAM)), origin);
+  const inviteCode = inviteCodeSchema.safeParse(formData.get(INVITE_CODE_PARAM));
+  if (inviteCode.success) {
+    callbackUrl.searchParams.set(INVITE_CODE_PARAM, inviteCode.data);
+  }
+  const redirectTo = callbackUrl.toString();
+
+  const { data, error } = await authService.signInWithOAuthWithSupabase({
+    provider,
+    options: { redirectTo },
+  });
+
+  if (error || !data.url) {
+    logger.error('Service error during OAuth sign-in.', { provider, serviceError: error?.message });
+    return {
       success: false,
-      message: "Login failed. Please check your credentials.",
+      message: `Could not sign in with ${OAUTH_PROVIDER_LABELS[provider]}. Please try again.`,
     };
   }
-  
-  logger.info(`Sign-in successful, redirecting user: ${data.user.id} to /dashboard`);
-  redirect('/dashboard');
+
+  logger.info(`Redirecting to ${provider} for OAuth authorization.`);
+  redirect(data.url);
+}
+
+/**
+ * Server Action to start a passwordless sign-in.
+ * Validates the email and the chosen delivery mode, then asks Supabase to email a magic link
+ * and a 6-digit code. Magic links are completed by `/auth/confirm`; typed codes by `verifyEmailOtp`.
+ * Only existing accounts can sign in this way (`shouldCreateUser: false`), and an unknown email
+ * gets the same response as a known one so the form cannot be used to probe for accounts.
+ * Rate limited per IP and per email (`AUTH_RATE_LIMITS.emailOtp`).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'email', 'mode' ('magic_link' or 'otp') and optionally 'next'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function requestEmailOtp(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const email = formData.get("email") as string;
+  logger.info(`Passwordless sign-in requested for email: ${email?.substring(0,3)}...`);
+
+  const emailValidation = commonEmailSchema.safeParse(email);
+  if (!emailValidation.success) {
+    const errorMessage = emailValidation.error.errors.map((e) => e.message).join(", ");
+    logger.warn('Passwordless sign-in validation failed for email.', { emailProvided: !!email, error: errorMessage });
+    return {
+      success: false,
+      message: "Invalid email address.",
+      errorFields: { email: errorMessage }
+    };
+  }
+
+  const modeValidation = passwordlessModeSchema.safeParse(formData.get("mode"));
+  if (!modeValidation.success) {
+    const errorMessage = modeValidation.error.errors.map((e) => e.message).join(", ");
+    logger.warn('Passwordless sign-in validation failed for mode.', { error: errorMessage });
+    return {
+      success: false,
+      message: errorMessage,
+    };
+  }
+  const mode = modeValidation.data;
+
+  const rateLimitState = await checkAuthRateLimit('emailOtp', email);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const origin = (await headers()).get("origin");
+  if (!origin) {
+    logger.error('Could not determine application origin for passwordless sign-in.');
+    return authErrorState('unexpected');
+  }
+  const emailRedirectTo = `${origin}${withReturnUrl('/auth/confirm', formData.get(RETURN_URL_PARAM))}`;
+
+  const { error } = await authService.signInWithOtpWithSupabase({
+    email,
+    options: { emailRedirectTo, shouldCreateUser: false },
+  });
+
+  // With `shouldCreateUser: false`, Supabase rejects unknown emails. Treat that like a success
+  // so the response does not reveal whether an account exists.
+  const isUnknownAccount = !!error && (mapSupabaseAuthError(error) === 'signup_disabled' || error.message.includes("Signups not allowed"));
+  if (error && !isUnknownAccount) {
+    logger.error('Service error during passwordless sign-in request.', { email: email?.substring(0,3), serviceError: error.message, code: error.code });
+    return supabaseErrorState(error);
+  }
+
+  logger.info(`Passwordless sign-in email processed for: ${email?.substring(0,3)}... (mode: ${mode})`);
+  return {
+    success: true,
+    message: mode === "otp"
+      ? "If an account exists for this email, we've sent a 6-digit sign-in code."
+      : "If an account exists for this email, we've sent a sign-in link.",
+  };
+}
+
+/**
+ * Server Action to complete a passwordless sign-in with the 6-digit code typed by the user.
+ * Verifies the code through the same `verifyOtpWithSupabase` service used by `/auth/confirm`
+ * for magic links, then redirects to the sanitized return URL (or the dashboard).
+ * Rate limited per IP and per email (`AUTH_RATE_LIMITS.otpVerify`), so codes cannot be guessed.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'email', 'token' and optionally 'next'.
+ * @returns {Promise<AuthActionState>} The new state on failure; on success the action redirects and does not return.
+ */
+export async function verifyEmailOtp(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const email = formData.get("email") as string;
+  const token = formData.get("token") as string;
+  logger.info(`Email OTP verification attempt for email: ${email?.substring(0,3)}...`);
+
+  const emailValidation = commonEmailSchema.safeParse(email);
+  if (!emailValidation.success) {
+    logger.warn('Email OTP verification failed: invalid email carried over from the first step.');
+    return {
+      success: false,
+      message: "Invalid email address. Please start again.",
+    };
+  }
+
+  const tokenValidation = emailOtpCodeSchema.safeParse(token);
+  if (!tokenValidation.success) {
+    const errorMessage = tokenValidation.error.errors.map((e) => e.message).join(", ");
+    logger.warn('Email OTP verification validation failed for token.', { error: errorMessage });
+    return {
+      success: false,
+      message: errorMessage,
+      errorFields: { token: errorMessage }
+    };
+  }
+
+  const rateLimitState = await checkAuthRateLimit('otpVerify', emailValidation.data);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const { data, error } = await authService.verifyOtpWithSupabase({
+    email,
+    token: tokenValidation.data,
+    type: "email",
+  });
+
+  if (error || !data.user) {
+    logger.warn('Email OTP verification failed.', { email: email?.substring(0,3), serviceError: error?.message });
+    if (error && mapSupabaseAuthError(error) === 'rate_limited') {
+      return supabaseErrorState(error);
+    }
+    return authErrorState('invalid_code', { errorFields: { token: "Invalid or expired code." } });
+  }
+
+  await resetAuthRateLimit('otpVerify', emailValidation.data);
+  const returnUrl = sanitizeReturnUrl(formData.get(RETURN_URL_PARAM));
+  logger.info(`Email OTP sign-in successful, redirecting user: ${data.user.id} to ${returnUrl}`);
+  redirect(returnUrl);
 }
 
 /**
  * Server Action to register a new user.
- * Validates all input fields, then calls the authentication service to create the user
+ * Validates all input fields (the password against the policy and the compromised-password list),
+ * then calls the authentication service to create the user
  * and send a confirmation email. User metadata (first name, last name) is included.
+ * Rate limited per IP and per email (`AUTH_RATE_LIMITS.signUp`), with a CAPTCHA after repeated failures
+ * (`CAPTCHA_FAILURE_THRESHOLDS.signUp`).
+ * Honors the registration mode (`REGISTRATION_MODE`): when `closed` every sign-up is refused, and when
+ * `invite-only` a use of the submitted invite is claimed before the Supabase call (and given back if
+ * no account is created). A new account is marked as admitted (`admitUser`).
+ * An address that already has an account gets the same answer as a new one.
  *
  * @param {AuthActionState} prevState - The previous state of the form action.
- * @param {FormData} formData - The form data, including 'firstName', 'lastName', 'email', 'password', 'confirmPassword'.
+ * @param {FormData} formData - The form data, including 'firstName', 'lastName', 'email', 'password', 'confirmPassword', and optionally 'next' and 'invite'.
  * @returns {Promise<AuthActionState>} The new state indicating success or failure.
  */
 export async function signUpNewUser(prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
@@ -206,9 +698,23 @@ export async function signUpNewUser(prevState: AuthActionState, formData: FormDa
   const confirmPassword = formData.get("confirmPassword") as string;
   logger.info(`Sign-up attempt for email: ${email?.substring(0,3)}...`, { firstNameProvided: !!firstName, lastNameProvided: !!lastName });
 
+  const registrationMode = getRegistrationMode();
+  if (registrationMode === 'closed') {
+    logger.warn('Sign-up refused: registration is closed.');
+    return {
+      success: false,
+      message: REGISTRATION_REFUSAL_MESSAGES.closed,
+    };
+  }
+
   let errorFields: Record<string, string> = {};
   let overallMessage = "";
 
+  const inviteCodeValidation = inviteCodeSchema.safeParse(formData.get(INVITE_CODE_PARAM) ?? "");
+  if (registrationMode === 'invite-only' && !inviteCodeValidation.success) {
+    errorFields["invite"] = inviteCodeValidation.error.errors.map((e) => e.message).join(", ");
+  }
+
   const firstNameValidation = commonFirstNameSchema.safeParse(firstName);
   if (!firstNameValidation.success) {
     errorFields.firstName = firstNameValidation.error.errors.map((e) => e.message).join(", ");
@@ -224,7 +730,7 @@ export async function signUpNewUser(prevState: AuthActionState, formData: FormDa
     errorFields.email = emailValidation.error.errors.map((e) => e.message).join(", ");
   }
 
-  const passwordValidation = commonPasswordSchema.safeParse(password);
+  const passwordValidation = serverPasswordSchema.safeParse(password);
   if (!passwordValidation.success) {
     errorFields.password = passwordValidation.error.errors.map((e) => e.message).join(", ");
   }
@@ -248,15 +754,46 @@ export async function signUpNewUser(prevState: AuthActionState, formData: FormDa
     };
   }
 
-  const origin = headers().get("origin");
+  const rateLimitState = await checkAuthRateLimit('signUp', email);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const captchaState = await checkAuthCaptcha('signUp', formData, email);
+  if (captchaState) {
+    return captchaState;
+  }
+
+  const origin = (await headers()).get("origin");
   if (!origin) {
     logger.error('Could not determine application origin for sign-up.');
-    return {
-      success: false,
-      message: "Could not determine application origin. Sign up failed.",
-    };
+    return authErrorState('unexpected');
+  }
+  // The confirmation link signs the user in, so it continues straight to the return URL.
+  const emailRedirectTo = `${origin}${withReturnUrl('/auth/confirm', formData.get(RETURN_URL_PARAM))}`;
+
+  let inviteId: string | null = null;
+  if (registrationMode === 'invite-only' && inviteCodeValidation.success) {
+    try {
+      const claim = await claimInvite(inviteCodeValidation.data, email);
+      if (claim.status !== 'ok' || !claim.inviteId) {
+        const inviteMessage = REGISTRATION_REFUSAL_MESSAGES[claim.status === 'ok' ? 'invalid' : claim.status];
+        logger.warn('Sign-up refused: invite could not be claimed.', { status: claim.status });
+        return {
+          success: false,
+          message: inviteMessage,
+          errorFields: { invite: inviteMessage },
+        };
+      }
+      inviteId = claim.inviteId;
+    } catch (error) {
+      logger.error('Claiming an invite for sign-up failed.', { error: (error as Error).message });
+      return {
+        success: false,
+        message: REGISTRATION_REFUSAL_MESSAGES.unavailable,
+      };
+    }
   }
-  const emailRedirectTo = `${origin}/auth/confirm?next=/login`;
 
   const { data, error } = await authService.signUpWithSupabase(
     { email, password },
@@ -269,17 +806,43 @@ export async function signUpNewUser(prevState: AuthActionState, formData: FormDa
     }
   );
 
-  if (error) {
-    logger.error('Service error during sign-up.', { email: email?.substring(0,3), serviceError: error.message });
+  // For an address that already has an account, Supabase either returns a user without identities
+  // or, with some project settings, an `email_exists` error. Both get the same answer as a new
+  // sign-up, so the form cannot be used to probe for accounts.
+  const isExistingAccount = error ? mapSupabaseAuthError(error) === 'email_in_use' : data.user?.identities?.length === 0;
+
+  if (error && !isExistingAccount) {
+    logger.error('Service error during sign-up.', { email: email?.substring(0,3), serviceError: error.message, code: error.code });
+    if (inviteId) await releaseInvite(inviteId);
+    const captchaRequired = await recordCaptchaFailure('signUp', email);
+    return supabaseErrorState(error, captchaRequired ? { captchaRequired } : undefined);
+  }
+
+  // Without the flag the middleware turns the account away whenever registration is not open.
+  // A failure is logged by `admitUser`; the account can still be admitted by setting the flag.
+  if (!isExistingAccount && data.user) {
+    await admitUser(data.user.id);
+  }
+
+  if (inviteId) {
+    // No account was created for an existing address, so the invite use is given back.
+    if (isExistingAccount) {
+      await releaseInvite(inviteId);
+    } else {
+      await recordInviteRedemption(inviteId, data.user?.id ?? null, email);
+    }
+  }
+
+  if (isExistingAccount) {
+    logger.info(`Sign-up for an existing account answered like a new one: ${email?.substring(0,3)}...`);
     return {
-      success: false,
-      message: `Sign up failed: ${error.message}`,
+      success: true,
+      message: "Sign up initiated! Please check your email to confirm your account before logging in.",
     };
   }
 
-  // Check if user is already confirmed (e.g., if auto-confirm is on, or if it's an existing unconfirmed user re-signing up)
-  // Supabase returns user and session null if email requires confirmation and it's a new user.
-  // It might return a user if the user already exists (e.g., unconfirmed)
+  // With auto-confirm on, the new user is confirmed and signed in at once.
+  // Otherwise Supabase returns the user without a session until the email is confirmed.
   if (data.user && data.user.email_confirmed_at) {
     logger.info(`Sign-up successful and user already confirmed for email: ${email?.substring(0,3)}... User ID: ${data.user.id}`);
     return {
@@ -288,7 +851,7 @@ export async function signUpNewUser(prevState: AuthActionState, formData: FormDa
     };
   }
   
-  if (!data.user && !data.session && !error) {
+  if (!data.session) {
     logger.info(`Sign-up successful, email confirmation required for: ${email?.substring(0,3)}...`);
     return {
       success: true,
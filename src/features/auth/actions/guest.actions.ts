@@ -0,0 +1,178 @@
+// src/features/auth/actions/guest.actions.ts
+"use server";
+
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import * as authService from '@/features/auth/services/auth.service';
+import * as sessionService from '@/features/auth/services/session.service';
+import { emailSchema as commonEmailSchema, oauthProviderSchema } from "@/features/auth/schemas";
+import { OAUTH_PROVIDER_LABELS } from "@/features/auth/constants";
+import type { AuthActionState } from "@/features/auth/types";
+import { GUEST_UPGRADE_PATH, RETURN_URL_PARAM, sanitizeReturnUrl, withReturnUrl } from "@/features/auth/utils";
+import { checkAuthRateLimit } from "@/features/auth/utils/auth-rate-limit";
+import { authErrorState, supabaseErrorState } from "@/features/auth/utils/auth-error-state";
+import { areGuestSessionsEnabled } from "@/features/auth/utils/guest-sessions";
+import { getClientIp, getUserAgent } from "@/features/auth/utils/request-context";
+import { admitUser } from "@/features/invites/utils/registration";
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('GuestActions');
+
+/**
+ * Returns the signed-in user if their session is a guest session.
+ * @returns {Promise<{ id: string } | null>} The guest user, or null.
+ */
+async function getCurrentGuest(): Promise<{ id: string } | null> {
+  const { data: { user }, error } = await authService.getUserWithSupabase();
+  if (error || !user?.is_anonymous) {
+    return null;
+  }
+  return { id: user.id };
+}
+
+/**
+ * Server Action to start a guest session, so visitors can try the dashboard and chat without an account.
+ * Supabase creates an anonymous user; everything the guest creates belongs to that user and is
+ * kept when they later save the account with `upgradeGuestWithEmail` or `upgradeGuestWithOAuth`.
+ * The guest account is marked as admitted (`admitUser`).
+ * Only available while `areGuestSessionsEnabled()`, and rate limited per IP (`AUTH_RATE_LIMITS.guestSignIn`).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, optionally containing 'next'.
+ * @returns {Promise<AuthActionState>} The new state on failure; on success the action redirects and does not return.
+ */
+export async function signInAsGuest(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  if (!areGuestSessionsEnabled()) {
+    logger.warn('Guest sign-in attempted while guest sessions are disabled.');
+    return {
+      success: false,
+      message: "Guest access is not available. Please create an account.",
+    };
+  }
+
+  const rateLimitState = await checkAuthRateLimit('guestSignIn');
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const { data, error } = await authService.signInAnonymouslyWithSupabase();
+  if (error || !data.user) {
+    return {
+      success: false,
+      message: "Could not start a guest session. Please try again.",
+    };
+  }
+
+  // Guest sessions are only offered while registration is open, so the guest account is admitted
+  // and keeps working once saved, even if registration closes later.
+  await admitUser(data.user.id);
+  // Best effort: the sessions list falls back to what Supabase stores if this fails.
+  await sessionService.recordUserSessionWithSupabase({ userAgent: await getUserAgent(), ipAddress: await getClientIp() });
+  const returnUrl = sanitizeReturnUrl(formData.get(RETURN_URL_PARAM));
+  logger.info(`Guest session started, redirecting user: ${data.user.id} to ${returnUrl}`);
+  redirect(returnUrl);
+}
+
+/**
+ * Server Action for a guest to save their account with an email address.
+ * Supabase emails a confirmation link to the address; once it is clicked (through `/auth/confirm`,
+ * type `email_change`, back to the upgrade page) the user is no longer anonymous and keeps their ID
+ * and data. Supabase does not let anonymous users set a password, so the password is set afterwards
+ * on the security page.
+ * Rate limited per IP and per address like other email changes (`AUTH_RATE_LIMITS.emailChange`).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'email'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure, with messages.
+ */
+export async function upgradeGuestWithEmail(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const email = formData.get("email") as string;
+
+  const emailValidation = commonEmailSchema.safeParse(email);
+  if (!emailValidation.success) {
+    const errorMessage = emailValidation.error.errors.map((e) => e.message).join(", ");
+    return {
+      success: false,
+      message: errorMessage,
+      errorFields: { email: errorMessage }
+    };
+  }
+
+  const guest = await getCurrentGuest();
+  if (!guest) {
+    return {
+      success: false,
+      message: "Only guest sessions can be saved as a new account.",
+    };
+  }
+
+  const rateLimitState = await checkAuthRateLimit('emailChange', emailValidation.data);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const origin = (await headers()).get("origin");
+  if (!origin) {
+    logger.error('Could not determine application origin for guest upgrade.');
+    return authErrorState('unexpected');
+  }
+  const emailRedirectTo = `${origin}${withReturnUrl('/auth/confirm', GUEST_UPGRADE_PATH)}`;
+
+  const { error } = await authService.updateUserWithSupabase({ email: emailValidation.data }, { emailRedirectTo });
+  if (error) {
+    logger.error('Service error during guest upgrade.', { userId: guest.id, serviceError: error.message, code: error.code });
+    return supabaseErrorState(error);
+  }
+
+  logger.info(`Guest upgrade by email requested for user ID: ${guest.id}`);
+  return {
+    success: true,
+    message: `We've sent a confirmation link to ${emailValidation.data}. Your account is saved once you've clicked it.`,
+  };
+}
+
+/**
+ * Server Action for a guest to save their account by linking a social login (e.g., Google, GitHub).
+ * Redirects to the provider through `linkIdentity`; `/auth/callback` completes the link and sends
+ * the user back to the upgrade page, with their ID and data unchanged.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'provider'.
+ * @returns {Promise<AuthActionState>} The new state on failure; on success the action redirects and does not return.
+ */
+export async function upgradeGuestWithOAuth(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const providerValidation = oauthProviderSchema.safeParse(formData.get("provider"));
+  if (!providerValidation.success) {
+    return {
+      success: false,
+      message: providerValidation.error.errors.map((e) => e.message).join(", "),
+    };
+  }
+  const provider = providerValidation.data;
+
+  const guest = await getCurrentGuest();
+  if (!guest) {
+    return {
+      success: false,
+      message: "Only guest sessions can be saved as a new account.",
+    };
+  }
+
+  const origin = (await headers()).get("origin");
+  if (!origin) {
+    logger.error('Could not determine application origin for guest upgrade.');
+    return authErrorState('unexpected');
+  }
+  const redirectTo = `${origin}${withReturnUrl('/auth/callback', GUEST_UPGRADE_PATH)}`;
+
+  const { data, error } = await authService.linkIdentityWithSupabase({ provider, options: { redirectTo } });
+  if (error || !data.url) {
+    return {
+      success: false,
+      message: `Could not link ${OAUTH_PROVIDER_LABELS[provider]}. Please try again.`,
+    };
+  }
+
+  logger.info(`Redirecting guest ${guest.id} to ${provider} to link an identity.`);
+  redirect(data.url);
+}
@@ -1,2 +1,7 @@
 // src/features/auth/actions/index.ts
 export * from "./auth.actions";
+export * from "./guest.actions";
+export * from "./mfa.actions";
+export * from "./passkey.actions";
+export * from "./phone.actions";
+export * from "./session.actions";
@@ -0,0 +1,127 @@
+// src/features/auth/actions/mfa.actions.ts
+"use server";
+
+import * as mfaService from '@/features/auth/services/mfa.service';
+import { totpCodeSchema, mfaFactorIdSchema } from "@/features/auth/schemas";
+import type { AuthActionState, TotpEnrollment } from "@/features/auth/types";
+import { supabaseErrorState } from "@/features/auth/utils/auth-error-state";
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('MfaActions');
+
+const TOTP_FRIENDLY_NAME = 'Authenticator app';
+
+/**
+ * Server Action to start enrolling an authenticator app (TOTP) for the current user.
+ * Only one TOTP factor is supported per account. Unverified factors left behind by abandoned
+ * enrollments are removed first, since Supabase requires friendly names to be unique.
+ *
+ * @returns {Promise<TotpEnrollment>} The factor ID, QR code and secret to display, or an error message.
+ */
+export async function startTotpEnrollment(): Promise<TotpEnrollment> {
+  logger.info('TOTP enrollment requested.');
+
+  const { data: factors, error: listError } = await mfaService.listMfaFactorsWithSupabase();
+  if (listError) {
+    return { error: "Could not load your authentication settings. Please try again." };
+  }
+
+  if (factors.totp.some((factor) => factor.status === 'verified')) {
+    logger.warn('TOTP enrollment rejected: a verified authenticator app already exists.');
+    return { error: "An authenticator app is already set up for your account." };
+  }
+
+  const staleFactors = factors.all.filter((factor) => factor.factor_type === 'totp' && factor.status === 'unverified');
+  for (const factor of staleFactors) {
+    await mfaService.unenrollMfaFactorWithSupabase(factor.id);
+  }
+
+  const { data, error } = await mfaService.enrollTotpFactorWithSupabase(TOTP_FRIENDLY_NAME);
+  if (error) {
+    return { error: "Could not start authenticator setup. Please try again." };
+  }
+
+  logger.info(`TOTP enrollment started for factor ID: ${data.id}`);
+  return {
+    factorId: data.id,
+    qrCode: data.totp.qr_code,
+    secret: data.totp.secret,
+  };
+}
+
+/**
+ * Server Action to finish enrolling an authenticator app.
+ * Verifies the first code from the app, which marks the factor as verified and upgrades
+ * the current session to AAL2.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'factorId' and 'code'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function verifyTotpEnrollment(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const factorIdValidation = mfaFactorIdSchema.safeParse(formData.get("factorId"));
+  if (!factorIdValidation.success) {
+    logger.warn('TOTP enrollment verification failed: invalid factor ID.');
+    return {
+      success: false,
+      message: "Your setup session is invalid. Please start again.",
+    };
+  }
+
+  const codeValidation = totpCodeSchema.safeParse(formData.get("code"));
+  if (!codeValidation.success) {
+    const errorMessage = codeValidation.error.errors.map((e) => e.message).join(", ");
+    logger.warn('TOTP enrollment verification validation failed for code.', { error: errorMessage });
+    return {
+      success: false,
+      message: errorMessage,
+      errorFields: { code: errorMessage }
+    };
+  }
+
+  const { error } = await mfaService.challengeAndVerifyWithSupabase(factorIdValidation.data, codeValidation.data);
+  if (error) {
+    return {
+      success: false,
+      message: "That code didn't match. Check your authenticator app and try again.",
+      errorFields: { code: "Invalid code." }
+    };
+  }
+
+  logger.info(`TOTP enrollment verified for factor ID: ${factorIdValidation.data}`);
+  return {
+    success: true,
+    message: "Two-factor authentication is now enabled for your account.",
+  };
+}
+
+/**
+ * Server Action to remove an authenticator app from the current user's account.
+ * Supabase rejects this unless the current session is AAL2, so a user must have passed
+ * an MFA challenge in this session before they can turn MFA off.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'factorId'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function unenrollTotpFactor(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const factorIdValidation = mfaFactorIdSchema.safeParse(formData.get("factorId"));
+  if (!factorIdValidation.success) {
+    logger.warn('TOTP unenroll failed: invalid factor ID.');
+    return {
+      success: false,
+      message: "Invalid authentication factor.",
+    };
+  }
+
+  const { error } = await mfaService.unenrollMfaFactorWithSupabase(factorIdValidation.data);
+  if (error) {
+    return supabaseErrorState(error);
+  }
+
+  logger.info(`TOTP factor removed: ${factorIdValidation.data}`);
+  return {
+    success: true,
+    message: "Two-factor authentication has been turned off.",
+  };
+}
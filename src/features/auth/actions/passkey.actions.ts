@@ -0,0 +1,297 @@
+// src/features/auth/actions/passkey.actions.ts
+"use server";
+
+import { redirect } from "next/navigation";
+import * as authService from '@/features/auth/services/auth.service';
+import * as passkeyService from '@/features/auth/services/passkey.service';
+import * as sessionService from '@/features/auth/services/session.service';
+import {
+  passkeyAuthenticationResponseSchema,
+  passkeyIdSchema,
+  passkeyNameSchema,
+  passkeyRegistrationResponseSchema,
+} from "@/features/auth/schemas";
+import type { AuthActionState, PasskeyCeremonyStart } from "@/features/auth/types";
+import { sanitizeReturnUrl } from "@/features/auth/utils";
+import { authErrorState } from "@/features/auth/utils/auth-error-state";
+import { checkAuthRateLimit } from "@/features/auth/utils/auth-rate-limit";
+import {
+  authenticatePasskey,
+  consumeWebAuthnChallenge,
+  createPasskeySignInToken,
+  getRelyingParty,
+  issueWebAuthnChallenge,
+  readClientDataChallenge,
+  storeVerifiedPasskey,
+} from "@/features/auth/utils/passkeys";
+import { getClientIp, getUserAgent } from "@/features/auth/utils/request-context";
+import { getServerLogger } from '@/lib/logger';
+import {
+  buildCreationOptions,
+  buildRequestOptions,
+  verifyRegistrationResponse,
+  type CreationOptionsJSON,
+  type RequestOptionsJSON,
+} from '@/lib/webauthn';
+
+const logger = getServerLogger('PasskeyActions');
+
+const UNAVAILABLE_MESSAGE = "Passkeys are not available right now. Please log in with your password.";
+
+/**
+ * Server Action to start adding a passkey for the current user. Issues a registration challenge
+ * and returns the options for `navigator.credentials.create`, excluding the user's existing passkeys
+ * so the same authenticator is not registered twice. Guests and accounts without an email address
+ * cannot add passkeys, since passkey sign-in is completed through the account's email identity.
+ *
+ * @returns {Promise<PasskeyCeremonyStart<CreationOptionsJSON>>} The creation options, or an error message.
+ */
+export async function startPasskeyRegistration(): Promise<PasskeyCeremonyStart<CreationOptionsJSON>> {
+  const { data: { user }, error: userError } = await authService.getUserWithSupabase();
+  if (userError || !user) {
+    return { error: "You must be logged in to add a passkey." };
+  }
+  if (user.is_anonymous || !user.email) {
+    logger.warn(`Passkey registration refused for user ${user.id}: no email address.`);
+    return { error: "Add an email address to your account before adding a passkey." };
+  }
+
+  const relyingParty = await getRelyingParty();
+  if (!relyingParty) {
+    logger.error('Passkey registration failed: the relying party could not be determined.');
+    return { error: UNAVAILABLE_MESSAGE };
+  }
+
+  const { data: passkeys, error: listError } = await passkeyService.listPasskeysWithSupabase();
+  if (listError || !passkeys) {
+    return { error: "Could not load your passkeys. Please try again." };
+  }
+
+  try {
+    const challenge = await issueWebAuthnChallenge('registration', user.id);
+    logger.info(`Passkey registration started for user ${user.id}.`);
+    return {
+      options: buildCreationOptions({
+        relyingParty,
+        challenge,
+        user: {
+          id: Buffer.from(user.id).toString('base64url'),
+          name: user.email,
+          displayName: [user.user_metadata?.['first_name'], user.user_metadata?.['last_name']].filter(Boolean).join(' ') || user.email,
+        },
+        excludeCredentials: passkeys.map((passkey) => ({ id: passkey.credential_id, type: 'public-key' as const, transports: passkey.transports })),
+      }),
+    };
+  } catch (error) {
+    logger.error({
+      message: 'Starting passkey registration failed.',
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return { error: "Could not start adding a passkey. Please try again." };
+  }
+}
+
+/**
+ * Server Action to finish adding a passkey: redeems the challenge issued by `startPasskeyRegistration`,
+ * verifies the browser's response and stores the credential under the given name.
+ *
+ * @param {unknown} response - The JSON form of the browser's registration response.
+ * @param {string} deviceName - The name the user chose for the passkey.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function finishPasskeyRegistration(response: unknown, deviceName: string): Promise<AuthActionState> {
+  const nameValidation = passkeyNameSchema.safeParse(deviceName);
+  if (!nameValidation.success) {
+    const errorMessage = nameValidation.error.errors.map((e) => e.message).join(", ");
+    return { success: false, message: errorMessage, errorFields: { deviceName: errorMessage } };
+  }
+
+  const responseValidation = passkeyRegistrationResponseSchema.safeParse(response);
+  if (!responseValidation.success) {
+    logger.warn('Passkey registration failed: malformed response from the browser.');
+    return { success: false, message: "Your browser returned an invalid passkey. Please try again." };
+  }
+
+  const { data: { user }, error: userError } = await authService.getUserWithSupabase();
+  if (userError || !user) {
+    return { success: false, message: "You must be logged in to add a passkey." };
+  }
+
+  const relyingParty = await getRelyingParty();
+  if (!relyingParty) {
+    return { success: false, message: UNAVAILABLE_MESSAGE };
+  }
+
+  const challenge = readClientDataChallenge(responseValidation.data.response.clientDataJSON);
+  const issued = challenge ? await consumeWebAuthnChallenge(challenge, 'registration') : null;
+  if (!challenge || !issued || issued.userId !== user.id) {
+    logger.warn(`Passkey registration for user ${user.id} used an unknown or expired challenge.`);
+    return { success: false, message: "Adding the passkey took too long. Please try again." };
+  }
+
+  const verification = verifyRegistrationResponse({ response: responseValidation.data, expectedChallenge: challenge, relyingParty });
+  if (!verification.verified) {
+    logger.warn(`Passkey registration verification failed for user ${user.id}: ${verification.error}`);
+    return { success: false, message: "Your passkey could not be verified. Please try again." };
+  }
+
+  const { error } = await storeVerifiedPasskey(user.id, {
+    credentialId: verification.credential.id,
+    publicKey: verification.credential.publicKey,
+    signCount: verification.credential.signCount,
+    transports: verification.credential.transports,
+    deviceName: nameValidation.data,
+  });
+  if (error) {
+    return error.code === '23505'
+      ? { success: false, message: "This passkey is already registered." }
+      : authErrorState('unexpected');
+  }
+
+  return { success: true, message: `Passkey "${nameValidation.data}" added. You can now use it to log in.` };
+}
+
+/**
+ * Server Action to rename one of the current user's passkeys.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'passkeyId' and 'deviceName'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function renamePasskey(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const idValidation = passkeyIdSchema.safeParse(formData.get("passkeyId"));
+  if (!idValidation.success) {
+    logger.warn('Passkey rename failed: invalid passkey ID.');
+    return { success: false, message: "Invalid passkey." };
+  }
+
+  const nameValidation = passkeyNameSchema.safeParse(formData.get("deviceName") ?? "");
+  if (!nameValidation.success) {
+    const errorMessage = nameValidation.error.errors.map((e) => e.message).join(", ");
+    return { success: false, message: errorMessage, errorFields: { deviceName: errorMessage } };
+  }
+
+  const { updated, error } = await passkeyService.renamePasskeyWithSupabase(idValidation.data, nameValidation.data);
+  if (error) {
+    return authErrorState('unexpected');
+  }
+  if (!updated) {
+    return { success: false, message: "That passkey no longer exists." };
+  }
+  return { success: true, message: "Passkey renamed." };
+}
+
+/**
+ * Server Action to remove one of the current user's passkeys. Password and other sign-in methods
+ * are unaffected, so removing the last passkey never locks the user out.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'passkeyId'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function removePasskey(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const idValidation = passkeyIdSchema.safeParse(formData.get("passkeyId"));
+  if (!idValidation.success) {
+    logger.warn('Passkey removal failed: invalid passkey ID.');
+    return { success: false, message: "Invalid passkey." };
+  }
+
+  const { data: { user }, error: userError } = await authService.getUserWithSupabase();
+  if (userError || !user) {
+    return { success: false, message: "You must be logged in to remove a passkey." };
+  }
+
+  const { removed, error } = await passkeyService.deletePasskeyWithSupabase(user.id, idValidation.data);
+  if (error) {
+    return authErrorState('unexpected');
+  }
+  if (!removed) {
+    return { success: false, message: "That passkey has already been removed." };
+  }
+  return { success: true, message: "Passkey removed. It can no longer be used to log in." };
+}
+
+/**
+ * Server Action to start a passkey sign-in. Issues an authentication challenge and returns the
+ * options for `navigator.credentials.get`. No credentials are listed, so the browser offers the
+ * user's discoverable passkeys for this site and nobody can probe which accounts have passkeys.
+ * Rate limited per IP (`AUTH_RATE_LIMITS.passkeySignIn`).
+ *
+ * @returns {Promise<PasskeyCeremonyStart<RequestOptionsJSON>>} The request options, or an error message.
+ */
+export async function startPasskeySignIn(): Promise<PasskeyCeremonyStart<RequestOptionsJSON>> {
+  const rateLimitState = await checkAuthRateLimit('passkeySignIn');
+  if (rateLimitState) {
+    return { error: rateLimitState.message ?? undefined };
+  }
+
+  const relyingParty = await getRelyingParty();
+  if (!relyingParty) {
+    logger.error('Passkey sign-in failed: the relying party could not be determined.');
+    return { error: UNAVAILABLE_MESSAGE };
+  }
+
+  try {
+    const challenge = await issueWebAuthnChallenge('authentication', null);
+    return { options: buildRequestOptions(relyingParty, challenge) };
+  } catch (error) {
+    logger.error({
+      message: 'Starting passkey sign-in failed.',
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return { error: UNAVAILABLE_MESSAGE };
+  }
+}
+
+/**
+ * Server Action to complete a passkey sign-in: verifies the assertion against the stored credential,
+ * then creates the session through a one-time token for the user's email identity, records the session
+ * and redirects to the sanitized return URL (or the dashboard).
+ *
+ * @param {unknown} response - The JSON form of the browser's authentication response.
+ * @param {string | null} returnUrl - The page to return to after signing in.
+ * @returns {Promise<{ error: string }>} An error message on failure; on success the action redirects and does not return.
+ */
+export async function signInWithPasskey(response: unknown, returnUrl: string | null): Promise<{ error: string }> {
+  const responseValidation = passkeyAuthenticationResponseSchema.safeParse(response);
+  if (!responseValidation.success) {
+    logger.warn('Passkey sign-in failed: malformed response from the browser.');
+    return { error: "Your browser returned an invalid passkey response. Please try again." };
+  }
+
+  const relyingParty = await getRelyingParty();
+  if (!relyingParty) {
+    return { error: UNAVAILABLE_MESSAGE };
+  }
+
+  const result = await authenticatePasskey(responseValidation.data, relyingParty);
+  if ('error' in result) {
+    return { error: result.error };
+  }
+  if (!result.email) {
+    logger.warn(`Passkey sign-in refused for user ${result.userId}: the account has no email address.`);
+    return { error: "Passkey sign-in is not available for this account. Please log in another way." };
+  }
+
+  let tokenHash: string;
+  try {
+    tokenHash = await createPasskeySignInToken(result.email);
+  } catch (error) {
+    logger.error({
+      message: `Creating the passkey sign-in token for user ${result.userId} failed.`,
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return { error: "Could not sign you in. Please try again." };
+  }
+
+  const { data, error } = await authService.signInWithPasskeyWithSupabase(tokenHash);
+  if (error || !data.user) {
+    return { error: "Could not sign you in. Please try again." };
+  }
+
+  // Best effort: the sessions list falls back to what Supabase stores if this fails.
+  await sessionService.recordUserSessionWithSupabase({ userAgent: await getUserAgent(), ipAddress: await getClientIp() });
+  const destination = sanitizeReturnUrl(returnUrl);
+  logger.info(`Passkey sign-in successful, redirecting user: ${data.user.id} to ${destination}`);
+  redirect(destination);
+}
@@ -0,0 +1,187 @@
+// src/features/auth/actions/phone.actions.ts
+"use server";
+
+import { redirect } from "next/navigation";
+import * as authService from '@/features/auth/services/auth.service';
+import * as sessionService from '@/features/auth/services/session.service';
+import {
+  firstNameSchema as commonFirstNameSchema,
+  lastNameSchema as commonLastNameSchema,
+  phoneAuthIntentSchema,
+  phoneNumberSchema,
+  smsOtpCodeSchema,
+} from "@/features/auth/schemas";
+import type { AuthActionState } from "@/features/auth/types";
+import { RETURN_URL_PARAM, sanitizeReturnUrl } from "@/features/auth/utils";
+import { checkAuthRateLimit, resetAuthRateLimit } from "@/features/auth/utils/auth-rate-limit";
+import { supabaseErrorState } from "@/features/auth/utils/auth-error-state";
+import { mapSupabaseAuthError } from "@/features/auth/utils/auth-errors";
+import { normalizePhoneNumber } from "@/features/auth/utils/phone";
+import { getClientIp, getUserAgent } from "@/features/auth/utils/request-context";
+import { REGISTRATION_REFUSAL_MESSAGES } from "@/features/invites/constants";
+import { admitUser, getRegistrationMode } from "@/features/invites/utils/registration";
+import { isAdmittedUser } from "@/features/invites/utils/registration-mode";
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('PhoneActions');
+
+/**
+ * Server Action to start a phone sign-in or sign-up: normalizes the number to E.164 and asks Supabase
+ * to text a 6-digit code, which is then entered in `verifyPhoneOtp`. Supabase hands the code to the
+ * Send SMS hook (`/api/auth/hooks/send-sms`), which delivers it through the configured `SmsSender`.
+ * - `sign-in` only works for existing accounts (`shouldCreateUser: false`), and an unknown number gets
+ *   the same response as a known one so the form cannot be used to probe for accounts.
+ * - `sign-up` creates the account on verification, with the first and last name as user metadata. It is
+ *   only available while registration is `open`, since invites are bound to email addresses.
+ * Rate limited per IP and per number (`AUTH_RATE_LIMITS.smsOtp`).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'intent', 'country' and 'phone', plus 'firstName' and 'lastName' for sign-ups.
+ * @returns {Promise<AuthActionState>} The new state; on success `errorFields` is null and the message says a code was sent.
+ */
+export async function requestPhoneOtp(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const intentValidation = phoneAuthIntentSchema.safeParse(formData.get("intent"));
+  if (!intentValidation.success) {
+    return {
+      success: false,
+      message: "Invalid request. Please reload the page and try again.",
+    };
+  }
+  const intent = intentValidation.data;
+
+  const phone = normalizePhoneNumber(String(formData.get("country") ?? ""), String(formData.get("phone") ?? ""));
+  const phoneValidation = phoneNumberSchema.safeParse(phone);
+  if (!phone || !phoneValidation.success) {
+    const errorMessage = "Enter a valid phone number, including the area code.";
+    logger.warn('Phone sign-in validation failed for the number.', { intent });
+    return {
+      success: false,
+      message: errorMessage,
+      errorFields: { phone: errorMessage }
+    };
+  }
+  logger.info(`Phone ${intent} requested for number: ${phone.substring(0, 5)}...`);
+
+  let userMetadata: { first_name: string; last_name: string } | undefined;
+  if (intent === 'sign-up') {
+    const registrationMode = getRegistrationMode();
+    if (registrationMode !== 'open') {
+      logger.warn(`Phone sign-up refused: registration is ${registrationMode}.`);
+      return {
+        success: false,
+        message: registrationMode === 'closed'
+          ? REGISTRATION_REFUSAL_MESSAGES.closed
+          : "Sign-up with a phone number is not available. Please register with your email address.",
+      };
+    }
+
+    const firstNameValidation = commonFirstNameSchema.safeParse(formData.get("firstName") ?? "");
+    const lastNameValidation = commonLastNameSchema.safeParse(formData.get("lastName") ?? "");
+    if (!firstNameValidation.success || !lastNameValidation.success) {
+      const errorFields: Record<string, string> = {};
+      if (!firstNameValidation.success) errorFields["firstName"] = firstNameValidation.error.errors.map((e) => e.message).join(", ");
+      if (!lastNameValidation.success) errorFields["lastName"] = lastNameValidation.error.errors.map((e) => e.message).join(", ");
+      return {
+        success: false,
+        message: "Please correct the errors in the form.",
+        errorFields,
+      };
+    }
+    userMetadata = { first_name: firstNameValidation.data, last_name: lastNameValidation.data };
+  }
+
+  const rateLimitState = await checkAuthRateLimit('smsOtp', phone);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const { error } = await authService.signInWithOtpWithSupabase({
+    phone,
+    options: intent === 'sign-up'
+      ? { shouldCreateUser: true, data: userMetadata }
+      : { shouldCreateUser: false },
+  });
+
+  // As with email codes, an unknown number on sign-in is treated like a success.
+  const isUnknownAccount = intent === 'sign-in'
+    && !!error && (mapSupabaseAuthError(error) === 'signup_disabled' || error.message.includes("Signups not allowed"));
+  if (error && !isUnknownAccount) {
+    logger.error('Service error during phone sign-in request.', { phone: phone.substring(0, 5), serviceError: error.message, code: error.code });
+    return supabaseErrorState(error);
+  }
+
+  logger.info(`Phone ${intent} code processed for: ${phone.substring(0, 5)}...`);
+  return {
+    success: true,
+    message: intent === 'sign-up'
+      ? "We've sent a 6-digit code to your phone."
+      : "If an account exists for this number, we've sent a 6-digit code.",
+    errorFields: null,
+  };
+}
+
+/**
+ * Server Action to complete a phone sign-in or sign-up with the 6-digit code from the text message.
+ * Verifies the code with Supabase (type `sms`), which also confirms the number, records the session
+ * and redirects to the sanitized return URL (or the dashboard). While registration is open, a new
+ * account is marked as admitted (`admitUser`).
+ * Rate limited per IP and per number (`AUTH_RATE_LIMITS.smsOtpVerify`), so codes cannot be guessed.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'phone' (E.164, carried over from the first step), 'token' and optionally 'next'.
+ * @returns {Promise<AuthActionState>} The new state on failure; on success the action redirects and does not return.
+ */
+export async function verifyPhoneOtp(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const phoneValidation = phoneNumberSchema.safeParse(formData.get("phone"));
+  if (!phoneValidation.success) {
+    logger.warn('Phone OTP verification failed: invalid number carried over from the first step.');
+    return {
+      success: false,
+      message: "Invalid phone number. Please start again.",
+    };
+  }
+  const phone = phoneValidation.data;
+  logger.info(`Phone OTP verification attempt for number: ${phone.substring(0, 5)}...`);
+
+  const tokenValidation = smsOtpCodeSchema.safeParse(formData.get("token"));
+  if (!tokenValidation.success) {
+    const errorMessage = tokenValidation.error.errors.map((e) => e.message).join(", ");
+    logger.warn('Phone OTP verification validation failed for token.', { error: errorMessage });
+    return {
+      success: false,
+      message: errorMessage,
+      errorFields: { token: errorMessage }
+    };
+  }
+
+  const rateLimitState = await checkAuthRateLimit('smsOtpVerify', phone);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const { data, error } = await authService.verifyOtpWithSupabase({
+    phone,
+    token: tokenValidation.data,
+    type: "sms",
+  });
+
+  if (error || !data.user) {
+    logger.warn('Phone OTP verification failed.', { phone: phone.substring(0, 5), serviceError: error?.message });
+    return {
+      success: false,
+      message: "The code is invalid or has expired. Please request a new one.",
+      errorFields: { token: "Invalid or expired code." }
+    };
+  }
+
+  await resetAuthRateLimit('smsOtpVerify', phone);
+  // Phone sign-ups are only accepted while registration is open, so the new account is admitted here.
+  if (getRegistrationMode() === 'open' && !isAdmittedUser(data.user)) {
+    await admitUser(data.user.id);
+  }
+  // Best effort: the sessions list falls back to what Supabase stores if this fails.
+  await sessionService.recordUserSessionWithSupabase({ userAgent: await getUserAgent(), ipAddress: await getClientIp() });
+  const returnUrl = sanitizeReturnUrl(formData.get(RETURN_URL_PARAM));
+  logger.info(`Phone OTP sign-in successful, redirecting user: ${data.user.id} to ${returnUrl}`);
+  redirect(returnUrl);
+}
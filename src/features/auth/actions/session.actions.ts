@@ -0,0 +1,153 @@
+// src/features/auth/actions/session.actions.ts
+"use server";
+
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import * as authService from '@/features/auth/services/auth.service';
+import * as sessionService from '@/features/auth/services/session.service';
+import { sessionIdSchema } from "@/features/auth/schemas";
+import { SESSION_ACTIVITY_COOKIE, type SessionEndReason } from "@/features/auth/constants/session-timeouts";
+import type { AuthActionState, SessionTimeoutStatus } from "@/features/auth/types";
+import { LOGIN_PATH } from "@/features/auth/utils/route-policy";
+import { withReturnUrl } from "@/features/auth/utils/return-url";
+import {
+  evaluateSessionTimeouts,
+  getSessionActivityCookieOptions,
+  parseSessionEndReason,
+  readSessionClaims,
+  serializeSessionActivity,
+  withSessionEndReason,
+} from "@/features/auth/utils/session-timeouts";
+import { createClient } from "@/lib/supabase/server";
+import { authErrorState, supabaseErrorState } from "@/features/auth/utils/auth-error-state";
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('SessionActions');
+
+/**
+ * Server Action to sign out one of the current user's other sessions.
+ * The current session is rejected here; users end it with the regular sign-out.
+ * The device is signed out the next time it refreshes its token, at the latest when its
+ * current access token expires.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'sessionId'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function revokeUserSession(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const sessionIdValidation = sessionIdSchema.safeParse(formData.get("sessionId"));
+  if (!sessionIdValidation.success) {
+    logger.warn('Session revoke failed: invalid session ID.');
+    return {
+      success: false,
+      message: "Invalid session.",
+    };
+  }
+
+  const { data: sessions, error: listError } = await sessionService.listUserSessionsWithSupabase();
+  if (listError || !sessions) {
+    return {
+      success: false,
+      message: "Could not load your sessions. Please try again.",
+    };
+  }
+  if (sessions.some((session) => session.is_current && session.id === sessionIdValidation.data)) {
+    logger.warn('Session revoke rejected: the current session cannot be revoked from the list.');
+    return {
+      success: false,
+      message: "Use Sign Out to end the session on this device.",
+    };
+  }
+
+  const { revoked, error } = await sessionService.revokeUserSessionWithSupabase(sessionIdValidation.data);
+  if (error) {
+    return authErrorState('unexpected');
+  }
+  if (!revoked) {
+    return {
+      success: false,
+      message: "That session has already ended.",
+    };
+  }
+
+  logger.info(`Session revoked: ${sessionIdValidation.data}`);
+  return {
+    success: true,
+    message: "That device has been signed out.",
+  };
+}
+
+/**
+ * Server Action to sign out every session of the current user except this one.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function signOutOtherSessions(_prevState: AuthActionState): Promise<AuthActionState> {
+  const { error } = await authService.signOutWithSupabase('others');
+  if (error) {
+    return supabaseErrorState(error);
+  }
+
+  logger.info('Signed out all other sessions of the current user.');
+  return {
+    success: true,
+    message: "All other devices have been signed out.",
+  };
+}
+
+/**
+ * Server Action behind the idle timeout countdown in `AuthSessionProvider`.
+ * Reports how long the current session has left and, with `recordActivity`, records that the user
+ * is active, which the middleware does not do for Server Actions. Guests are never timed out.
+ * A session the middleware has just signed out for timing out reports `signed_out`.
+ *
+ * @param {boolean} recordActivity - Whether the user has been active in the page.
+ * @returns {Promise<SessionTimeoutStatus>} When the session started and was last active, or why it ended.
+ */
+export async function checkSessionTimeout(recordActivity: boolean): Promise<SessionTimeoutStatus> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { status: 'signed_out' };
+  }
+
+  // getUser() has just validated this session's access token, so its claims can be trusted.
+  const { data: { session } } = await supabase.auth.getSession();
+  const claims = readSessionClaims(session?.access_token);
+  if (user.is_anonymous || !claims) {
+    return { status: 'signed_out' };
+  }
+
+  const cookieStore = await cookies();
+  const now = Math.floor(Date.now() / 1000);
+  const verdict = await evaluateSessionTimeouts(claims, cookieStore.get(SESSION_ACTIVITY_COOKIE)?.value, { now, recordActivity });
+  if (verdict.status === 'expired') {
+    return { status: 'expired', reason: verdict.reason };
+  }
+  const activityCookie = recordActivity ? await serializeSessionActivity(verdict.activity) : null;
+  if (activityCookie) {
+    cookieStore.set(SESSION_ACTIVITY_COOKIE, activityCookie, getSessionActivityCookieOptions());
+  }
+  return { status: 'active', startedAt: verdict.activity.startedAt, lastActiveAt: verdict.activity.lastActiveAt, now };
+}
+
+/**
+ * Server Action to sign out a session that reached the idle timeout or maximum age in the browser,
+ * and send the user to `/login` with the reason and the page they were on.
+ *
+ * @param {SessionEndReason} reason - Which limit was reached.
+ * @param {string} returnUrl - The page to return to after signing in again.
+ * @returns {Promise<void>} Does not return; redirects to the login page.
+ */
+export async function endTimedOutSession(reason: SessionEndReason, returnUrl: string): Promise<void> {
+  const safeReason = parseSessionEndReason(reason) ?? 'idle';
+  const { error } = await authService.signOutWithSupabase();
+  if (error) {
+    logger.error("Signing out a timed-out session failed.", { reason: safeReason, serviceError: error.message });
+  } else {
+    logger.info(`Session signed out by the ${safeReason} limit.`);
+  }
+  (await cookies()).delete(SESSION_ACTIVITY_COOKIE);
+  redirect(withSessionEndReason(withReturnUrl(LOGIN_PATH, returnUrl), safeReason));
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect } from "react";
+import { useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import Link from "next/link";
+import { Input, Button, Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui";
+import { requestPasswordReset, resendConfirmationEmail } from "@/features/auth/actions";
+import { AUTH_CODE_ERROR_MESSAGES, EMAIL_CHANGE_RETURN_PATH, type AuthCodeErrorReason, type AuthLinkFlow } from "@/features/auth/constants";
+import type { AuthActionState } from "@/features/auth/types";
+import { useCaptchaRequired, useRetryCountdown } from "@/features/auth/hooks";
+import { CaptchaWidget } from "./captcha-widget";
+import { RetryCountdownNotice } from "./retry-countdown-notice";
+import { useToast } from "@/hooks";
+import { PassForgeLogo } from "@/components/icons";
+import { KeyRound, Loader2, Mail, MailCheck } from "lucide-react";
+
+/**
+ * A submit button that displays a loading spinner while its form action is pending.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.icon - The icon shown when idle.
+ * @param {string} props.label - The button label.
+ * @param {boolean} [props.disabled] - Disables the button, e.g. while rate limited.
+ * @returns {JSX.Element} The submit button.
+ */
+function PendingButton({ icon, label, disabled = false }: { icon: React.ReactNode; label: string; disabled?: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" className="w-full" disabled={pending || disabled}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : icon}
+      {label}
+    </Button>
+  );
+}
+
+interface NewLinkFormProps {
+  action: (prevState: AuthActionState, formData: FormData) => Promise<AuthActionState>;
+  email?: string;
+  icon: React.ReactNode;
+  label: string;
+}
+
+/**
+ * Asks for a new link by email. When the failed link carried the address, it is prefilled,
+ * so sending a new link is a single click.
+ *
+ * @param {NewLinkFormProps} props - The Server Action, the known email address and the button.
+ * @returns {JSX.Element} The form.
+ */
+function NewLinkForm({ action, email, icon, label }: NewLinkFormProps): JSX.Element {
+  const { toast } = useToast();
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(action, initialState);
+  const retrySecondsLeft = useRetryCountdown(state);
+  const captchaRequired = useCaptchaRequired(state);
+
+  useEffect(() => {
+    if (!state?.message) return;
+    if (state.success) {
+      toast({ title: "Check Your Email", description: state.message });
+    } else if (!state.retryAfterSeconds) {
+      toast({ title: "Could Not Send Link", description: state.message, variant: "destructive" });
+    }
+  }, [state, toast]);
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <div className="space-y-2">
+        <label htmlFor="email" className="block text-sm font-medium text-foreground">
+          Email Address
+        </label>
+        <div className="relative">
+          <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          <Input
+            id="email"
+            name="email"
+            type="email"
+            placeholder="you@example.com"
+            defaultValue={email}
+            required
+            className="pl-10 focus:ring-accent"
+            aria-describedby={state?.errorFields?.["email"] ? "email-error" : undefined}
+          />
+        </div>
+        {state?.errorFields?.["email"] && <p id="email-error" className="text-sm text-destructive">{state.errorFields["email"]}</p>}
+      </div>
+      {captchaRequired && <CaptchaWidget resetSignal={state} />}
+      <PendingButton icon={icon} label={label} disabled={retrySecondsLeft > 0 || !!state?.success} />
+      <RetryCountdownNotice secondsLeft={retrySecondsLeft} />
+    </form>
+  );
+}
+
+interface AuthCodeErrorCardProps {
+  reason: AuthCodeErrorReason;
+  flow: AuthLinkFlow | null;
+  /** The address the link was sent to, when the link carried it. */
+  email?: string;
+}
+
+/**
+ * Explains why an email or social login link failed and offers the way out that fits the link:
+ * a new confirmation link for sign-ups (`resendConfirmationEmail`), a new reset link for password
+ * resets (`requestPasswordReset`), and otherwise a route back to where the user started.
+ * Rendered by `/auth/auth-code-error`, which reads the reason and link type from the URL.
+ *
+ * @param {AuthCodeErrorCardProps} props - The component props.
+ * @returns {JSX.Element} The error card.
+ */
+export function AuthCodeErrorCard({ reason, flow, email }: AuthCodeErrorCardProps): JSX.Element {
+  const { title, description } = AUTH_CODE_ERROR_MESSAGES[reason];
+
+  let recovery: JSX.Element;
+  switch (flow) {
+    case "signup":
+      recovery = (
+        <NewLinkForm action={resendConfirmationEmail} email={email} icon={<MailCheck className="mr-2 h-4 w-4" />} label="Resend confirmation email" />
+      );
+      break;
+    case "recovery":
+      recovery = (
+        <NewLinkForm action={requestPasswordReset} email={email} icon={<KeyRound className="mr-2 h-4 w-4" />} label="Send a new reset link" />
+      );
+      break;
+    case "email_change":
+      recovery = (
+        <Button asChild className="w-full">
+          <Link href={EMAIL_CHANGE_RETURN_PATH}>Request the email change again</Link>
+        </Button>
+      );
+      break;
+    case "invite":
+      recovery = (
+        <p className="text-sm text-muted-foreground">Ask the person who invited you to send a new invitation.</p>
+      );
+      break;
+    case "magiclink":
+    case "oauth":
+      recovery = (
+        <Button asChild className="w-full">
+          <Link href="/login">Log in again</Link>
+        </Button>
+      );
+      break;
+    default:
+      recovery = (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            If you were confirming a new account, we can send you a new confirmation link.
+          </p>
+          <NewLinkForm action={resendConfirmationEmail} email={email} icon={<MailCheck className="mr-2 h-4 w-4" />} label="Resend confirmation email" />
+        </div>
+      );
+  }
+
+  return (
+    <div className="w-full animate-fade-in">
+      <Card className="w-full shadow-xl">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <PassForgeLogo className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-3xl font-bold">{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent>{recovery}</CardContent>
+        <CardFooter className="flex-col items-center gap-1 text-sm">
+          <Link href="/login" className="text-primary font-medium hover:underline">
+            Back to login
+          </Link>
+          <Link href="/forgot-password" className="text-muted-foreground hover:underline">
+            Forgot your password?
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CAPTCHA_TOKEN_FIELD } from "@/features/auth/constants";
+import { getCaptchaClientConfig, type CaptchaClientConfig } from "@/lib/captcha/captcha-config";
+import { TEST_CAPTCHA_TOKEN } from "@/lib/captcha/test-verifier";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ShieldCheck } from "lucide-react";
+
+type WidgetProvider = Exclude<CaptchaClientConfig["provider"], "test">;
+
+/** The subset of the Turnstile and hCaptcha browser APIs used here; both render the same way. */
+interface CaptchaApi {
+  render(container: HTMLElement, params: {
+    sitekey: string;
+    callback: (token: string) => void;
+    "expired-callback": () => void;
+    "error-callback": () => void;
+  }): string;
+  remove(widgetId: string): void;
+}
+
+declare global {
+  interface Window {
+    turnstile?: CaptchaApi;
+    hcaptcha?: CaptchaApi;
+  }
+}
+
+const SCRIPT_URLS: Record<WidgetProvider, string> = {
+  turnstile: "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit",
+  hcaptcha: "https://js.hcaptcha.com/1/api.js?render=explicit",
+};
+
+const scriptPromises: Partial<Record<WidgetProvider, Promise<CaptchaApi>>> = {};
+
+/**
+ * Loads the provider's script once per page and resolves with its API.
+ * @param {WidgetProvider} provider - The CAPTCHA provider.
+ * @returns {Promise<CaptchaApi>} The provider's browser API.
+ */
+function loadCaptchaApi(provider: WidgetProvider): Promise<CaptchaApi> {
+  scriptPromises[provider] ??= new Promise<CaptchaApi>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = SCRIPT_URLS[provider];
+    script.async = true;
+    script.onload = () => {
+      const api = window[provider];
+      if (api) resolve(api);
+      else reject(new Error(`The ${provider} script loaded without its API.`));
+    };
+    script.onerror = () => {
+      delete scriptPromises[provider];
+      reject(new Error(`Could not load the ${provider} script.`));
+    };
+    document.head.appendChild(script);
+  });
+  return scriptPromises[provider];
+}
+
+/**
+ * Renders the configured CAPTCHA challenge and submits its token in a hidden `captchaToken` field,
+ * which `checkAuthCaptcha` verifies server-side. Forms render it only once the action asked for it
+ * (see `useCaptchaRequired`). Tokens are single-use, so the widget is rendered afresh whenever
+ * `resetSignal` changes, e.g. on each new action state.
+ * With the `test` provider a plain checkbox stands in for the challenge.
+ *
+ * @param {object} props - The component props.
+ * @param {unknown} [props.resetSignal] - A value that changes whenever a new token is needed.
+ * @returns {JSX.Element | null} The widget, or null when CAPTCHA is disabled.
+ */
+export function CaptchaWidget({ resetSignal }: { resetSignal?: unknown }): JSX.Element | null {
+  const config = getCaptchaClientConfig();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [token, setToken] = useState("");
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken("");
+    if (!config || config.provider === "test") return;
+    const provider = config.provider;
+
+    let cancelled = false;
+    let widgetId: string | undefined;
+    loadCaptchaApi(provider)
+      .then((api) => {
+        if (cancelled || !containerRef.current) return;
+        setLoadError(null);
+        widgetId = api.render(containerRef.current, {
+          sitekey: config.siteKey,
+          callback: setToken,
+          "expired-callback": () => setToken(""),
+          "error-callback": () => setToken(""),
+        });
+      })
+      .catch((error: Error) => setLoadError(error.message));
+
+    return () => {
+      cancelled = true;
+      if (widgetId !== undefined) window[provider]?.remove(widgetId);
+    };
+  }, [config?.provider, config?.siteKey, resetSignal]);
+
+  if (!config) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <ShieldCheck className="h-4 w-4" />
+        Please confirm you&apos;re not a robot.
+      </p>
+      {config.provider === "test" ? (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="captcha-test"
+            checked={token === TEST_CAPTCHA_TOKEN}
+            onCheckedChange={(checked) => setToken(checked === true ? TEST_CAPTCHA_TOKEN : "")}
+          />
+          <Label htmlFor="captcha-test" className="font-normal">I&apos;m not a robot (test challenge)</Label>
+        </div>
+      ) : (
+        <div ref={containerRef} />
+      )}
+      {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+      <input type="hidden" name={CAPTCHA_TOKEN_FIELD} value={token} />
+    </div>
+  );
+}
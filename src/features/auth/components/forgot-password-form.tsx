@@ -8,6 +8,9 @@ import { Input } from "@/components/ui";
 import { Button } from "@/components/ui";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui";
 import { requestPasswordReset } from "@/features/auth/actions";
+import { useCaptchaRequired, useRetryCountdown } from "@/features/auth/hooks";
+import { RetryCountdownNotice } from "./retry-countdown-notice";
+import { CaptchaWidget } from "./captcha-widget";
 import { useToast } from "@/hooks";
 import { PassForgeLogo } from "@/components/icons";
 import { Mail, Loader2 } from "lucide-react";
@@ -15,29 +18,26 @@ import * as Sentry from '@sentry/nextjs';
 
 /**
  * A button component that displays a loading spinner while the form action is pending.
+ * @param {object} props - The component props.
+ * @param {boolean} [props.disabled] - Disables the button, e.g. while rate limited.
  * @returns {JSX.Element} The submit button.
  */
-function SubmitButton() {
+function SubmitButton({ disabled = false }: { disabled?: boolean }) {
   const { pending } = useFormStatus();
   return (
-    <Button type="submit" className="w-full" disabled={pending}>
+    <Button type="submit" className="w-full" disabled={pending || disabled}>
       {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
       Send Reset Link
     </Button>
   );
 }
 
-// List of common user-facing error/info messages that shouldn't be sent to Sentry as system errors.
-const USER_FACING_FORGOT_PASSWORD_MESSAGES = [
-  "invalid email address",
-  "if an account exists for this email, a password reset link has been sent." // This is a success message
-];
-
 /**
  * Renders the "Forgot Password" form.
  * Allows users to enter their email address to request a password reset link.
  * Uses a Server Action (`requestPasswordReset`) to handle the submission.
- * Displays success or error messages using toasts.
+ * Displays success or error messages using toasts, and a countdown when rate limited.
+ * Shows `CaptchaWidget` once the server asks for a CAPTCHA after repeated requests.
  * This component is intended to be rendered within a layout that handles overall page structure.
  *
  * @returns {JSX.Element} The forgot password form component.
@@ -46,6 +46,8 @@ export default function ForgotPasswordForm(): JSX.Element {
   const { toast } = useToast();
   const initialState = { message: null, success: false, errorFields: null };
   const [state, formAction] = useActionState(requestPasswordReset, initialState);
+  const retrySecondsLeft = useRetryCountdown(state);
+  const captchaRequired = useCaptchaRequired(state);
 
   useEffect(() => {
     if (state?.message) {
@@ -60,11 +62,8 @@ export default function ForgotPasswordForm(): JSX.Element {
           description: state.message,
           variant: "destructive",
         });
-        // Log to Sentry if the error doesn't seem like a common user validation/info error.
-        const isUserFacingError = USER_FACING_FORGOT_PASSWORD_MESSAGES.some(sub => 
-          state.message!.toLowerCase().includes(sub)
-        );
-        if (!isUserFacingError && !state.errorFields) {
+        // Only errors the server could not classify go to Sentry; every other code is an expected user error.
+        if (state.errorCode === 'unexpected') {
           Sentry.captureMessage('Forgot password action failed with unexpected server message', {
             level: 'error',
             extra: { 
@@ -108,7 +107,9 @@ export default function ForgotPasswordForm(): JSX.Element {
               </div>
               {state?.errorFields?.email && <p id="email-error" className="text-sm text-destructive">{state.errorFields.email}</p>}
             </div>
-            <SubmitButton />
+            {captchaRequired && <CaptchaWidget resetSignal={state} />}
+            <SubmitButton disabled={retrySecondsLeft > 0} />
+            <RetryCountdownNotice secondsLeft={retrySecondsLeft} />
           </form>
         </CardContent>
       </Card>
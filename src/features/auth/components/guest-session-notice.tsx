@@ -0,0 +1,33 @@
+"use client";
+
+import Link from "next/link";
+import { useAuth } from "@/features/auth/hooks";
+import { GUEST_UPGRADE_PATH } from "@/features/auth/utils/route-policy";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { UserRound } from "lucide-react";
+
+/**
+ * Warns a guest on the login and registration pages that signing in to another account or
+ * registering a new one leaves their guest data behind, and points them to the upgrade page,
+ * which saves the guest account instead. Renders nothing for everyone else.
+ *
+ * @returns {JSX.Element | null} The notice, or null when the user is not a guest.
+ */
+export function GuestSessionNotice(): JSX.Element | null {
+  const { isGuest } = useAuth();
+  if (!isGuest) return null;
+
+  return (
+    <Alert className="mb-6">
+      <UserRound className="h-4 w-4" />
+      <AlertTitle>You&apos;re using a guest account</AlertTitle>
+      <AlertDescription>
+        Signing in or creating a new account here leaves what you did as a guest behind.{" "}
+        <Link href={GUEST_UPGRADE_PATH} className="font-medium text-primary hover:underline">
+          Save your guest account
+        </Link>{" "}
+        to keep it.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect } from "react";
+import { useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Button } from "@/components/ui";
+import { signInAsGuest } from "@/features/auth/actions";
+import { useRetryCountdown } from "@/features/auth/hooks";
+import { ReturnUrlField } from "./return-url-field";
+import { RetryCountdownNotice } from "./retry-countdown-notice";
+import { useToast } from "@/hooks";
+import { Loader2, UserRound } from "lucide-react";
+
+/**
+ * The submit button, showing a spinner while the guest session is being created.
+ * @param {object} props - The component props.
+ * @param {boolean} props.disabled - Disables the button, e.g. while rate limited.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" variant="ghost" className="w-full" disabled={pending || disabled}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserRound className="mr-2 h-4 w-4" />}
+      Continue as guest
+    </Button>
+  );
+}
+
+/**
+ * Lets visitors try the app without an account through the `signInAsGuest` Server Action.
+ * Only render it when guest sessions are enabled (`areGuestSessionsEnabled`, read on the server).
+ *
+ * @param {object} props - The component props.
+ * @param {string} [props.returnUrl] - The page to go to once the guest session has started.
+ * @returns {JSX.Element} The guest sign-in form.
+ */
+export function GuestSignInButton({ returnUrl }: { returnUrl?: string }): JSX.Element {
+  const { toast } = useToast();
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(signInAsGuest, initialState);
+  const retrySecondsLeft = useRetryCountdown(state);
+
+  useEffect(() => {
+    if (state?.message && !state.success && !state.retryAfterSeconds) {
+      toast({ title: "Guest Access Failed", description: state.message, variant: "destructive" });
+    }
+  }, [state, toast]);
+
+  return (
+    <form action={formAction} className="space-y-2">
+      <ReturnUrlField returnUrl={returnUrl} />
+      <SubmitButton disabled={retrySecondsLeft > 0} />
+      <RetryCountdownNotice secondsLeft={retrySecondsLeft} />
+      <p className="text-center text-xs text-muted-foreground">
+        Try PassForge without signing up. You can save your guest account later.
+      </p>
+    </form>
+  );
+}
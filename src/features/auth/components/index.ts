@@ -3,3 +3,17 @@ export { default as LoginForm } from './login-form';
 export { default as ResetPasswordForm } from './reset-password-form';
 export { default as ForgotPasswordForm } from './forgot-password-form';
 export * from './register-form';
+export * from './oauth-provider-buttons';
+export * from './passwordless-login-form';
+export * from './mfa-challenge-form';
+export * from './return-url-field';
+export * from './retry-countdown-notice';
+export * from './password-strength-meter';
+export * from './captcha-widget';
+export * from './guest-sign-in-button';
+export * from './guest-session-notice';
+export * from './phone-auth-form';
+export * from './passkey-sign-in-button';
+export * from './auth-code-error-card';
+export * from './session-timeout-dialog';
+export * from './session-ended-notice';
@@ -7,6 +7,19 @@ import { useFormStatus } from "react-dom";
 import Link from "next/link";
 import { Input, Button, Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui";
 import { signInWithPassword } from "@/features/auth/actions";
+import { OAuthProviderButtons } from "./oauth-provider-buttons";
+import { PasskeySignInButton } from "./passkey-sign-in-button";
+import { PasswordlessLoginForm } from "./passwordless-login-form";
+import { PhoneAuthForm } from "./phone-auth-form";
+import { ReturnUrlField } from "./return-url-field";
+import { RetryCountdownNotice } from "./retry-countdown-notice";
+import { CaptchaWidget } from "./captcha-widget";
+import { GuestSessionNotice } from "./guest-session-notice";
+import { GuestSignInButton } from "./guest-sign-in-button";
+import { SessionEndedNotice } from "./session-ended-notice";
+import { useCaptchaRequired, useRetryCountdown } from "@/features/auth/hooks";
+import { withReturnUrl } from "@/features/auth/utils/return-url";
+import type { SessionEndReason } from "@/features/auth/constants/session-timeouts";
 import { useToast } from "@/hooks";
 import { PassForgeLogo } from "@/components/icons";
 import { LogIn, Mail, KeyRound, Loader2, Eye, EyeOff } from "lucide-react";
@@ -14,41 +27,59 @@ import * as Sentry from '@sentry/nextjs';
 
 /**
  * A button component that displays a loading spinner while the form action is pending.
+ * @param {object} props - The component props.
+ * @param {boolean} [props.disabled] - Disables the button, e.g. while rate limited.
  * @returns {JSX.Element} The submit button.
  */
-function SubmitButton() {
+function SubmitButton({ disabled = false }: { disabled?: boolean }) {
   const { pending } = useFormStatus();
   return (
-    <Button type="submit" className="w-full" disabled={pending}>
+    <Button type="submit" className="w-full" disabled={pending || disabled}>
       {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
       Log In
     </Button>
   );
 }
 
-// List of common user-facing error messages that shouldn't be sent to Sentry as system errors.
-const USER_FACING_ERROR_SUBSTRINGS = [
-  "invalid email address",
-  "password is required",
-  "invalid login credentials",
-  "please check your credentials"
-];
-
 /**
  * Renders the login form.
  * Allows users to sign in with their email and password.
  * Uses a Server Action (`signInWithPassword`) to handle authentication.
+ * Also offers social sign-in through `OAuthProviderButtons`, a passwordless mode
+ * (magic link or emailed code) through `PasswordlessLoginForm`, and sign-in with a texted code
+ * through `PhoneAuthForm`. Browsers with WebAuthn also get "Sign in with passkey" (`PasskeySignInButton`).
  * Displays success or error messages using toasts and handles redirection on success.
+ * When sign-in is rate limited, the submit button stays disabled for the countdown.
+ * After repeated failures the server asks for a CAPTCHA, and `CaptchaWidget` is shown above the button.
  * Includes a password visibility toggle.
+ * Every sign-in method carries `returnUrl`, so users land on the page they originally asked for.
+ * When guest sessions are enabled, visitors can also continue as a guest (`GuestSignInButton`);
+ * a guest who comes back here is reminded to save their account instead (`GuestSessionNotice`).
+ * After a session timed out, `SessionEndedNotice` explains why the user was signed out.
  * This component is intended to be rendered within a layout that handles overall page structure.
  *
+ * @param {object} props - The component props.
+ * @param {string} [props.returnUrl] - The page to return to after signing in (the `next` parameter).
+ * @param {boolean} [props.guestSessionsEnabled=false] - Whether to offer "Continue as guest".
+ * @param {SessionEndReason | null} [props.sessionEndReason] - Why the previous session was signed out, if it timed out.
  * @returns {JSX.Element} The login form component.
  */
-export default function LoginForm(): JSX.Element {
+export default function LoginForm({
+  returnUrl,
+  guestSessionsEnabled = false,
+  sessionEndReason = null,
+}: {
+  returnUrl?: string;
+  guestSessionsEnabled?: boolean;
+  sessionEndReason?: SessionEndReason | null;
+}): JSX.Element {
   const { toast } = useToast();
   const initialState = { message: null, success: false, errorFields: null };
   const [state, formAction] = useActionState(signInWithPassword, initialState);
+  const retrySecondsLeft = useRetryCountdown(state);
+  const captchaRequired = useCaptchaRequired(state);
   const [showPassword, setShowPassword] = useState(false);
+  const [method, setMethod] = useState<"password" | "passwordless" | "phone">("password");
 
   useEffect(() => {
     if (state?.message) {
@@ -63,11 +94,8 @@ export default function LoginForm(): JSX.Element {
           description: state.message,
           variant: "destructive",
         });
-        // Log to Sentry if the error doesn't seem like a common user validation error.
-        const isUserFacingError = USER_FACING_ERROR_SUBSTRINGS.some(sub => 
-          state.message!.toLowerCase().includes(sub)
-        );
-        if (!isUserFacingError && !state.errorFields) {
+        // Only errors the server could not classify go to Sentry; every other code is an expected user error.
+        if (state.errorCode === 'unexpected') {
           Sentry.captureMessage('Login action failed with unexpected server message', {
             level: 'error',
             extra: { 
@@ -92,7 +120,21 @@ export default function LoginForm(): JSX.Element {
           <CardDescription>Log in to your PassForge account.</CardDescription>
         </CardHeader>
         <CardContent>
+          <SessionEndedNotice reason={sessionEndReason} />
+          <GuestSessionNotice />
+          {method === "passwordless" ? (
+            <PasswordlessLoginForm onUsePassword={() => setMethod("password")} returnUrl={returnUrl} />
+          ) : method === "phone" ? (
+            <PhoneAuthForm
+              intent="sign-in"
+              onCancel={() => setMethod("password")}
+              cancelLabel="Log in with your email instead"
+              returnUrl={returnUrl}
+            />
+          ) : (
+          <>
           <form action={formAction} className="space-y-6">
+            <ReturnUrlField returnUrl={returnUrl} />
             <div className="space-y-2">
               <label
                 htmlFor="email"
@@ -150,13 +192,36 @@ export default function LoginForm(): JSX.Element {
               </div>
               {state?.errorFields?.password && <p id="password-error" className="text-sm text-destructive">{state.errorFields.password}</p>}
             </div>
-            <SubmitButton />
+            {captchaRequired && <CaptchaWidget resetSignal={state} />}
+            <SubmitButton disabled={retrySecondsLeft > 0} />
+            <RetryCountdownNotice secondsLeft={retrySecondsLeft} />
           </form>
+          <div className="mt-4">
+            <PasskeySignInButton returnUrl={returnUrl} />
+          </div>
+          <div className="mt-2 flex flex-col items-center">
+            <Button type="button" variant="link" className="w-full" onClick={() => setMethod("passwordless")}>
+              Log in without a password
+            </Button>
+            <Button type="button" variant="link" className="w-full" onClick={() => setMethod("phone")}>
+              Log in with your phone number
+            </Button>
+          </div>
+          </>
+          )}
+          <div className="mt-6">
+            <OAuthProviderButtons returnUrl={returnUrl} />
+          </div>
+          {guestSessionsEnabled && (
+            <div className="mt-4">
+              <GuestSignInButton returnUrl={returnUrl} />
+            </div>
+          )}
         </CardContent>
          <CardFooter className="flex-col items-center text-sm">
             <p className="text-muted-foreground">
               Don&apos;t have an account?{' '}
-              <Link href="/register" className="text-primary font-medium hover:underline">
+              <Link href={withReturnUrl("/register", returnUrl)} className="text-primary font-medium hover:underline">
                 Sign Up
               </Link>
             </p>
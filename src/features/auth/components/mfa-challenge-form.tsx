@@ -0,0 +1,126 @@
+
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Input, Button, Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui";
+import { signOutUserAction } from "@/features/auth/actions";
+import { totpCodeSchema } from "@/features/auth/schemas";
+import { DEFAULT_RETURN_URL } from "@/features/auth/utils/return-url";
+import { createClient } from "@/lib/supabase/client";
+import { useToast } from "@/hooks";
+import { PassForgeLogo } from "@/components/icons";
+import { Hash, Loader2, ShieldCheck, LogOut } from "lucide-react";
+import * as Sentry from '@sentry/nextjs';
+
+/**
+ * Renders the second step of login for users with an authenticator app.
+ * The challenge runs with the browser Supabase client so that `MFA_CHALLENGE_VERIFIED` is emitted
+ * to `AuthSessionProvider` and the upgraded (AAL2) session cookies are written before navigating.
+ * The middleware sends AAL1 sessions of enrolled users here before any dashboard route.
+ *
+ * @param {object} props - The component props.
+ * @param {string} [props.returnUrl] - The sanitized page to continue to once verified (the `next` parameter).
+ * @returns {JSX.Element} The MFA challenge form component.
+ */
+export function MfaChallengeForm({ returnUrl }: { returnUrl?: string }): JSX.Element {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [code, setCode] = useState("");
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const validation = totpCodeSchema.safeParse(code);
+    if (!validation.success) {
+      setCodeError(validation.error.errors.map((e) => e.message).join(", "));
+      return;
+    }
+    setCodeError(null);
+    setIsVerifying(true);
+
+    const supabase = createClient();
+    const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+    const factor = factors?.totp.find((totpFactor) => totpFactor.status === 'verified');
+    if (listError || !factor) {
+      setIsVerifying(false);
+      toast({ title: "Verification Unavailable", description: "We couldn't load your authenticator app. Please log in again.", variant: "destructive" });
+      if (listError) {
+        Sentry.captureMessage('MFA challenge could not list factors', {
+          level: 'error',
+          extra: { action: 'mfaChallenge', errorMessage: listError.message },
+        });
+      }
+      return;
+    }
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code: validation.data });
+    if (error) {
+      setIsVerifying(false);
+      setCodeError("Invalid code.");
+      toast({ title: "Verification Failed", description: "That code didn't match. Check your authenticator app and try again.", variant: "destructive" });
+      return;
+    }
+
+    router.replace(returnUrl ?? DEFAULT_RETURN_URL);
+    router.refresh();
+  };
+
+  return (
+    <div className="w-full animate-fade-in">
+      <Card className="w-full shadow-xl">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <PassForgeLogo className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-3xl font-bold">Two-Factor Verification</CardTitle>
+          <CardDescription>Enter the 6-digit code from your authenticator app.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <label htmlFor="code" className="block text-sm font-medium text-foreground">
+                Authentication code
+              </label>
+              <div className="relative">
+                <Hash className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  id="code"
+                  name="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  maxLength={6}
+                  required
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="pl-10 tracking-widest focus:ring-accent"
+                  aria-describedby={codeError ? "code-error" : undefined}
+                />
+              </div>
+              {codeError && <p id="code-error" className="text-sm text-destructive">{codeError}</p>}
+            </div>
+            <Button type="submit" className="w-full" disabled={isVerifying}>
+              {isVerifying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+              Verify
+            </Button>
+          </form>
+        </CardContent>
+        <CardFooter className="flex-col items-center text-sm">
+          <form action={signOutUserAction}>
+            <Button type="submit" variant="link" className="text-muted-foreground">
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out and use a different account
+            </Button>
+          </form>
+        </CardFooter>
+      </Card>
+      <footer className="mt-8 text-center text-sm text-muted-foreground">
+        &copy; {new Date().getFullYear()} PassForge. All rights reserved.
+      </footer>
+    </div>
+  );
+}
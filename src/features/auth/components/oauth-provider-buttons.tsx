@@ -0,0 +1,114 @@
+
+"use client";
+
+import { useEffect } from "react";
+import { useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Button } from "@/components/ui";
+import { signInWithOAuth } from "@/features/auth/actions";
+import { OAUTH_PROVIDERS, OAUTH_PROVIDER_LABELS, type OAuthProviderId } from "@/features/auth/constants";
+import type { AuthActionState } from "@/features/auth/types";
+import { INVITE_CODE_PARAM } from "@/features/invites/constants";
+import { ReturnUrlField } from "./return-url-field";
+import { useToast } from "@/hooks";
+import { GoogleIcon } from "@/components/icons";
+import { Github, Loader2 } from "lucide-react";
+import * as Sentry from '@sentry/nextjs';
+
+const PROVIDER_ICONS: Record<OAuthProviderId, React.ReactNode> = {
+  google: <GoogleIcon className="mr-2 h-4 w-4" />,
+  github: <Github className="mr-2 h-4 w-4" />,
+};
+
+/**
+ * The set of provider buttons for a single form submission.
+ * Reads the pending submission's form data so only the clicked provider shows a spinner.
+ * @returns {JSX.Element} The provider buttons.
+ */
+function ProviderButtons() {
+  const { pending, data } = useFormStatus();
+  const pendingProvider = pending ? data?.get("provider") : null;
+
+  return (
+    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+      {OAUTH_PROVIDERS.map((provider) => (
+        <Button
+          key={provider}
+          type="submit"
+          name="provider"
+          value={provider}
+          variant="outline"
+          className="w-full"
+          disabled={pending}
+        >
+          {pendingProvider === provider ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : PROVIDER_ICONS[provider]}
+          {OAUTH_PROVIDER_LABELS[provider]}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+interface OAuthProviderButtonsProps {
+  returnUrl?: string;
+  inviteCode?: string;
+  action?: (prevState: AuthActionState, formData: FormData) => Promise<AuthActionState>;
+  dividerLabel?: string;
+}
+
+/**
+ * Renders "continue with" buttons for each configured OAuth provider.
+ * Submits to the `signInWithOAuth` Server Action, which redirects the browser to the provider.
+ * Another action taking the same 'provider' field can be passed instead, e.g. `upgradeGuestWithOAuth`.
+ * Errors (e.g., a provider not enabled in Supabase) are shown as toasts and reported to Sentry,
+ * since they indicate a configuration problem rather than a user mistake.
+ *
+ * @param {OAuthProviderButtonsProps} props - The component props.
+ * @param {string} [props.returnUrl] - The page to return to after the provider sends the user back.
+ * @param {string} [props.inviteCode] - An invite code for the callback, needed to sign up while registration is invite-only.
+ * @param {Function} [props.action=signInWithOAuth] - The Server Action the buttons submit to.
+ * @param {string} [props.dividerLabel="Or continue with"] - The text on the divider above the buttons.
+ * @returns {JSX.Element} The OAuth provider section with a divider.
+ */
+export function OAuthProviderButtons({
+  returnUrl,
+  inviteCode,
+  action = signInWithOAuth,
+  dividerLabel = "Or continue with",
+}: OAuthProviderButtonsProps): JSX.Element {
+  const { toast } = useToast();
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(action, initialState);
+
+  useEffect(() => {
+    if (state?.message && !state.success) {
+      toast({
+        title: "Sign In Failed",
+        description: state.message,
+        variant: "destructive",
+      });
+      Sentry.captureMessage('OAuth sign-in action failed', {
+        level: 'error',
+        extra: { action: 'signInWithOAuth', formStateMessage: state.message },
+      });
+    }
+  }, [state, toast]);
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <span className="w-full border-t border-border" />
+        </div>
+        <div className="relative flex justify-center text-xs uppercase">
+          <span className="bg-card px-2 text-muted-foreground">{dividerLabel}</span>
+        </div>
+      </div>
+      <form action={formAction}>
+        <ReturnUrlField returnUrl={returnUrl} />
+        {inviteCode && <input type="hidden" name={INVITE_CODE_PARAM} value={inviteCode} />}
+        <ProviderButtons />
+      </form>
+    </div>
+  );
+}
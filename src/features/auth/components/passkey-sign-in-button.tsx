@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { Button } from "@/components/ui";
+import { signInWithPasskey, startPasskeySignIn } from "@/features/auth/actions";
+import { getPasskeyAssertion, isWebAuthnSupported } from "@/lib/webauthn/browser";
+import { useToast } from "@/hooks";
+import { Fingerprint, Loader2 } from "lucide-react";
+
+/**
+ * Offers "Sign in with passkey" on the login page. Asks the server for a challenge (`startPasskeySignIn`),
+ * lets the browser show the user's passkeys for this site, and sends the signed challenge to
+ * `signInWithPasskey`, which redirects to the return URL on success. Renders nothing in browsers
+ * without WebAuthn; when no passkey is available or the user cancels, it points them to their password.
+ *
+ * @param {object} props - The component props.
+ * @param {string} [props.returnUrl] - The page to return to after signing in.
+ * @returns {JSX.Element | null} The passkey sign-in button, or null if passkeys are not supported.
+ */
+export function PasskeySignInButton({ returnUrl }: { returnUrl?: string }): JSX.Element | null {
+  const { toast } = useToast();
+  const [isSupported, setIsSupported] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  // Checked after mount, since the server render cannot know the browser's capabilities.
+  useEffect(() => {
+    setIsSupported(isWebAuthnSupported());
+  }, []);
+
+  if (!isSupported) return null;
+
+  const handleClick = () => {
+    startTransition(async () => {
+      const { options, error } = await startPasskeySignIn();
+      if (!options) {
+        toast({ title: "Passkey Sign-In Failed", description: error ?? "Please log in with your password.", variant: "destructive" });
+        return;
+      }
+
+      let response;
+      try {
+        response = await getPasskeyAssertion(options);
+      } catch {
+        // The browser does not say whether the user cancelled or had no passkey for this site.
+        toast({ title: "No Passkey Used", description: "If you haven't added a passkey yet, log in with your password instead." });
+        return;
+      }
+
+      const result = await signInWithPasskey(response, returnUrl ?? null);
+      if (result?.error) {
+        toast({ title: "Passkey Sign-In Failed", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  return (
+    <Button type="button" variant="outline" className="w-full" onClick={handleClick} disabled={isPending}>
+      {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Fingerprint className="mr-2 h-4 w-4" />}
+      Sign in with passkey
+    </Button>
+  );
+}
@@ -0,0 +1,49 @@
+
+"use client";
+
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { estimatePasswordStrength, getPasswordPolicyViolations } from "@/features/auth/utils/password-strength";
+
+const SCORE_COLORS = ["bg-destructive", "bg-destructive", "bg-yellow-500", "bg-green-500", "bg-green-600"] as const;
+
+/**
+ * Shows a live strength estimate for a password being typed: a four-segment bar, a label,
+ * and either the first policy violation or the top suggestion.
+ * Uses the same `estimatePasswordStrength` and `getPasswordPolicyViolations` as `passwordSchema`
+ * on the server, so "meets the policy" here means the Server Action will accept it
+ * (unless the password is on the compromised list, which is only checked on the server).
+ *
+ * @param {object} props - The component props.
+ * @param {string} props.password - The current password value.
+ * @param {string} [props.id] - Element ID, for `aria-describedby` on the password input.
+ * @returns {JSX.Element | null} The meter, or null while the password is empty.
+ */
+export function PasswordStrengthMeter({ password, id }: { password: string; id?: string }): JSX.Element | null {
+  const strength = useMemo(() => estimatePasswordStrength(password), [password]);
+  const violations = useMemo(() => getPasswordPolicyViolations(password), [password]);
+
+  if (!password) return null;
+
+  const hint = violations[0] ?? strength.feedback[0];
+
+  return (
+    <div id={id} className="space-y-1" aria-live="polite">
+      <div className="flex gap-1" aria-hidden="true">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={cn(
+              "h-1.5 flex-1 rounded-full bg-muted transition-colors",
+              strength.score >= segment && SCORE_COLORS[strength.score]
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Strength: <span className="font-medium text-foreground">{strength.label}</span>
+        {hint && <> &middot; {hint}</>}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Input, Button } from "@/components/ui";
+import { requestEmailOtp, verifyEmailOtp } from "@/features/auth/actions";
+import { ReturnUrlField } from "./return-url-field";
+import { RetryCountdownNotice } from "./retry-countdown-notice";
+import { useRetryCountdown } from "@/features/auth/hooks";
+import { useToast } from "@/hooks";
+import { Mail, Hash, Loader2, Link2, ShieldCheck, ArrowLeft } from "lucide-react";
+
+type PasswordlessMode = "magic_link" | "otp";
+type PasswordlessStep = "request" | "verify" | "link-sent";
+
+/**
+ * The two "send" buttons of the first step. Each submits the form with its own `mode` value.
+ * @param {object} props - The component props.
+ * @param {(mode: PasswordlessMode) => void} props.onSelectMode - Records which mode was clicked.
+ * @param {boolean} props.disabled - Disables both buttons, e.g. while rate limited.
+ * @returns {JSX.Element} The request buttons.
+ */
+function RequestButtons({ onSelectMode, disabled }: { onSelectMode: (mode: PasswordlessMode) => void; disabled: boolean }) {
+  const { pending, data } = useFormStatus();
+  const pendingMode = pending ? data?.get("mode") : null;
+  return (
+    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+      <Button type="submit" name="mode" value="otp" className="w-full" disabled={pending || disabled} onClick={() => onSelectMode("otp")}>
+        {pendingMode === "otp" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Hash className="mr-2 h-4 w-4" />}
+        Email me a code
+      </Button>
+      <Button type="submit" name="mode" value="magic_link" variant="outline" className="w-full" disabled={pending || disabled} onClick={() => onSelectMode("magic_link")}>
+        {pendingMode === "magic_link" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+        Email me a link
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * A button component that displays a loading spinner while the code is being verified.
+ * @returns {JSX.Element} The submit button.
+ */
+function VerifyButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" className="w-full" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+      Verify and Log In
+    </Button>
+  );
+}
+
+interface PasswordlessLoginFormProps {
+  /** Called when the user wants to go back to email and password login. */
+  onUsePassword: () => void;
+  /** The page to return to after signing in. */
+  returnUrl?: string;
+}
+
+/**
+ * Renders the passwordless login flow inside the login card.
+ * Step 1 asks for an email and sends either a magic link or a 6-digit code (`requestEmailOtp`).
+ * For codes, step 2 asks for the code and completes sign-in (`verifyEmailOtp`), which redirects
+ * to the return URL (or the dashboard). For links, the user finishes in the email, via `/auth/confirm`.
+ *
+ * @param {PasswordlessLoginFormProps} props - The component props.
+ * @returns {JSX.Element} The passwordless login form.
+ */
+export function PasswordlessLoginForm({ onUsePassword, returnUrl }: PasswordlessLoginFormProps): JSX.Element {
+  const { toast } = useToast();
+  const initialState = { message: null, success: false, errorFields: null };
+  const [requestState, requestAction] = useActionState(requestEmailOtp, initialState);
+  const [verifyState, verifyAction] = useActionState(verifyEmailOtp, initialState);
+  const retrySecondsLeft = useRetryCountdown(requestState);
+  const [email, setEmail] = useState("");
+  // A ref, not state: the mode only matters when the request resolves, and changing it must not re-run the toast effect.
+  const modeRef = useRef<PasswordlessMode>("otp");
+  const [step, setStep] = useState<PasswordlessStep>("request");
+
+  useEffect(() => {
+    if (!requestState?.message) return;
+    if (requestState.success) {
+      toast({ title: "Check Your Email", description: requestState.message });
+      setStep(modeRef.current === "otp" ? "verify" : "link-sent");
+    } else {
+      toast({ title: "Could Not Send Email", description: requestState.message, variant: "destructive" });
+    }
+  }, [requestState, toast]);
+
+  useEffect(() => {
+    if (verifyState?.message && !verifyState.success) {
+      toast({ title: "Login Failed", description: verifyState.message, variant: "destructive" });
+    }
+  }, [verifyState, toast]);
+
+  if (step === "link-sent") {
+    return (
+      <div className="space-y-6 text-center">
+        <p className="text-sm text-muted-foreground">
+          We&apos;ve sent a sign-in link to <span className="font-medium text-foreground">{email}</span>.
+          Open it on this device to finish logging in.
+        </p>
+        <Button type="button" variant="outline" className="w-full" onClick={() => setStep("request")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Use a different email
+        </Button>
+      </div>
+    );
+  }
+
+  if (step === "verify") {
+    return (
+      <div className="space-y-6">
+        <form action={verifyAction} className="space-y-6">
+          <input type="hidden" name="email" value={email} />
+          <ReturnUrlField returnUrl={returnUrl} />
+          <div className="space-y-2">
+            <label htmlFor="token" className="block text-sm font-medium text-foreground">
+              6-digit code
+            </label>
+            <p className="text-sm text-muted-foreground">
+              Enter the code we sent to <span className="font-medium text-foreground">{email}</span>.
+            </p>
+            <div className="relative">
+              <Hash className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+              <Input
+                id="token"
+                name="token"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="\d{6}"
+                maxLength={6}
+                placeholder="123456"
+                required
+                autoFocus
+                className="pl-10 tracking-[0.5em] focus:ring-accent"
+                aria-describedby={verifyState?.errorFields?.["token"] ? "token-error" : undefined}
+              />
+            </div>
+            {verifyState?.errorFields?.["token"] && <p id="token-error" className="text-sm text-destructive">{verifyState.errorFields["token"]}</p>}
+          </div>
+          <VerifyButton />
+        </form>
+        <form action={requestAction} className="flex items-center justify-between text-sm">
+          <input type="hidden" name="email" value={email} />
+          <input type="hidden" name="mode" value="otp" />
+          <ReturnUrlField returnUrl={returnUrl} />
+          <Button type="button" variant="link" className="px-0" onClick={() => setStep("request")}>
+            Use a different email
+          </Button>
+          <Button type="submit" variant="link" className="px-0" disabled={retrySecondsLeft > 0} onClick={() => { modeRef.current = "otp"; }}>
+            Resend code
+          </Button>
+        </form>
+        <RetryCountdownNotice secondsLeft={retrySecondsLeft} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <form action={requestAction} className="space-y-6">
+        <ReturnUrlField returnUrl={returnUrl} />
+        <div className="space-y-2">
+          <label htmlFor="passwordless-email" className="block text-sm font-medium text-foreground">
+            Email Address
+          </label>
+          <div className="relative">
+            <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+            <Input
+              id="passwordless-email"
+              name="email"
+              type="email"
+              placeholder="you@example.com"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="pl-10 focus:ring-accent"
+              aria-describedby={requestState?.errorFields?.["email"] ? "passwordless-email-error" : undefined}
+            />
+          </div>
+          {requestState?.errorFields?.["email"] && <p id="passwordless-email-error" className="text-sm text-destructive">{requestState.errorFields["email"]}</p>}
+        </div>
+        <RequestButtons onSelectMode={(mode) => { modeRef.current = mode; }} disabled={retrySecondsLeft > 0} />
+        <RetryCountdownNotice secondsLeft={retrySecondsLeft} />
+      </form>
+      <Button type="button" variant="link" className="w-full" onClick={onUsePassword}>
+        Log in with your password instead
+      </Button>
+    </div>
+  );
+}
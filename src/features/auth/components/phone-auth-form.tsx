@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { Input, Button } from "@/components/ui";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { requestPhoneOtp, verifyPhoneOtp } from "@/features/auth/actions";
+import { DEFAULT_PHONE_COUNTRY, PHONE_COUNTRIES, type PhoneAuthIntent } from "@/features/auth/constants/phone";
+import { normalizePhoneNumber } from "@/features/auth/utils/phone";
+import { ReturnUrlField } from "./return-url-field";
+import { RetryCountdownNotice } from "./retry-countdown-notice";
+import { useRetryCountdown } from "@/features/auth/hooks";
+import { useToast } from "@/hooks";
+import { Smartphone, Hash, Loader2, MessageSquare, ShieldCheck, User } from "lucide-react";
+
+/**
+ * A submit button that displays a loading spinner while its form action is pending.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.icon - The icon shown when idle.
+ * @param {string} props.label - The button label.
+ * @param {boolean} [props.disabled] - Disables the button, e.g. while rate limited.
+ * @returns {JSX.Element} The submit button.
+ */
+function PendingButton({ icon, label, disabled = false }: { icon: React.ReactNode; label: string; disabled?: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" className="w-full" disabled={pending || disabled}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : icon}
+      {label}
+    </Button>
+  );
+}
+
+interface PhoneAuthFormProps {
+  /** `sign-in` for existing accounts; `sign-up` also asks for the user's name and creates the account. */
+  intent: PhoneAuthIntent;
+  /** Called when the user wants to go back to the email form. */
+  onCancel: () => void;
+  /** The label of the button that calls `onCancel`. */
+  cancelLabel: string;
+  /** The page to return to after signing in. */
+  returnUrl?: string;
+}
+
+/**
+ * Renders phone number sign-in or sign-up inside the login and registration cards.
+ * Step 1 asks for the country and number (plus the name for sign-ups) and texts a 6-digit code
+ * (`requestPhoneOtp`). Step 2 asks for the code and completes sign-in (`verifyPhoneOtp`), which
+ * redirects to the return URL (or the dashboard). The number is normalized to E.164 in the browser
+ * as well, so step 2 carries exactly the number the server sent the code to.
+ *
+ * @param {PhoneAuthFormProps} props - The component props.
+ * @returns {JSX.Element} The phone sign-in form.
+ */
+export function PhoneAuthForm({ intent, onCancel, cancelLabel, returnUrl }: PhoneAuthFormProps): JSX.Element {
+  const { toast } = useToast();
+  const initialState = { message: null, success: false, errorFields: null };
+  const [requestState, requestAction] = useActionState(requestPhoneOtp, initialState);
+  const [verifyState, verifyAction] = useActionState(verifyPhoneOtp, initialState);
+  const retrySecondsLeft = useRetryCountdown(requestState);
+  const [country, setCountry] = useState(DEFAULT_PHONE_COUNTRY);
+  const [number, setNumber] = useState("");
+  const [step, setStep] = useState<"request" | "verify">("request");
+  const phone = normalizePhoneNumber(country, number);
+
+  useEffect(() => {
+    if (!requestState?.message) return;
+    if (requestState.success) {
+      toast({ title: "Check Your Phone", description: requestState.message });
+      setStep("verify");
+    } else {
+      toast({ title: "Could Not Send Code", description: requestState.message, variant: "destructive" });
+    }
+  }, [requestState, toast]);
+
+  useEffect(() => {
+    if (verifyState?.message && !verifyState.success) {
+      toast({ title: intent === "sign-up" ? "Sign Up Failed" : "Login Failed", description: verifyState.message, variant: "destructive" });
+    }
+  }, [verifyState, intent, toast]);
+
+  if (step === "verify") {
+    return (
+      <div className="space-y-6">
+        <form action={verifyAction} className="space-y-6">
+          <input type="hidden" name="phone" value={phone ?? ""} />
+          <ReturnUrlField returnUrl={returnUrl} />
+          <div className="space-y-2">
+            <label htmlFor="sms-token" className="block text-sm font-medium text-foreground">
+              6-digit code
+            </label>
+            <p className="text-sm text-muted-foreground">
+              Enter the code we texted to <span className="font-medium text-foreground">{phone}</span>.
+            </p>
+            <div className="relative">
+              <Hash className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+              <Input
+                id="sms-token"
+                name="token"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="\d{6}"
+                maxLength={6}
+                placeholder="123456"
+                required
+                autoFocus
+                className="pl-10 tracking-[0.5em] focus:ring-accent"
+                aria-describedby={verifyState?.errorFields?.["token"] ? "sms-token-error" : undefined}
+              />
+            </div>
+            {verifyState?.errorFields?.["token"] && <p id="sms-token-error" className="text-sm text-destructive">{verifyState.errorFields["token"]}</p>}
+          </div>
+          <PendingButton
+            icon={<ShieldCheck className="mr-2 h-4 w-4" />}
+            label={intent === "sign-up" ? "Verify and Create Account" : "Verify and Log In"}
+          />
+        </form>
+        {/* Supabase creates the unconfirmed account when the first sign-up code is sent, so a resend is a sign-in. */}
+        <form action={requestAction} className="flex items-center justify-between text-sm">
+          <input type="hidden" name="intent" value="sign-in" />
+          <input type="hidden" name="country" value={country} />
+          <input type="hidden" name="phone" value={phone ?? ""} />
+          <Button type="button" variant="link" className="px-0" onClick={() => setStep("request")}>
+            Use a different number
+          </Button>
+          <Button type="submit" variant="link" className="px-0" disabled={retrySecondsLeft > 0}>
+            Resend code
+          </Button>
+        </form>
+        <RetryCountdownNotice secondsLeft={retrySecondsLeft} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <form action={requestAction} className="space-y-6">
+        <input type="hidden" name="intent" value={intent} />
+        {intent === "sign-up" && (
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {(["firstName", "lastName"] as const).map((field) => (
+              <div key={field} className="space-y-2">
+                <label htmlFor={`phone-${field}`} className="block text-sm font-medium text-foreground">
+                  {field === "firstName" ? "First Name" : "Last Name"}
+                </label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    id={`phone-${field}`}
+                    name={field}
+                    required
+                    className="pl-10 focus:ring-accent"
+                    aria-describedby={requestState?.errorFields?.[field] ? `phone-${field}-error` : undefined}
+                  />
+                </div>
+                {requestState?.errorFields?.[field] && <p id={`phone-${field}-error`} className="text-sm text-destructive">{requestState.errorFields[field]}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="space-y-2">
+          <label htmlFor="phone-number" className="block text-sm font-medium text-foreground">
+            Phone Number
+          </label>
+          <div className="flex gap-2">
+            <Select name="country" value={country} onValueChange={setCountry}>
+              <SelectTrigger className="w-32 shrink-0" aria-label="Country">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PHONE_COUNTRIES.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.code} {option.dialCode}
+                    <span className="sr-only"> {option.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="relative flex-1">
+              <Smartphone className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+              <Input
+                id="phone-number"
+                name="phone"
+                type="tel"
+                autoComplete="tel-national"
+                placeholder="(415) 555-0123"
+                required
+                value={number}
+                onChange={(e) => setNumber(e.target.value)}
+                className="pl-10 focus:ring-accent"
+                aria-describedby={requestState?.errorFields?.["phone"] ? "phone-number-error" : undefined}
+              />
+            </div>
+          </div>
+          {requestState?.errorFields?.["phone"] && <p id="phone-number-error" className="text-sm text-destructive">{requestState.errorFields["phone"]}</p>}
+          <p className="text-xs text-muted-foreground">We&apos;ll text you a 6-digit code. Message and data rates may apply.</p>
+        </div>
+        <PendingButton icon={<MessageSquare className="mr-2 h-4 w-4" />} label="Text me a code" disabled={retrySecondsLeft > 0} />
+        <RetryCountdownNotice secondsLeft={retrySecondsLeft} />
+      </form>
+      <Button type="button" variant="link" className="w-full" onClick={onCancel}>
+        {cancelLabel}
+      </Button>
+    </div>
+  );
+}
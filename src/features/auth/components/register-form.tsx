@@ -6,59 +6,86 @@ import { useActionState } from "react";
 import { useFormStatus } from "react-dom";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { Input, Button, Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui";
+import { Alert, AlertDescription, Input, Button, Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui";
 import { signUpNewUser } from "@/features/auth/actions";
+import { OAuthProviderButtons } from "./oauth-provider-buttons";
+import { PhoneAuthForm } from "./phone-auth-form";
+import { ReturnUrlField } from "./return-url-field";
+import { RetryCountdownNotice } from "./retry-countdown-notice";
+import { CaptchaWidget } from "./captcha-widget";
+import { GuestSessionNotice } from "./guest-session-notice";
+import { useCaptchaRequired, useRetryCountdown } from "@/features/auth/hooks";
+import { withReturnUrl } from "@/features/auth/utils/return-url";
+import { PasswordStrengthMeter } from "./password-strength-meter";
+import { PASSWORD_POLICY } from "@/features/auth/constants";
+import { INVITE_CODE_PARAM, type RegistrationMode } from "@/features/invites/constants";
 import { useToast } from "@/hooks";
 import { PassForgeLogo } from "@/components/icons";
-import { UserPlus, Mail, KeyRound, Loader2, Eye, EyeOff, User } from "lucide-react";
+import { UserPlus, Mail, KeyRound, Loader2, Eye, EyeOff, User, Ticket } from "lucide-react";
 import * as Sentry from '@sentry/nextjs';
 
 /**
  * A button component that displays a loading spinner while the form action is pending.
+ * @param {object} props - The component props.
+ * @param {boolean} [props.disabled] - Disables the button, e.g. while rate limited.
  * @returns {JSX.Element} The submit button.
  */
-function SubmitButton() {
+function SubmitButton({ disabled = false }: { disabled?: boolean }) {
   const { pending } = useFormStatus();
   return (
-    <Button type="submit" className="w-full" disabled={pending}>
+    <Button type="submit" className="w-full" disabled={pending || disabled}>
       {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
       Create Account
     </Button>
   );
 }
 
-// List of common user-facing error messages or informational messages that shouldn't be sent to Sentry as system errors.
-const USER_FACING_REGISTER_MESSAGES = [
-  "invalid email address",
-  "password cannot be empty",
-  "password must be at least 8 characters long",
-  "first name is required",
-  "last name is required",
-  "passwords do not match",
-  "please correct the errors in the form",
-  "account already confirmed. you can now log in.",
-  "sign up initiated! please check your email to confirm your account before logging in.",
-  "sign up process initiated. please check your email."
-];
-
 /**
  * Renders the registration form.
  * Allows new users to sign up with their first name, last name, email, and password.
  * Uses a Server Action (`signUpNewUser`) to handle account creation.
- * Displays success or error messages using toasts.
- * Includes password visibility toggles for password and confirm password fields.
+ * Also offers social sign-up through `OAuthProviderButtons` and, while registration is `open`,
+ * sign-up with a texted code through `PhoneAuthForm`.
+ * Displays success or error messages using toasts, and a countdown when rate limited.
+ * Shows `CaptchaWidget` once the server asks for a CAPTCHA after repeated failures.
+ * Includes password visibility toggles for password and confirm password fields, and a live
+ * `PasswordStrengthMeter` that applies the same policy as the server.
  * On successful sign-up initiation, displays a message prompting email confirmation.
+ * The confirmation email and social sign-up both carry `returnUrl` to the page the user originally asked for.
+ * In the `invite-only` registration mode the form asks for an invite code (prefilled from `?invite=` links),
+ * which social sign-up carries too; in the `closed` mode only a notice is shown.
+ * Guests are pointed to the upgrade page, which keeps their data (`GuestSessionNotice`).
  * This component is intended to be rendered within a layout that handles overall page structure.
  *
+ * @param {object} props - The component props.
+ * @param {string} [props.returnUrl] - The page to return to after the account is confirmed (the `next` parameter).
+ * @param {RegistrationMode} [props.registrationMode='open'] - Who can create an account.
+ * @param {string} [props.inviteCode] - The invite code from the link the user followed.
+ * @param {string} [props.registrationError] - Why a social sign-up was just refused, if it was.
  * @returns {JSX.Element} The registration form component.
  */
-export function RegisterForm(): JSX.Element {
+export function RegisterForm({
+  returnUrl,
+  registrationMode = 'open',
+  inviteCode,
+  registrationError,
+}: {
+  returnUrl?: string;
+  registrationMode?: RegistrationMode;
+  inviteCode?: string;
+  registrationError?: string;
+}): JSX.Element {
   const router = useRouter();
   const { toast } = useToast();
   const initialState = { message: null, success: false, errorFields: null };
   const [state, formAction] = useActionState(signUpNewUser, initialState);
+  const retrySecondsLeft = useRetryCountdown(state);
+  const captchaRequired = useCaptchaRequired(state);
+  const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [invite, setInvite] = useState(inviteCode ?? "");
+  const [usePhone, setUsePhone] = useState(false);
 
   useEffect(() => {
     if (state?.message) {
@@ -74,11 +101,8 @@ export function RegisterForm(): JSX.Element {
           description: state.message,
           variant: "destructive",
         });
-        // Log to Sentry if the error doesn't seem like a common user validation/info error.
-        const isUserFacingError = USER_FACING_REGISTER_MESSAGES.some(sub => 
-          state.message!.toLowerCase().includes(sub)
-        );
-        if (!isUserFacingError && !state.errorFields) {
+        // Only errors the server could not classify go to Sentry; every other code is an expected user error.
+        if (state.errorCode === 'unexpected') {
           Sentry.captureMessage('Registration action failed with unexpected server message', {
             level: 'error',
             extra: { 
@@ -116,6 +140,30 @@ export function RegisterForm(): JSX.Element {
     )
  }
 
+  if (registrationMode === 'closed') {
+    return (
+      <div className="w-full animate-fade-in">
+        <Card className="w-full shadow-xl">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <PassForgeLogo className="h-12 w-12 text-primary" />
+            </div>
+            <CardTitle className="text-3xl font-bold">Registration Closed</CardTitle>
+            <CardDescription>We&apos;re not accepting new accounts right now. If you already have one, you can still log in.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => router.push(withReturnUrl('/login', returnUrl))} className="w-full">
+              Go to Login
+            </Button>
+          </CardContent>
+        </Card>
+        <footer className="mt-8 text-center text-sm text-muted-foreground">
+          &copy; {new Date().getFullYear()} PassForge. All rights reserved.
+        </footer>
+      </div>
+    );
+  }
+
   return (
     <div className="w-full animate-fade-in">
       <Card className="w-full shadow-xl">
@@ -127,7 +175,48 @@ export function RegisterForm(): JSX.Element {
           <CardDescription>Join PassForge today.</CardDescription>
         </CardHeader>
         <CardContent>
+          <GuestSessionNotice />
+          {registrationError && (
+            <Alert variant="destructive" className="mb-6">
+              <AlertDescription>{registrationError}</AlertDescription>
+            </Alert>
+          )}
+          {usePhone ? (
+            <PhoneAuthForm
+              intent="sign-up"
+              onCancel={() => setUsePhone(false)}
+              cancelLabel="Sign up with your email instead"
+              returnUrl={returnUrl}
+            />
+          ) : (
+          <>
           <form action={formAction} className="space-y-6">
+            <ReturnUrlField returnUrl={returnUrl} />
+            {registrationMode === 'invite-only' && (
+              <div className="space-y-2">
+                <label htmlFor="invite" className="block text-sm font-medium text-foreground">
+                  Invite Code
+                </label>
+                <div className="relative">
+                  <Ticket className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    id="invite"
+                    name={INVITE_CODE_PARAM}
+                    type="text"
+                    placeholder="ABCD-EFGH-JKLM"
+                    autoComplete="off"
+                    required
+                    value={invite}
+                    onChange={(e) => setInvite(e.target.value)}
+                    className="pl-10 uppercase focus:ring-accent"
+                    aria-describedby={state?.errorFields?.["invite"] ? "invite-error" : "invite-hint"}
+                  />
+                </div>
+                {state?.errorFields?.["invite"]
+                  ? <p id="invite-error" className="text-sm text-destructive">{state.errorFields["invite"]}</p>
+                  : <p id="invite-hint" className="text-sm text-muted-foreground">Registration is by invitation only.</p>}
+              </div>
+            )}
             <div className="space-y-2">
               <label
                 htmlFor="firstName"
@@ -206,9 +295,12 @@ export function RegisterForm(): JSX.Element {
                   type={showPassword ? "text" : "password"}
                   placeholder="••••••••"
                   required
-                  minLength={8}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={PASSWORD_POLICY.minLength}
+                  maxLength={PASSWORD_POLICY.maxLength}
                   className="pl-10 pr-10 focus:ring-accent"
-                  aria-describedby={state?.errorFields?.password ? "password-error" : undefined}
+                  aria-describedby={state?.errorFields?.password ? "password-error" : "password-strength"}
                 />
                 <Button
                   type="button"
@@ -221,6 +313,7 @@ export function RegisterForm(): JSX.Element {
                   {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
                 </Button>
               </div>
+              <PasswordStrengthMeter id="password-strength" password={password} />
               {state?.errorFields?.password && <p id="password-error" className="text-sm text-destructive">{state.errorFields.password}</p>}
             </div>
              <div className="space-y-2">
@@ -238,7 +331,8 @@ export function RegisterForm(): JSX.Element {
                   type={showConfirmPassword ? "text" : "password"}
                   placeholder="••••••••"
                   required
-                  minLength={8}
+                  minLength={PASSWORD_POLICY.minLength}
+                  maxLength={PASSWORD_POLICY.maxLength}
                   className="pl-10 pr-10 focus:ring-accent"
                   aria-describedby={state?.errorFields?.confirmPassword ? "confirmPassword-error" : undefined}
                 />
@@ -255,13 +349,25 @@ export function RegisterForm(): JSX.Element {
               </div>
               {state?.errorFields?.confirmPassword && <p id="confirmPassword-error" className="text-sm text-destructive">{state.errorFields.confirmPassword}</p>}
             </div>
-            <SubmitButton />
+            {captchaRequired && <CaptchaWidget resetSignal={state} />}
+            <SubmitButton disabled={retrySecondsLeft > 0} />
+            <RetryCountdownNotice secondsLeft={retrySecondsLeft} />
           </form>
+          {registrationMode === 'open' && (
+            <Button type="button" variant="link" className="mt-2 w-full" onClick={() => setUsePhone(true)}>
+              Sign up with your phone number
+            </Button>
+          )}
+          </>
+          )}
+          <div className="mt-6">
+            <OAuthProviderButtons returnUrl={returnUrl} inviteCode={registrationMode === 'invite-only' ? invite : undefined} />
+          </div>
         </CardContent>
          <CardFooter className="flex-col items-center text-sm">
             <p className="text-muted-foreground">
               Already have an account?{' '}
-              <Link href="/login" className="text-primary font-medium hover:underline">
+              <Link href={withReturnUrl("/login", returnUrl)} className="text-primary font-medium hover:underline">
                 Log In
               </Link>
             </p>
@@ -8,6 +8,8 @@ import { useFormStatus } from "react-dom";
 import { useRouter, useSearchParams } from "next/navigation";
 import { Input, Button, Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui";
 import { updateUserPassword } from "@/features/auth/actions";
+import { PasswordStrengthMeter } from "./password-strength-meter";
+import { PASSWORD_POLICY } from "@/features/auth/constants";
 import { useToast } from "@/hooks";
 import { PassForgeLogo } from "@/components/icons";
 import { KeyRound, Loader2, Eye, EyeOff, Mail } from "lucide-react";
@@ -28,21 +30,13 @@ function SubmitButton() {
   );
 }
 
-// List of common user-facing error/info messages that shouldn't be sent to Sentry as system errors.
-const USER_FACING_RESET_PASSWORD_MESSAGES = [
-  "password must be at least 8 characters long",
-  "passwords do not match",
-  "user not authenticated or session invalid. please try the password reset process again.",
-  "your password has been updated successfully. you can now log in with your new password." // Success message
-];
-
 /**
  * Renders the "Reset Password" form.
  * Allows users to set a new password after verifying their email.
  * Pre-fills the email address from a URL query parameter if available.
  * Uses a Server Action (`updateUserPassword`) to handle password updates.
  * Displays success or error messages using toasts.
- * Includes password visibility toggles.
+ * Includes password visibility toggles and a live `PasswordStrengthMeter` that applies the same policy as the server.
  * Relies on `useAuth` for session validation before rendering the form.
  * This component is intended to be rendered within a layout that handles overall page structure.
  *
@@ -56,6 +50,7 @@ export default function ResetPasswordForm(): JSX.Element {
 
   const initialState = { message: null, success: false, errorFields: null };
   const [state, formAction] = useActionState(updateUserPassword, initialState);
+  const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
@@ -97,11 +92,8 @@ export default function ResetPasswordForm(): JSX.Element {
           description: state.message,
           variant: "destructive",
         });
-        // Log to Sentry if the error doesn't seem like a common user validation/info error.
-        const isUserFacingError = USER_FACING_RESET_PASSWORD_MESSAGES.some(sub => 
-          state.message!.toLowerCase().includes(sub)
-        );
-        if (!isUserFacingError && !state.errorFields) {
+        // Only errors the server could not classify go to Sentry; every other code is an expected user error.
+        if (state.errorCode === 'unexpected') {
           Sentry.captureMessage('Update password action failed with unexpected server message', {
             level: 'error',
             extra: { 
@@ -206,9 +198,12 @@ export default function ResetPasswordForm(): JSX.Element {
                   type={showPassword ? "text" : "password"}
                   placeholder="••••••••"
                   required
-                  minLength={8}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={PASSWORD_POLICY.minLength}
+                  maxLength={PASSWORD_POLICY.maxLength}
                   className="pl-10 pr-10 focus:ring-accent"
-                  aria-describedby={state?.errorFields?.password ? "password-error" : undefined}
+                  aria-describedby={state?.errorFields?.password ? "password-error" : "password-strength"}
                 />
                 <Button
                   type="button"
@@ -221,6 +216,7 @@ export default function ResetPasswordForm(): JSX.Element {
                   {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
                 </Button>
               </div>
+              <PasswordStrengthMeter id="password-strength" password={password} />
                {state?.errorFields?.password && <p id="password-error" className="text-sm text-destructive">{state.errorFields.password}</p>}
             </div>
             <div className="space-y-2">
@@ -238,7 +234,8 @@ export default function ResetPasswordForm(): JSX.Element {
                   type={showConfirmPassword ? "text" : "password"}
                   placeholder="••••••••"
                   required
-                  minLength={8}
+                  minLength={PASSWORD_POLICY.minLength}
+                  maxLength={PASSWORD_POLICY.maxLength}
                   className="pl-10 pr-10 focus:ring-accent"
                   aria-describedby={state?.errorFields?.confirmPassword ? "confirmPassword-error" : undefined}
                 />
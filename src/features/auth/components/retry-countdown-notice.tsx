@@ -0,0 +1,33 @@
+
+"use client";
+
+import { Timer } from "lucide-react";
+
+/**
+ * Formats a number of seconds as `m:ss`, or as plain seconds under a minute.
+ * @param {number} seconds - The seconds to format.
+ * @returns {string} The formatted duration.
+ */
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Shows how long the user has to wait after hitting a rate limit.
+ * Renders nothing once the countdown from `useRetryCountdown` reaches zero.
+ *
+ * @param {object} props - The component props.
+ * @param {number} props.secondsLeft - The seconds left before the action may be retried.
+ * @returns {JSX.Element | null} The notice, or null when not rate limited.
+ */
+export function RetryCountdownNotice({ secondsLeft }: { secondsLeft: number }): JSX.Element | null {
+  if (secondsLeft <= 0) return null;
+  return (
+    <p role="status" aria-live="polite" className="flex items-center justify-center gap-2 text-sm text-destructive">
+      <Timer className="h-4 w-4" />
+      Too many attempts. You can try again in {formatDuration(secondsLeft)}.
+    </p>
+  );
+}
@@ -0,0 +1,21 @@
+
+"use client";
+
+import { RETURN_URL_PARAM } from "@/features/auth/utils/return-url";
+
+interface ReturnUrlFieldProps {
+  /** The page to return to after the form's flow completes. Omitted when not set. */
+  returnUrl?: string;
+}
+
+/**
+ * A hidden form field that carries the return URL (`next`) into an auth Server Action.
+ * The action sanitizes the value again before using it, so this is never trusted as-is.
+ *
+ * @param {ReturnUrlFieldProps} props - The component props.
+ * @returns {JSX.Element | null} The hidden input, or null when there is no return URL.
+ */
+export function ReturnUrlField({ returnUrl }: ReturnUrlFieldProps): JSX.Element | null {
+  if (!returnUrl) return null;
+  return <input type="hidden" name={RETURN_URL_PARAM} value={returnUrl} />;
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { SESSION_END_MESSAGES, type SessionEndReason } from "@/features/auth/constants/session-timeouts";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Clock } from "lucide-react";
+
+/**
+ * Tells a user on the login page why they were signed out, after their session reached the idle
+ * timeout or the maximum session age. Renders nothing without a reason.
+ *
+ * @param {object} props - The component props.
+ * @param {SessionEndReason | null} [props.reason] - Why the session ended (the `reason` parameter).
+ * @returns {JSX.Element | null} The notice, or null.
+ */
+export function SessionEndedNotice({ reason }: { reason?: SessionEndReason | null }): JSX.Element | null {
+  if (!reason) return null;
+
+  const { title, description } = SESSION_END_MESSAGES[reason];
+  return (
+    <Alert className="mb-6">
+      <Clock className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription>{description}</AlertDescription>
+    </Alert>
+  );
+}
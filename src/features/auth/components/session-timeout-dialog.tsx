@@ -0,0 +1,54 @@
+"use client";
+
+import { useSessionTimeout } from "@/features/auth/hooks/use-session-timeout";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+/**
+ * Warns a signed-in user a minute before their session times out, with a live countdown.
+ * Before the idle timeout they can stay signed in, which counts as activity; the maximum session
+ * age cannot be extended, so they can only dismiss the warning or log in again right away.
+ * When the countdown runs out the session is signed out and the user lands on `/login` with the reason.
+ * Rendered by `AuthSessionProvider`; renders nothing while no warning is due.
+ *
+ * @param {object} props - The component props.
+ * @param {boolean} props.enabled - Whether a session with an account is signed in (guests are exempt).
+ * @returns {JSX.Element} The dialog.
+ */
+export function SessionTimeoutDialog({ enabled }: { enabled: boolean }): JSX.Element {
+  const { warning, staySignedIn, signOutNow } = useSessionTimeout(enabled);
+  const isMaxAge = warning?.reason === "max_age";
+
+  return (
+    <AlertDialog open={!!warning} onOpenChange={(open) => { if (!open) staySignedIn(); }}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {isMaxAge ? "Your session is about to end" : "Are you still there?"}
+          </AlertDialogTitle>
+          <AlertDialogDescription aria-live="polite">
+            {isMaxAge
+              ? `Sessions have a maximum length, and yours ends in ${warning?.secondsLeft ?? 0}s. Save your work; you can log in again right after.`
+              : `You'll be signed out in ${warning?.secondsLeft ?? 0}s because of inactivity. Stay signed in?`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={signOutNow}>
+            {isMaxAge ? "Log in again now" : "Sign out"}
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={staySignedIn}>
+            {isMaxAge ? "OK" : "Stay signed in"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Constants for the auth error page (`/auth/auth-code-error`).
+ * `/auth/confirm` and `/auth/callback` send failed links there with a reason code and, when known,
+ * the kind of link, so the page can explain what happened and offer the matching way out.
+ */
+
+/** Where failed confirmation, recovery and sign-in links are sent. */
+export const AUTH_CODE_ERROR_PATH = '/auth/auth-code-error';
+
+/** The query parameter carrying the `AuthCodeErrorReason`. */
+export const AUTH_CODE_ERROR_REASON_PARAM = 'reason';
+
+/** The query parameter carrying the `AuthLinkFlow` of the failed link. */
+export const AUTH_CODE_ERROR_FLOW_PARAM = 'flow';
+
+/**
+ * Why a link failed:
+ * - `expired`: the link is too old, or Supabase no longer knows its token (it is also reported for
+ *   email links that were already used, since Supabase deletes tokens once redeemed).
+ * - `used`: the sign-in was already completed with this link, e.g. in another tab.
+ * - `invalid`: the link is malformed, incomplete or was opened in a different browser.
+ * - `provider_error`: the social login provider refused or cancelled the sign-in.
+ */
+export type AuthCodeErrorReason = 'expired' | 'used' | 'invalid' | 'provider_error';
+
+export const AUTH_CODE_ERROR_REASONS: readonly AuthCodeErrorReason[] = ['expired', 'used', 'invalid', 'provider_error'];
+
+/**
+ * The kind of link that failed. `signup` and `recovery` links can be sent again from the error page;
+ * the others point the user back to where they started.
+ */
+export type AuthLinkFlow = 'signup' | 'recovery' | 'magiclink' | 'email_change' | 'invite' | 'oauth';
+
+export const AUTH_LINK_FLOWS: readonly AuthLinkFlow[] = ['signup', 'recovery', 'magiclink', 'email_change', 'invite', 'oauth'];
+
+/** Titles and explanations shown on the error page. */
+export const AUTH_CODE_ERROR_MESSAGES: Record<AuthCodeErrorReason, { title: string; description: string }> = {
+  expired: {
+    title: 'This link has expired',
+    description: 'Links in our emails only work once and for a limited time. This one has expired or was already used.',
+  },
+  used: {
+    title: 'This link was already used',
+    description: 'The sign-in this link started has already been completed, for example in another tab.',
+  },
+  invalid: {
+    title: 'This link is not valid',
+    description: 'The link is incomplete or was opened in a different browser from the one that requested it. Copy the whole link from the email, or request a new one.',
+  },
+  provider_error: {
+    title: 'Social login did not complete',
+    description: 'The sign-in was cancelled or refused by the provider. You can try again or log in another way.',
+  },
+};
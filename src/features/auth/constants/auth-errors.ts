@@ -0,0 +1,112 @@
+/**
+ * @fileOverview Error codes for the auth Server Actions and their user-facing messages per language.
+ * Actions set `errorCode` on `AuthActionState` and take the message from this catalog instead of
+ * passing Supabase's own text through, so messages are translated and never reveal more than intended
+ * (e.g. whether an account exists). Forms branch on the code, not the message.
+ */
+
+/**
+ * Why an auth action failed:
+ * - `invalid_credentials`: wrong email or password.
+ * - `email_not_confirmed`: the password was right but the address is not confirmed yet.
+ * - `weak_password` / `same_password`: Supabase refused the new password.
+ * - `email_in_use`: the new address of an email change belongs to another account.
+ * - `invalid_code`: an emailed or texted code (or reauthentication nonce) is wrong or expired.
+ * - `rate_limited`: too many attempts; `retryAfterSeconds` says when to try again.
+ * - `captcha_required` / `captcha_failed`: the CAPTCHA is missing or was not solved.
+ * - `not_authenticated`: the action needs a signed-in user and the session is missing.
+ * - `signup_disabled`: Supabase does not allow new accounts this way.
+ * - `delivery_failed`: the email or text message could not be sent.
+ * - `validation_failed`: the form input is invalid; details are in `errorFields`.
+ * - `unexpected`: anything else. The only code forms report to Sentry.
+ */
+export type AuthErrorCode =
+  | 'invalid_credentials'
+  | 'email_not_confirmed'
+  | 'weak_password'
+  | 'same_password'
+  | 'email_in_use'
+  | 'invalid_code'
+  | 'rate_limited'
+  | 'captcha_required'
+  | 'captcha_failed'
+  | 'not_authenticated'
+  | 'signup_disabled'
+  | 'delivery_failed'
+  | 'validation_failed'
+  | 'unexpected';
+
+/** The languages auth messages are available in, matching the language options of the profile page. */
+export const SUPPORTED_LANGUAGES = ['en', 'es', 'fr', 'de'] as const;
+
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
+
+/** User-facing messages per language. `{seconds}` is replaced with the wait time. */
+export const AUTH_ERROR_MESSAGES: Record<SupportedLanguage, Record<AuthErrorCode, string>> = {
+  en: {
+    invalid_credentials: 'Invalid email or password.',
+    email_not_confirmed: 'Please confirm your email address before logging in. Check your inbox for the confirmation link.',
+    weak_password: 'This password is too weak. Please choose a stronger one.',
+    same_password: 'Your new password must be different from your current password.',
+    email_in_use: 'That email address is already in use by another account.',
+    invalid_code: 'The code is invalid or has expired. Please request a new one.',
+    rate_limited: 'Too many attempts. Please try again in {seconds} seconds.',
+    captcha_required: 'Please complete the security check to continue.',
+    captcha_failed: 'The security check failed. Please try again.',
+    not_authenticated: 'Your session has expired. Please log in again.',
+    signup_disabled: 'New accounts cannot be created this way.',
+    delivery_failed: 'We could not send the message. Please check the address or number and try again.',
+    validation_failed: 'Please correct the errors in the form.',
+    unexpected: 'Something went wrong. Please try again.',
+  },
+  es: {
+    invalid_credentials: 'Correo electrónico o contraseña incorrectos.',
+    email_not_confirmed: 'Confirma tu dirección de correo antes de iniciar sesión. Busca el enlace de confirmación en tu bandeja de entrada.',
+    weak_password: 'Esta contraseña es demasiado débil. Elige una más segura.',
+    same_password: 'La nueva contraseña debe ser distinta de la actual.',
+    email_in_use: 'Esa dirección de correo ya la usa otra cuenta.',
+    invalid_code: 'El código no es válido o ha caducado. Solicita uno nuevo.',
+    rate_limited: 'Demasiados intentos. Vuelve a intentarlo dentro de {seconds} segundos.',
+    captcha_required: 'Completa la verificación de seguridad para continuar.',
+    captcha_failed: 'La verificación de seguridad ha fallado. Inténtalo de nuevo.',
+    not_authenticated: 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+    signup_disabled: 'No se pueden crear cuentas nuevas de esta forma.',
+    delivery_failed: 'No hemos podido enviar el mensaje. Comprueba la dirección o el número e inténtalo de nuevo.',
+    validation_failed: 'Corrige los errores del formulario.',
+    unexpected: 'Algo ha salido mal. Inténtalo de nuevo.',
+  },
+  fr: {
+    invalid_credentials: 'Adresse e-mail ou mot de passe incorrect.',
+    email_not_confirmed: 'Veuillez confirmer votre adresse e-mail avant de vous connecter. Le lien de confirmation se trouve dans votre boîte de réception.',
+    weak_password: 'Ce mot de passe est trop faible. Veuillez en choisir un plus robuste.',
+    same_password: 'Le nouveau mot de passe doit être différent du mot de passe actuel.',
+    email_in_use: 'Cette adresse e-mail est déjà utilisée par un autre compte.',
+    invalid_code: 'Le code est invalide ou a expiré. Veuillez en demander un nouveau.',
+    rate_limited: 'Trop de tentatives. Veuillez réessayer dans {seconds} secondes.',
+    captcha_required: 'Veuillez effectuer la vérification de sécurité pour continuer.',
+    captcha_failed: 'La vérification de sécurité a échoué. Veuillez réessayer.',
+    not_authenticated: 'Votre session a expiré. Veuillez vous reconnecter.',
+    signup_disabled: 'Il n’est pas possible de créer un compte de cette façon.',
+    delivery_failed: 'Le message n’a pas pu être envoyé. Vérifiez l’adresse ou le numéro et réessayez.',
+    validation_failed: 'Veuillez corriger les erreurs du formulaire.',
+    unexpected: 'Une erreur s’est produite. Veuillez réessayer.',
+  },
+  de: {
+    invalid_credentials: 'E-Mail-Adresse oder Passwort ist falsch.',
+    email_not_confirmed: 'Bitte bestätige deine E-Mail-Adresse, bevor du dich anmeldest. Den Bestätigungslink findest du in deinem Posteingang.',
+    weak_password: 'Dieses Passwort ist zu schwach. Bitte wähle ein sichereres.',
+    same_password: 'Das neue Passwort muss sich vom aktuellen Passwort unterscheiden.',
+    email_in_use: 'Diese E-Mail-Adresse wird bereits von einem anderen Konto verwendet.',
+    invalid_code: 'Der Code ist ungültig oder abgelaufen. Bitte fordere einen neuen an.',
+    rate_limited: 'Zu viele Versuche. Bitte versuche es in {seconds} Sekunden erneut.',
+    captcha_required: 'Bitte schließe die Sicherheitsprüfung ab, um fortzufahren.',
+    captcha_failed: 'Die Sicherheitsprüfung ist fehlgeschlagen. Bitte versuche es erneut.',
+    not_authenticated: 'Deine Sitzung ist abgelaufen. Bitte melde dich erneut an.',
+    signup_disabled: 'Auf diese Weise können keine neuen Konten erstellt werden.',
+    delivery_failed: 'Die Nachricht konnte nicht gesendet werden. Bitte prüfe die Adresse oder Nummer und versuche es erneut.',
+    validation_failed: 'Bitte korrigiere die Fehler im Formular.',
+    unexpected: 'Etwas ist schiefgelaufen. Bitte versuche es erneut.',
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * @fileOverview Event types and retention for the authentication audit log (`auth_events`).
+ */
+
+/**
+ * The recorded authentication events. Sign-ins of every kind share `sign_in`; the method
+ * (password, email or SMS code, magic link, recovery link, OAuth, passkey) is kept in the event metadata.
+ */
+export type AuthEventType =
+  | 'sign_up'
+  | 'sign_in'
+  | 'sign_out'
+  | 'email_verified'
+  | 'password_reset_requested'
+  | 'password_changed'
+  | 'email_change_requested'
+  | 'passkey_added'
+  | 'passkey_removed';
+
+export type AuthEventOutcome = 'success' | 'failure';
+
+/** Labels for the login history table. */
+export const AUTH_EVENT_LABELS: Record<AuthEventType, string> = {
+  sign_up: 'Account created',
+  sign_in: 'Sign in',
+  sign_out: 'Sign out',
+  email_verified: 'Email confirmed',
+  password_reset_requested: 'Password reset requested',
+  password_changed: 'Password changed',
+  email_change_requested: 'Email change requested',
+  passkey_added: 'Passkey added',
+  passkey_removed: 'Passkey removed',
+};
+
+/** Labels for the `method` metadata of `sign_in` events. */
+export const AUTH_SIGN_IN_METHOD_LABELS: Record<string, string> = {
+  password: 'Password',
+  email_code: 'Email code',
+  sms_code: 'SMS code',
+  magic_link: 'Magic link',
+  recovery_link: 'Password reset link',
+  oauth: 'Social login',
+  anonymous: 'Guest session',
+  passkey: 'Passkey',
+};
+
+/** Days audit events are kept before the retention job deletes them. */
+export const AUTH_EVENT_RETENTION_DAYS = 90;
@@ -0,0 +1,28 @@
+/**
+ * @fileOverview When the auth forms ask for a CAPTCHA.
+ * The challenge only appears after repeated failures from the same IP or against the same email,
+ * so normal users never see it. The provider is configured in `@/lib/captcha`.
+ */
+
+import type { RateLimitRule } from '@/lib/rate-limit';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * The auth actions that can require a CAPTCHA.
+ */
+export type CaptchaAction = 'signIn' | 'signUp' | 'passwordReset';
+
+/** The form field carrying the widget's token. */
+export const CAPTCHA_TOKEN_FIELD = 'captchaToken';
+
+/**
+ * How many failed attempts (`limit`) within `windowMs` are allowed before the CAPTCHA is required.
+ * A reset request for an unknown address succeeds like any other, so every password reset request counts.
+ */
+export const CAPTCHA_FAILURE_THRESHOLDS: Record<CaptchaAction, RateLimitRule> = {
+  signIn: { limit: 3, windowMs: 15 * MINUTE_MS },
+  signUp: { limit: 3, windowMs: HOUR_MS },
+  passwordReset: { limit: 2, windowMs: HOUR_MS },
+};
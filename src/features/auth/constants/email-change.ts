@@ -0,0 +1,17 @@
+/**
+ * @fileOverview Constants for the email change flow.
+ * `/auth/confirm` reports the outcome of an `email_change` link to the profile page through
+ * the `email_change` query parameter.
+ */
+
+/** The query parameter `/auth/confirm` adds after verifying an email change link. */
+export const EMAIL_CHANGE_STATUS_PARAM = 'email_change';
+
+/** Where email change links send the user once verified. */
+export const EMAIL_CHANGE_RETURN_PATH = '/dashboard/profile';
+
+/**
+ * The outcome of an email change link: `pending` after the first of the two addresses
+ * confirmed, `complete` once both have and the new address is active.
+ */
+export type EmailChangeStatus = 'pending' | 'complete';
@@ -0,0 +1,11 @@
+// src/features/auth/constants/index.ts
+export * from './oauth-providers';
+export * from './rate-limits';
+export * from './password-policy';
+export * from './email-change';
+export * from './auth-events';
+export * from './captcha';
+export * from './phone';
+export * from './auth-code-error';
+export * from './auth-errors';
+export * from './session-timeouts';
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview OAuth provider configuration for social sign-in.
+ * Providers listed here must also be enabled in the Supabase dashboard
+ * (Authentication > Providers), otherwise `signInWithOAuth` returns an error.
+ */
+
+/**
+ * The OAuth providers offered on the login and registration forms, in display order.
+ */
+export const OAUTH_PROVIDERS = ['google', 'github'] as const;
+
+/**
+ * Identifier of a supported OAuth provider, matching Supabase's `Provider` values.
+ */
+export type OAuthProviderId = (typeof OAUTH_PROVIDERS)[number];
+
+/**
+ * Human-readable provider names used for button labels and messages.
+ */
+export const OAUTH_PROVIDER_LABELS: Record<OAuthProviderId, string> = {
+  google: 'Google',
+  github: 'GitHub',
+};
@@ -0,0 +1,48 @@
+/**
+ * @fileOverview Password policy levels, shared by the client (strength meter, form hints)
+ * and the server (`passwordSchema` in Server Actions) so both enforce exactly the same rules.
+ * The active level is chosen with `NEXT_PUBLIC_PASSWORD_POLICY_LEVEL` (`basic`, `standard` or `strict`).
+ * It is a public variable so that the browser bundle resolves the same level as the server.
+ */
+
+/**
+ * The character classes counted by `minCharacterClasses`.
+ */
+export type PasswordCharacterClass = 'lowercase' | 'uppercase' | 'digit' | 'symbol';
+
+/**
+ * Strength score from 0 (very weak) to 4 (very strong), as estimated by `estimatePasswordStrength`.
+ */
+export type PasswordStrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordPolicy {
+  minLength: number;
+  /** Supabase hashes passwords with bcrypt, which ignores everything after 72 bytes. */
+  maxLength: number;
+  /** How many different character classes the password must contain. */
+  minCharacterClasses: number;
+  minScore: PasswordStrengthScore;
+}
+
+export type PasswordPolicyLevel = 'basic' | 'standard' | 'strict';
+
+export const PASSWORD_POLICY_LEVELS: Record<PasswordPolicyLevel, PasswordPolicy> = {
+  basic: { minLength: 8, maxLength: 72, minCharacterClasses: 1, minScore: 1 },
+  standard: { minLength: 8, maxLength: 72, minCharacterClasses: 2, minScore: 2 },
+  strict: { minLength: 12, maxLength: 72, minCharacterClasses: 3, minScore: 3 },
+};
+
+const configuredLevel = process.env.NEXT_PUBLIC_PASSWORD_POLICY_LEVEL;
+
+/**
+ * The policy level in effect. Unknown values fall back to `standard`.
+ */
+export const PASSWORD_POLICY_LEVEL: PasswordPolicyLevel =
+  configuredLevel === 'basic' || configuredLevel === 'standard' || configuredLevel === 'strict'
+    ? configuredLevel
+    : 'standard';
+
+/**
+ * The password policy in effect.
+ */
+export const PASSWORD_POLICY: PasswordPolicy = PASSWORD_POLICY_LEVELS[PASSWORD_POLICY_LEVEL];
@@ -0,0 +1,50 @@
+/**
+ * @fileOverview Constants for phone number sign-in with SMS codes.
+ */
+
+export interface PhoneCountry {
+  /** ISO 3166-1 alpha-2 code, used as the select value. */
+  code: string;
+  name: string;
+  /** The international dialing code, including the `+`. */
+  dialCode: string;
+}
+
+/**
+ * Countries offered in the phone sign-in form's country selector, by name.
+ * Numbers from elsewhere can still be entered in full international format (starting with `+`).
+ */
+export const PHONE_COUNTRIES: readonly PhoneCountry[] = [
+  { code: 'AU', name: 'Australia', dialCode: '+61' },
+  { code: 'AT', name: 'Austria', dialCode: '+43' },
+  { code: 'BE', name: 'Belgium', dialCode: '+32' },
+  { code: 'BR', name: 'Brazil', dialCode: '+55' },
+  { code: 'CA', name: 'Canada', dialCode: '+1' },
+  { code: 'DK', name: 'Denmark', dialCode: '+45' },
+  { code: 'FI', name: 'Finland', dialCode: '+358' },
+  { code: 'FR', name: 'France', dialCode: '+33' },
+  { code: 'DE', name: 'Germany', dialCode: '+49' },
+  { code: 'IN', name: 'India', dialCode: '+91' },
+  { code: 'IE', name: 'Ireland', dialCode: '+353' },
+  { code: 'IT', name: 'Italy', dialCode: '+39' },
+  { code: 'JP', name: 'Japan', dialCode: '+81' },
+  { code: 'MX', name: 'Mexico', dialCode: '+52' },
+  { code: 'NL', name: 'Netherlands', dialCode: '+31' },
+  { code: 'NZ', name: 'New Zealand', dialCode: '+64' },
+  { code: 'NO', name: 'Norway', dialCode: '+47' },
+  { code: 'PL', name: 'Poland', dialCode: '+48' },
+  { code: 'PT', name: 'Portugal', dialCode: '+351' },
+  { code: 'SG', name: 'Singapore', dialCode: '+65' },
+  { code: 'ZA', name: 'South Africa', dialCode: '+27' },
+  { code: 'ES', name: 'Spain', dialCode: '+34' },
+  { code: 'SE', name: 'Sweden', dialCode: '+46' },
+  { code: 'CH', name: 'Switzerland', dialCode: '+41' },
+  { code: 'GB', name: 'United Kingdom', dialCode: '+44' },
+  { code: 'US', name: 'United States', dialCode: '+1' },
+];
+
+/** The country preselected in the phone sign-in form. */
+export const DEFAULT_PHONE_COUNTRY = 'US';
+
+/** Whether the phone form creates an account or signs in to an existing one. */
+export type PhoneAuthIntent = 'sign-in' | 'sign-up';
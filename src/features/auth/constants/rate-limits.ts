@@ -0,0 +1,74 @@
+/**
+ * @fileOverview Rate limits for the auth Server Actions.
+ * Each action is limited per client IP and per email address (or phone number), in sliding windows.
+ * The per-email limits also stop the forms from being used to flood someone's inbox.
+ */
+
+import type { RateLimitRule } from '@/lib/rate-limit';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * The auth actions that are rate limited.
+ */
+export type AuthRateLimitAction = 'signIn' | 'passwordReset' | 'signUp' | 'emailOtp' | 'emailChange' | 'guestSignIn' | 'smsOtp' | 'passkeySignIn' | 'resendConfirmation' | 'otpVerify' | 'smsOtpVerify';
+
+export interface AuthRateLimitRules {
+  ip: RateLimitRule;
+  /** Omitted for actions that have no email address, such as starting a guest session. */
+  email?: RateLimitRule;
+}
+
+/**
+ * Limits per action. IP limits are looser than email limits because several users may share an IP.
+ */
+export const AUTH_RATE_LIMITS: Record<AuthRateLimitAction, AuthRateLimitRules> = {
+  signIn: {
+    ip: { limit: 30, windowMs: 15 * MINUTE_MS },
+    email: { limit: 5, windowMs: 15 * MINUTE_MS },
+  },
+  passwordReset: {
+    ip: { limit: 10, windowMs: HOUR_MS },
+    email: { limit: 3, windowMs: HOUR_MS },
+  },
+  signUp: {
+    ip: { limit: 5, windowMs: HOUR_MS },
+    email: { limit: 3, windowMs: HOUR_MS },
+  },
+  emailOtp: {
+    ip: { limit: 10, windowMs: HOUR_MS },
+    email: { limit: 5, windowMs: HOUR_MS },
+  },
+  emailChange: {
+    ip: { limit: 10, windowMs: HOUR_MS },
+    email: { limit: 3, windowMs: HOUR_MS },
+  },
+  // Every guest session is a new user in Supabase, so this also caps how fast accounts pile up.
+  guestSignIn: {
+    ip: { limit: 5, windowMs: HOUR_MS },
+  },
+  // Keyed per phone number through the `email` rule. Each text message costs money, so the limits are tight.
+  smsOtp: {
+    ip: { limit: 5, windowMs: HOUR_MS },
+    email: { limit: 3, windowMs: HOUR_MS },
+  },
+  // Limits how fast sign-in challenges are issued; every passkey sign-in needs a fresh one.
+  passkeySignIn: {
+    ip: { limit: 30, windowMs: 15 * MINUTE_MS },
+  },
+  resendConfirmation: {
+    ip: { limit: 10, windowMs: HOUR_MS },
+    email: { limit: 3, windowMs: HOUR_MS },
+  },
+  // Checking an emailed 6-digit code. Tight per address, so a code cannot be guessed before it expires.
+  otpVerify: {
+    ip: { limit: 30, windowMs: 15 * MINUTE_MS },
+    email: { limit: 5, windowMs: 15 * MINUTE_MS },
+  },
+  // Checking a texted 6-digit code, keyed per phone number through the `email` rule.
+  smsOtpVerify: {
+    ip: { limit: 30, windowMs: 15 * MINUTE_MS },
+    email: { limit: 5, windowMs: 15 * MINUTE_MS },
+  },
+};
@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Session lifetime limits, shared by the middleware (`updateSession`), which signs
+ * timed-out sessions out, and `AuthSessionProvider`, which warns the user a minute before.
+ * - The idle timeout ends a session after a period without activity, set in minutes with
+ *   `NEXT_PUBLIC_SESSION_IDLE_TIMEOUT_MINUTES` (default 30).
+ * - The maximum age ends a session a fixed time after sign-in, however active it is, set in hours
+ *   with `NEXT_PUBLIC_SESSION_MAX_AGE_HOURS` (default 12).
+ * Both are public variables so that the browser bundle counts down with the same limits as the server.
+ */
+
+/**
+ * Reads a positive number from a configuration value. Missing, non-numeric and non-positive
+ * values fall back to the default, so a typo never disables a limit.
+ *
+ * @param {string | undefined} value - The configured value.
+ * @param {number} fallback - The default.
+ * @returns {number} The value in effect.
+ */
+function positiveNumberOr(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Seconds without activity after which a session is signed out. */
+export const SESSION_IDLE_TIMEOUT_SECONDS = Math.round(
+  positiveNumberOr(process.env.NEXT_PUBLIC_SESSION_IDLE_TIMEOUT_MINUTES, 30) * 60,
+);
+
+/** Seconds after sign-in after which a session is signed out, whatever the activity. */
+export const SESSION_MAX_AGE_SECONDS = Math.round(
+  positiveNumberOr(process.env.NEXT_PUBLIC_SESSION_MAX_AGE_HOURS, 12) * 60 * 60,
+);
+
+/** How long before either limit the "stay signed in?" dialog is shown. */
+export const SESSION_TIMEOUT_WARNING_SECONDS = 60;
+
+/**
+ * How often, at most, the browser reports activity (mouse, keyboard, touch) to the server.
+ * Page navigations are recorded by the middleware as they happen.
+ */
+export const SESSION_ACTIVITY_REPORT_INTERVAL_SECONDS = 60;
+
+/**
+ * The httpOnly cookie holding the ID of the Supabase session, when it started and the time of its
+ * last activity, as `<sessionId>.<startedAt>.<lastActiveAt>.<signature>` (both times in epoch seconds,
+ * signed with `SESSION_ACTIVITY_SECRET`). Binding it to the session means a new sign-in starts afresh.
+ */
+export const SESSION_ACTIVITY_COOKIE = 'session_activity';
+
+/** The query parameter on `/login` carrying the `SessionEndReason`. */
+export const SESSION_END_REASON_PARAM = 'reason';
+
+/**
+ * Why a session was signed out:
+ * - `idle`: there was no activity for `SESSION_IDLE_TIMEOUT_SECONDS`.
+ * - `max_age`: the session reached `SESSION_MAX_AGE_SECONDS` since sign-in.
+ */
+export type SessionEndReason = 'idle' | 'max_age';
+
+export const SESSION_END_REASONS: readonly SessionEndReason[] = ['idle', 'max_age'];
+
+/** Explanations shown on the login page after a session was signed out. */
+export const SESSION_END_MESSAGES: Record<SessionEndReason, { title: string; description: string }> = {
+  idle: {
+    title: 'You were signed out due to inactivity',
+    description: 'To protect your account, sessions end after a period without activity. Log in again to continue.',
+  },
+  max_age: {
+    title: 'Your session has ended',
+    description: 'To protect your account, sessions have a maximum length. Log in again to continue.',
+  },
+};
@@ -1,4 +1,11 @@
 // src/features/auth/hooks/index.ts
 export * from './use-auth';
+export * from './use-auth-events-query';
+export * from './use-captcha-required';
+export * from './use-mfa-factors-query';
+export * from './use-passkeys-query';
+export * from './use-retry-countdown';
+export * from './use-user-sessions-query';
 // If there were other exports, they should be preserved or added here.
 // For example, if there was 'export * from "./some-other-auth-hook";'
+export * from './use-session-timeout';
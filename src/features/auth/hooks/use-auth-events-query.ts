@@ -0,0 +1,23 @@
+// src/features/auth/hooks/use-auth-events-query.ts
+'use client';
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { getAuthEvents } from '../queries/auth-event.queries';
+import { type AuthEventSummary } from '../types';
+
+/**
+ * Custom hook to fetch the current user's login history using TanStack Query.
+ * The query is keyed by user ID so it never serves one user's history to another.
+ *
+ * @param userId - The ID of the signed-in user. The query is enabled only if it is provided.
+ * @returns The TanStack Query result, with `data` holding the most recent auth events.
+ */
+export const useAuthEventsQuery = (
+  userId: string | null | undefined,
+): UseQueryResult<AuthEventSummary[], Error> => {
+  return useQuery<AuthEventSummary[], Error, AuthEventSummary[], (string | null | undefined)[]>({
+    queryKey: ['authEvents', userId],
+    queryFn: () => getAuthEvents(),
+    enabled: !!userId,
+  });
+};
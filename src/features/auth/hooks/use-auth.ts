@@ -13,6 +13,7 @@ interface AuthState {
   profile: UserProfile | undefined;
   authUser: (User & UserProfile) | null; // Combined user and profile, available when fully authenticated
   isAuthenticated: boolean; // Stricter: true only if session exists AND profile is loaded
+  isGuest: boolean; // True for guest (anonymous) sessions, which have no email until the account is saved
   isLoadingAuth: boolean; // Composite: true if session is loading OR (session exists AND profile is loading)
   isSessionLoading: boolean; // Specifically for AuthSessionProvider's initial session check
   sessionError: Error | null; // Specifically for errors from AuthSessionProvider
@@ -25,6 +26,7 @@ const getTimestampLog = () => new Date().toISOString();
  * The primary hook for accessing authentication state and user profile information.
  * It combines the session state (raw Supabase user from AuthSessionProvider)
  * with the detailed user profile fetched via TanStack Query (useUserProfileQuery).
+ * Guests (anonymous sessions from `signInAsGuest`) are authenticated too; `isGuest` tells them apart.
  * Also logs significant session or profile errors to Sentry.
  *
  * @returns {AuthState} An AuthState object with granular loading and authentication states.
@@ -92,6 +94,7 @@ export const useAuth = (): AuthState => {
     profile: profileData,
     authUser: finalAuthUser,
     isAuthenticated: finalIsAuthenticated,
+    isGuest: !!sessionUser?.is_anonymous,
     isLoadingAuth: finalIsLoadingAuth,
     isSessionLoading: currentIsSessionLoading,
     sessionError: currentSessionError,
@@ -0,0 +1,25 @@
+// src/features/auth/hooks/use-captcha-required.ts
+'use client';
+
+import { useEffect, useState } from 'react';
+import { type AuthActionState } from '../types';
+
+/**
+ * Tracks whether a form must show the CAPTCHA widget.
+ * Once an action state asks for it (`captchaRequired`), it stays shown for the life of the form,
+ * even if a later state (e.g. a validation error) does not repeat the flag.
+ *
+ * @param state - The latest state returned by an auth Server Action.
+ * @returns Whether the CAPTCHA widget should be rendered.
+ */
+export const useCaptchaRequired = (state: AuthActionState | null | undefined): boolean => {
+  const [captchaRequired, setCaptchaRequired] = useState(false);
+
+  useEffect(() => {
+    if (state?.captchaRequired) {
+      setCaptchaRequired(true);
+    }
+  }, [state]);
+
+  return captchaRequired;
+};
@@ -0,0 +1,23 @@
+// src/features/auth/hooks/use-mfa-factors-query.ts
+'use client';
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { getMfaFactors } from '../queries/mfa.queries';
+import { type MfaFactorSummary } from '../types';
+
+/**
+ * Custom hook to fetch the current user's verified MFA factors using TanStack Query.
+ * The query is keyed by user ID so it never serves one user's factors to another.
+ *
+ * @param userId - The ID of the signed-in user. The query is enabled only if it is provided.
+ * @returns The TanStack Query result, with `data` holding the verified factors.
+ */
+export const useMfaFactorsQuery = (
+  userId: string | null | undefined,
+): UseQueryResult<MfaFactorSummary[], Error> => {
+  return useQuery<MfaFactorSummary[], Error, MfaFactorSummary[], (string | null | undefined)[]>({
+    queryKey: ['mfaFactors', userId],
+    queryFn: () => getMfaFactors(),
+    enabled: !!userId,
+  });
+};
@@ -0,0 +1,23 @@
+// src/features/auth/hooks/use-passkeys-query.ts
+'use client';
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { getPasskeys } from '../queries/passkey.queries';
+import { type PasskeySummary } from '../types';
+
+/**
+ * Custom hook to fetch the current user's passkeys using TanStack Query.
+ * The query is keyed by user ID so it never serves one user's passkeys to another.
+ *
+ * @param userId - The ID of the signed-in user. The query is enabled only if it is provided.
+ * @returns The TanStack Query result, with `data` holding the passkeys.
+ */
+export const usePasskeysQuery = (
+  userId: string | null | undefined,
+): UseQueryResult<PasskeySummary[], Error> => {
+  return useQuery<PasskeySummary[], Error, PasskeySummary[], (string | null | undefined)[]>({
+    queryKey: ['passkeys', userId],
+    queryFn: () => getPasskeys(),
+    enabled: !!userId,
+  });
+};
@@ -0,0 +1,34 @@
+// src/features/auth/hooks/use-retry-countdown.ts
+'use client';
+
+import { useEffect, useState } from 'react';
+import { type AuthActionState } from '../types';
+
+/**
+ * Counts down the `retryAfterSeconds` of a rate-limited action state.
+ * The countdown restarts whenever the action returns a new state, and stays at 0 for states
+ * that were not rate limited.
+ *
+ * @param state - The latest state returned by an auth Server Action.
+ * @returns The number of seconds left before the action may be retried.
+ */
+export const useRetryCountdown = (state: AuthActionState | null | undefined): number => {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    const retryAfterSeconds = state?.retryAfterSeconds ?? 0;
+    setSecondsLeft(retryAfterSeconds);
+    if (retryAfterSeconds <= 0) return;
+
+    // Count against a deadline rather than decrementing, so a throttled background tab stays accurate.
+    const deadline = Date.now() + retryAfterSeconds * 1000;
+    const interval = setInterval(() => {
+      const remaining = Math.max(Math.ceil((deadline - Date.now()) / 1000), 0);
+      setSecondsLeft(remaining);
+      if (remaining === 0) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  return secondsLeft;
+};
@@ -0,0 +1,148 @@
+// src/features/auth/hooks/use-session-timeout.ts
+'use client';
+
+import { startTransition, useCallback, useEffect, useRef, useState } from 'react';
+import { checkSessionTimeout, endTimedOutSession } from '../actions/session.actions';
+import {
+  SESSION_ACTIVITY_REPORT_INTERVAL_SECONDS,
+  SESSION_TIMEOUT_WARNING_SECONDS,
+  type SessionEndReason,
+} from '../constants/session-timeouts';
+import { getSessionDeadline } from '../utils/session-timeouts';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart', 'mousemove'] as const;
+
+/** The countdown shown once a session is about to time out. */
+export interface SessionTimeoutWarning {
+  secondsLeft: number;
+  reason: SessionEndReason;
+}
+
+/**
+ * Counts down to the idle timeout or maximum age of the current session, whichever comes first,
+ * and signs the user out when it is reached.
+ * Mouse, keyboard and touch activity is reported to the server (`checkSessionTimeout`) at most once
+ * per `SESSION_ACTIVITY_REPORT_INTERVAL_SECONDS`. `SESSION_TIMEOUT_WARNING_SECONDS` before the end,
+ * `warning` is set and activity no longer counts until the user chooses to stay signed in.
+ * The server is asked again before warning and before signing out, so activity in another tab
+ * keeps this one signed in too. The deadline is kept relative to the server's clock.
+ *
+ * @param {boolean} enabled - Whether a timed session is signed in (false for guests and signed-out users).
+ * @returns {{ warning: SessionTimeoutWarning | null, staySignedIn: () => void, signOutNow: () => void }}
+ *   The countdown, if one is shown, and what the user can do about it.
+ */
+export const useSessionTimeout = (enabled: boolean) => {
+  const [warning, setWarning] = useState<SessionTimeoutWarning | null>(null);
+  // `at` is in milliseconds of this browser's clock, corrected by the server's; `serverAt` in epoch seconds.
+  const deadlineRef = useRef<{ at: number; serverAt: number; reason: SessionEndReason } | null>(null);
+  const lastInteractionRef = useRef(0);
+  const lastReportRef = useRef(0);
+  const checkingRef = useRef(false);
+  const endingRef = useRef(false);
+  // The deadline last confirmed with the server, when the warning appeared and again when it ran out.
+  const verifiedRef = useRef<{ serverAt: number; final: boolean } | null>(null);
+  const dismissedRef = useRef(false);
+
+  const endSession = useCallback((reason: SessionEndReason) => {
+    if (endingRef.current) return;
+    endingRef.current = true;
+    startTransition(() => {
+      void endTimedOutSession(reason, `${window.location.pathname}${window.location.search}`);
+    });
+  }, []);
+
+  const sync = useCallback(async (recordActivity: boolean) => {
+    if (checkingRef.current || endingRef.current) return;
+    checkingRef.current = true;
+    const requestedAt = Date.now();
+    try {
+      const result = await checkSessionTimeout(recordActivity);
+      if (recordActivity) lastReportRef.current = requestedAt;
+      if (result.status === 'expired') {
+        endSession(result.reason);
+      } else if (result.status === 'active') {
+        const deadline = getSessionDeadline(result);
+        if (deadlineRef.current?.serverAt !== deadline.at) dismissedRef.current = false;
+        deadlineRef.current = {
+          at: Date.now() + (deadline.at - result.now) * 1000,
+          serverAt: deadline.at,
+          reason: deadline.reason,
+        };
+      } else {
+        deadlineRef.current = null;
+      }
+    } catch (error) {
+      // Offline or a deploy in progress: keep counting down and try again on the next tick.
+      console.warn('Could not check the session timeout:', (error as Error).message);
+    } finally {
+      checkingRef.current = false;
+    }
+  }, [endSession]);
+
+  useEffect(() => {
+    if (!enabled) {
+      deadlineRef.current = null;
+      setWarning(null);
+      return;
+    }
+    endingRef.current = false;
+    lastInteractionRef.current = Date.now();
+    void sync(true);
+
+    const onActivity = () => {
+      lastInteractionRef.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, onActivity, { passive: true }));
+
+    const interval = setInterval(() => {
+      const deadline = deadlineRef.current;
+      if (!deadline || checkingRef.current || endingRef.current) return;
+      const now = Date.now();
+      const secondsLeft = Math.ceil((deadline.at - now) / 1000);
+      const warningShown = secondsLeft <= SESSION_TIMEOUT_WARNING_SECONDS;
+
+      if (!warningShown) {
+        setWarning(null);
+        if (lastInteractionRef.current > lastReportRef.current && now - lastReportRef.current >= SESSION_ACTIVITY_REPORT_INTERVAL_SECONDS * 1000) {
+          void sync(true);
+        }
+        return;
+      }
+      const verified = verifiedRef.current?.serverAt === deadline.serverAt ? verifiedRef.current : null;
+      if (!verified || (secondsLeft <= 0 && !verified.final)) {
+        // Another tab may have been active since this one last asked.
+        verifiedRef.current = { serverAt: deadline.serverAt, final: secondsLeft <= 0 };
+        void sync(false);
+        return;
+      }
+      if (secondsLeft <= 0) {
+        setWarning(null);
+        endSession(deadline.reason);
+        return;
+      }
+      setWarning(dismissedRef.current ? null : { secondsLeft, reason: deadline.reason });
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity));
+      clearInterval(interval);
+    };
+  }, [enabled, sync, endSession]);
+
+  const staySignedIn = useCallback(() => {
+    setWarning(null);
+    if (deadlineRef.current?.reason === 'max_age') {
+      // The maximum age cannot be extended; let the user finish up until it is reached.
+      dismissedRef.current = true;
+      return;
+    }
+    lastInteractionRef.current = Date.now();
+    void sync(true);
+  }, [sync]);
+
+  const signOutNow = useCallback(() => {
+    endSession(deadlineRef.current?.reason ?? 'idle');
+  }, [endSession]);
+
+  return { warning, staySignedIn, signOutNow };
+};
@@ -0,0 +1,23 @@
+// src/features/auth/hooks/use-user-sessions-query.ts
+'use client';
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { getUserSessions } from '../queries/session.queries';
+import { type UserSessionSummary } from '../types';
+
+/**
+ * Custom hook to fetch the current user's active sessions using TanStack Query.
+ * The query is keyed by user ID so it never serves one user's sessions to another.
+ *
+ * @param userId - The ID of the signed-in user. The query is enabled only if it is provided.
+ * @returns The TanStack Query result, with `data` holding the active sessions.
+ */
+export const useUserSessionsQuery = (
+  userId: string | null | undefined,
+): UseQueryResult<UserSessionSummary[], Error> => {
+  return useQuery<UserSessionSummary[], Error, UserSessionSummary[], (string | null | undefined)[]>({
+    queryKey: ['userSessions', userId],
+    queryFn: () => getUserSessions(),
+    enabled: !!userId,
+  });
+};
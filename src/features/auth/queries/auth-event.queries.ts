@@ -0,0 +1,36 @@
+// src/features/auth/queries/auth-event.queries.ts
+"use server";
+
+import * as authEventService from '@/features/auth/services/auth-event.service';
+import type { AuthEventOutcome, AuthEventType } from '@/features/auth/constants';
+import type { AuthEventSummary } from '@/features/auth/types';
+import { parseUserAgent } from '@/features/auth/utils/user-agent';
+
+/**
+ * Server Action to get the current user's login history, with the device parsed from the user agent.
+ * This function is intended to be used as a queryFn for TanStack Query.
+ *
+ * @returns {Promise<AuthEventSummary[]>} The most recent auth events, newest first.
+ * @throws {Error} If the events cannot be listed (e.g., the user is not authenticated).
+ */
+export async function getAuthEvents(): Promise<AuthEventSummary[]> {
+  const { data, error } = await authEventService.listAuthEventsWithSupabase();
+  if (error || !data) {
+    throw new Error(`Failed to load login history: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return data.map((event) => {
+    const { browser, os } = parseUserAgent(event.user_agent);
+    const method = event.metadata?.['method'];
+    return {
+      id: event.id,
+      type: event.event_type as AuthEventType,
+      outcome: event.outcome as AuthEventOutcome,
+      method: typeof method === 'string' ? method : null,
+      browser,
+      os,
+      ipAddress: event.ip_address,
+      createdAt: event.created_at,
+    };
+  });
+}
@@ -1,2 +1,6 @@
 
 export * from "./auth.queries";
+export * from "./mfa.queries";
+export * from "./passkey.queries";
+export * from "./session.queries";
+export * from "./auth-event.queries";
@@ -0,0 +1,29 @@
+// src/features/auth/queries/mfa.queries.ts
+"use server";
+
+import * as mfaService from '@/features/auth/services/mfa.service';
+import type { MfaFactorSummary } from '@/features/auth/types';
+
+/**
+ * Server Action to get the current user's verified MFA factors.
+ * This function is intended to be used as a queryFn for TanStack Query.
+ *
+ * @returns {Promise<MfaFactorSummary[]>} The verified factors, without secrets.
+ * @throws {Error} If the factors cannot be listed (e.g., the user is not authenticated).
+ */
+export async function getMfaFactors(): Promise<MfaFactorSummary[]> {
+  const { data, error } = await mfaService.listMfaFactorsWithSupabase();
+  if (error) {
+    throw new Error(`Failed to load MFA factors: ${error.message}`);
+  }
+
+  return data.all
+    .filter((factor) => factor.status === 'verified')
+    .map((factor) => ({
+      id: factor.id,
+      friendlyName: factor.friendly_name ?? null,
+      factorType: factor.factor_type,
+      status: factor.status,
+      createdAt: factor.created_at,
+    }));
+}
@@ -0,0 +1,26 @@
+// src/features/auth/queries/passkey.queries.ts
+"use server";
+
+import * as passkeyService from '@/features/auth/services/passkey.service';
+import type { PasskeySummary } from '@/features/auth/types';
+
+/**
+ * Server Action to get the current user's passkeys for the security settings page.
+ * This function is intended to be used as a queryFn for TanStack Query.
+ *
+ * @returns {Promise<PasskeySummary[]>} The passkeys, oldest first.
+ * @throws {Error} If the passkeys cannot be listed (e.g., the user is not authenticated).
+ */
+export async function getPasskeys(): Promise<PasskeySummary[]> {
+  const { data, error } = await passkeyService.listPasskeysWithSupabase();
+  if (error || !data) {
+    throw new Error(`Failed to load passkeys: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return data.map((passkey) => ({
+    id: passkey.id,
+    deviceName: passkey.device_name,
+    createdAt: passkey.created_at,
+    lastUsedAt: passkey.last_used_at,
+  }));
+}
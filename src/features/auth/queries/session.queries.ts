@@ -0,0 +1,29 @@
+// src/features/auth/queries/session.queries.ts
+"use server";
+
+import * as sessionService from '@/features/auth/services/session.service';
+import type { UserSessionSummary } from '@/features/auth/types';
+import { parseUserAgent } from '@/features/auth/utils/user-agent';
+
+/**
+ * Server Action to get the current user's active sessions, with the device parsed from the user agent.
+ * This function is intended to be used as a queryFn for TanStack Query.
+ *
+ * @returns {Promise<UserSessionSummary[]>} The active sessions, newest activity first.
+ * @throws {Error} If the sessions cannot be listed (e.g., the user is not authenticated).
+ */
+export async function getUserSessions(): Promise<UserSessionSummary[]> {
+  const { data, error } = await sessionService.listUserSessionsWithSupabase();
+  if (error || !data) {
+    throw new Error(`Failed to load sessions: ${error?.message ?? 'no data returned'}`);
+  }
+
+  return data.map((session) => ({
+    id: session.id,
+    ...parseUserAgent(session.user_agent),
+    ipAddress: session.ip_address,
+    createdAt: session.created_at,
+    lastSeenAt: session.last_seen_at,
+    isCurrent: session.is_current,
+  }));
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { getPasswordPolicyViolations } from "@/features/auth/utils/password-strength";
 
 /**
  * Zod schema for validating email addresses.
@@ -8,12 +9,19 @@ export const emailSchema = z.string().email({ message: "Invalid email address. P
 
 /**
  * Zod schema for validating passwords during registration or update.
- * Ensures the password is not empty and meets a minimum length requirement.
+ * Ensures the password is not empty and satisfies the configured `PASSWORD_POLICY`
+ * (length, character classes and minimum strength score). The strength meter in the forms
+ * uses the same rules, so the client and the server always agree.
+ * Server Actions additionally reject compromised passwords (see `serverPasswordSchema`).
  */
 export const passwordSchema = z
   .string()
   .min(1, { message: "Password cannot be empty." })
-  .min(8, { message: "Password must be at least 8 characters long." });
+  .superRefine((password, ctx) => {
+    for (const message of getPasswordPolicyViolations(password)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
 
 /**
  * Zod schema for validating first names.
@@ -4,3 +4,9 @@ export * from "./forgot-password.schema";
 export * from "./login.schema";
 export * from "./register.schema";
 export * from "./update-password.schema";
+export * from "./oauth.schema";
+export * from "./passwordless.schema";
+export * from "./mfa.schema";
+export * from "./session.schema";
+export * from "./phone.schema";
+export * from "./passkey.schema";
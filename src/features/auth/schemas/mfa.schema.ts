@@ -0,0 +1,17 @@
+/**
+ * @fileOverview Zod schemas for multi-factor authentication (TOTP).
+ */
+import { z } from "zod";
+
+/**
+ * Zod schema for validating a 6-digit code from an authenticator app.
+ */
+export const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, { message: "Enter the 6-digit code from your authenticator app." });
+
+/**
+ * Zod schema for validating an MFA factor ID submitted from a form.
+ */
+export const mfaFactorIdSchema = z.string().uuid({ message: "Invalid authentication factor." });
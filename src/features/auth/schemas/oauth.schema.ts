@@ -0,0 +1,13 @@
+/**
+ * @fileOverview Zod schemas for OAuth (social) sign-in.
+ */
+import { z } from "zod";
+import { OAUTH_PROVIDERS } from "../constants/oauth-providers";
+
+/**
+ * Zod schema for validating the provider submitted by an OAuth sign-in button.
+ * Only providers configured in `OAUTH_PROVIDERS` are accepted.
+ */
+export const oauthProviderSchema = z.enum(OAUTH_PROVIDERS, {
+  errorMap: () => ({ message: "Unsupported sign-in provider." }),
+});
@@ -0,0 +1,49 @@
+/**
+ * @fileOverview Zod schemas for passkey (WebAuthn) registration, sign-in and management.
+ */
+import { z } from "zod";
+
+const base64UrlSchema = z.string().min(1).max(16384).regex(/^[A-Za-z0-9_-]+$/);
+
+/**
+ * Zod schema for validating a passkey ID submitted from a form.
+ */
+export const passkeyIdSchema = z.string().uuid({ message: "Invalid passkey." });
+
+/**
+ * Zod schema for the name users give a passkey, e.g. "Chrome on macOS" or "Work laptop".
+ */
+export const passkeyNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Name your passkey." })
+  .max(50, { message: "Passkey names must be 50 characters or less." });
+
+/**
+ * Zod schema for the browser's response to a registration ceremony, in JSON form.
+ */
+export const passkeyRegistrationResponseSchema = z.object({
+  id: base64UrlSchema,
+  rawId: base64UrlSchema,
+  type: z.literal("public-key"),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    attestationObject: base64UrlSchema,
+    transports: z.array(z.string().max(32)).max(8).optional(),
+  }),
+});
+
+/**
+ * Zod schema for the browser's response to a sign-in ceremony, in JSON form.
+ */
+export const passkeyAuthenticationResponseSchema = z.object({
+  id: base64UrlSchema,
+  rawId: base64UrlSchema,
+  type: z.literal("public-key"),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    authenticatorData: base64UrlSchema,
+    signature: base64UrlSchema,
+    userHandle: base64UrlSchema.nullable().optional(),
+  }),
+});
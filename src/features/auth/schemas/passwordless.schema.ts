@@ -0,0 +1,28 @@
+/**
+ * @fileOverview Zod schemas for passwordless (magic link / email OTP) sign-in.
+ */
+import { z } from "zod";
+import { emailSchema } from "./auth.common.schemas";
+
+/**
+ * Zod schema for the passwordless delivery mode chosen on the login form.
+ * - `magic_link`: the user clicks the link in the email, handled by `/auth/confirm`.
+ * - `otp`: the user types the 6-digit code from the email into the login form.
+ */
+export const passwordlessModeSchema = z.enum(["magic_link", "otp"], {
+  errorMap: () => ({ message: "Choose how you want to receive your sign-in email." }),
+});
+
+/**
+ * Zod schema for validating the 6-digit one-time code sent by email.
+ */
+export const emailOtpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, { message: "Enter the 6-digit code from your email." });
+
+/**
+ * Zod schema for validating the email input on the passwordless login form.
+ * @see {@link ./auth.common.schemas.ts#emailSchema}
+ */
+export { emailSchema };
@@ -0,0 +1,25 @@
+/**
+ * @fileOverview Zod schemas for phone number sign-in with SMS codes.
+ */
+import { z } from "zod";
+
+/**
+ * Zod schema for a phone number in E.164 format, as stored by the app and sent to Supabase.
+ * Numbers typed into the form are normalized with `normalizePhoneNumber` first.
+ */
+export const phoneNumberSchema = z
+  .string()
+  .regex(/^\+[1-9]\d{7,14}$/, { message: "Enter a valid phone number, including the country code." });
+
+/**
+ * Zod schema for the phone form's intent: sign in to an existing account or create one.
+ */
+export const phoneAuthIntentSchema = z.enum(["sign-in", "sign-up"]);
+
+/**
+ * Zod schema for validating the 6-digit one-time code sent by SMS.
+ */
+export const smsOtpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, { message: "Enter the 6-digit code from the text message." });
@@ -0,0 +1,9 @@
+/**
+ * @fileOverview Zod schemas for managing active sessions.
+ */
+import { z } from "zod";
+
+/**
+ * Zod schema for validating a session ID submitted from a form.
+ */
+export const sessionIdSchema = z.string().uuid({ message: "Invalid session." });
@@ -0,0 +1,48 @@
+// src/features/auth/services/auth-event.service.ts
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('AuthEventService');
+
+/**
+ * A row returned by the `list_my_auth_events` database function.
+ */
+export interface AuthEventRow {
+  id: number;
+  event_type: string;
+  outcome: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+/**
+ * Lists the most recent authentication events of the currently authenticated user, including
+ * failed attempts recorded against the hash of their email address.
+ * Events are written by `recordAuthEvent` (`utils/auth-event-log.ts`), not through this service.
+ * Logs the attempt and the outcome.
+ *
+ * @param {number} [limit=50] - The maximum number of events to return (the database caps it at 200).
+ * @returns {Promise<{ data: AuthEventRow[] | null, error: Error | null }>} The events, newest first, or an error.
+ */
+export async function listAuthEventsWithSupabase(limit: number = 50) {
+  logger.info(`Listing auth events for current user (limit: ${limit}).`);
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('list_my_auth_events', { p_limit: limit });
+
+  if (error) {
+    logger.error({
+      message: 'Listing auth events failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  const events = (data ?? []) as AuthEventRow[];
+  logger.info(`Listing auth events successful. Event count: ${events.length}`);
+  return { data: events, error: null };
+}
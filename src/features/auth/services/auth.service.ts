@@ -2,8 +2,16 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
-import type { SignUpWithPasswordCredentials, SignInWithPasswordCredentials, UserAttributes } from '@supabase/supabase-js';
+import type {
+  SignUpWithPasswordCredentials,
+  SignInWithPasswordCredentials,
+  SignInWithPasswordlessCredentials,
+  SignInWithOAuthCredentials,
+  UserAttributes,
+  VerifyOtpParams,
+} from '@supabase/supabase-js';
 import { getServerLogger } from '@/lib/logger';
+import { recordAuthEvent, type AuthEventInput } from '@/features/auth/utils/auth-event-log';
 
 const logger = getServerLogger('AuthService');
 
@@ -44,8 +52,10 @@ export async function signUpWithSupabase(
       },
       supabaseError: result.error, // Keep full error for Sentry or detailed debugging
     });
+    await recordAuthEvent({ type: 'sign_up', outcome: 'failure', email: 'email' in credentials ? credentials.email : null, metadata: { error: result.error.message } });
   } else {
     logger.info(`Supabase sign-up successful for email: ${credentials.email}. User ID: ${result.data.user?.id}`);
+    await recordAuthEvent({ type: 'sign_up', outcome: 'success', userId: result.data.user?.id });
   }
   return result;
 }
@@ -70,8 +80,258 @@ export async function signInWithPasswordWithSupabase(
       error: { name: result.error.name, message: result.error.message, status: result.error.status },
       supabaseError: result.error,
     });
+    await recordAuthEvent({ type: 'sign_in', outcome: 'failure', email: 'email' in credentials ? credentials.email : null, metadata: { method: 'password', error: result.error.message } });
   } else {
     logger.info(`Supabase sign-in successful for email: ${credentials.email}. User ID: ${result.data.user?.id}`);
+    await recordAuthEvent({ type: 'sign_in', outcome: 'success', userId: result.data.user?.id, metadata: { method: 'password' } });
+  }
+  return result;
+}
+
+/**
+ * Sends a passwordless sign-in email (magic link and 6-digit code) with Supabase, or an SMS code when
+ * given a phone number (delivered through the Send SMS hook, `/api/auth/hooks/send-sms`).
+ * Which of the two the email shows depends on the "Magic Link" email template; it should
+ * include both `{{ .TokenHash }}` (for the `/auth/confirm` link) and `{{ .Token }}` (for typed codes).
+ * Logs the attempt and the outcome.
+ *
+ * @param {SignInWithPasswordlessCredentials} credentials - The email address or phone number, and options such as `emailRedirectTo`.
+ * @returns {Promise<ReturnType<typeof supabase.auth.signInWithOtp>>} The response from Supabase.
+ */
+export async function signInWithOtpWithSupabase(credentials: SignInWithPasswordlessCredentials) {
+  const identifier = 'email' in credentials ? credentials.email : credentials.phone;
+  logger.info(`Attempting Supabase passwordless sign-in for: ${identifier}`, { options: credentials.options });
+  const supabase = await createClient();
+  const result = await supabase.auth.signInWithOtp(credentials);
+
+  if (result.error) {
+    logger.error({
+      message: `Supabase passwordless sign-in failed for: ${identifier}`,
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+  } else {
+    logger.info(`Supabase passwordless sign-in ${'email' in credentials ? 'email' : 'SMS'} sent for: ${identifier}`);
+  }
+  return result;
+}
+
+/**
+ * Sends an email confirmation link again, e.g. when the first one expired before the user clicked it.
+ * For `signup`, Supabase only sends a link while the address is unconfirmed, and it reports no
+ * difference for unknown addresses. Logs the attempt and the outcome.
+ *
+ * @param {'signup' | 'email_change'} type - The kind of confirmation to resend.
+ * @param {string} email - The address to send the link to.
+ * @param {object} [options] - Optional parameters.
+ * @param {string} [options.emailRedirectTo] - Where the confirmation link redirects to.
+ * @returns {Promise<ReturnType<typeof supabase.auth.resend>>} The response from Supabase.
+ */
+export async function resendEmailWithSupabase(type: 'signup' | 'email_change', email: string, options?: { emailRedirectTo?: string }) {
+  logger.info(`Attempting Supabase resend (type: ${type}) for email: ${email.substring(0, 3)}...`);
+  const supabase = await createClient();
+  const result = await supabase.auth.resend({ type, email, options });
+
+  if (result.error) {
+    logger.error({
+      message: `Supabase resend (type: ${type}) failed for email: ${email.substring(0, 3)}...`,
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+  } else {
+    logger.info(`Supabase resend (type: ${type}) processed for email: ${email.substring(0, 3)}...`);
+  }
+  return result;
+}
+
+/**
+ * Verifies a one-time password with Supabase and, on success, creates the session.
+ * Both the `/auth/confirm` link handler (token hash) and the typed-code login step (email + token)
+ * go through this function, so every OTP-based sign-in establishes its session the same way.
+ * Logs the attempt and the outcome.
+ *
+ * @param {VerifyOtpParams} params - Either `{ type, token_hash }`, `{ type, email, token }` or `{ type: 'sms', phone, token }`.
+ * @returns {Promise<ReturnType<typeof supabase.auth.verifyOtp>>} The response from Supabase, containing session data or an error.
+ */
+export async function verifyOtpWithSupabase(params: VerifyOtpParams) {
+  const method = 'token_hash' in params ? 'token_hash' : 'token';
+  logger.info(`Attempting Supabase OTP verification (type: ${params.type}, method: ${method}).`);
+  const supabase = await createClient();
+  const result = await supabase.auth.verifyOtp(params);
+  const event = getOtpAuthEvent(params);
+
+  if (result.error) {
+    logger.error({
+      message: `Supabase OTP verification failed (type: ${params.type}, method: ${method}).`,
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+    await recordAuthEvent({
+      ...event,
+      outcome: 'failure',
+      email: 'email' in params ? params.email : null,
+      metadata: { ...event.metadata, error: result.error.message },
+    });
+  } else {
+    logger.info(`Supabase OTP verification successful. User ID: ${result.data.user?.id}`);
+    await recordAuthEvent({ ...event, outcome: 'success', userId: result.data.user?.id });
+  }
+  return result;
+}
+
+/**
+ * Maps an OTP verification to the auth event it represents: email and SMS codes, magic links and
+ * recovery links are sign-ins, while sign-up, invite and email change links verify an address.
+ *
+ * @param {VerifyOtpParams} params - The verification parameters.
+ * @returns {Pick<AuthEventInput, 'type' | 'metadata'>} The event type and its metadata.
+ */
+function getOtpAuthEvent(params: VerifyOtpParams): Pick<AuthEventInput, 'type' | 'metadata'> {
+  switch (params.type) {
+    case 'email':
+    case 'magiclink':
+      return { type: 'sign_in', metadata: { method: 'token_hash' in params ? 'magic_link' : 'email_code' } };
+    case 'recovery':
+      return { type: 'sign_in', metadata: { method: 'recovery_link' } };
+    case 'sms':
+      return { type: 'sign_in', metadata: { method: 'sms_code' } };
+    default:
+      return { type: 'email_verified', metadata: { otpType: params.type } };
+  }
+}
+
+/**
+ * Starts an OAuth sign-in with Supabase using the PKCE flow.
+ * The server client stores the PKCE code verifier in a cookie, so the same browser must
+ * complete the flow through `/auth/callback`, where the code is exchanged for a session.
+ * Logs the attempt and the outcome.
+ *
+ * @param {SignInWithOAuthCredentials} credentials - The provider and options such as `redirectTo`.
+ * @returns {Promise<ReturnType<typeof supabase.auth.signInWithOAuth>>} The response from Supabase, containing the provider authorization URL or an error.
+ */
+export async function signInWithOAuthWithSupabase(credentials: SignInWithOAuthCredentials) {
+  logger.info(`Attempting Supabase OAuth sign-in with provider: ${credentials.provider}`, { redirectTo: credentials.options?.redirectTo });
+  const supabase = await createClient();
+  const result = await supabase.auth.signInWithOAuth(credentials);
+
+  if (result.error) {
+    logger.error({
+      message: `Supabase OAuth sign-in failed for provider: ${credentials.provider}`,
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+  } else {
+    logger.info(`Supabase OAuth authorization URL created for provider: ${credentials.provider}`);
+  }
+  return result;
+}
+
+/**
+ * Starts a guest session: Supabase creates an anonymous user and signs it in.
+ * Logs the attempt and the outcome.
+ *
+ * @returns {Promise<ReturnType<typeof supabase.auth.signInAnonymously>>} The response from Supabase, containing the guest user and session or an error.
+ */
+export async function signInAnonymouslyWithSupabase() {
+  logger.info('Attempting Supabase anonymous sign-in.');
+  const supabase = await createClient();
+  const result = await supabase.auth.signInAnonymously();
+
+  if (result.error) {
+    logger.error({
+      message: 'Supabase anonymous sign-in failed.',
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+    await recordAuthEvent({ type: 'sign_in', outcome: 'failure', metadata: { method: 'anonymous', error: result.error.message } });
+  } else {
+    logger.info(`Supabase anonymous sign-in successful. User ID: ${result.data.user?.id}`);
+    await recordAuthEvent({ type: 'sign_in', outcome: 'success', userId: result.data.user?.id, metadata: { method: 'anonymous' } });
+  }
+  return result;
+}
+
+/**
+ * Creates the session for a user whose passkey the server has already verified, by redeeming the
+ * one-time token from `createPasskeySignInToken` (`utils/passkeys.ts`). Recorded as a passkey sign-in
+ * rather than a magic link. Logs the attempt and the outcome.
+ *
+ * @param {string} tokenHash - The hashed magic link token minted for the user.
+ * @returns {Promise<ReturnType<typeof supabase.auth.verifyOtp>>} The response from Supabase, containing session data or an error.
+ */
+export async function signInWithPasskeyWithSupabase(tokenHash: string) {
+  logger.info('Attempting Supabase sign-in after passkey verification.');
+  const supabase = await createClient();
+  const result = await supabase.auth.verifyOtp({ type: 'magiclink', token_hash: tokenHash });
+
+  if (result.error) {
+    logger.error({
+      message: 'Supabase sign-in after passkey verification failed.',
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+    await recordAuthEvent({ type: 'sign_in', outcome: 'failure', metadata: { method: 'passkey', error: result.error.message } });
+  } else {
+    logger.info(`Supabase passkey sign-in successful. User ID: ${result.data.user?.id}`);
+    await recordAuthEvent({ type: 'sign_in', outcome: 'success', userId: result.data.user?.id, metadata: { method: 'passkey' } });
+  }
+  return result;
+}
+
+/**
+ * Starts linking an OAuth identity to the signed-in user, e.g. to turn a guest into a permanent account.
+ * Like `signInWithOAuthWithSupabase` it returns the provider's authorization URL, and the flow
+ * completes through `/auth/callback`; the user ID stays the same. Requires manual linking to be
+ * enabled in Supabase. Logs the attempt and the outcome.
+ *
+ * @param {SignInWithOAuthCredentials} credentials - The provider and options such as `redirectTo`.
+ * @returns {Promise<ReturnType<typeof supabase.auth.linkIdentity>>} The response from Supabase, containing the provider authorization URL or an error.
+ */
+export async function linkIdentityWithSupabase(credentials: SignInWithOAuthCredentials) {
+  logger.info(`Attempting Supabase identity linking with provider: ${credentials.provider}`, { redirectTo: credentials.options?.redirectTo });
+  const supabase = await createClient();
+  const result = await supabase.auth.linkIdentity(credentials);
+
+  if (result.error) {
+    logger.error({
+      message: `Supabase identity linking failed for provider: ${credentials.provider}`,
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+  } else {
+    logger.info(`Supabase identity linking URL created for provider: ${credentials.provider}`);
+  }
+  return result;
+}
+
+/**
+ * Exchanges a PKCE authorization code for a session.
+ * Used by the `/auth/callback` route after an OAuth provider redirects back to the app.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} code - The authorization code received in the callback URL.
+ * @returns {Promise<ReturnType<typeof supabase.auth.exchangeCodeForSession>>} The response from Supabase, containing the new session or an error.
+ */
+export async function exchangeCodeForSessionWithSupabase(code: string) {
+  logger.info('Attempting Supabase code exchange for session.');
+  const supabase = await createClient();
+  const result = await supabase.auth.exchangeCodeForSession(code);
+
+  if (result.error) {
+    logger.error({
+      message: 'Supabase code exchange failed.',
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+    await recordAuthEvent({ type: 'sign_in', outcome: 'failure', metadata: { method: 'oauth', error: result.error.message } });
+  } else {
+    logger.info(`Supabase code exchange successful. User ID: ${result.data.user?.id}`);
+    await recordAuthEvent({
+      type: 'sign_in',
+      outcome: 'success',
+      userId: result.data.user?.id,
+      metadata: { method: 'oauth', provider: result.data.user?.app_metadata?.['provider'] ?? null },
+    });
   }
   return result;
 }
@@ -101,24 +361,36 @@ export async function resetPasswordForEmailWithSupabase(
       error: { name: result.error.name, message: result.error.message, status: result.error.status },
       supabaseError: result.error,
     });
+    await recordAuthEvent({ type: 'password_reset_requested', outcome: 'failure', email, metadata: { error: result.error.message } });
   } else {
     logger.info(`Supabase password reset email sent successfully for email: ${email}`);
+    // Success is recorded under the email hash too: whether the address has an account is unknown here.
+    await recordAuthEvent({ type: 'password_reset_requested', outcome: 'success', email });
   }
   return result;
 }
 
 /**
- * Updates attributes for the currently authenticated user (e.g., password).
+ * Updates attributes for the currently authenticated user (e.g., password or email).
+ * Changing the email does not take effect immediately: Supabase emails confirmation links
+ * (to both addresses when "Secure email change" is enabled), which land on `/auth/confirm`
+ * with `type=email_change`.
  * Logs the attempt and the outcome.
  *
  * @param {UserAttributes} attributes - The user attributes to update (e.g., { password: 'newPassword' }).
+ * @param {object} [options] - Optional parameters.
+ * @param {string} [options.emailRedirectTo] - Where email change confirmation links redirect to.
  * @returns {Promise<ReturnType<typeof supabase.auth.updateUser>>} The response from Supabase, containing updated user data or an error.
  */
-export async function updateUserWithSupabase(attributes: UserAttributes) {
+export async function updateUserWithSupabase(attributes: UserAttributes, options?: { emailRedirectTo?: string }) {
   // Do NOT log the full 'attributes' object if it contains a password.
-  logger.info('Attempting to update user attributes.', { hasPassword: !!attributes.password });
+  logger.info('Attempting to update user attributes.', { hasPassword: !!attributes.password, hasEmail: !!attributes.email });
   const supabase = await createClient();
-  const result = await supabase.auth.updateUser(attributes);
+  const result = await supabase.auth.updateUser(attributes, options);
+  const eventTypes = [
+    ...(attributes.password ? ['password_changed' as const] : []),
+    ...(attributes.email ? ['email_change_requested' as const] : []),
+  ];
 
   if (result.error) {
     logger.error({
@@ -126,35 +398,91 @@ export async function updateUserWithSupabase(attributes: UserAttributes) {
       error: { name: result.error.name, message: result.error.message, status: result.error.status },
       supabaseError: result.error,
     });
+    const { data: { user } } = await supabase.auth.getUser();
+    for (const type of eventTypes) {
+      await recordAuthEvent({ type, outcome: 'failure', userId: user?.id, metadata: { error: result.error.message } });
+    }
   } else {
     logger.info(`Supabase user update successful. User ID: ${result.data.user?.id}`);
+    for (const type of eventTypes) {
+      await recordAuthEvent({ type, outcome: 'success', userId: result.data.user?.id });
+    }
+  }
+  return result;
+}
+
+/**
+ * Sends a reauthentication code (nonce) to the current user's email.
+ * The code is passed as `nonce` to `updateUserWithSupabase` to prove the user is present,
+ * e.g. for a password change when the current password is not known.
+ * Logs the attempt and the outcome.
+ *
+ * @returns {Promise<ReturnType<typeof supabase.auth.reauthenticate>>} The response from Supabase.
+ */
+export async function reauthenticateWithSupabase() {
+  logger.info('Requesting reauthentication code for current user.');
+  const supabase = await createClient();
+  const result = await supabase.auth.reauthenticate();
+
+  if (result.error) {
+    logger.error({
+      message: 'Supabase reauthentication request failed.',
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+  } else {
+    logger.info('Supabase reauthentication code sent.');
+  }
+  return result;
+}
+
+/**
+ * Gets the currently authenticated user, verified with the Supabase Auth server.
+ * Logs failures only, since this is called on many requests.
+ *
+ * @returns {Promise<ReturnType<typeof supabase.auth.getUser>>} The response from Supabase, containing the user or an error.
+ */
+export async function getUserWithSupabase() {
+  const supabase = await createClient();
+  const result = await supabase.auth.getUser();
+
+  if (result.error) {
+    logger.warn({
+      message: 'Supabase getUser failed.',
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+    });
   }
   return result;
 }
 
 /**
  * Signs out the currently authenticated user.
+ * With the default `local` scope only this browser's session ends; `others` ends every other
+ * session of the user and keeps this one; `global` ends all of them.
  * Logs the attempt and the outcome.
  *
+ * @param {'local' | 'others' | 'global'} [scope='local'] - Which sessions to end.
  * @returns {Promise<ReturnType<typeof supabase.auth.signOut>>} The response from Supabase (typically just an error object if one occurs).
  */
-export async function signOutWithSupabase() {
-  logger.info('Attempting Supabase sign-out.');
+export async function signOutWithSupabase(scope: 'local' | 'others' | 'global' = 'local') {
+  logger.info(`Attempting Supabase sign-out (scope: ${scope}).`);
   const supabase = await createClient();
   // Important: Get user before signing out to log which user is signing out, if needed.
   const { data: { user: currentUser } } = await supabase.auth.getUser();
   const userId = currentUser?.id;
 
-  const result = await supabase.auth.signOut();
+  const result = await supabase.auth.signOut({ scope });
 
   if (result.error) {
     logger.error({
-      message: `Supabase sign-out failed for user ID: ${userId || 'unknown'}`,
+      message: `Supabase sign-out (scope: ${scope}) failed for user ID: ${userId || 'unknown'}`,
       error: { name: result.error.name, message: result.error.message },
       supabaseError: result.error,
     });
+    await recordAuthEvent({ type: 'sign_out', outcome: 'failure', userId, metadata: { scope, error: result.error.message } });
   } else {
-    logger.info(`Supabase sign-out successful for user ID: ${userId || 'unknown'}`);
+    logger.info(`Supabase sign-out (scope: ${scope}) successful for user ID: ${userId || 'unknown'}`);
+    await recordAuthEvent({ type: 'sign_out', outcome: 'success', userId, metadata: { scope } });
   }
   return result;
 }
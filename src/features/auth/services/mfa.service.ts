@@ -0,0 +1,107 @@
+// src/features/auth/services/mfa.service.ts
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('MfaService');
+
+/**
+ * Lists the multi-factor authentication factors of the currently authenticated user.
+ * Logs the attempt and the outcome.
+ *
+ * @returns {Promise<ReturnType<typeof supabase.auth.mfa.listFactors>>} The response from Supabase, containing all factors and the verified TOTP factors.
+ */
+export async function listMfaFactorsWithSupabase() {
+  logger.info('Listing MFA factors for current user.');
+  const supabase = await createClient();
+  const result = await supabase.auth.mfa.listFactors();
+
+  if (result.error) {
+    logger.error({
+      message: 'Supabase MFA factor listing failed.',
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+  } else {
+    logger.info(`Supabase MFA factor listing successful. Factor count: ${result.data.all.length}`);
+  }
+  return result;
+}
+
+/**
+ * Starts enrolling a new TOTP (authenticator app) factor for the currently authenticated user.
+ * The factor stays unverified until a code from the app is verified with `challengeAndVerifyWithSupabase`.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} friendlyName - A label for the factor, shown in the authenticator app and settings.
+ * @returns {Promise<ReturnType<typeof supabase.auth.mfa.enroll>>} The response from Supabase, containing the factor ID, QR code and secret.
+ */
+export async function enrollTotpFactorWithSupabase(friendlyName: string) {
+  logger.info('Attempting TOTP factor enrollment.', { friendlyName });
+  const supabase = await createClient();
+  const result = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName });
+
+  if (result.error) {
+    logger.error({
+      message: 'Supabase TOTP enrollment failed.',
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+  } else {
+    logger.info(`Supabase TOTP enrollment started. Factor ID: ${result.data.id}`);
+  }
+  return result;
+}
+
+/**
+ * Creates a challenge for a factor and verifies the given code against it in one step.
+ * On success the session is upgraded to AAL2 and the new session cookies are written.
+ * Used both to finish enrollment and to pass an MFA challenge.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} factorId - The ID of the factor to verify.
+ * @param {string} code - The 6-digit code from the authenticator app.
+ * @returns {Promise<ReturnType<typeof supabase.auth.mfa.challengeAndVerify>>} The response from Supabase, containing the upgraded session or an error.
+ */
+export async function challengeAndVerifyWithSupabase(factorId: string, code: string) {
+  logger.info(`Attempting MFA challenge and verify for factor ID: ${factorId}`);
+  const supabase = await createClient();
+  const result = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+
+  if (result.error) {
+    logger.error({
+      message: `Supabase MFA challenge and verify failed for factor ID: ${factorId}`,
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+  } else {
+    logger.info(`Supabase MFA challenge and verify successful for factor ID: ${factorId}`);
+  }
+  return result;
+}
+
+/**
+ * Removes an MFA factor from the currently authenticated user.
+ * Supabase only allows removing a verified factor from an AAL2 session.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} factorId - The ID of the factor to remove.
+ * @returns {Promise<ReturnType<typeof supabase.auth.mfa.unenroll>>} The response from Supabase.
+ */
+export async function unenrollMfaFactorWithSupabase(factorId: string) {
+  logger.info(`Attempting MFA unenroll for factor ID: ${factorId}`);
+  const supabase = await createClient();
+  const result = await supabase.auth.mfa.unenroll({ factorId });
+
+  if (result.error) {
+    logger.error({
+      message: `Supabase MFA unenroll failed for factor ID: ${factorId}`,
+      error: { name: result.error.name, message: result.error.message, status: result.error.status },
+      supabaseError: result.error,
+    });
+  } else {
+    logger.info(`Supabase MFA unenroll successful for factor ID: ${factorId}`);
+  }
+  return result;
+}
@@ -0,0 +1,117 @@
+// src/features/auth/services/passkey.service.ts
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getServerLogger } from '@/lib/logger';
+import { recordAuthEvent } from '@/features/auth/utils/auth-event-log';
+
+const logger = getServerLogger('PasskeyService');
+
+/**
+ * A row of the `passkeys` table, without the key material.
+ */
+export interface PasskeyRow {
+  id: string;
+  credential_id: string;
+  transports: string[];
+  device_name: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+/**
+ * Lists the passkeys of the currently authenticated user.
+ * Logs the attempt and the outcome.
+ *
+ * @returns {Promise<{ data: PasskeyRow[] | null, error: Error | null }>} The passkeys, oldest first, or an error.
+ */
+export async function listPasskeysWithSupabase() {
+  logger.info('Listing passkeys for current user.');
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('passkeys')
+    .select('id, credential_id, transports, device_name, created_at, last_used_at')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error({
+      message: 'Listing passkeys failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  const passkeys = (data ?? []) as PasskeyRow[];
+  logger.info(`Listing passkeys successful. Passkey count: ${passkeys.length}`);
+  return { data: passkeys, error: null };
+}
+
+/**
+ * Renames one of the currently authenticated user's passkeys.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} passkeyId - The ID of the passkey.
+ * @param {string} deviceName - The new name.
+ * @returns {Promise<{ updated: boolean, error: Error | null }>} Whether a passkey was renamed, or an error.
+ */
+export async function renamePasskeyWithSupabase(passkeyId: string, deviceName: string) {
+  logger.info(`Attempting to rename passkey ID: ${passkeyId}`);
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('passkeys')
+    .update({ device_name: deviceName })
+    .eq('id', passkeyId)
+    .select('id');
+
+  if (error) {
+    logger.error({
+      message: `Renaming passkey ID: ${passkeyId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { updated: false, error };
+  }
+
+  const updated = (data ?? []).length > 0;
+  logger.info(updated ? `Passkey ID: ${passkeyId} renamed.` : `Passkey ID: ${passkeyId} not found for current user.`);
+  return { updated, error: null };
+}
+
+/**
+ * Removes one of the currently authenticated user's passkeys. The device keeps the credential,
+ * but it can no longer be used to sign in.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} userId - The ID of the currently authenticated user.
+ * @param {string} passkeyId - The ID of the passkey.
+ * @returns {Promise<{ removed: boolean, error: Error | null }>} Whether a passkey was removed, or an error.
+ */
+export async function deletePasskeyWithSupabase(userId: string, passkeyId: string) {
+  logger.info(`Attempting to remove passkey ID: ${passkeyId}`);
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('passkeys')
+    .delete()
+    .eq('id', passkeyId)
+    .select('device_name');
+
+  if (error) {
+    logger.error({
+      message: `Removing passkey ID: ${passkeyId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    await recordAuthEvent({ type: 'passkey_removed', outcome: 'failure', userId, metadata: { error: error.message } });
+    return { removed: false, error };
+  }
+
+  const removed = (data ?? []).length > 0;
+  if (removed) {
+    logger.info(`Passkey ID: ${passkeyId} removed.`);
+    await recordAuthEvent({ type: 'passkey_removed', outcome: 'success', userId, metadata: { deviceName: data?.[0]?.device_name } });
+  } else {
+    logger.info(`Passkey ID: ${passkeyId} not found for current user.`);
+  }
+  return { removed, error: null };
+}
@@ -0,0 +1,103 @@
+// src/features/auth/services/session.service.ts
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('SessionService');
+
+/**
+ * A row returned by the `list_user_sessions` database function.
+ */
+export interface UserSessionRow {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+  aal: string | null;
+  is_current: boolean;
+}
+
+/**
+ * Records the device metadata (user agent and IP) of the current session in `user_sessions`.
+ * Must run after the session is established on this client, since the database function
+ * reads the session ID from the access token.
+ * Logs the attempt and the outcome.
+ *
+ * @param {object} metadata - The session metadata.
+ * @param {string | null} metadata.userAgent - The User-Agent header of the sign-in request.
+ * @param {string} metadata.ipAddress - The client IP of the sign-in request.
+ * @returns {Promise<{ error: Error | null }>} An error if the metadata could not be recorded.
+ */
+export async function recordUserSessionWithSupabase(metadata: { userAgent: string | null; ipAddress: string }) {
+  logger.info('Recording session metadata for current session.');
+  const supabase = await createClient();
+  const { error } = await supabase.rpc('record_user_session', {
+    p_user_agent: metadata.userAgent,
+    p_ip_address: metadata.ipAddress,
+  });
+
+  if (error) {
+    logger.error({
+      message: 'Recording session metadata failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+  } else {
+    logger.info('Session metadata recorded.');
+  }
+  return { error };
+}
+
+/**
+ * Lists the active sessions of the currently authenticated user with their device metadata.
+ * Logs the attempt and the outcome.
+ *
+ * @returns {Promise<{ data: UserSessionRow[] | null, error: Error | null }>} The sessions, newest activity first, or an error.
+ */
+export async function listUserSessionsWithSupabase() {
+  logger.info('Listing sessions for current user.');
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('list_user_sessions');
+
+  if (error) {
+    logger.error({
+      message: 'Listing user sessions failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  const sessions = (data ?? []) as UserSessionRow[];
+  logger.info(`Listing user sessions successful. Session count: ${sessions.length}`);
+  return { data: sessions, error: null };
+}
+
+/**
+ * Ends one session of the currently authenticated user, signing out that device.
+ * The database function only deletes sessions owned by the caller.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} sessionId - The ID of the session to end.
+ * @returns {Promise<{ revoked: boolean, error: Error | null }>} Whether a session was ended, or an error.
+ */
+export async function revokeUserSessionWithSupabase(sessionId: string) {
+  logger.info(`Attempting to revoke session ID: ${sessionId}`);
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('revoke_user_session', { p_session_id: sessionId });
+
+  if (error) {
+    logger.error({
+      message: `Revoking session ID: ${sessionId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { revoked: false, error };
+  }
+
+  const revoked = data === true;
+  logger.info(revoked ? `Session ID: ${sessionId} revoked.` : `Session ID: ${sessionId} not found for current user.`);
+  return { revoked, error: null };
+}
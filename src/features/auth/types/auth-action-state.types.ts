@@ -0,0 +1,21 @@
+// src/features/auth/types/auth-action-state.types.ts
+import type { AuthErrorCode } from '@/features/auth/constants/auth-errors';
+
+/**
+ * Represents the state returned by authentication server actions.
+ * Shared by every action file in the auth feature so forms can handle results uniformly.
+ * @property {boolean} success - Indicates if the action was successful.
+ * @property {string | null} message - A message describing the result of the action.
+ * @property {Record<string, string> | null} [errorFields] - Optional. A record of field-specific error messages.
+ * @property {number} [retryAfterSeconds] - Optional. Set when the action was rate limited; how long until it may be retried.
+ * @property {boolean} [captchaRequired] - Optional. Set when the next attempt must include a solved CAPTCHA.
+ * @property {AuthErrorCode} [errorCode] - Optional. Why the action failed; forms branch on this rather than on `message`.
+ */
+export interface AuthActionState {
+  success: boolean;
+  message: string | null;
+  errorFields?: Record<string, string> | null;
+  retryAfterSeconds?: number;
+  captchaRequired?: boolean;
+  errorCode?: AuthErrorCode;
+}
@@ -0,0 +1,18 @@
+// src/features/auth/types/auth-event.types.ts
+import type { AuthEventOutcome, AuthEventType } from '@/features/auth/constants';
+
+/**
+ * A client-safe summary of an entry in the user's authentication audit log, as listed in the
+ * login history on the security settings page.
+ */
+export interface AuthEventSummary {
+  id: number;
+  type: AuthEventType;
+  outcome: AuthEventOutcome;
+  /** How the user signed in (`sign_in` events only), e.g. `password` or `oauth`. */
+  method: string | null;
+  browser: string;
+  os: string;
+  ipAddress: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,6 @@
+// src/features/auth/types/index.ts
+export * from './auth-action-state.types';
+export * from './mfa.types';
+export * from './session.types';
+export * from './auth-event.types';
+export * from './passkey.types';
@@ -0,0 +1,23 @@
+// src/features/auth/types/mfa.types.ts
+
+/**
+ * The data needed to show a TOTP enrollment (QR code and manual-entry secret) to the user.
+ * `error` is set instead when enrollment could not be started.
+ */
+export interface TotpEnrollment {
+  factorId?: string;
+  qrCode?: string;
+  secret?: string;
+  error?: string;
+}
+
+/**
+ * A client-safe summary of an MFA factor, as listed on the security settings page.
+ */
+export interface MfaFactorSummary {
+  id: string;
+  friendlyName: string | null;
+  factorType: string;
+  status: 'verified' | 'unverified';
+  createdAt: string;
+}
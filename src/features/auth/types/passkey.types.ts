@@ -0,0 +1,20 @@
+// src/features/auth/types/passkey.types.ts
+
+/**
+ * A client-safe summary of one of the user's passkeys, as listed on the security settings page.
+ */
+export interface PasskeySummary {
+  id: string;
+  deviceName: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+/**
+ * The options that start a WebAuthn ceremony in the browser.
+ * `error` is set instead when the ceremony could not be started.
+ */
+export interface PasskeyCeremonyStart<TOptions> {
+  options?: TOptions;
+  error?: string;
+}
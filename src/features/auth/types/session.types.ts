@@ -0,0 +1,28 @@
+// src/features/auth/types/session.types.ts
+import type { DeviceType } from '@/features/auth/utils/user-agent';
+import type { SessionEndReason } from '@/features/auth/constants/session-timeouts';
+
+/**
+ * A client-safe summary of one of the user's active sessions, as listed on the security settings page.
+ */
+export interface UserSessionSummary {
+  id: string;
+  browser: string;
+  os: string;
+  deviceType: DeviceType;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string | null;
+  /** True for the session making the request, which cannot be revoked from the list. */
+  isCurrent: boolean;
+}
+
+/**
+ * The state of the current session's idle timeout and maximum age, as reported by `checkSessionTimeout`.
+ * Times are in epoch seconds; `now` is the server's clock, so the browser can count down without
+ * depending on its own. `signed_out` means there is no account session (any more) to time out.
+ */
+export type SessionTimeoutStatus =
+  | { status: 'active'; startedAt: number; lastActiveAt: number; now: number }
+  | { status: 'expired'; reason: SessionEndReason }
+  | { status: 'signed_out' };
@@ -0,0 +1,10 @@
+// src/features/auth/utils/auth-attempt-store.ts
+import { MemoryRateLimitStore, PostgresRateLimitStore, type RateLimitStore } from '@/lib/rate-limit';
+
+/**
+ * The store for the auth rate limits and CAPTCHA failure counters, picked with `RATE_LIMIT_STORE`:
+ * `postgres` for multi-instance deployments, anything else for the in-memory store.
+ */
+export const authAttemptStore: RateLimitStore = process.env['RATE_LIMIT_STORE'] === 'postgres'
+  ? new PostgresRateLimitStore()
+  : new MemoryRateLimitStore();
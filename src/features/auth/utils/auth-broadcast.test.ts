@@ -0,0 +1,39 @@
+import { getAuthBroadcastEvent, isAuthBroadcastMessage, openAuthBroadcast, type AuthBroadcastMessage } from './auth-broadcast';
+
+describe('getAuthBroadcastEvent', () => {
+  it('classifies changes of the signed-in user', () => {
+    expect(getAuthBroadcastEvent(null, 'user-a')).toBe('signed_in');
+    expect(getAuthBroadcastEvent('user-a', null)).toBe('signed_out');
+    expect(getAuthBroadcastEvent('user-a', 'user-b')).toBe('user_changed');
+    expect(getAuthBroadcastEvent('user-a', 'user-a')).toBeNull();
+    expect(getAuthBroadcastEvent(null, null)).toBeNull();
+  });
+});
+
+describe('isAuthBroadcastMessage', () => {
+  it('accepts only well-formed messages', () => {
+    expect(isAuthBroadcastMessage({ event: 'signed_out', userId: null })).toBe(true);
+    expect(isAuthBroadcastMessage({ event: 'user_changed', userId: 'user-b' })).toBe(true);
+    expect(isAuthBroadcastMessage({ event: 'signed_out' })).toBe(false);
+    expect(isAuthBroadcastMessage({ event: 'hijack', userId: 'user-b' })).toBe(false);
+    expect(isAuthBroadcastMessage('signed_out')).toBe(false);
+  });
+});
+
+describe('openAuthBroadcast', () => {
+  it('delivers messages to the other tabs only', async () => {
+    const received: AuthBroadcastMessage[] = [];
+    const sender = openAuthBroadcast(() => received.push({ event: 'signed_in', userId: 'echo' }));
+    const otherTab = await new Promise<AuthBroadcastMessage>((resolve) => {
+      const receiver = openAuthBroadcast((message) => {
+        receiver.close();
+        resolve(message);
+      });
+      sender.post({ event: 'signed_out', userId: null });
+    });
+    sender.close();
+
+    expect(otherTab).toEqual({ event: 'signed_out', userId: null });
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+// src/features/auth/utils/auth-broadcast.ts
+
+/**
+ * @fileOverview Tells the other open tabs of the app when the signed-in user changes, over a
+ * `BroadcastChannel`. Messages only say that something changed; each tab then reads the session
+ * from its own cookies, so a message can never sign a tab in as someone else.
+ */
+
+/** The name of the channel shared by all tabs of the app on the same origin. */
+export const AUTH_BROADCAST_CHANNEL = 'passforge-auth';
+
+/**
+ * What happened to the signed-in user:
+ * - `signed_in`: someone signed in where no one was.
+ * - `signed_out`: the user signed out, or their session ended.
+ * - `user_changed`: a different user is now signed in.
+ */
+export type AuthBroadcastEvent = 'signed_in' | 'signed_out' | 'user_changed';
+
+export interface AuthBroadcastMessage {
+  event: AuthBroadcastEvent;
+  /** The ID of the user now signed in, or null. */
+  userId: string | null;
+}
+
+export interface AuthBroadcast {
+  post: (message: AuthBroadcastMessage) => void;
+  close: () => void;
+}
+
+const AUTH_BROADCAST_EVENTS: readonly AuthBroadcastEvent[] = ['signed_in', 'signed_out', 'user_changed'];
+
+/**
+ * Classifies a change of the signed-in user.
+ *
+ * @param {string | null} previousUserId - Who was signed in before.
+ * @param {string | null} nextUserId - Who is signed in now.
+ * @returns {AuthBroadcastEvent | null} The event to broadcast, or null if the user did not change.
+ */
+export function getAuthBroadcastEvent(previousUserId: string | null, nextUserId: string | null): AuthBroadcastEvent | null {
+  if (previousUserId === nextUserId) return null;
+  if (!nextUserId) return 'signed_out';
+  return previousUserId ? 'user_changed' : 'signed_in';
+}
+
+/**
+ * Checks that a received message has the expected shape. Anything on the same origin can post
+ * to the channel, so messages are validated before use.
+ *
+ * @param {unknown} value - The message data.
+ * @returns {boolean} Whether it is an `AuthBroadcastMessage`.
+ */
+export function isAuthBroadcastMessage(value: unknown): value is AuthBroadcastMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const { event, userId } = value as Record<string, unknown>;
+  return AUTH_BROADCAST_EVENTS.some((known) => known === event) && (userId === null || typeof userId === 'string');
+}
+
+/**
+ * Joins the auth channel. A tab does not receive its own messages. Browsers without
+ * `BroadcastChannel` get a broadcast that does nothing; their tabs catch up when they are focused.
+ *
+ * @param {(message: AuthBroadcastMessage) => void} onMessage - Called with each valid message from another tab.
+ * @returns {AuthBroadcast} Posts to the other tabs, and leaves the channel.
+ */
+export function openAuthBroadcast(onMessage: (message: AuthBroadcastMessage) => void): AuthBroadcast {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { post: () => undefined, close: () => undefined };
+  }
+
+  const channel = new BroadcastChannel(AUTH_BROADCAST_CHANNEL);
+  channel.onmessage = (event: MessageEvent) => {
+    if (isAuthBroadcastMessage(event.data)) onMessage(event.data);
+  };
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
@@ -0,0 +1,48 @@
+import { checkAuthCaptcha, recordCaptchaFailure, resetCaptchaFailures } from './auth-captcha';
+import { TEST_CAPTCHA_TOKEN } from '@/lib/captcha';
+
+jest.mock('@/lib/captcha/captcha-config', () => ({
+  getCaptchaClientConfig: () => ({ provider: 'test', siteKey: '' }),
+}));
+
+jest.mock('./request-context', () => ({
+  getClientIp: jest.fn(async () => '203.0.113.7'),
+  getRequestLanguage: jest.fn(async () => 'en'),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  getServerLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+function form(token?: string): FormData {
+  const formData = new FormData();
+  if (token !== undefined) formData.set('captchaToken', token);
+  return formData;
+}
+
+describe('auth CAPTCHA', () => {
+  it('only asks for a CAPTCHA once the failure threshold is reached', async () => {
+    const email = 'threshold@example.com';
+    expect(await checkAuthCaptcha('signIn', form(), email)).toBeNull();
+
+    expect(await recordCaptchaFailure('signIn', email)).toBe(false);
+    expect(await recordCaptchaFailure('signIn', email)).toBe(false);
+    expect(await recordCaptchaFailure('signIn', email)).toBe(true);
+
+    expect(await checkAuthCaptcha('signIn', form(), email)).toEqual(expect.objectContaining({ success: false, captchaRequired: true, errorCode: 'captcha_required' }));
+    expect(await checkAuthCaptcha('signIn', form('wrong'), email)).toEqual(expect.objectContaining({ captchaRequired: true, errorCode: 'captcha_failed' }));
+    expect(await checkAuthCaptcha('signIn', form(TEST_CAPTCHA_TOKEN), email)).toBeNull();
+  });
+
+  it('keeps counting per IP after the email counter is reset', async () => {
+    const email = 'reset@example.com';
+    await recordCaptchaFailure('signUp', email);
+    await recordCaptchaFailure('signUp', email);
+    await recordCaptchaFailure('signUp', email);
+
+    await resetCaptchaFailures('signUp', email);
+
+    // The failures still count against the IP.
+    expect(await checkAuthCaptcha('signUp', form(), 'someone-else@example.com')).toEqual(expect.objectContaining({ captchaRequired: true }));
+  });
+});
@@ -0,0 +1,120 @@
+// src/features/auth/utils/auth-captcha.ts
+import { CAPTCHA_FAILURE_THRESHOLDS, CAPTCHA_TOKEN_FIELD, type CaptchaAction } from '@/features/auth/constants';
+import type { AuthActionState } from '@/features/auth/types';
+import { getCaptchaVerifier } from '@/lib/captcha';
+import { getServerLogger } from '@/lib/logger';
+import { authAttemptStore as store } from './auth-attempt-store';
+import { authErrorState } from './auth-error-state';
+import { hashEmail } from './email-hash';
+import { getClientIp } from './request-context';
+
+// Deliberately not a "use server" module, for the same reason as auth-rate-limit.ts.
+
+const logger = getServerLogger('AuthCaptcha');
+
+/**
+ * Builds the failure counter keys for the client IP and, if given, the email address.
+ * @param {CaptchaAction} action - The action.
+ * @param {string} ip - The client IP.
+ * @param {string | null} [email] - The email address the attempt targets, if known.
+ * @returns {string[]} The counter keys.
+ */
+function failureKeys(action: CaptchaAction, ip: string, email?: string | null): string[] {
+  const keys = [`captcha:${action}:ip:${ip}`];
+  if (email) {
+    keys.push(`captcha:${action}:email:${hashEmail(email)}`);
+  }
+  return keys;
+}
+
+/**
+ * Requires a solved CAPTCHA once the IP or email has reached `CAPTCHA_FAILURE_THRESHOLDS[action]`,
+ * verifying the submitted token server-side. Call it before the Supabase call.
+ * Does nothing while CAPTCHA is disabled, and fails open (logging the error) if the counters or
+ * the provider cannot be reached.
+ *
+ * @param {CaptchaAction} action - The action being attempted.
+ * @param {FormData} formData - The submitted form, carrying the token in `CAPTCHA_TOKEN_FIELD`.
+ * @param {string | null} [email] - The email address the attempt targets, if known.
+ * @returns {Promise<AuthActionState | null>} A `captcha_required` or `captcha_failed` state when the CAPTCHA is missing or invalid, otherwise null.
+ */
+export async function checkAuthCaptcha(action: CaptchaAction, formData: FormData, email?: string | null): Promise<AuthActionState | null> {
+  try {
+    const verifier = getCaptchaVerifier();
+    if (!verifier) {
+      return null;
+    }
+
+    const rule = CAPTCHA_FAILURE_THRESHOLDS[action];
+    const ip = await getClientIp();
+    const now = Date.now();
+    const counts = await Promise.all(failureKeys(action, ip, email).map((key) => store.count(key, now, rule.windowMs)));
+    if (counts.every((count) => count < rule.limit)) {
+      return null;
+    }
+
+    const token = formData.get(CAPTCHA_TOKEN_FIELD);
+    if (typeof token !== 'string' || !token) {
+      logger.info(`CAPTCHA required for ${action} but no token was submitted.`, { ip });
+      return authErrorState('captcha_required', { captchaRequired: true });
+    }
+
+    const result = await verifier.verify(token, ip);
+    if (!result.success) {
+      logger.warn(`CAPTCHA verification failed for ${action}.`, { ip, errorCodes: result.errorCodes });
+      return authErrorState('captcha_failed', { captchaRequired: true });
+    }
+    return null;
+  } catch (error) {
+    logger.error({
+      message: `CAPTCHA check failed for ${action}; allowing the attempt.`,
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return null;
+  }
+}
+
+/**
+ * Counts a failed attempt towards the CAPTCHA threshold for the client IP and, if given, the email.
+ *
+ * @param {CaptchaAction} action - The action that failed.
+ * @param {string | null} [email] - The email address the attempt targeted, if known.
+ * @returns {Promise<boolean>} Whether the next attempt must include a CAPTCHA, for `AuthActionState.captchaRequired`.
+ */
+export async function recordCaptchaFailure(action: CaptchaAction, email?: string | null): Promise<boolean> {
+  try {
+    if (!getCaptchaVerifier()) {
+      return false;
+    }
+
+    const rule = CAPTCHA_FAILURE_THRESHOLDS[action];
+    const ip = await getClientIp();
+    const now = Date.now();
+    const windows = await Promise.all(failureKeys(action, ip, email).map((key) => store.hit(key, now, rule.windowMs)));
+    return windows.some((timestamps) => timestamps.length >= rule.limit);
+  } catch (error) {
+    logger.error({
+      message: `Recording a CAPTCHA failure for ${action} failed.`,
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return false;
+  }
+}
+
+/**
+ * Clears the per-email failure counter of an action, e.g. after a successful sign-in.
+ *
+ * @param {CaptchaAction} action - The action.
+ * @param {string} email - The email address.
+ * @returns {Promise<void>}
+ */
+export async function resetCaptchaFailures(action: CaptchaAction, email: string): Promise<void> {
+  try {
+    await store.reset(`captcha:${action}:email:${hashEmail(email)}`);
+  } catch (error) {
+    logger.error({
+      message: `CAPTCHA failure counter reset failed for ${action}.`,
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+  }
+}
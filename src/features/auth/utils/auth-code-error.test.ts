@@ -0,0 +1,44 @@
+import { buildAuthCodeErrorPath, getAuthCodeErrorReason, getAuthLinkFlow, parseAuthCodeErrorParams } from './auth-code-error';
+
+describe('getAuthCodeErrorReason', () => {
+  it.each([
+    ['otp_expired', 'expired'],
+    ['flow_state_expired', 'expired'],
+    ['flow_state_not_found', 'used'],
+    ['bad_code_verifier', 'invalid'],
+  ])('maps %s to %s', (code, reason) => {
+    expect(getAuthCodeErrorReason({ code })).toBe(reason);
+  });
+
+  it('treats a link without a token as invalid', () => {
+    expect(getAuthCodeErrorReason(null)).toBe('invalid');
+  });
+});
+
+describe('getAuthLinkFlow', () => {
+  it('maps email link types to flows', () => {
+    expect(getAuthLinkFlow('signup')).toBe('signup');
+    expect(getAuthLinkFlow('recovery')).toBe('recovery');
+    expect(getAuthLinkFlow('email')).toBe('magiclink');
+    expect(getAuthLinkFlow('sms')).toBeNull();
+    expect(getAuthLinkFlow(null)).toBeNull();
+  });
+});
+
+describe('buildAuthCodeErrorPath', () => {
+  it('adds the reason, flow and email', () => {
+    expect(buildAuthCodeErrorPath('expired', 'recovery', 'someone@example.com'))
+      .toBe('/auth/auth-code-error?reason=expired&flow=recovery&email=someone%40example.com');
+    expect(buildAuthCodeErrorPath('invalid')).toBe('/auth/auth-code-error?reason=invalid');
+  });
+});
+
+describe('parseAuthCodeErrorParams', () => {
+  it('reads known values', () => {
+    expect(parseAuthCodeErrorParams({ reason: 'used', flow: 'oauth' })).toEqual({ reason: 'used', flow: 'oauth' });
+  });
+
+  it('drops unknown or repeated values', () => {
+    expect(parseAuthCodeErrorParams({ reason: '<script>', flow: ['signup', 'recovery'] })).toEqual({ reason: 'invalid', flow: null });
+  });
+});
@@ -0,0 +1,89 @@
+// src/features/auth/utils/auth-code-error.ts
+import {
+  AUTH_CODE_ERROR_FLOW_PARAM,
+  AUTH_CODE_ERROR_PATH,
+  AUTH_CODE_ERROR_REASON_PARAM,
+  AUTH_CODE_ERROR_REASONS,
+  AUTH_LINK_FLOWS,
+  type AuthCodeErrorReason,
+  type AuthLinkFlow,
+} from '@/features/auth/constants/auth-code-error';
+
+/**
+ * @fileOverview Helpers for sending failed auth links to `/auth/auth-code-error` and reading
+ * the reason back on the page. Query parameters are user-controlled, so unknown values are dropped.
+ */
+
+/**
+ * Classifies a failed link verification or code exchange by its Supabase error code.
+ *
+ * @param {{ code?: string } | null | undefined} error - The error from `verifyOtp` or `exchangeCodeForSession`, or
+ *   `{ code }` from the `error_code` parameter Supabase adds to redirects. Missing means the link lacked its token.
+ * @returns {AuthCodeErrorReason} The reason to show.
+ */
+export function getAuthCodeErrorReason(error: { code?: string } | null | undefined): AuthCodeErrorReason {
+  switch (error?.code) {
+    case 'otp_expired':
+    case 'flow_state_expired':
+      return 'expired';
+    // The PKCE flow state is deleted once its code has been exchanged.
+    case 'flow_state_not_found':
+      return 'used';
+    default:
+      return 'invalid';
+  }
+}
+
+/**
+ * Maps the `type` of an email link to the flow the error page offers a way out of.
+ * Email OTP and magic links (`email`, `magiclink`) both sign the user in.
+ *
+ * @param {string | null} type - The `type` query parameter of the link.
+ * @returns {AuthLinkFlow | null} The flow, or null for unknown types.
+ */
+export function getAuthLinkFlow(type: string | null): AuthLinkFlow | null {
+  switch (type) {
+    case 'signup':
+    case 'recovery':
+    case 'magiclink':
+    case 'email_change':
+    case 'invite':
+      return type;
+    case 'email':
+      return 'magiclink';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds the path of the error page for a failed link.
+ *
+ * @param {AuthCodeErrorReason} reason - Why the link failed.
+ * @param {AuthLinkFlow | null} [flow] - The kind of link, when known.
+ * @param {string | null} [email] - The address the link was sent to, when the link carried it, to prefill the resend form.
+ * @returns {string} The relative path, e.g. `/auth/auth-code-error?reason=expired&flow=recovery`.
+ */
+export function buildAuthCodeErrorPath(reason: AuthCodeErrorReason, flow?: AuthLinkFlow | null, email?: string | null): string {
+  const params = new URLSearchParams({ [AUTH_CODE_ERROR_REASON_PARAM]: reason });
+  if (flow) params.set(AUTH_CODE_ERROR_FLOW_PARAM, flow);
+  if (email) params.set('email', email);
+  return `${AUTH_CODE_ERROR_PATH}?${params.toString()}`;
+}
+
+/**
+ * Reads the reason and flow from the error page's query parameters.
+ *
+ * @param {Record<string, string | string[] | undefined>} searchParams - The page's search parameters.
+ * @returns {{ reason: AuthCodeErrorReason, flow: AuthLinkFlow | null }} The reason (`invalid` when missing or unknown) and the flow.
+ */
+export function parseAuthCodeErrorParams(
+  searchParams: Record<string, string | string[] | undefined>,
+): { reason: AuthCodeErrorReason; flow: AuthLinkFlow | null } {
+  const reason = searchParams[AUTH_CODE_ERROR_REASON_PARAM];
+  const flow = searchParams[AUTH_CODE_ERROR_FLOW_PARAM];
+  return {
+    reason: AUTH_CODE_ERROR_REASONS.find((value) => value === reason) ?? 'invalid',
+    flow: AUTH_LINK_FLOWS.find((value) => value === flow) ?? null,
+  };
+}
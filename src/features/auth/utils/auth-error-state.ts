@@ -0,0 +1,44 @@
+// src/features/auth/utils/auth-error-state.ts
+import type { AuthErrorCode } from '@/features/auth/constants/auth-errors';
+import type { AuthActionState } from '@/features/auth/types';
+import { getAuthErrorMessage, mapSupabaseAuthError, type AuthErrorLike } from './auth-errors';
+import { getRequestLanguage } from './request-context';
+
+// Deliberately not a "use server" module: it reads the request headers and is only called by
+// Server Actions and the helpers they share.
+
+/** Supabase's rate limit errors carry no wait time; its email and SMS limits reset within about a minute. */
+const SUPABASE_RETRY_AFTER_SECONDS = 60;
+
+/**
+ * Builds a failed `AuthActionState` for an error code, with the message in the request's language.
+ *
+ * @param {AuthErrorCode} code - Why the action failed.
+ * @param {Partial<AuthActionState>} [extra] - Further state, e.g. `retryAfterSeconds` (also used for the `{seconds}` placeholder) or `captchaRequired`.
+ * @returns {Promise<AuthActionState>} The state to return from the action.
+ */
+export async function authErrorState(code: AuthErrorCode, extra?: Partial<AuthActionState>): Promise<AuthActionState> {
+  const language = await getRequestLanguage();
+  return {
+    success: false,
+    message: getAuthErrorMessage(code, language, { seconds: extra?.retryAfterSeconds ?? SUPABASE_RETRY_AFTER_SECONDS }),
+    ...extra,
+    errorCode: code,
+  };
+}
+
+/**
+ * Builds a failed `AuthActionState` for an error returned by Supabase, so its own message never
+ * reaches the user. Rate limit errors get a `retryAfterSeconds` so forms show their countdown.
+ *
+ * @param {AuthErrorLike} error - The Supabase error.
+ * @param {Partial<AuthActionState>} [extra] - Further state, as for `authErrorState`.
+ * @returns {Promise<AuthActionState>} The state to return from the action.
+ */
+export async function supabaseErrorState(error: AuthErrorLike, extra?: Partial<AuthActionState>): Promise<AuthActionState> {
+  const code = mapSupabaseAuthError(error);
+  if (code === 'rate_limited') {
+    return authErrorState(code, { retryAfterSeconds: SUPABASE_RETRY_AFTER_SECONDS, ...extra });
+  }
+  return authErrorState(code, extra);
+}
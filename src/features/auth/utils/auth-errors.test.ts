@@ -0,0 +1,49 @@
+import { getAuthErrorMessage, mapSupabaseAuthError, resolveLanguage } from './auth-errors';
+
+describe('mapSupabaseAuthError', () => {
+  it.each([
+    [{ code: 'invalid_credentials', status: 400 }, 'invalid_credentials'],
+    [{ code: 'email_exists', status: 422 }, 'email_in_use'],
+    [{ code: 'otp_expired', status: 403 }, 'invalid_code'],
+    [{ code: 'over_email_send_rate_limit', status: 429 }, 'rate_limited'],
+    [{ code: 'sms_send_failed', status: 500 }, 'delivery_failed'],
+  ])('maps %o to %s', (error, code) => {
+    expect(mapSupabaseAuthError(error)).toBe(code);
+  });
+
+  it('falls back to the status and error name', () => {
+    expect(mapSupabaseAuthError({ status: 429, message: 'Too many requests' })).toBe('rate_limited');
+    expect(mapSupabaseAuthError({ name: 'AuthSessionMissingError', status: 400 })).toBe('not_authenticated');
+    expect(mapSupabaseAuthError({ status: 400, message: 'Invalid login credentials' })).toBe('invalid_credentials');
+  });
+
+  it('reports anything else as unexpected', () => {
+    expect(mapSupabaseAuthError({ code: 'unexpected_failure', status: 500 })).toBe('unexpected');
+    expect(mapSupabaseAuthError(null)).toBe('unexpected');
+  });
+});
+
+describe('resolveLanguage', () => {
+  it('picks the preferred supported language', () => {
+    expect(resolveLanguage('de-CH,de;q=0.9,en;q=0.8')).toBe('de');
+    expect(resolveLanguage('ja,fr;q=0.5,en;q=0.7')).toBe('en');
+    expect(resolveLanguage('es-419')).toBe('es');
+  });
+
+  it('falls back to English', () => {
+    expect(resolveLanguage(null)).toBe('en');
+    expect(resolveLanguage('ja,zh;q=0.8')).toBe('en');
+    expect(resolveLanguage('fr;q=0')).toBe('en');
+  });
+});
+
+describe('getAuthErrorMessage', () => {
+  it('returns the message in the given language', () => {
+    expect(getAuthErrorMessage('invalid_credentials')).toBe('Invalid email or password.');
+    expect(getAuthErrorMessage('invalid_credentials', 'fr')).toBe('Adresse e-mail ou mot de passe incorrect.');
+  });
+
+  it('fills in placeholders', () => {
+    expect(getAuthErrorMessage('rate_limited', 'en', { seconds: 42 })).toBe('Too many attempts. Please try again in 42 seconds.');
+  });
+});
@@ -0,0 +1,105 @@
+// src/features/auth/utils/auth-errors.ts
+import {
+  AUTH_ERROR_MESSAGES,
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  type AuthErrorCode,
+  type SupportedLanguage,
+} from '@/features/auth/constants/auth-errors';
+
+/**
+ * @fileOverview Turns Supabase auth errors into `AuthErrorCode`s and codes into localized messages.
+ */
+
+/** The parts of a Supabase `AuthError` the mapping looks at. */
+export interface AuthErrorLike {
+  code?: string;
+  status?: number;
+  name?: string;
+  message?: string;
+}
+
+const SUPABASE_ERROR_CODES: Record<string, AuthErrorCode> = {
+  invalid_credentials: 'invalid_credentials',
+  email_not_confirmed: 'email_not_confirmed',
+  phone_not_confirmed: 'email_not_confirmed',
+  weak_password: 'weak_password',
+  same_password: 'same_password',
+  email_exists: 'email_in_use',
+  user_already_exists: 'email_in_use',
+  phone_exists: 'email_in_use',
+  otp_expired: 'invalid_code',
+  reauthentication_not_valid: 'invalid_code',
+  over_request_rate_limit: 'rate_limited',
+  over_email_send_rate_limit: 'rate_limited',
+  over_sms_send_rate_limit: 'rate_limited',
+  captcha_failed: 'captcha_failed',
+  session_not_found: 'not_authenticated',
+  session_expired: 'not_authenticated',
+  no_authorization: 'not_authenticated',
+  reauthentication_needed: 'not_authenticated',
+  signup_disabled: 'signup_disabled',
+  otp_disabled: 'signup_disabled',
+  email_provider_disabled: 'signup_disabled',
+  phone_provider_disabled: 'signup_disabled',
+  sms_send_failed: 'delivery_failed',
+  email_address_invalid: 'validation_failed',
+  validation_failed: 'validation_failed',
+};
+
+/**
+ * Maps a Supabase auth error to an `AuthErrorCode`, by its error code first and then by its
+ * status, for errors from older Auth servers that carry no code.
+ *
+ * @param {AuthErrorLike | null | undefined} error - The error returned by a Supabase auth call.
+ * @returns {AuthErrorCode} The code; `unexpected` when nothing matches.
+ */
+export function mapSupabaseAuthError(error: AuthErrorLike | null | undefined): AuthErrorCode {
+  if (!error) return 'unexpected';
+  const mapped = error.code ? SUPABASE_ERROR_CODES[error.code] : undefined;
+  if (mapped) return mapped;
+  if (error.name === 'AuthSessionMissingError') return 'not_authenticated';
+  if (error.status === 429) return 'rate_limited';
+  if (!error.code && error.status === 400 && error.message === 'Invalid login credentials') return 'invalid_credentials';
+  return 'unexpected';
+}
+
+/**
+ * Picks the best supported language from an `Accept-Language` header.
+ *
+ * @param {string | null | undefined} acceptLanguage - The header value, e.g. `de-CH,de;q=0.9,en;q=0.8`.
+ * @returns {SupportedLanguage} The preferred supported language, or `DEFAULT_LANGUAGE`.
+ */
+export function resolveLanguage(acceptLanguage: string | null | undefined): SupportedLanguage {
+  if (!acceptLanguage) return DEFAULT_LANGUAGE;
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag = '', ...params] = part.trim().split(';');
+      const qParam = params.find((param) => param.trim().startsWith('q='));
+      const quality = qParam ? Number(qParam.trim().slice(2)) : 1;
+      return { language: tag.split('-')[0]!.toLowerCase(), quality: Number.isFinite(quality) ? quality : 0, index };
+    })
+    .filter((entry) => entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return ranked.map((entry) => SUPPORTED_LANGUAGES.find((language) => language === entry.language)).find(Boolean) ?? DEFAULT_LANGUAGE;
+}
+
+/**
+ * Returns the message for an error code in the given language.
+ *
+ * @param {AuthErrorCode} code - The error code.
+ * @param {SupportedLanguage} [language=DEFAULT_LANGUAGE] - The language.
+ * @param {Record<string, string | number>} [params] - Values for placeholders such as `{seconds}`.
+ * @returns {string} The user-facing message.
+ */
+export function getAuthErrorMessage(
+  code: AuthErrorCode,
+  language: SupportedLanguage = DEFAULT_LANGUAGE,
+  params?: Record<string, string | number>,
+): string {
+  const template = AUTH_ERROR_MESSAGES[language][code];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (params && name in params ? String(params[name]) : placeholder));
+}
@@ -0,0 +1,84 @@
+import { pruneAuthEvents, recordAuthEvent } from './auth-event-log';
+import { hashEmail } from './email-hash';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+jest.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: jest.fn(),
+}));
+
+jest.mock('./request-context', () => ({
+  getClientIp: jest.fn(async () => '203.0.113.7'),
+  getUserAgent: jest.fn(async () => 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0'),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  getServerLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+
+function createMockAdmin(result: { error: unknown; count?: number | null } = { error: null }) {
+  const insert = jest.fn(async () => result);
+  const lt = jest.fn(async () => result);
+  const deleteFn = jest.fn(() => ({ lt }));
+  return { insert, lt, delete: deleteFn, from: jest.fn(() => ({ insert, delete: deleteFn })) };
+}
+
+describe('recordAuthEvent', () => {
+  it('records a failed attempt under the email hash, with the request IP and user agent', async () => {
+    const admin = createMockAdmin();
+    (createAdminClient as jest.Mock).mockReturnValue(admin);
+
+    await recordAuthEvent({
+      type: 'sign_in',
+      outcome: 'failure',
+      email: ' Someone@Example.com ',
+      metadata: { method: 'password' },
+    });
+
+    expect(admin.from).toHaveBeenCalledWith('auth_events');
+    expect(admin.insert).toHaveBeenCalledWith({
+      user_id: null,
+      email_hash: hashEmail('someone@example.com'),
+      event_type: 'sign_in',
+      outcome: 'failure',
+      ip_address: '203.0.113.7',
+      user_agent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0',
+      metadata: { method: 'password' },
+    });
+  });
+
+  it('stores no email hash when the user is known', async () => {
+    const admin = createMockAdmin();
+    (createAdminClient as jest.Mock).mockReturnValue(admin);
+
+    await recordAuthEvent({ type: 'sign_in', outcome: 'success', userId: USER_ID, email: 'someone@example.com' });
+
+    expect(admin.insert).toHaveBeenCalledWith(expect.objectContaining({ user_id: USER_ID, email_hash: null }));
+  });
+
+  it('never throws when the insert fails', async () => {
+    (createAdminClient as jest.Mock).mockReturnValue(createMockAdmin({ error: { message: 'boom' } }));
+
+    await expect(recordAuthEvent({ type: 'sign_out', outcome: 'success', userId: USER_ID })).resolves.toBeUndefined();
+  });
+});
+
+describe('pruneAuthEvents', () => {
+  it('deletes events older than the retention period', async () => {
+    const admin = createMockAdmin({ error: null, count: 3 });
+    (createAdminClient as jest.Mock).mockReturnValue(admin);
+
+    const deleted = await pruneAuthEvents(90, new Date('2026-10-19T00:00:00Z'));
+
+    expect(deleted).toBe(3);
+    expect(admin.delete).toHaveBeenCalledWith({ count: 'exact' });
+    expect(admin.lt).toHaveBeenCalledWith('created_at', '2026-07-21T00:00:00.000Z');
+  });
+
+  it('throws when the delete fails', async () => {
+    (createAdminClient as jest.Mock).mockReturnValue(createMockAdmin({ error: { message: 'boom' } }));
+
+    await expect(pruneAuthEvents(90)).rejects.toThrow('Failed to prune auth events: boom');
+  });
+});
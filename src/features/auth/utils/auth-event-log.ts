@@ -0,0 +1,77 @@
+// src/features/auth/utils/auth-event-log.ts
+import type { AuthEventOutcome, AuthEventType } from '@/features/auth/constants';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getServerLogger } from '@/lib/logger';
+import { hashEmail } from './email-hash';
+import { getClientIp, getUserAgent } from './request-context';
+
+// Deliberately not a "use server" module: it writes with the service role, and its exports
+// would otherwise become endpoints callable from the browser.
+
+const logger = getServerLogger('AuthEventLog');
+
+export interface AuthEventInput {
+  type: AuthEventType;
+  outcome: AuthEventOutcome;
+  /** The user the event belongs to, when known (always on success). */
+  userId?: string | null;
+  /**
+   * The email the attempt targeted, for events without a user (e.g. failed sign-ins).
+   * Only its hash is stored, and only when `userId` is not set.
+   */
+  email?: string | null;
+  /** Extra context such as the sign-in method or the error code. Never secrets. */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Records an authentication event in `auth_events`, with the IP and user agent of the current request.
+ * Best effort: a failure to write is logged and never breaks the auth flow being recorded.
+ *
+ * @param {AuthEventInput} event - The event to record.
+ * @returns {Promise<void>}
+ */
+export async function recordAuthEvent(event: AuthEventInput): Promise<void> {
+  try {
+    const [ipAddress, userAgent] = await Promise.all([getClientIp(), getUserAgent()]);
+    const admin = createAdminClient();
+    const { error } = await admin.from('auth_events').insert({
+      user_id: event.userId ?? null,
+      email_hash: !event.userId && event.email ? hashEmail(event.email) : null,
+      event_type: event.type,
+      outcome: event.outcome,
+      ip_address: ipAddress === 'unknown' ? null : ipAddress,
+      user_agent: userAgent?.substring(0, 512) ?? null,
+      metadata: event.metadata ?? {},
+    });
+    if (error) throw error;
+  } catch (error) {
+    logger.error({
+      message: `Recording auth event ${event.type} (${event.outcome}) failed.`,
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+  }
+}
+
+/**
+ * Deletes audit events older than the retention period.
+ *
+ * @param {number} retentionDays - How many days of events to keep.
+ * @param {Date} [now=new Date()] - The current time.
+ * @returns {Promise<number>} The number of deleted events.
+ * @throws {Error} If the delete fails.
+ */
+export async function pruneAuthEvents(retentionDays: number, now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  const admin = createAdminClient();
+  const { error, count } = await admin
+    .from('auth_events')
+    .delete({ count: 'exact' })
+    .lt('created_at', cutoff.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to prune auth events: ${error.message}`);
+  }
+  logger.info(`Pruned ${count ?? 0} auth events older than ${cutoff.toISOString()}.`);
+  return count ?? 0;
+}
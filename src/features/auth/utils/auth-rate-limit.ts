@@ -0,0 +1,81 @@
+// src/features/auth/utils/auth-rate-limit.ts
+import { AUTH_RATE_LIMITS, type AuthRateLimitAction } from '@/features/auth/constants';
+import type { AuthActionState } from '@/features/auth/types';
+import { createRateLimiter, type RateLimitResult } from '@/lib/rate-limit';
+import { getServerLogger } from '@/lib/logger';
+import { authAttemptStore as store } from './auth-attempt-store';
+import { authErrorState } from './auth-error-state';
+import { hashEmail } from './email-hash';
+import { getClientIp } from './request-context';
+
+// Deliberately not a "use server" module: its exports would become endpoints callable from the
+// browser, and `resetAuthRateLimit` must only ever run on the server.
+
+const logger = getServerLogger('AuthRateLimit');
+
+/**
+ * Builds the per-email key. Emails are hashed so the Postgres store holds no addresses.
+ * @param {AuthRateLimitAction} action - The limited action.
+ * @param {string} email - The email address.
+ * @returns {string} The rate limit key.
+ */
+function emailKey(action: AuthRateLimitAction, email: string): string {
+  return `${action}:email:${hashEmail(email)}`;
+}
+
+/**
+ * Records an attempt of an auth action for the client IP and, if given, the email address.
+ * Fails open: if the store is unavailable, the attempt is allowed and the error is logged.
+ *
+ * @param {AuthRateLimitAction} action - The action being attempted.
+ * @param {string | null} [email] - The email address (or, for SMS codes, the phone number) the attempt targets, if known.
+ * @returns {Promise<AuthActionState | null>} A `rate_limited` state when limited, otherwise null.
+ */
+export async function checkAuthRateLimit(action: AuthRateLimitAction, email?: string | null): Promise<AuthActionState | null> {
+  const rules = AUTH_RATE_LIMITS[action];
+  const ip = await getClientIp();
+
+  try {
+    const checks: Promise<RateLimitResult>[] = [
+      createRateLimiter(store, rules.ip).consume(`${action}:ip:${ip}`),
+    ];
+    if (email && rules.email) {
+      checks.push(createRateLimiter(store, rules.email).consume(emailKey(action, email)));
+    }
+    const results = await Promise.all(checks);
+
+    const retryAfterMs = Math.max(...results.map((result) => result.retryAfterMs));
+    if (results.every((result) => result.allowed)) {
+      return null;
+    }
+
+    const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+    logger.warn(`Rate limit reached for ${action}.`, { ip, email: email?.substring(0,3), retryAfterSeconds });
+    return authErrorState('rate_limited', { retryAfterSeconds });
+  } catch (error) {
+    logger.error({
+      message: `Rate limit check failed for ${action}; allowing the attempt.`,
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return null;
+  }
+}
+
+/**
+ * Clears the per-email counter of an action, e.g. after a successful sign-in, so earlier
+ * typos do not count against the user's next session.
+ *
+ * @param {AuthRateLimitAction} action - The action.
+ * @param {string} email - The email address.
+ * @returns {Promise<void>}
+ */
+export async function resetAuthRateLimit(action: AuthRateLimitAction, email: string): Promise<void> {
+  try {
+    await store.reset(emailKey(action, email));
+  } catch (error) {
+    logger.error({
+      message: `Rate limit reset failed for ${action}.`,
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+  }
+}
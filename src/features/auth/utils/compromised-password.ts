@@ -0,0 +1,41 @@
+// src/features/auth/utils/compromised-password.ts
+import { createHash } from 'crypto';
+import { passwordSchema } from '@/features/auth/schemas/auth.common.schemas';
+import compromisedPasswordPrefixes from '@/features/auth/data/compromised-password-prefixes.json';
+
+/**
+ * @fileOverview Offline check against a bundled list of compromised passwords.
+ * The list is stored k-anonymity style (SHA-1 hashes grouped by 5-character prefix, see
+ * `scripts/build-compromised-password-prefixes.mjs`), so no plaintext passwords ship with the app.
+ * Server-only: it uses Node's crypto and keeps the list out of the browser bundle.
+ */
+
+const ranges: Record<string, string[] | undefined> = compromisedPasswordPrefixes;
+
+/**
+ * Looks up one exact password in the bundled list.
+ * @param {string} password - The password.
+ * @returns {boolean} True if the password is listed.
+ */
+function isListed(password: string): boolean {
+  const hash = createHash('sha1').update(password).digest('hex').toUpperCase();
+  return ranges[hash.slice(0, 5)]?.includes(hash.slice(5)) ?? false;
+}
+
+/**
+ * Checks whether a password appears in the bundled compromised-password list.
+ * The lowercase form is checked too, since attackers try capitalized variants of listed passwords.
+ *
+ * @param {string} password - The password to check.
+ * @returns {boolean} True if the password (or its lowercase form) is compromised.
+ */
+export function isCompromisedPassword(password: string): boolean {
+  return isListed(password) || isListed(password.toLowerCase());
+}
+
+/**
+ * `passwordSchema` plus the compromised-password check, for Server Actions that set a password.
+ */
+export const serverPasswordSchema = passwordSchema.refine((password) => !isCompromisedPassword(password), {
+  message: "This password has appeared in a data breach. Please choose a different one.",
+});
@@ -0,0 +1,14 @@
+// src/features/auth/utils/email-hash.ts
+import { createHash } from 'crypto';
+
+/**
+ * Hashes an email address (SHA-256 of the trimmed, lowercased address, hex encoded) so it can be
+ * stored and matched without keeping the address itself. Matches the hash computed in SQL by
+ * `list_my_auth_events`.
+ *
+ * @param {string} email - The email address.
+ * @returns {string} The hex-encoded hash.
+ */
+export function hashEmail(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
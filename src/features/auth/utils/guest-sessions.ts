@@ -0,0 +1,14 @@
+// src/features/auth/utils/guest-sessions.ts
+import { getRegistrationMode } from '@/features/invites/utils/registration';
+
+/**
+ * Whether visitors may start a guest (anonymous) session: `ALLOW_GUEST_SESSIONS` must be `true`
+ * (with anonymous sign-ins enabled in Supabase) and registration must be open, since every guest
+ * is a new account that would otherwise get around invites.
+ * Server-only: it reads server environment variables.
+ *
+ * @returns {boolean} True if guest sessions are enabled.
+ */
+export function areGuestSessionsEnabled(): boolean {
+  return process.env['ALLOW_GUEST_SESSIONS'] === 'true' && getRegistrationMode() === 'open';
+}
@@ -1,2 +1,8 @@
 
 export * from './middleware.utils';
+export * from './route-policy';
+export * from './return-url';
+export * from './auth-code-error';
+export * from './auth-errors';
+export * from './session-timeouts';
+export * from './auth-broadcast';
@@ -1,6 +1,37 @@
 
 import { createServerClient, type CookieOptions } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
+import { evaluateRouteAccess, LOGIN_PATH } from './route-policy';
+import { RETURN_URL_PARAM, sanitizeReturnUrl, withReturnUrl } from './return-url';
+import {
+  evaluateSessionTimeouts,
+  getSessionActivityCookieOptions,
+  readSessionClaims,
+  serializeSessionActivity,
+  withSessionEndReason,
+} from './session-timeouts';
+import { SESSION_ACTIVITY_COOKIE, type SessionEndReason } from '@/features/auth/constants/session-timeouts';
+import { REGISTRATION_ERROR_PARAM, type RegistrationRefusal } from '@/features/invites/constants';
+import { getAdmissionRefusal, getRegistrationMode } from '@/features/invites/utils/registration-mode';
+
+const MFA_CHALLENGE_PATH = '/login/mfa';
+
+/**
+ * Redirects to another path while keeping any session cookies Supabase refreshed on this request.
+ * Without copying them, a refreshed token would be lost and the next request would be signed out.
+ *
+ * @param {NextRequest} request - The incoming Next.js request object.
+ * @param {NextResponse} supabaseResponse - The response carrying the refreshed session cookies.
+ * @param {string} target - The same-origin path (optionally with a query string) to redirect to.
+ * @returns {NextResponse} The redirect response.
+ */
+function redirectWithSessionCookies(request: NextRequest, supabaseResponse: NextResponse, target: string): NextResponse {
+  const response = NextResponse.redirect(new URL(target, request.nextUrl.origin));
+  supabaseResponse.cookies.getAll().forEach((cookie) => {
+    response.cookies.set(cookie);
+  });
+  return response;
+}
 
 /**
  * Handles Supabase session updates and route protection.
@@ -12,10 +43,30 @@ import { NextResponse, type NextRequest } from 'next/server';
  *    - Refresh the user's session token if it's expired.
  *    - Retrieve the current user's authentication status.
  * 3. Updates cookies in the response if the session was refreshed.
- * 4. Implements route protection:
- *    - Defines a list of public paths.
- *    - If the user is not authenticated and attempts to access a non-public path,
- *      it redirects them to the `/login` page.
+ * 4. Implements route protection with the policies declared in `route-policy.ts`:
+ *    - Signed-out users are redirected to `/login` from authenticated and role-restricted routes,
+ *      with the requested page as the `next` return URL (see `return-url.ts`).
+ *    - Signed-in users are redirected to `/dashboard` from guest-only routes (login, register)
+ *      and from role-restricted routes their role does not allow.
+ *    - Guest (anonymous) sessions only reach `anonymous-allowed` routes; elsewhere they are
+ *      redirected to `/dashboard/upgrade` to save their account.
+ * 5. Enforces multi-factor authentication:
+ *    - If the user has a verified MFA factor but the session is still AAL1,
+ *      routes that require sign-in redirect to the `/login/mfa` challenge page.
+ *    - Once the session is AAL2 (or the user has no factor), `/login/mfa` redirects to `/dashboard`.
+ * 6. Enforces the idle timeout and maximum session age (`session-timeouts.ts`) for signed-in users
+ *    with an account (guests have no credentials to sign back in with, so they are exempt):
+ *    - Page requests count as activity and are recorded in the `session_activity` cookie, signed
+ *      with `SESSION_ACTIVITY_SECRET`. Without the secret no activity is recorded, so sessions end
+ *      at the idle timeout after sign-in.
+ *      Server Action requests do not, so background refetches cannot keep a session alive;
+ *      the browser reports real activity through `checkSessionTimeout` instead.
+ *    - A timed-out session is signed out. Pages that require sign-in redirect to `/login` with
+ *      the `reason` and the requested page; other requests, and Server Actions, continue signed out.
+ * 7. Enforces the registration mode (`REGISTRATION_MODE`): while registration is not open, a session
+ *    whose account was never admitted (`app_metadata.admitted`, see `getAdmissionRefusal`) is signed out.
+ *    Pages that require sign-in redirect to `/register` with the `registration_error`; other requests,
+ *    and Server Actions, continue signed out.
  *
  * @param {NextRequest} request - The incoming Next.js request object.
  * @returns {Promise<NextResponse>} A promise that resolves to a NextResponse.
@@ -90,44 +141,111 @@ export async function updateSession(request: NextRequest) {
   // Refresh session if expired - important for maintaining user login state
   // and getting user information for route protection.
   const {
-    data: { user },
+    data: { user: sessionUser },
   } = await supabase.auth.getUser();
 
   const { pathname } = request.nextUrl;
 
-  // Define public paths that do not require authentication
-  const publicPaths = [
-    '/', // Homepage
-    '/dashboard',
-    '/dashboard/chat',
-    '/dashboard/profile', // Added /dashboard/profile as a public path
-    '/login',
-    '/register',
-    '/forgot-password',
-    '/reset-password', // Typically needs a token, but initial access should be allowed
-    '/auth/confirm', // Server-side route for OTP verification
-    '/auth/auth-code-error', // Error page for OTP failures
-    '/sentry-example-page', // Sentry example page
-    '/monitoring', // Sentry tunnel route
-    // Add other public marketing pages or asset paths if needed
-  ];
-
-  // Check if the current path is one of the public paths
-  // Also allows access to Next.js internal paths like /_next/
-  // and common static asset paths.
-  const isPublicPath = publicPaths.some(path => 
-    pathname === path || 
-    (path.endsWith('*') && pathname.startsWith(path.slice(0, -1)))
-  );
+  // Next.js internals are never subject to route policies.
+  if (pathname.startsWith('/_next/')) {
+    return supabaseResponse;
+  }
 
+  let user = sessionUser;
+  let sessionEndReason: SessionEndReason | null = null;
+  if (user && !user.is_anonymous) {
+    // getUser() has just validated this session's access token, so its claims can be trusted.
+    const { data: { session } } = await supabase.auth.getSession();
+    const claims = readSessionClaims(session?.access_token);
+    const verdict = claims && await evaluateSessionTimeouts(claims, request.cookies.get(SESSION_ACTIVITY_COOKIE)?.value, {
+      now: Math.floor(Date.now() / 1000),
+      recordActivity: !request.headers.has('next-action'),
+    });
+    if (verdict?.status === 'expired') {
+      const { error: signOutError } = await supabase.auth.signOut({ scope: 'local' });
+      if (signOutError) {
+        console.error("Could not sign out a timed-out session in middleware:", signOutError.message);
+      }
+      console.info(`Session of user ${user.id} ended by the ${verdict.reason} limit.`);
+      supabaseResponse.cookies.delete(SESSION_ACTIVITY_COOKIE);
+      user = null;
+      sessionEndReason = verdict.reason;
+    } else if (verdict) {
+      const activityCookie = await serializeSessionActivity(verdict.activity);
+      if (activityCookie) {
+        supabaseResponse.cookies.set(SESSION_ACTIVITY_COOKIE, activityCookie, getSessionActivityCookieOptions());
+      }
+    }
+  }
 
-  if (!user && !isPublicPath && !pathname.startsWith('/_next/')) {
-    // no user, and not a public path, redirect to login page
-    const url = request.nextUrl.clone();
-    url.pathname = '/login';
-    // Optionally, you can add a 'redirectedFrom' query parameter
-    // url.searchParams.set('redirectedFrom', pathname);
-    return NextResponse.redirect(url);
+  // Supabase also creates accounts through its own endpoints (e.g. `/signup`, or an OAuth sign-in
+  // that never reaches `/auth/callback`), so the registration mode is enforced here for every session.
+  let registrationRefusal: RegistrationRefusal | null = null;
+  if (user) {
+    registrationRefusal = getAdmissionRefusal(user, getRegistrationMode());
+    if (registrationRefusal) {
+      const { error: signOutError } = await supabase.auth.signOut({ scope: 'local' });
+      if (signOutError) {
+        console.error("Could not sign out an account that was not admitted in middleware:", signOutError.message);
+      }
+      console.info(`Session of user ${user.id} ended: the account was not admitted (${registrationRefusal}).`);
+      supabaseResponse.cookies.delete(SESSION_ACTIVITY_COOKIE);
+      user = null;
+    }
+  }
+
+  // Role-restricted routes read the role from app_metadata, which only the service role can change.
+  const role = user?.app_metadata?.['role'];
+  const decision = evaluateRouteAccess(pathname, {
+    isAuthenticated: !!user,
+    isAnonymous: !!user?.is_anonymous,
+    role: role === 'user' || role === 'premium' || role === 'admin' ? role : null,
+  });
+
+  const requestedPath = `${pathname}${request.nextUrl.search}`;
+  const returnUrl = request.nextUrl.searchParams.get(RETURN_URL_PARAM);
+
+  if (decision.type === 'redirect') {
+    if (decision.pathname === LOGIN_PATH) {
+      if (registrationRefusal) {
+        if (request.headers.has('next-action')) {
+          return supabaseResponse;
+        }
+        return redirectWithSessionCookies(request, supabaseResponse, `/register?${REGISTRATION_ERROR_PARAM}=${registrationRefusal}`);
+      }
+      // Bring the user back to the page they asked for once they have signed in.
+      const loginPath = withReturnUrl(LOGIN_PATH, requestedPath);
+      if (sessionEndReason) {
+        // A Server Action runs signed out instead, so `checkSessionTimeout` can tell the browser why.
+        if (request.headers.has('next-action')) {
+          return supabaseResponse;
+        }
+        return redirectWithSessionCookies(request, supabaseResponse, withSessionEndReason(loginPath, sessionEndReason));
+      }
+      return redirectWithSessionCookies(request, supabaseResponse, loginPath);
+    }
+    if (decision.policy.access === 'guest-only') {
+      // A signed-in user opening e.g. /login?next=... goes straight to the requested page.
+      return redirectWithSessionCookies(request, supabaseResponse, sanitizeReturnUrl(returnUrl));
+    }
+    return redirectWithSessionCookies(request, supabaseResponse, decision.pathname);
+  }
+
+  const requiresSignIn = decision.policy.access !== 'public' && decision.policy.access !== 'guest-only';
+  if (user && requiresSignIn) {
+    const { data: aal, error: aalError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (aalError) {
+      console.error("Could not read the authenticator assurance level in middleware:", aalError.message);
+    }
+    // nextLevel is 'aal2' as soon as the user has a verified factor; currentLevel only reaches 'aal2' after a challenge.
+    const needsMfaChallenge = aal?.nextLevel === 'aal2' && aal.currentLevel !== 'aal2';
+
+    if (needsMfaChallenge && pathname !== MFA_CHALLENGE_PATH) {
+      return redirectWithSessionCookies(request, supabaseResponse, withReturnUrl(MFA_CHALLENGE_PATH, requestedPath));
+    }
+    if (!needsMfaChallenge && pathname === MFA_CHALLENGE_PATH && !aalError) {
+      return redirectWithSessionCookies(request, supabaseResponse, sanitizeReturnUrl(returnUrl));
+    }
   }
 
   // IMPORTANT: You *must* return the supabaseResponse object as it is.
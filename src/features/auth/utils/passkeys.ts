@@ -0,0 +1,243 @@
+// src/features/auth/utils/passkeys.ts
+import { headers } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getServerLogger } from '@/lib/logger';
+import {
+  WEBAUTHN_TIMEOUT_MS,
+  generateChallenge,
+  verifyAuthenticationResponse,
+  type AuthenticationResponseJSON,
+  type RelyingParty,
+} from '@/lib/webauthn';
+import { recordAuthEvent } from './auth-event-log';
+
+// Deliberately not a "use server" module: it reads passkeys and mints sign-in tokens with the
+// service role, and its exports would otherwise become endpoints callable from the browser.
+
+const logger = getServerLogger('Passkeys');
+
+export type WebAuthnChallengePurpose = 'registration' | 'authentication';
+
+/**
+ * A verified credential to store for a user.
+ */
+export interface NewPasskey {
+  credentialId: string;
+  publicKey: string;
+  signCount: number;
+  transports: string[];
+  deviceName: string;
+}
+
+/**
+ * Returns the WebAuthn relying party: `WEBAUTHN_RP_ID` and the comma-separated `WEBAUTHN_ORIGINS`
+ * when set, otherwise the host and origin of the current request. Passkeys are bound to the RP ID,
+ * so production should set it explicitly; changing it later makes existing passkeys unusable.
+ *
+ * @returns {Promise<RelyingParty | null>} The relying party, or null if the origin cannot be determined.
+ */
+export async function getRelyingParty(): Promise<RelyingParty | null> {
+  const name = process.env['WEBAUTHN_RP_NAME'] || 'PassForge';
+  const rpId = process.env['WEBAUTHN_RP_ID'];
+  const origins = process.env['WEBAUTHN_ORIGINS']?.split(',').map((origin) => origin.trim()).filter(Boolean);
+  if (rpId && origins?.length) {
+    return { id: rpId, name, origins };
+  }
+
+  const origin = (await headers()).get('origin');
+  if (!origin) return null;
+  return { id: rpId || new URL(origin).hostname, name, origins: origins?.length ? origins : [origin] };
+}
+
+/**
+ * Issues a single-use challenge for a WebAuthn ceremony, valid for as long as the browser waits
+ * for the user. Expired challenges are deleted on the way.
+ *
+ * @param {WebAuthnChallengePurpose} purpose - The ceremony the challenge is for.
+ * @param {string | null} userId - The signed-in user, for registrations.
+ * @param {Date} [now=new Date()] - The current time.
+ * @returns {Promise<string>} The challenge, base64url.
+ * @throws {Error} If the challenge cannot be stored.
+ */
+export async function issueWebAuthnChallenge(purpose: WebAuthnChallengePurpose, userId: string | null, now: Date = new Date()): Promise<string> {
+  const admin = createAdminClient();
+  await admin.from('webauthn_challenges').delete().lt('expires_at', now.toISOString());
+
+  const challenge = generateChallenge();
+  const { error } = await admin.from('webauthn_challenges').insert({
+    challenge,
+    purpose,
+    user_id: userId,
+    expires_at: new Date(now.getTime() + WEBAUTHN_TIMEOUT_MS).toISOString(),
+  });
+  if (error) {
+    throw new Error(`Failed to store WebAuthn challenge: ${error.message}`);
+  }
+  return challenge;
+}
+
+/**
+ * Reads the challenge the browser signed from a response's client data.
+ * @param {string} clientDataJSON - The client data, base64url.
+ * @returns {string | null} The challenge, or null if the client data is malformed.
+ */
+export function readClientDataChallenge(clientDataJSON: string): string | null {
+  try {
+    const clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8')) as { challenge?: unknown };
+    return typeof clientData.challenge === 'string' ? clientData.challenge : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Redeems a challenge: deletes it and reports whether it was still valid, so a challenge can be
+ * used for at most one ceremony.
+ *
+ * @param {string} challenge - The challenge from the client data.
+ * @param {WebAuthnChallengePurpose} purpose - The ceremony being completed.
+ * @param {Date} [now=new Date()] - The current time.
+ * @returns {Promise<{ userId: string | null } | null>} The user the challenge was issued to, or null if it is unknown or expired.
+ */
+export async function consumeWebAuthnChallenge(
+  challenge: string,
+  purpose: WebAuthnChallengePurpose,
+  now: Date = new Date(),
+): Promise<{ userId: string | null } | null> {
+  const { data, error } = await createAdminClient()
+    .from('webauthn_challenges')
+    .delete()
+    .eq('challenge', challenge)
+    .eq('purpose', purpose)
+    .select('user_id, expires_at')
+    .maybeSingle();
+  if (error) {
+    logger.error({
+      message: 'Redeeming a WebAuthn challenge failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+    });
+    return null;
+  }
+  if (!data || new Date(data.expires_at as string) <= now) return null;
+  return { userId: (data.user_id as string | null) ?? null };
+}
+
+/**
+ * Stores a passkey for a user. Users cannot insert passkeys themselves, so the key material in the
+ * table is only ever what `verifyRegistrationResponse` accepted; call this only after it has.
+ * Records the outcome in the auth event log.
+ *
+ * @param {string} userId - The ID of the signed-in user who registered the passkey.
+ * @param {NewPasskey} passkey - The verified credential and its name.
+ * @returns {Promise<{ error: { message: string, code?: string } | null }>} An error if the passkey could not be stored.
+ */
+export async function storeVerifiedPasskey(userId: string, passkey: NewPasskey): Promise<{ error: { message: string; code?: string } | null }> {
+  logger.info(`Adding passkey for user ID: ${userId}`);
+  const { error } = await createAdminClient().from('passkeys').insert({
+    user_id: userId,
+    credential_id: passkey.credentialId,
+    public_key: passkey.publicKey,
+    sign_count: passkey.signCount,
+    transports: passkey.transports,
+    device_name: passkey.deviceName,
+  });
+
+  if (error) {
+    logger.error({
+      message: `Adding passkey for user ID: ${userId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    await recordAuthEvent({ type: 'passkey_added', outcome: 'failure', userId, metadata: { error: error.message } });
+    return { error };
+  }
+
+  logger.info(`Passkey added for user ID: ${userId}`);
+  await recordAuthEvent({ type: 'passkey_added', outcome: 'success', userId, metadata: { deviceName: passkey.deviceName } });
+  return { error: null };
+}
+
+/**
+ * Verifies a passkey sign-in: redeems the challenge, finds the credential, checks the assertion and
+ * then stores the new signature counter and the time of use. Failed attempts against a known
+ * credential are recorded in the auth event log for its owner.
+ *
+ * @param {AuthenticationResponseJSON} response - The browser's response to the sign-in ceremony.
+ * @param {RelyingParty} relyingParty - The relying party.
+ * @returns {Promise<{ userId: string, email: string | null } | { error: string }>} The user who signed in, or a user-facing error.
+ */
+export async function authenticatePasskey(
+  response: AuthenticationResponseJSON,
+  relyingParty: RelyingParty,
+): Promise<{ userId: string; email: string | null } | { error: string }> {
+  const challenge = readClientDataChallenge(response.response.clientDataJSON);
+  if (!challenge || !(await consumeWebAuthnChallenge(challenge, 'authentication'))) {
+    logger.warn('Passkey sign-in with an unknown or expired challenge.');
+    return { error: 'Your sign-in request expired. Please try again.' };
+  }
+
+  const admin = createAdminClient();
+  const { data: passkey, error } = await admin
+    .from('passkeys')
+    .select('id, user_id, public_key, sign_count')
+    .eq('credential_id', response.rawId)
+    .maybeSingle();
+  if (error || !passkey) {
+    logger.warn('Passkey sign-in with an unknown credential.', { lookupError: error?.message });
+    return { error: 'This passkey is not registered. Log in with your password and add it on the security page.' };
+  }
+
+  const userId = passkey.user_id as string;
+  const userHandle = response.response.userHandle;
+  const verification = userHandle && Buffer.from(userHandle, 'base64url').toString('utf8') !== userId
+    ? { verified: false as const, error: 'The user handle does not match the credential.' }
+    : verifyAuthenticationResponse({
+        response,
+        expectedChallenge: challenge,
+        relyingParty,
+        credential: { publicKey: passkey.public_key as string, signCount: Number(passkey.sign_count) },
+      });
+  if (!verification.verified) {
+    logger.warn(`Passkey sign-in failed for user ${userId}: ${verification.error}`);
+    await recordAuthEvent({ type: 'sign_in', outcome: 'failure', userId, metadata: { method: 'passkey', error: verification.error } });
+    return { error: 'Your passkey could not be verified. Please try again or log in with your password.' };
+  }
+
+  const { error: updateError } = await admin
+    .from('passkeys')
+    .update({ sign_count: verification.signCount, last_used_at: new Date().toISOString() })
+    .eq('id', passkey.id);
+  if (updateError) {
+    logger.error({
+      message: `Updating passkey ${passkey.id} after sign-in failed.`,
+      error: { name: updateError.name, message: updateError.message, code: updateError.code },
+    });
+  }
+
+  const { data: userData, error: userError } = await admin.auth.admin.getUserById(userId);
+  if (userError || !userData.user) {
+    logger.error({
+      message: `Loading user ${userId} for passkey sign-in failed.`,
+      error: { name: userError?.name, message: userError?.message, status: userError?.status },
+    });
+    return { error: 'Could not sign you in. Please try again.' };
+  }
+  return { userId, email: userData.user.email || null };
+}
+
+/**
+ * Mints a one-time sign-in token for a user whose passkey was just verified. Supabase has no passkey
+ * sign-in of its own, so the server generates a magic link token without sending it; redeeming it with
+ * `verifyOtp` creates the session like any other sign-in.
+ *
+ * @param {string} email - The user's email address.
+ * @returns {Promise<string>} The hashed token, for `verifyOtp({ type: 'magiclink', token_hash })`.
+ * @throws {Error} If the link cannot be generated.
+ */
+export async function createPasskeySignInToken(email: string): Promise<string> {
+  const { data, error } = await createAdminClient().auth.admin.generateLink({ type: 'magiclink', email });
+  if (error || !data.properties?.hashed_token) {
+    throw new Error(`Failed to create passkey sign-in token: ${error?.message ?? 'no token returned'}`);
+  }
+  return data.properties.hashed_token;
+}
@@ -0,0 +1,41 @@
+import { PASSWORD_POLICY_LEVELS } from '@/features/auth/constants/password-policy';
+import { estimatePasswordStrength, getPasswordPolicyViolations } from './password-strength';
+import { isCompromisedPassword, serverPasswordSchema } from './compromised-password';
+
+describe('estimatePasswordStrength', () => {
+  it('scores long, varied passwords higher than short or patterned ones', () => {
+    expect(estimatePasswordStrength('Blue-Table-Running-42').score).toBe(4);
+    expect(estimatePasswordStrength('xK9#mQ2$vL').score).toBeGreaterThanOrEqual(3);
+    expect(estimatePasswordStrength('abcdefgh').score).toBe(0);
+  });
+
+  it('penalizes common words, including common substitutions', () => {
+    const strength = estimatePasswordStrength('P@ssw0rd!');
+    expect(strength.score).toBe(0);
+    expect(strength.feedback[0]).toContain('password');
+  });
+});
+
+describe('getPasswordPolicyViolations', () => {
+  it('enforces length, character classes and minimum score per level', () => {
+    expect(getPasswordPolicyViolations('short1', PASSWORD_POLICY_LEVELS.standard)).toContain('Password must be at least 8 characters long.');
+    expect(getPasswordPolicyViolations('onlylowercase', PASSWORD_POLICY_LEVELS.standard)[0]).toMatch(/at least 2 of/);
+    expect(getPasswordPolicyViolations('Summer2025', PASSWORD_POLICY_LEVELS.standard)[0]).toMatch(/too weak/);
+    expect(getPasswordPolicyViolations('xK9#mQ2$vL', PASSWORD_POLICY_LEVELS.standard)).toEqual([]);
+    expect(getPasswordPolicyViolations('xK9#mQ2$vL', PASSWORD_POLICY_LEVELS.strict)).toContain('Password must be at least 12 characters long.');
+  });
+});
+
+describe('compromised passwords', () => {
+  it('finds listed passwords and their capitalized variants', () => {
+    expect(isCompromisedPassword('hunter22')).toBe(true);
+    expect(isCompromisedPassword('Hunter22')).toBe(true);
+    expect(isCompromisedPassword('Blue-Table-Running-42')).toBe(false);
+  });
+
+  it('rejects compromised passwords that otherwise meet the policy', () => {
+    const result = serverPasswordSchema.safeParse('hunter22');
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0]?.message).toMatch(/data breach/);
+  });
+});
@@ -0,0 +1,172 @@
+// src/features/auth/utils/password-strength.ts
+import {
+  PASSWORD_POLICY,
+  type PasswordCharacterClass,
+  type PasswordPolicy,
+  type PasswordStrengthScore,
+} from '@/features/auth/constants/password-policy';
+
+/**
+ * @fileOverview Entropy-based password strength estimation and policy checks.
+ * Runs identically in the browser (live meter) and on the server (`passwordSchema`), so it must
+ * stay free of server-only dependencies.
+ */
+
+export interface PasswordStrength {
+  score: PasswordStrengthScore;
+  label: string;
+  /** Estimated entropy in bits, after penalties for repeats, sequences and common words. */
+  entropyBits: number;
+  /** Suggestions for making the password stronger, most important first. */
+  feedback: string[];
+}
+
+export const PASSWORD_STRENGTH_LABELS: Record<PasswordStrengthScore, string> = {
+  0: 'Very weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Strong',
+  4: 'Very strong',
+};
+
+// Minimum entropy (bits) for scores 1 to 4.
+const SCORE_THRESHOLDS = [28, 36, 50, 64] as const;
+
+const CHARACTER_CLASS_POOL_SIZES: Record<PasswordCharacterClass, number> = {
+  lowercase: 26,
+  uppercase: 26,
+  digit: 10,
+  symbol: 33,
+};
+const OTHER_CHARACTER_POOL_SIZE = 100; // Letters outside ASCII, emoji, etc.
+
+// Words and keyboard walks that attackers try first. Matched after undoing common substitutions.
+const COMMON_FRAGMENTS = [
+  'password', 'passwort', 'qwerty', 'azerty', 'asdf', 'zxcv', 'letmein', 'welcome', 'admin', 'login',
+  'iloveyou', 'monkey', 'dragon', 'master', 'football', 'baseball', 'soccer', 'shadow', 'sunshine',
+  'princess', 'superman', 'batman', 'trustno', 'secret', 'changeme', 'hello', 'summer', 'winter',
+  'spring', 'autumn', 'passforge',
+];
+
+const SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i',
+};
+
+/**
+ * Returns the character classes present in a password.
+ * @param {string} password - The password.
+ * @returns {Set<PasswordCharacterClass | 'other'>} The classes found.
+ */
+export function getCharacterClasses(password: string): Set<PasswordCharacterClass | 'other'> {
+  const classes = new Set<PasswordCharacterClass | 'other'>();
+  for (const char of password) {
+    if (/[a-z]/.test(char)) classes.add('lowercase');
+    else if (/[A-Z]/.test(char)) classes.add('uppercase');
+    else if (/[0-9]/.test(char)) classes.add('digit');
+    else if (/[\x20-\x7E]/.test(char)) classes.add('symbol');
+    else classes.add('other');
+  }
+  return classes;
+}
+
+/**
+ * Counts the characters that add little guessing work: repeats of the previous character
+ * and steps of an ascending or descending run (`aaa`, `abc`, `321`).
+ * @param {string[]} chars - The password's characters.
+ * @returns {number} The number of predictable characters.
+ */
+function countPredictableCharacters(chars: string[]): number {
+  let predictable = 0;
+  for (let i = 1; i < chars.length; i++) {
+    const delta = chars[i]!.charCodeAt(0) - chars[i - 1]!.charCodeAt(0);
+    if (delta === 0 || delta === 1 || delta === -1) predictable++;
+  }
+  return predictable;
+}
+
+/**
+ * Estimates the strength of a password from its length and character pool, discounting
+ * repeats, sequences and common words.
+ *
+ * @param {string} password - The password to evaluate.
+ * @returns {PasswordStrength} The score (0-4), its label, the entropy estimate and feedback.
+ */
+export function estimatePasswordStrength(password: string): PasswordStrength {
+  const chars = Array.from(password);
+  const classes = getCharacterClasses(password);
+  const feedback: string[] = [];
+
+  let poolSize = 0;
+  classes.forEach((characterClass) => {
+    poolSize += characterClass === 'other' ? OTHER_CHARACTER_POOL_SIZE : CHARACTER_CLASS_POOL_SIZES[characterClass];
+  });
+  const bitsPerCharacter = poolSize > 0 ? Math.log2(poolSize) : 0;
+
+  const predictableCharacters = countPredictableCharacters(chars);
+  let effectiveLength = chars.length - predictableCharacters * 0.75;
+  if (predictableCharacters >= 2) {
+    feedback.push('Avoid repeated characters and sequences like "aaa" or "1234".');
+  }
+
+  const normalized = chars.map((char) => SUBSTITUTIONS[char] ?? char.toLowerCase()).join('');
+  const commonFragments = COMMON_FRAGMENTS.filter((fragment) => normalized.includes(fragment));
+  if (commonFragments.length > 0) {
+    // A common word is one guess from a short list, not one guess per character.
+    const fragmentLength = commonFragments.reduce((total, fragment) => total + fragment.length, 0);
+    effectiveLength -= Math.min(fragmentLength, effectiveLength) * 0.8;
+    feedback.push(`Avoid common words and patterns like "${commonFragments[0]}".`);
+  }
+
+  const entropyBits = Math.max(effectiveLength, 0) * bitsPerCharacter;
+  const score = SCORE_THRESHOLDS.filter((threshold) => entropyBits >= threshold).length as PasswordStrengthScore;
+
+  if (chars.length < 12) {
+    feedback.push('Use 12 or more characters; a few unrelated words work well.');
+  }
+  if (classes.size < 3) {
+    feedback.push('Mix in uppercase letters, numbers or symbols.');
+  }
+
+  return {
+    score,
+    label: PASSWORD_STRENGTH_LABELS[score],
+    entropyBits: Math.round(entropyBits),
+    feedback: score === 4 ? [] : feedback,
+  };
+}
+
+/**
+ * Checks a password against a password policy.
+ * Used by `passwordSchema` on the server and by the strength meter in forms, so users see
+ * the same messages before and after submitting.
+ *
+ * @param {string} password - The password to check.
+ * @param {PasswordPolicy} [policy=PASSWORD_POLICY] - The policy to enforce (defaults to the configured level).
+ * @returns {string[]} One message per violated rule; empty when the password is acceptable.
+ */
+export function getPasswordPolicyViolations(password: string, policy: PasswordPolicy = PASSWORD_POLICY): string[] {
+  const violations: string[] = [];
+  const length = Array.from(password).length;
+
+  if (length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters long.`);
+  }
+  if (length > policy.maxLength) {
+    violations.push(`Password must be ${policy.maxLength} characters or less.`);
+  }
+
+  const classCount = Array.from(getCharacterClasses(password)).filter((characterClass) => characterClass !== 'other').length;
+  if (classCount < policy.minCharacterClasses) {
+    violations.push(`Password must use at least ${policy.minCharacterClasses} of: lowercase letters, uppercase letters, numbers, symbols.`);
+  }
+
+  // Only judge strength once the structural rules pass, to show one problem at a time.
+  if (violations.length === 0) {
+    const strength = estimatePasswordStrength(password);
+    if (strength.score < policy.minScore) {
+      violations.push(`Password is too weak. ${strength.feedback[0] ?? 'Try a longer password.'}`);
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,36 @@
+// src/features/auth/utils/password-verification.ts
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getServerLogger } from '@/lib/logger';
+
+// Deliberately not a "use server" module: it calls `verify_user_password` with the service role,
+// which is the only role allowed to, so that passwords can only be checked behind the rate-limited
+// Server Actions (`changePassword`, `requestAccountDeletion`). Not part of the utils barrel.
+
+const logger = getServerLogger('PasswordVerification');
+
+/**
+ * Checks a user's password without creating a new session, through the `verify_user_password`
+ * database function. Accounts without a password never match. Callers must rate limit first.
+ * Logs the attempt and the outcome (never the password).
+ *
+ * @param {string} userId - The ID of the signed-in user whose password is checked.
+ * @param {string} password - The password to check.
+ * @returns {Promise<{ valid: boolean, error: Error | null }>} Whether the password matches, or an error.
+ */
+export async function verifyUserPassword(userId: string, password: string): Promise<{ valid: boolean; error: Error | null }> {
+  logger.info(`Verifying password for user ID: ${userId}`);
+  const { data, error } = await createAdminClient().rpc('verify_user_password', { p_user_id: userId, p_password: password });
+
+  if (error) {
+    logger.error({
+      message: `Password verification for user ID: ${userId} failed with an error.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { valid: false, error };
+  }
+
+  const valid = data === true;
+  logger.info(`Password verification completed. Valid: ${valid}`);
+  return { valid, error: null };
+}
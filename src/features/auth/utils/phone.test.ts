@@ -0,0 +1,36 @@
+import { fromSupabasePhone, normalizePhoneNumber } from './phone';
+
+describe('normalizePhoneNumber', () => {
+  it('prepends the dialing code of the selected country', () => {
+    expect(normalizePhoneNumber('US', '(415) 555-0123')).toBe('+14155550123');
+    expect(normalizePhoneNumber('DE', '030 1234567')).toBe('+49301234567');
+  });
+
+  it('drops the national trunk prefix', () => {
+    expect(normalizePhoneNumber('GB', '020 7946 0018')).toBe('+442079460018');
+  });
+
+  it('keeps numbers already in international format, whatever the country', () => {
+    expect(normalizePhoneNumber('US', '+44 20 7946 0018')).toBe('+442079460018');
+    expect(normalizePhoneNumber('US', '0044 20 7946 0018')).toBe('+442079460018');
+  });
+
+  it.each([
+    ['a too short number', 'US', '555'],
+    ['a too long number', 'US', '+1234567890123456'],
+    ['letters', 'US', '415-CALL-NOW'],
+    ['an unknown country', 'XX', '4155550123'],
+    ['an empty value', 'US', ''],
+  ])('rejects %s', (_label, country, number) => {
+    expect(normalizePhoneNumber(country, number)).toBeNull();
+  });
+});
+
+describe('fromSupabasePhone', () => {
+  it('adds the plus sign Supabase leaves out, and maps a missing number to null', () => {
+    expect(fromSupabasePhone('14155550123')).toBe('+14155550123');
+    expect(fromSupabasePhone('+14155550123')).toBe('+14155550123');
+    expect(fromSupabasePhone('')).toBeNull();
+    expect(fromSupabasePhone(undefined)).toBeNull();
+  });
+});
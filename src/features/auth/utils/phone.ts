@@ -0,0 +1,42 @@
+// src/features/auth/utils/phone.ts
+import { PHONE_COUNTRIES } from '@/features/auth/constants/phone';
+
+/** E.164: a `+`, then up to 15 digits starting with a non-zero country code. */
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Normalizes a phone number typed into the sign-in form to E.164 (e.g. `+14155550123`).
+ * Spaces, dashes, dots and parentheses are ignored. A number starting with `+` or `00` is taken as
+ * international and the country is ignored; otherwise the country's dialing code is prepended and a
+ * national trunk prefix `0` (as in `020 7946 0018`) is dropped.
+ *
+ * @param {string} countryCode - The ISO code of the selected country, e.g. `GB`.
+ * @param {string} number - The number as typed.
+ * @returns {string | null} The E.164 number, or null if it cannot be a valid phone number.
+ */
+export function normalizePhoneNumber(countryCode: string, number: string): string | null {
+  const compact = number.trim().replace(/[\s\-.()]/g, '');
+  let international: string;
+  if (compact.startsWith('+')) {
+    international = compact;
+  } else if (compact.startsWith('00')) {
+    international = `+${compact.substring(2)}`;
+  } else {
+    const country = PHONE_COUNTRIES.find((candidate) => candidate.code === countryCode);
+    if (!country) return null;
+    international = `${country.dialCode}${compact.replace(/^0/, '')}`;
+  }
+  return E164_PATTERN.test(international) ? international : null;
+}
+
+/**
+ * Converts a phone number as stored by Supabase (digits without the `+`, or an empty string when the
+ * user has none) to E.164.
+ *
+ * @param {string | null | undefined} phone - The phone number from the Supabase user.
+ * @returns {string | null} The E.164 number, or null if the user has no phone number.
+ */
+export function fromSupabasePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  return phone.startsWith('+') ? phone : `+${phone}`;
+}
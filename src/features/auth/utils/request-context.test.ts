@@ -0,0 +1,17 @@
+import { resolveClientIp } from './request-context';
+
+describe('resolveClientIp', () => {
+  it('takes the entry added by the outermost trusted proxy, ignoring forged ones', () => {
+    const forged = new Headers({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' });
+    expect(resolveClientIp(forged, 1)).toBe('203.0.113.7');
+
+    const twoProxies = new Headers({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.2' });
+    expect(resolveClientIp(twoProxies, 2)).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP, then to unknown', () => {
+    expect(resolveClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '192.0.2.4' }), 2)).toBe('192.0.2.4');
+    expect(resolveClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7' }), 0)).toBe('unknown');
+    expect(resolveClientIp(new Headers(), 1)).toBe('unknown');
+  });
+});
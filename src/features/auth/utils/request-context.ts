@@ -0,0 +1,65 @@
+// src/features/auth/utils/request-context.ts
+import { headers } from 'next/headers';
+import type { SupportedLanguage } from '@/features/auth/constants/auth-errors';
+import { resolveLanguage } from './auth-errors';
+
+// Server-only helpers for reading the current request. Not part of the utils barrel, which
+// client components import.
+
+/**
+ * Reads the client IP from proxy headers, trusting only what the app's own proxies wrote.
+ * Each proxy appends the address it received the request from to `X-Forwarded-For`, so the entry
+ * `trustedProxyHops` from the right was added by the outermost trusted proxy; everything left of it
+ * came from the client and may be forged. Without enough entries, `X-Real-IP` is used, which
+ * platforms such as Vercel set themselves.
+ *
+ * @param {Pick<Headers, 'get'>} headerList - The request headers.
+ * @param {number} trustedProxyHops - How many proxies in front of the app append to `X-Forwarded-For`.
+ * @returns {string} The IP, or 'unknown' when no trusted header is present.
+ */
+export function resolveClientIp(headerList: Pick<Headers, 'get'>, trustedProxyHops: number): string {
+  const forwardedFor = (headerList.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const trusted = trustedProxyHops > 0 && forwardedFor.length >= trustedProxyHops
+    ? forwardedFor[forwardedFor.length - trustedProxyHops]
+    : undefined;
+  return trusted || headerList.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Returns the number of proxies in front of the app, from `TRUSTED_PROXY_HOPS` (default 1: one
+ * load balancer or platform edge). Set it to match the deployment, or IP-keyed rate limits
+ * either key on a proxy's address or accept a client-chosen one.
+ *
+ * @returns {number} The number of trusted proxy hops.
+ */
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env['TRUSTED_PROXY_HOPS'] ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+/**
+ * Returns the client IP of the current request, as seen by the trusted proxies (see `resolveClientIp`).
+ * @returns {Promise<string>} The IP, or 'unknown' when no trusted header is present.
+ */
+export async function getClientIp(): Promise<string> {
+  return resolveClientIp(await headers(), getTrustedProxyHops());
+}
+
+/**
+ * Returns the User-Agent header of the current request.
+ * @returns {Promise<string | null>} The user agent, or null when the header is missing.
+ */
+export async function getUserAgent(): Promise<string | null> {
+  return (await headers()).get('user-agent');
+}
+
+/**
+ * Returns the language auth messages should use, from the Accept-Language header of the current request.
+ * @returns {Promise<SupportedLanguage>} The preferred supported language, or `DEFAULT_LANGUAGE`.
+ */
+export async function getRequestLanguage(): Promise<SupportedLanguage> {
+  return resolveLanguage((await headers()).get('accept-language'));
+}
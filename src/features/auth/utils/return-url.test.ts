@@ -0,0 +1,44 @@
+import { DEFAULT_RETURN_URL, sanitizeReturnUrl, withReturnUrl } from './return-url';
+
+describe('sanitizeReturnUrl', () => {
+  it('keeps same-origin relative paths with their query and hash', () => {
+    expect(sanitizeReturnUrl('/dashboard/profile')).toBe('/dashboard/profile');
+    expect(sanitizeReturnUrl('/dashboard/chat?thread=1#latest')).toBe('/dashboard/chat?thread=1#latest');
+  });
+
+  it.each([
+    ['an absolute URL', 'https://evil.example/dashboard'],
+    ['a protocol-relative URL', '//evil.example'],
+    ['a backslash host', '/\\evil.example'],
+    ['a host behind a dot segment', '/.//evil.example'],
+    ['a host behind a parent segment', '/..//evil.example'],
+    ['a host behind an encoded dot segment', '/%2e//evil.example'],
+    ['a javascript URL', 'javascript:alert(1)'],
+    ['a relative path without a leading slash', 'dashboard'],
+    ['a path with a control character', '/dash\tboard'],
+    ['an empty value', ''],
+    ['a non-string value', null],
+  ])('falls back for %s', (_label, value) => {
+    expect(sanitizeReturnUrl(value)).toBe(DEFAULT_RETURN_URL);
+  });
+
+  it('falls back for guest-only routes to avoid redirect loops', () => {
+    expect(sanitizeReturnUrl('/login')).toBe(DEFAULT_RETURN_URL);
+    expect(sanitizeReturnUrl('/register?next=/dashboard')).toBe(DEFAULT_RETURN_URL);
+  });
+
+  it('uses the given fallback', () => {
+    expect(sanitizeReturnUrl('https://evil.example', '/')).toBe('/');
+  });
+});
+
+describe('withReturnUrl', () => {
+  it('adds the return URL as the next parameter', () => {
+    expect(withReturnUrl('/login', '/dashboard/profile?tab=1')).toBe('/login?next=%2Fdashboard%2Fprofile%3Ftab%3D1');
+  });
+
+  it('omits the default or an unsafe return URL', () => {
+    expect(withReturnUrl('/login', DEFAULT_RETURN_URL)).toBe('/login');
+    expect(withReturnUrl('/login', '//evil.example')).toBe('/login');
+  });
+});
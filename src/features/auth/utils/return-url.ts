@@ -0,0 +1,72 @@
+// src/features/auth/utils/return-url.ts
+import { AUTHENTICATED_HOME_PATH, resolveRoutePolicy } from './route-policy';
+
+/**
+ * @fileOverview The single helper for "return to where I was" URLs.
+ * A return URL travels as the `next` query parameter (or form field) through login, registration,
+ * OAuth, email links and the MFA challenge. It is user-controlled input, so every consumer must
+ * pass it through `sanitizeReturnUrl` before redirecting to it, to prevent open redirects.
+ */
+
+/** The query parameter and form field name that carries the return URL. */
+export const RETURN_URL_PARAM = 'next';
+
+/** Where users go after signing in when no (valid) return URL was given. */
+export const DEFAULT_RETURN_URL = AUTHENTICATED_HOME_PATH;
+
+const MAX_RETURN_URL_LENGTH = 2048;
+// A throwaway origin to resolve the value against. If resolving changes the origin, the value was absolute.
+const RESOLUTION_BASE = 'http://return-url.invalid';
+
+/**
+ * Validates a return URL and normalizes it to a same-origin relative path.
+ * Rejected values:
+ * - anything that is not a string starting with a single `/` (absolute URLs, `//host`, `javascript:`),
+ *   checked again after parsing, since dot segments such as `/.//host` normalize to `//host`,
+ * - backslashes and control characters, which browsers may treat as `/` or strip,
+ * - paths of guest-only routes (e.g. `/login`), which would bounce a signed-in user in a loop.
+ *
+ * @param {unknown} value - The raw value, e.g. from `searchParams.get('next')` or `formData.get('next')`.
+ * @param {string} [fallback=DEFAULT_RETURN_URL] - The path to use when the value is missing or rejected.
+ * @returns {string} A safe path (with query and hash) to redirect to.
+ */
+export function sanitizeReturnUrl(value: unknown, fallback: string = DEFAULT_RETURN_URL): string {
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_RETURN_URL_LENGTH) {
+    return fallback;
+  }
+  if (!value.startsWith('/') || value.startsWith('//') || value.includes('\\') || /[\u0000-\u001F\u007F]/.test(value)) {
+    return fallback;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, RESOLUTION_BASE);
+  } catch {
+    return fallback;
+  }
+  if (url.origin !== RESOLUTION_BASE || url.pathname.startsWith('//')) {
+    return fallback;
+  }
+  if (resolveRoutePolicy(url.pathname).access === 'guest-only') {
+    return fallback;
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * Appends a return URL to a path as the `next` query parameter.
+ * The default return URL is left out to keep links short.
+ *
+ * @param {string} pathname - The path to link to, e.g. `/login`.
+ * @param {unknown} returnUrl - The raw return URL to carry. It is sanitized first.
+ * @returns {string} The path with the `next` parameter, if any.
+ */
+export function withReturnUrl(pathname: string, returnUrl: unknown): string {
+  const safeReturnUrl = sanitizeReturnUrl(returnUrl);
+  if (safeReturnUrl === DEFAULT_RETURN_URL) {
+    return pathname;
+  }
+  const params = new URLSearchParams({ [RETURN_URL_PARAM]: safeReturnUrl });
+  return `${pathname}?${params.toString()}`;
+}
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  DEFAULT_ROUTE_POLICY,
+  evaluateRouteAccess,
+  matchRoutePattern,
+  resolveRoutePolicy,
+} from './route-policy';
+
+const APP_DIR = path.resolve(__dirname, '../../../app');
+const ROUTE_FILES = ['page.tsx', 'page.ts', 'route.ts', 'route.tsx'];
+
+/**
+ * Walks `src/app` and returns the URL path of every page and route handler.
+ * Route groups like `(auth)` are dropped, and dynamic segments get a sample value.
+ */
+function collectAppRoutes(dir: string, segments: string[] = []): string[] {
+  const routes: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      const name = entry.name;
+      if (name.startsWith('_') || name.startsWith('@')) continue; // private folders and parallel slots
+      const isGroup = name.startsWith('(') && name.endsWith(')');
+      const segment = name.startsWith('[...') || name.startsWith('[[...') ? 'sample/path' : name.startsWith('[') ? 'sample' : name;
+      routes.push(...collectAppRoutes(path.join(dir, name), isGroup ? segments : [...segments, segment]));
+    } else if (ROUTE_FILES.includes(entry.name)) {
+      routes.push('/' + segments.join('/'));
+    }
+  }
+  return routes;
+}
+
+const signedOut = { isAuthenticated: false, role: null };
+const signedInUser = { isAuthenticated: true, role: 'user' as const };
+const signedInAdmin = { isAuthenticated: true, role: 'admin' as const };
+const signedInGuest = { isAuthenticated: true, isAnonymous: true, role: null };
+
+describe('matchRoutePattern', () => {
+  it('matches exact paths, ignoring trailing slashes', () => {
+    expect(matchRoutePattern('/login', '/login')).toBe(true);
+    expect(matchRoutePattern('/login', '/login/')).toBe(true);
+    expect(matchRoutePattern('/login', '/login/mfa')).toBe(false);
+    expect(matchRoutePattern('/', '/')).toBe(true);
+    expect(matchRoutePattern('/', '/dashboard')).toBe(false);
+  });
+
+  it('matches exactly one segment with *', () => {
+    expect(matchRoutePattern('/admin/*', '/admin/invites')).toBe(true);
+    expect(matchRoutePattern('/admin/*', '/admin')).toBe(false);
+    expect(matchRoutePattern('/admin/*', '/admin/invites/new')).toBe(false);
+  });
+
+  it('matches zero or more segments with **', () => {
+    expect(matchRoutePattern('/dashboard/**', '/dashboard')).toBe(true);
+    expect(matchRoutePattern('/dashboard/**', '/dashboard/profile')).toBe(true);
+    expect(matchRoutePattern('/dashboard/**', '/dashboard/a/b/c')).toBe(true);
+    expect(matchRoutePattern('/dashboard/**', '/dashboards')).toBe(false);
+    expect(matchRoutePattern('/**/edit', '/posts/1/edit')).toBe(true);
+  });
+});
+
+describe('route policies', () => {
+  const appRoutes = collectAppRoutes(APP_DIR);
+
+  it('finds the routes under src/app', () => {
+    expect(appRoutes).toEqual(expect.arrayContaining(['/', '/login', '/dashboard']));
+  });
+
+  it.each(appRoutes)('declares an explicit policy for %s', (route) => {
+    expect(resolveRoutePolicy(route)).not.toBe(DEFAULT_ROUTE_POLICY);
+  });
+
+  it.each(appRoutes.filter((route) => route.startsWith('/dashboard')))('requires sign-in for %s', (route) => {
+    expect(['authenticated', 'anonymous-allowed']).toContain(resolveRoutePolicy(route).access);
+    expect(evaluateRouteAccess(route, signedOut)).toMatchObject({ type: 'redirect', pathname: '/login' });
+  });
+
+  it('requires authentication for unknown paths', () => {
+    expect(resolveRoutePolicy('/not-declared-anywhere')).toBe(DEFAULT_ROUTE_POLICY);
+    expect(evaluateRouteAccess('/not-declared-anywhere', signedOut)).toMatchObject({ type: 'redirect', pathname: '/login' });
+  });
+
+  it('redirects signed-in users away from guest-only routes', () => {
+    expect(evaluateRouteAccess('/login', signedInUser)).toMatchObject({ type: 'redirect', pathname: '/dashboard' });
+    expect(evaluateRouteAccess('/register', signedInUser)).toMatchObject({ type: 'redirect', pathname: '/dashboard' });
+    expect(evaluateRouteAccess('/login', signedOut)).toMatchObject({ type: 'allow' });
+  });
+
+  it('keeps the MFA challenge and password reset reachable when signed in', () => {
+    expect(evaluateRouteAccess('/login/mfa', signedInUser)).toMatchObject({ type: 'allow' });
+    expect(evaluateRouteAccess('/login/mfa', signedOut)).toMatchObject({ type: 'redirect', pathname: '/login' });
+    expect(evaluateRouteAccess('/reset-password', signedInUser)).toMatchObject({ type: 'allow' });
+  });
+
+  it('restricts role routes to the listed roles', () => {
+    expect(evaluateRouteAccess('/admin/invites', signedInAdmin)).toMatchObject({ type: 'allow' });
+    expect(evaluateRouteAccess('/admin/invites', signedInUser)).toMatchObject({ type: 'redirect', pathname: '/dashboard' });
+    expect(evaluateRouteAccess('/admin/invites', signedOut)).toMatchObject({ type: 'redirect', pathname: '/login' });
+  });
+
+  it('lets guests into the dashboard and chat only', () => {
+    expect(evaluateRouteAccess('/dashboard', signedInGuest)).toMatchObject({ type: 'allow' });
+    expect(evaluateRouteAccess('/dashboard/chat', signedInGuest)).toMatchObject({ type: 'allow' });
+    expect(evaluateRouteAccess('/dashboard/upgrade', signedInGuest)).toMatchObject({ type: 'allow' });
+    expect(evaluateRouteAccess('/dashboard/security', signedInGuest)).toMatchObject({ type: 'redirect', pathname: '/dashboard/upgrade' });
+    expect(evaluateRouteAccess('/admin/invites', signedInGuest)).toMatchObject({ type: 'redirect', pathname: '/dashboard/upgrade' });
+  });
+
+  it('lets guests sign in to an existing account', () => {
+    expect(evaluateRouteAccess('/login', signedInGuest)).toMatchObject({ type: 'allow' });
+    expect(evaluateRouteAccess('/register', signedInGuest)).toMatchObject({ type: 'allow' });
+  });
+});
@@ -0,0 +1,172 @@
+// src/features/auth/utils/route-policy.ts
+import type { UserProfile } from '@/features/user-auth-data/schemas';
+
+/**
+ * @fileOverview Declarative access policy for every route of the application.
+ * The middleware (`updateSession`) resolves the policy of each request and either lets it
+ * through or redirects it. Patterns are matched segment by segment:
+ * - `*` matches exactly one path segment (e.g. `/admin/*` matches `/admin/invites`).
+ * - `**` matches zero or more segments (e.g. `/dashboard/**` matches `/dashboard` and `/dashboard/a/b`).
+ * Policies are checked in order and the first match wins, so list specific patterns before broad ones.
+ * Any path without a matching policy requires authentication.
+ */
+
+export type AppRole = UserProfile['role'];
+
+/**
+ * - `public`: anyone can access the route.
+ * - `anonymous-allowed`: signed-in users, including guest (anonymous) sessions; others are redirected to `/login`.
+ * - `authenticated`: only users with a permanent account; others are redirected to `/login`,
+ *   and guests to `/dashboard/upgrade` to save their account first.
+ * - `guest-only`: only signed-out users; signed-in users are redirected to `/dashboard`. Guest sessions
+ *   are let through, so a guest can still sign in to an existing account.
+ * - `role`: only users with a permanent account whose role is listed in `roles`.
+ */
+export type RouteAccess = 'public' | 'anonymous-allowed' | 'authenticated' | 'guest-only' | 'role';
+
+export type RoutePolicy =
+  | { pattern: string; access: 'public' | 'anonymous-allowed' | 'authenticated' | 'guest-only' }
+  | { pattern: string; access: 'role'; roles: readonly AppRole[] };
+
+export type RouteDecision =
+  | { type: 'allow'; policy: RoutePolicy }
+  | { type: 'redirect'; pathname: string; policy: RoutePolicy };
+
+/** The context of the current request that access decisions depend on. */
+export interface RouteAccessContext {
+  isAuthenticated: boolean;
+  /** Whether the session belongs to a guest (`signInAnonymously`). Defaults to false. */
+  isAnonymous?: boolean;
+  role: AppRole | null;
+}
+
+export const LOGIN_PATH = '/login';
+export const AUTHENTICATED_HOME_PATH = '/dashboard';
+/** Where guests are sent from pages that need a permanent account. */
+export const GUEST_UPGRADE_PATH = '/dashboard/upgrade';
+
+/** The policy applied to paths that match no entry of `ROUTE_POLICIES`. */
+export const DEFAULT_ROUTE_POLICY: RoutePolicy = { pattern: '/**', access: 'authenticated' };
+
+export const ROUTE_POLICIES: readonly RoutePolicy[] = [
+  { pattern: '/', access: 'public' },
+
+  // Sign-in and sign-up make no sense for a signed-in user.
+  { pattern: '/login', access: 'guest-only' },
+  { pattern: '/register', access: 'guest-only' },
+  // The MFA challenge is the second step of login, so the user is already signed in (AAL1).
+  { pattern: '/login/mfa', access: 'authenticated' },
+  // The recovery link signs the user in before they choose a new password, so these stay public.
+  { pattern: '/forgot-password', access: 'public' },
+  { pattern: '/reset-password', access: 'public' },
+  // OTP confirmation, OAuth callback and the auth error page.
+  { pattern: '/auth/**', access: 'public' },
+
+  // Guests can try the dashboard and chat, and save their account from the upgrade page.
+  { pattern: '/dashboard', access: 'anonymous-allowed' },
+  { pattern: '/dashboard/chat/**', access: 'anonymous-allowed' },
+  { pattern: GUEST_UPGRADE_PATH, access: 'anonymous-allowed' },
+  { pattern: '/dashboard/**', access: 'authenticated' },
+  { pattern: '/admin/**', access: 'role', roles: ['admin'] },
+
+  // API routes are excluded from the middleware matcher and must check authentication themselves.
+  { pattern: '/api/**', access: 'public' },
+
+  { pattern: '/sentry-example-page', access: 'public' },
+  { pattern: '/monitoring', access: 'public' }, // Sentry tunnel route
+];
+
+/**
+ * Splits a path into its non-empty segments, ignoring leading, trailing and repeated slashes.
+ * @param {string} path - The path or pattern to split.
+ * @returns {string[]} The segments.
+ */
+function toSegments(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+/**
+ * Matches pattern segments against path segments, expanding `**` to any number of segments.
+ * @param {string[]} patternSegments - The remaining segments of the pattern.
+ * @param {string[]} pathSegments - The remaining segments of the path.
+ * @returns {boolean} Whether the rest of the path matches the rest of the pattern.
+ */
+function matchSegments(patternSegments: string[], pathSegments: string[]): boolean {
+  const [head, ...rest] = patternSegments;
+  if (head === undefined) {
+    return pathSegments.length === 0;
+  }
+  if (head === '**') {
+    for (let consumed = 0; consumed <= pathSegments.length; consumed++) {
+      if (matchSegments(rest, pathSegments.slice(consumed))) return true;
+    }
+    return false;
+  }
+  const [pathHead, ...pathRest] = pathSegments;
+  if (pathHead === undefined) return false;
+  return (head === '*' || head === pathHead) && matchSegments(rest, pathRest);
+}
+
+/**
+ * Checks whether a pathname matches a route pattern (see the file overview for the syntax).
+ *
+ * @param {string} pattern - The route pattern, e.g. `/dashboard/**`.
+ * @param {string} pathname - The request pathname, e.g. `/dashboard/profile`.
+ * @returns {boolean} True if the pathname matches the pattern.
+ */
+export function matchRoutePattern(pattern: string, pathname: string): boolean {
+  return matchSegments(toSegments(pattern), toSegments(pathname));
+}
+
+/**
+ * Finds the policy that applies to a pathname: the first matching entry of `ROUTE_POLICIES`,
+ * or `DEFAULT_ROUTE_POLICY` if none matches.
+ *
+ * @param {string} pathname - The request pathname.
+ * @returns {RoutePolicy} The applicable policy.
+ */
+export function resolveRoutePolicy(pathname: string): RoutePolicy {
+  return ROUTE_POLICIES.find((policy) => matchRoutePattern(policy.pattern, pathname)) ?? DEFAULT_ROUTE_POLICY;
+}
+
+/**
+ * Decides whether a request may access a pathname, and where to send it otherwise.
+ *
+ * @param {string} pathname - The request pathname.
+ * @param {RouteAccessContext} context - Whether the user is signed in, and their role.
+ * @returns {RouteDecision} `allow`, or `redirect` with the pathname to redirect to.
+ */
+export function evaluateRouteAccess(pathname: string, context: RouteAccessContext): RouteDecision {
+  const policy = resolveRoutePolicy(pathname);
+  const isGuest = context.isAuthenticated && !!context.isAnonymous;
+
+  switch (policy.access) {
+    case 'public':
+      return { type: 'allow', policy };
+    case 'guest-only':
+      return context.isAuthenticated && !isGuest
+        ? { type: 'redirect', pathname: AUTHENTICATED_HOME_PATH, policy }
+        : { type: 'allow', policy };
+    case 'anonymous-allowed':
+      return context.isAuthenticated
+        ? { type: 'allow', policy }
+        : { type: 'redirect', pathname: LOGIN_PATH, policy };
+    case 'authenticated':
+      if (!context.isAuthenticated) {
+        return { type: 'redirect', pathname: LOGIN_PATH, policy };
+      }
+      return isGuest
+        ? { type: 'redirect', pathname: GUEST_UPGRADE_PATH, policy }
+        : { type: 'allow', policy };
+    case 'role':
+      if (!context.isAuthenticated) {
+        return { type: 'redirect', pathname: LOGIN_PATH, policy };
+      }
+      if (isGuest) {
+        return { type: 'redirect', pathname: GUEST_UPGRADE_PATH, policy };
+      }
+      return context.role && policy.roles.includes(context.role)
+        ? { type: 'allow', policy }
+        : { type: 'redirect', pathname: AUTHENTICATED_HOME_PATH, policy };
+  }
+}
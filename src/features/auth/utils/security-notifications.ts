@@ -0,0 +1,47 @@
+// src/features/auth/utils/security-notifications.ts
+import { getEmailSender } from '@/lib/email';
+import { getServerLogger } from '@/lib/logger';
+import { getClientIp, getUserAgent } from './request-context';
+import { parseUserAgent } from './user-agent';
+
+// Server-only: reads request headers and sends emails. Not part of the utils barrel.
+
+const logger = getServerLogger('SecurityNotifications');
+
+/**
+ * Emails the user that their password was changed, with the device and IP of the request,
+ * so an unexpected change can be noticed. Best effort: failures are logged, not thrown,
+ * because the password has already been changed.
+ *
+ * @param {string} email - The account's email address.
+ * @returns {Promise<void>}
+ */
+export async function sendPasswordChangedNotification(email: string): Promise<void> {
+  const { browser, os } = parseUserAgent(await getUserAgent());
+  const ip = await getClientIp();
+  const changedAt = new Date().toUTCString();
+
+  try {
+    await getEmailSender().send({
+      to: email,
+      subject: 'Your PassForge password was changed',
+      text: [
+        'The password for your PassForge account was just changed.',
+        '',
+        `When: ${changedAt}`,
+        `Device: ${browser} on ${os}`,
+        `IP address: ${ip}`,
+        '',
+        'If this was you, no action is needed.',
+        'If it was not, reset your password right away with "Forgot password" on the login page,',
+        'then review your active sessions under Dashboard > Security.',
+      ].join('\n'),
+    });
+    logger.info(`Password change notification sent to ${email.substring(0, 3)}...`);
+  } catch (error) {
+    logger.error({
+      message: 'Sending the password change notification failed.',
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  evaluateSessionTimeouts,
+  getSessionDeadline,
+  parseSessionActivity,
+  parseSessionEndReason,
+  readSessionClaims,
+  serializeSessionActivity,
+  withSessionEndReason,
+} from './session-timeouts';
+
+const SESSION_ID = '3f1c2a9e-0d4b-4c55-9a3e-2b7f6c1d8e90';
+const limits = { idleTimeoutSeconds: 30 * 60, maxAgeSeconds: 12 * 60 * 60 };
+const signedInAt = 1_800_000_000;
+
+beforeAll(() => {
+  process.env['SESSION_ACTIVITY_SECRET'] = 'test-session-activity-secret';
+});
+
+afterAll(() => {
+  delete process.env['SESSION_ACTIVITY_SECRET'];
+});
+
+function accessToken(claims: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256' })}.${encode(claims)}.signature`;
+}
+
+describe('readSessionClaims', () => {
+  it('reads the session ID, the earliest authentication time and the methods', () => {
+    const token = accessToken({
+      session_id: SESSION_ID,
+      amr: [{ method: 'totp', timestamp: signedInAt + 30 }, { method: 'password', timestamp: signedInAt }],
+      user_metadata: { first_name: 'Zoë' },
+    });
+    expect(readSessionClaims(token)).toEqual({ sessionId: SESSION_ID, authenticatedAt: signedInAt, authenticationMethods: ['totp', 'password'] });
+  });
+
+  it('returns null for missing or malformed tokens', () => {
+    expect(readSessionClaims(undefined)).toBeNull();
+    expect(readSessionClaims('not-a-jwt')).toBeNull();
+    expect(readSessionClaims(accessToken({ amr: [] }))).toBeNull();
+  });
+});
+
+describe('session activity cookie', () => {
+  const activity = { sessionId: SESSION_ID, startedAt: signedInAt, lastActiveAt: signedInAt + 60 };
+
+  it('round-trips and rejects malformed values', async () => {
+    expect(await parseSessionActivity((await serializeSessionActivity(activity))!)).toEqual(activity);
+    expect(await parseSessionActivity(`${SESSION_ID}.${signedInAt}`)).toBeNull();
+    expect(await parseSessionActivity(`${SESSION_ID}.soon.${signedInAt}`)).toBeNull();
+  });
+
+  it('rejects unsigned values and tampered signatures', async () => {
+    const signed = (await serializeSessionActivity(activity))!;
+    const signature = signed.split('.').pop()!;
+    const forged = `${SESSION_ID}.${signedInAt}.${signedInAt + 3600}`;
+
+    expect(await parseSessionActivity(forged)).toBeNull();
+    expect(await parseSessionActivity(`${forged}.${signature}`)).toBeNull();
+    expect(await parseSessionActivity(`${signed.slice(0, -1)}${signed.endsWith('A') ? 'B' : 'A'}`)).toBeNull();
+  });
+
+  it('is neither written nor trusted without the secret', async () => {
+    const signed = (await serializeSessionActivity(activity))!;
+    delete process.env['SESSION_ACTIVITY_SECRET'];
+    try {
+      expect(await serializeSessionActivity(activity)).toBeNull();
+      expect(await parseSessionActivity(signed)).toBeNull();
+    } finally {
+      process.env['SESSION_ACTIVITY_SECRET'] = 'test-session-activity-secret';
+    }
+  });
+});
+
+describe('getSessionDeadline', () => {
+  it('picks whichever limit is reached first', () => {
+    expect(getSessionDeadline({ startedAt: signedInAt, lastActiveAt: signedInAt }, limits))
+      .toEqual({ at: signedInAt + 30 * 60, reason: 'idle' });
+    expect(getSessionDeadline({ startedAt: signedInAt, lastActiveAt: signedInAt + 11.9 * 60 * 60 }, limits))
+      .toEqual({ at: signedInAt + 12 * 60 * 60, reason: 'max_age' });
+  });
+});
+
+describe('evaluateSessionTimeouts', () => {
+  const claims = { sessionId: SESSION_ID, authenticatedAt: signedInAt, authenticationMethods: ['password'] };
+  const cookie = async (lastActiveAt: number, startedAt = signedInAt) => (await serializeSessionActivity({ sessionId: SESSION_ID, startedAt, lastActiveAt }))!;
+
+  it('records activity while within both limits', async () => {
+    expect(await evaluateSessionTimeouts(claims, await cookie(signedInAt + 600), { now: signedInAt + 1200, recordActivity: true, limits }))
+      .toEqual({ status: 'active', activity: { sessionId: SESSION_ID, startedAt: signedInAt, lastActiveAt: signedInAt + 1200 } });
+  });
+
+  it('keeps the last activity when the request does not count as activity', async () => {
+    const verdict = await evaluateSessionTimeouts(claims, await cookie(signedInAt + 600), { now: signedInAt + 1200, recordActivity: false, limits });
+    expect(verdict).toMatchObject({ activity: { lastActiveAt: signedInAt + 600 } });
+  });
+
+  it('expires idle sessions', async () => {
+    expect(await evaluateSessionTimeouts(claims, await cookie(signedInAt + 600), { now: signedInAt + 600 + 30 * 60, recordActivity: true, limits }))
+      .toEqual({ status: 'expired', reason: 'idle' });
+  });
+
+  it('expires sessions past the maximum age, however active', async () => {
+    const now = signedInAt + 12 * 60 * 60;
+    expect(await evaluateSessionTimeouts(claims, await cookie(now - 5), { now, recordActivity: true, limits }))
+      .toEqual({ status: 'expired', reason: 'max_age' });
+  });
+
+  it('ignores activity recorded for another session', async () => {
+    const otherSession = await serializeSessionActivity({ sessionId: 'a0000000-0000-0000-0000-000000000000', startedAt: signedInAt, lastActiveAt: signedInAt + 3600 });
+    expect(await evaluateSessionTimeouts(claims, otherSession!, { now: signedInAt + 3600, recordActivity: true, limits }))
+      .toEqual({ status: 'expired', reason: 'idle' });
+  });
+
+  it('ignores a forged cookie claiming activity in the future', async () => {
+    const forged = `${SESSION_ID}.${signedInAt}.${signedInAt + 10 * 60 * 60}`;
+    expect(await evaluateSessionTimeouts(claims, forged, { now: signedInAt + 31 * 60, recordActivity: false, limits }))
+      .toEqual({ status: 'expired', reason: 'idle' });
+  });
+
+  it('clamps a future activity time to now', async () => {
+    const now = signedInAt + 600;
+    expect(await evaluateSessionTimeouts(claims, await cookie(now + 10 * 60 * 60), { now, recordActivity: false, limits }))
+      .toEqual({ status: 'active', activity: { sessionId: SESSION_ID, startedAt: signedInAt, lastActiveAt: now } });
+  });
+
+  it('clamps a future sign-in time to now', async () => {
+    const now = signedInAt + 12 * 60 * 60;
+    const undated = { sessionId: SESSION_ID, authenticatedAt: null, authenticationMethods: [] };
+    expect(await evaluateSessionTimeouts(undated, await cookie(now + 3600, now + 3600), { now, recordActivity: false, limits }))
+      .toEqual({ status: 'active', activity: { sessionId: SESSION_ID, startedAt: now, lastActiveAt: now } });
+  });
+
+  it('starts recording for a new session', async () => {
+    expect(await evaluateSessionTimeouts({ sessionId: SESSION_ID, authenticatedAt: null, authenticationMethods: [] }, undefined, { now: signedInAt, recordActivity: true, limits }))
+      .toEqual({ status: 'active', activity: { sessionId: SESSION_ID, startedAt: signedInAt, lastActiveAt: signedInAt } });
+  });
+});
+
+describe('session end reason', () => {
+  it('adds the reason to a path and reads it back', () => {
+    expect(withSessionEndReason('/login?next=%2Fdashboard%2Fsecurity', 'idle')).toBe('/login?next=%2Fdashboard%2Fsecurity&reason=idle');
+    expect(withSessionEndReason('/login', 'max_age')).toBe('/login?reason=max_age');
+    expect(parseSessionEndReason('max_age')).toBe('max_age');
+    expect(parseSessionEndReason('forever')).toBeNull();
+  });
+});
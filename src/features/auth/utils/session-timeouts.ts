@@ -0,0 +1,220 @@
+// src/features/auth/utils/session-timeouts.ts
+import {
+  SESSION_END_REASON_PARAM,
+  SESSION_END_REASONS,
+  SESSION_IDLE_TIMEOUT_SECONDS,
+  SESSION_MAX_AGE_SECONDS,
+  type SessionEndReason,
+} from '@/features/auth/constants/session-timeouts';
+
+/**
+ * @fileOverview Idle timeout and maximum session age. The middleware and `checkSessionTimeout`
+ * decide with `evaluateSessionTimeouts`; `AuthSessionProvider` counts down to `getSessionDeadline`.
+ * All times are in epoch seconds.
+ */
+
+/** The claims of a Supabase access token that identify its session. */
+export interface SessionClaims {
+  sessionId: string;
+  /** When the user signed in, from the earliest `amr` entry; null if the token has none. */
+  authenticatedAt: number | null;
+  /** How the session was authenticated, from the `amr` entries, e.g. `password`, `totp` or `recovery`. */
+  authenticationMethods: string[];
+}
+
+/** What the `session_activity` cookie records about the current session. */
+export interface SessionActivity {
+  sessionId: string;
+  startedAt: number;
+  lastActiveAt: number;
+}
+
+export interface SessionLimits {
+  idleTimeoutSeconds: number;
+  maxAgeSeconds: number;
+}
+
+export type SessionTimeoutVerdict =
+  | { status: 'active'; activity: SessionActivity }
+  | { status: 'expired'; reason: SessionEndReason };
+
+const DEFAULT_LIMITS: SessionLimits = {
+  idleTimeoutSeconds: SESSION_IDLE_TIMEOUT_SECONDS,
+  maxAgeSeconds: SESSION_MAX_AGE_SECONDS,
+};
+
+/**
+ * Reads the session ID, sign-in time and authentication methods from a Supabase access token. The signature is not
+ * checked here: callers pass the token of a session `getUser()` has just validated.
+ *
+ * @param {string | null | undefined} accessToken - The JWT access token.
+ * @returns {SessionClaims | null} The claims, or null if the token is missing or malformed.
+ */
+export function readSessionClaims(accessToken: string | null | undefined): SessionClaims | null {
+  const payload = accessToken?.split('.')[1];
+  if (!payload) return null;
+
+  let claims: { session_id?: unknown; amr?: unknown };
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    const binary = atob(base64);
+    claims = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (character) => character.charCodeAt(0))));
+  } catch {
+    return null;
+  }
+  if (typeof claims.session_id !== 'string' || claims.session_id.length === 0) return null;
+
+  const entries: { method?: unknown; timestamp?: unknown }[] = Array.isArray(claims.amr) ? claims.amr : [];
+  const timestamps = entries
+    .map((entry) => entry?.timestamp)
+    .filter((timestamp): timestamp is number => typeof timestamp === 'number');
+  return {
+    sessionId: claims.session_id,
+    authenticatedAt: timestamps.length > 0 ? Math.min(...timestamps) : null,
+    authenticationMethods: entries
+      .map((entry) => entry?.method)
+      .filter((method): method is string => typeof method === 'string'),
+  };
+}
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Imports `SESSION_ACTIVITY_SECRET` as the HMAC-SHA256 key that signs the `session_activity` cookie.
+ * Web Crypto, since the middleware runs in the Edge runtime.
+ *
+ * @returns {Promise<CryptoKey | null>} The key, or null if the secret is not set.
+ */
+async function getSessionActivityKey(): Promise<CryptoKey | null> {
+  const secret = process.env['SESSION_ACTIVITY_SECRET'];
+  if (!secret) return null;
+  return crypto.subtle.importKey('raw', textEncoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * Parses and verifies the `session_activity` cookie. It is set by the server only, but the browser
+ * can still replace it, so a value without a valid signature is ignored.
+ *
+ * @param {string | undefined} value - The cookie value.
+ * @returns {Promise<SessionActivity | null>} The recorded activity, or null if missing, malformed,
+ *   wrongly signed, or if `SESSION_ACTIVITY_SECRET` is not set.
+ */
+export async function parseSessionActivity(value: string | undefined): Promise<SessionActivity | null> {
+  const match = value?.match(/^(([0-9a-f-]{1,64})\.(\d{1,12})\.(\d{1,12}))\.([A-Za-z0-9_-]{43})$/i);
+  if (!match) return null;
+  const key = await getSessionActivityKey();
+  if (!key) return null;
+
+  const signature = Uint8Array.from(atob(match[5]!.replace(/-/g, '+').replace(/_/g, '/')), (character) => character.charCodeAt(0));
+  const isValid = await crypto.subtle.verify('HMAC', key, signature, textEncoder.encode(match[1]!));
+  if (!isValid) return null;
+  return { sessionId: match[2]!, startedAt: Number(match[3]), lastActiveAt: Number(match[4]) };
+}
+
+/**
+ * Serializes and signs recorded activity for the `session_activity` cookie.
+ *
+ * @param {SessionActivity} activity - The activity.
+ * @returns {Promise<string | null>} The cookie value, or null if `SESSION_ACTIVITY_SECRET` is not set.
+ */
+export async function serializeSessionActivity(activity: SessionActivity): Promise<string | null> {
+  const key = await getSessionActivityKey();
+  if (!key) return null;
+
+  const payload = `${activity.sessionId}.${activity.startedAt}.${activity.lastActiveAt}`;
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, textEncoder.encode(payload)));
+  const encoded = btoa(Array.from(signature, (byte) => String.fromCharCode(byte)).join(''));
+  return `${payload}.${encoded.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+}
+
+/**
+ * Returns when a session ends, and which limit ends it first.
+ *
+ * @param {Pick<SessionActivity, 'startedAt' | 'lastActiveAt'>} activity - When it started and was last active.
+ * @param {SessionLimits} [limits] - The limits; defaults to the configured ones.
+ * @returns {{ at: number, reason: SessionEndReason }} The deadline in epoch seconds.
+ */
+export function getSessionDeadline(
+  activity: Pick<SessionActivity, 'startedAt' | 'lastActiveAt'>,
+  limits: SessionLimits = DEFAULT_LIMITS,
+): { at: number; reason: SessionEndReason } {
+  const idleDeadline = activity.lastActiveAt + limits.idleTimeoutSeconds;
+  const maxAgeDeadline = activity.startedAt + limits.maxAgeSeconds;
+  return maxAgeDeadline <= idleDeadline
+    ? { at: maxAgeDeadline, reason: 'max_age' }
+    : { at: idleDeadline, reason: 'idle' };
+}
+
+/**
+ * Decides whether a session is still within both limits.
+ * The start is the sign-in time from the access token, so clearing the cookie cannot extend the
+ * maximum age. A session without recorded activity counts as last active when it started, so a
+ * session that outlived the idle timeout without a cookie is expired rather than renewed.
+ * Both times are clamped to `now`, so no recorded value can postpone either deadline.
+ *
+ * @param {SessionClaims} claims - The claims of the current access token.
+ * @param {string | undefined} cookieValue - The `session_activity` cookie.
+ * @param {object} options - The options.
+ * @param {number} options.now - The current time in epoch seconds.
+ * @param {boolean} options.recordActivity - Whether this request counts as activity.
+ * @param {SessionLimits} [options.limits] - The limits; defaults to the configured ones.
+ * @returns {Promise<SessionTimeoutVerdict>} The activity to store, or why the session has expired.
+ */
+export async function evaluateSessionTimeouts(
+  claims: SessionClaims,
+  cookieValue: string | undefined,
+  { now, recordActivity, limits = DEFAULT_LIMITS }: { now: number; recordActivity: boolean; limits?: SessionLimits },
+): Promise<SessionTimeoutVerdict> {
+  const recorded = await parseSessionActivity(cookieValue);
+  const previous = recorded?.sessionId === claims.sessionId ? recorded : null;
+  const startedAt = Math.min(claims.authenticatedAt ?? previous?.startedAt ?? now, now);
+  const lastActiveAt = Math.min(Math.max(previous?.lastActiveAt ?? startedAt, startedAt), now);
+
+  const deadline = getSessionDeadline({ startedAt, lastActiveAt }, limits);
+  if (now >= deadline.at) {
+    return { status: 'expired', reason: deadline.reason };
+  }
+  return {
+    status: 'active',
+    activity: { sessionId: claims.sessionId, startedAt, lastActiveAt: recordActivity ? now : lastActiveAt },
+  };
+}
+
+/**
+ * The options of the `session_activity` cookie. It expires with the maximum session age.
+ *
+ * @returns {object} The cookie options.
+ */
+export function getSessionActivityCookieOptions() {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  };
+}
+
+/**
+ * Adds the reason a session ended to a path, e.g. the login page.
+ *
+ * @param {string} path - A same-origin path, optionally with a query string.
+ * @param {SessionEndReason} reason - Why the session ended.
+ * @returns {string} The path with the `reason` parameter.
+ */
+export function withSessionEndReason(path: string, reason: SessionEndReason): string {
+  const [pathname, query = ''] = path.split('?');
+  const params = new URLSearchParams(query);
+  params.set(SESSION_END_REASON_PARAM, reason);
+  return `${pathname}?${params.toString()}`;
+}
+
+/**
+ * Reads the reason a session ended from a query parameter. Unknown values are dropped.
+ *
+ * @param {unknown} value - The `reason` query parameter.
+ * @returns {SessionEndReason | null} The reason, or null.
+ */
+export function parseSessionEndReason(value: unknown): SessionEndReason | null {
+  return SESSION_END_REASONS.find((reason) => reason === value) ?? null;
+}
@@ -0,0 +1,33 @@
+import { parseUserAgent } from './user-agent';
+
+describe('parseUserAgent', () => {
+  it.each([
+    [
+      'Chrome on macOS',
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36',
+      { browser: 'Chrome', os: 'macOS', deviceType: 'desktop' },
+    ],
+    [
+      'Edge on Windows',
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0',
+      { browser: 'Edge', os: 'Windows', deviceType: 'desktop' },
+    ],
+    [
+      'Safari on iPhone',
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Mobile/15E148 Safari/604.1',
+      { browser: 'Safari', os: 'iOS', deviceType: 'mobile' },
+    ],
+    [
+      'Firefox on an Android tablet',
+      'Mozilla/5.0 (Android 14; Tablet; rv:131.0) Gecko/131.0 Firefox/131.0',
+      { browser: 'Firefox', os: 'Android', deviceType: 'tablet' },
+    ],
+  ])('recognises %s', (_label, userAgent, expected) => {
+    expect(parseUserAgent(userAgent)).toEqual(expected);
+  });
+
+  it('reports missing or unrecognised user agents as unknown', () => {
+    expect(parseUserAgent(null)).toEqual({ browser: 'Unknown browser', os: 'Unknown OS', deviceType: 'unknown' });
+    expect(parseUserAgent('curl/8.5.0')).toEqual({ browser: 'Unknown browser', os: 'Unknown OS', deviceType: 'unknown' });
+  });
+});
@@ -0,0 +1,60 @@
+// src/features/auth/utils/user-agent.ts
+
+/**
+ * @fileOverview A small User-Agent parser for labelling sessions ("Chrome on macOS").
+ * It only needs to recognise the common browsers and platforms well enough for a user to tell
+ * their devices apart; anything else is reported as unknown rather than guessed.
+ */
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown';
+
+export interface UserAgentDetails {
+  browser: string;
+  os: string;
+  deviceType: DeviceType;
+}
+
+// Order matters: Edge and Opera also send "Chrome", and Chrome also sends "Safari".
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OS_PATTERNS: [RegExp, string][] = [
+  [/Windows NT/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Extracts the browser, operating system and device type from a User-Agent string.
+ *
+ * @param {string | null | undefined} userAgent - The raw User-Agent header.
+ * @returns {UserAgentDetails} The details; each field is 'Unknown'/'unknown' when not recognised.
+ */
+export function parseUserAgent(userAgent: string | null | undefined): UserAgentDetails {
+  if (!userAgent) {
+    return { browser: 'Unknown browser', os: 'Unknown OS', deviceType: 'unknown' };
+  }
+
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown browser';
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown OS';
+
+  let deviceType: DeviceType = 'desktop';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    deviceType = 'mobile';
+  } else if (os === 'Unknown OS') {
+    deviceType = 'unknown';
+  }
+
+  return { browser, os, deviceType };
+}
@@ -0,0 +1,144 @@
+// src/features/dashboard/admin/components/create-invite-card.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/features/auth/hooks';
+import { createInvite } from '@/features/invites/actions';
+import { INVITE_DEFAULT_EXPIRY_DAYS, INVITE_MAX_EXPIRY_DAYS, INVITE_MAX_USES } from '@/features/invites/constants';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, TicketPlus } from 'lucide-react';
+
+/**
+ * The submit button, showing a spinner while the invite is being created.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <TicketPlus className="mr-2 h-4 w-4" />}
+      Create invite
+    </Button>
+  );
+}
+
+/**
+ * A field error line, linked to its input through `aria-describedby`.
+ * @param {object} props - The component props.
+ * @param {string} props.id - The element ID.
+ * @param {string} [props.message] - The error message; nothing is rendered without one.
+ * @returns {JSX.Element | null} The error line.
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null;
+  return <p id={id} className="text-sm text-destructive">{message}</p>;
+}
+
+/**
+ * Card on the admin invites page for creating an invite with `createInvite`.
+ * An invite can be bound to one email address, allow several uses, and expire after a number of days.
+ * The new invite shows up in the list (`['invites', id]` is invalidated).
+ *
+ * @returns {JSX.Element} The create invite card.
+ */
+export function CreateInviteCard(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(createInvite, initialState);
+  const errors = state?.errorFields;
+
+  useEffect(() => {
+    if (!state?.message) return;
+    if (state.success) {
+      toast({ title: "Invite Created", description: state.message });
+      formRef.current?.reset();
+      queryClient.invalidateQueries({ queryKey: ['invites', user?.id] });
+    } else if (!state.errorFields) {
+      toast({ title: "Could Not Create Invite", description: state.message, variant: "destructive" });
+    }
+  }, [state, toast, queryClient, user?.id]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TicketPlus className="h-5 w-5" />
+          New Invite
+        </CardTitle>
+        <CardDescription>
+          Invites let people register while registration is invite-only. Leave the email empty to create a
+          code anyone can use.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form ref={formRef} action={formAction} className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="invite-email">Email (optional)</Label>
+            <Input
+              id="invite-email"
+              name="email"
+              type="email"
+              placeholder="someone@example.com"
+              aria-describedby={errors?.["email"] ? "invite-email-error" : undefined}
+            />
+            <FieldError id="invite-email-error" message={errors?.["email"]} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-max-uses">Uses</Label>
+            <Input
+              id="invite-max-uses"
+              name="maxUses"
+              type="number"
+              min={1}
+              max={INVITE_MAX_USES}
+              defaultValue={1}
+              required
+              aria-describedby={errors?.["maxUses"] ? "invite-max-uses-error" : undefined}
+            />
+            <FieldError id="invite-max-uses-error" message={errors?.["maxUses"]} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-expiry">Expires after (days, 0 for never)</Label>
+            <Input
+              id="invite-expiry"
+              name="expiresInDays"
+              type="number"
+              min={0}
+              max={INVITE_MAX_EXPIRY_DAYS}
+              defaultValue={INVITE_DEFAULT_EXPIRY_DAYS}
+              required
+              aria-describedby={errors?.["expiresInDays"] ? "invite-expiry-error" : undefined}
+            />
+            <FieldError id="invite-expiry-error" message={errors?.["expiresInDays"]} />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="invite-note">Note (optional)</Label>
+            <Input
+              id="invite-note"
+              name="note"
+              type="text"
+              maxLength={200}
+              placeholder="Beta cohort 2"
+              aria-describedby={errors?.["note"] ? "invite-note-error" : undefined}
+            />
+            <FieldError id="invite-note-error" message={errors?.["note"]} />
+          </div>
+          <div className="sm:col-span-2">
+            <SubmitButton />
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
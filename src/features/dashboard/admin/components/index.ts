@@ -0,0 +1,3 @@
+// src/features/dashboard/admin/components/index.ts
+export * from './create-invite-card';
+export * from './invites-card';
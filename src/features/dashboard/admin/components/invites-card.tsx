@@ -0,0 +1,174 @@
+// src/features/dashboard/admin/components/invites-card.tsx
+'use client';
+
+import { useEffect } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/features/auth/hooks';
+import { useInvitesQuery } from '@/features/invites/hooks';
+import { revokeInvite } from '@/features/invites/actions';
+import { INVITE_CODE_PARAM, type InviteStatus } from '@/features/invites/constants';
+import type { InviteSummary } from '@/features/invites/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Ban, Copy, Loader2, Ticket } from 'lucide-react';
+
+const STATUS_BADGES: Record<InviteStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  active: { label: 'Active', variant: 'default' },
+  exhausted: { label: 'Used up', variant: 'secondary' },
+  expired: { label: 'Expired', variant: 'outline' },
+  revoked: { label: 'Revoked', variant: 'destructive' },
+};
+
+/**
+ * The revoke button, showing a spinner while the invite is being revoked.
+ * @returns {JSX.Element} The submit button.
+ */
+function RevokeButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" size="sm" variant="outline" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+      Revoke
+    </Button>
+  );
+}
+
+/**
+ * Describes an invite's limits, e.g. "1 of 5 uses · bound to a@b.c · expires in 3 days".
+ * @param {InviteSummary} invite - The invite.
+ * @returns {string} The description.
+ */
+function describeInvite(invite: InviteSummary): string {
+  const parts = [`${invite.useCount} of ${invite.maxUses} ${invite.maxUses === 1 ? 'use' : 'uses'}`];
+  parts.push(invite.email ? `only for ${invite.email}` : 'anyone can use it');
+  if (invite.expiresAt) {
+    const expiresAt = new Date(invite.expiresAt);
+    const distance = formatDistanceToNow(expiresAt, { addSuffix: true });
+    parts.push(expiresAt.getTime() > Date.now() ? `expires ${distance}` : `expired ${distance}`);
+  } else {
+    parts.push('never expires');
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Card on the admin invites page listing every invite with its status, limits and the accounts
+ * created with it. Active invites can be copied as a registration link or revoked.
+ * Invites are loaded with `useInvitesQuery` and refetched after each change.
+ *
+ * @returns {JSX.Element} The invites card.
+ */
+export function InvitesCard(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { data: invites, isLoading, error } = useInvitesQuery(user?.id);
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [revokeState, revokeAction] = useActionState(revokeInvite, initialState);
+
+  useEffect(() => {
+    if (!revokeState?.message) return;
+    if (revokeState.success) {
+      toast({ title: "Invite Revoked", description: revokeState.message });
+    } else {
+      toast({ title: "Could Not Revoke Invite", description: revokeState.message, variant: "destructive" });
+    }
+    queryClient.invalidateQueries({ queryKey: ['invites', user?.id] });
+  }, [revokeState, toast, queryClient, user?.id]);
+
+  const copyLink = async (code: string) => {
+    const link = `${window.location.origin}/register?${INVITE_CODE_PARAM}=${encodeURIComponent(code)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: "Link Copied", description: link });
+    } catch {
+      toast({ title: "Could Not Copy Link", description: link, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ticket className="h-5 w-5" />
+          Invites
+        </CardTitle>
+        <CardDescription>
+          All invites, newest first. Revoking an invite stops new sign-ups with it; accounts already
+          created with it are kept.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not load invites</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && invites && invites.length === 0 && (
+          <p className="text-sm text-muted-foreground">No invites yet.</p>
+        )}
+
+        {!isLoading && !error && invites && invites.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {invites.map((invite) => {
+              const badge = STATUS_BADGES[invite.status];
+              return (
+                <li key={invite.id} className="space-y-2 p-4">
+                  <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                    <div>
+                      <p className="flex items-center gap-2 font-medium">
+                        <span className="font-mono">{invite.code}</span>
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </p>
+                      <p className="text-sm text-muted-foreground">{describeInvite(invite)}</p>
+                      {invite.note && <p className="text-sm text-muted-foreground">{invite.note}</p>}
+                    </div>
+                    {invite.status === 'active' && (
+                      <div className="flex gap-2">
+                        <Button type="button" size="sm" variant="outline" onClick={() => copyLink(invite.code)}>
+                          <Copy className="mr-2 h-4 w-4" />
+                          Copy link
+                        </Button>
+                        <form action={revokeAction}>
+                          <input type="hidden" name="inviteId" value={invite.id} />
+                          <RevokeButton />
+                        </form>
+                      </div>
+                    )}
+                  </div>
+                  {invite.redemptions.length > 0 && (
+                    <ul className="space-y-1 text-sm">
+                      {invite.redemptions.map((redemption) => (
+                        <li key={`${redemption.email}-${redemption.redeemedAt}`} className="text-muted-foreground">
+                          {redemption.email} registered{' '}
+                          {formatDistanceToNow(new Date(redemption.redeemedAt), { addSuffix: true })}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,2 @@
+// src/features/dashboard/admin/index.ts
+export * from './invites-view';
@@ -0,0 +1,19 @@
+// src/features/dashboard/admin/invites-view.tsx
+'use client';
+
+import { CreateInviteCard, InvitesCard } from './components';
+
+/**
+ * Renders the admin invites page within the dashboard: the form for creating invites and the list
+ * of existing ones. Only admins reach it (see the `/admin` route policy).
+ *
+ * @returns {JSX.Element} The invites view.
+ */
+export function InvitesView(): JSX.Element {
+  return (
+    <div className="mx-auto max-w-3xl space-y-6">
+      <CreateInviteCard />
+      <InvitesCard />
+    </div>
+  );
+}
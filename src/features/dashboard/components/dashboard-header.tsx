@@ -6,6 +6,7 @@ import { Menu, MoreHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme/theme-toggle";
 import { cn } from "@/lib/utils";
+import { WorkspaceSwitcher } from "./workspace-switcher";
 
 const getPageTitleFromPathname = (pathname: string | null): string => {
   if (!pathname) return "Dashboard";
@@ -54,6 +55,9 @@ export function DashboardHeader({ onToggleMobileSidebar }: DashboardHeaderProps)
           <span className="sr-only">Toggle sidebar</span>
         </Button>
         <h1 className="text-xl font-semibold">{pageTitle}</h1>
+        <div className="ml-2 hidden sm:block">
+          <WorkspaceSwitcher />
+        </div>
       </div>
       <div className="flex items-center gap-3">
         <ThemeToggle />
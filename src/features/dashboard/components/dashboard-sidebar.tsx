@@ -6,6 +6,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import {
   BarChart3,
+  Building2,
   CheckCircle,
   ChevronRight,
   Home,
@@ -17,11 +18,14 @@ import {
   Search,
   Target,
   PanelLeftClose,
+  ShieldCheck,
+  Ticket,
   User
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/features/auth/hooks";
 import { DashboardUserMenu } from "./dashboard-user-menu"; // Updated import
 
 type SubMenuItem = {
@@ -54,6 +58,16 @@ const navItems: NavItem[] = [
     href: "/dashboard/profile",
     icon: <User className="h-5 w-5" />,
   },
+  {
+    title: "Security",
+    href: "/dashboard/security",
+    icon: <ShieldCheck className="h-5 w-5" />,
+  },
+  {
+    title: "Workspace",
+    href: "/dashboard/organization",
+    icon: <Building2 className="h-5 w-5" />,
+  },
   {
     title: "Search",
     href: "/search",
@@ -113,6 +127,15 @@ const navItems: NavItem[] = [
   },
 ];
 
+/** Items shown only to admins (`app_metadata.role`); the `/admin` route policy enforces the same rule. */
+const adminNavItems: NavItem[] = [
+  {
+    title: "Invites",
+    href: "/admin/invites",
+    icon: <Ticket className="h-5 w-5" />,
+  },
+];
+
 function MenuItem({
   item,
   collapsed,
@@ -204,6 +227,8 @@ function MenuItem({
 export function DashboardSidebar({ onClose, collapsed = false, onUserMenuClick }: DashboardSidebarProps) {
   const [openSubmenus, setOpenSubmenus] = useState<Record<string, boolean>>({});
   const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const visibleNavItems = user?.app_metadata?.["role"] === "admin" ? [...navItems, ...adminNavItems] : navItems;
 
   useEffect(() => {
     const timer = setTimeout(() => setLoading(false), 500);
@@ -272,7 +297,7 @@ export function DashboardSidebar({ onClose, collapsed = false, onUserMenuClick }
 
       <nav className="flex-1 overflow-y-auto px-3 py-4">
         <ul className="space-y-1">
-          {navItems.map((item) => (
+          {visibleNavItems.map((item) => (
             <li key={item.title}>
               <MenuItem
                 item={item}
@@ -13,6 +13,7 @@ import {
   ChevronsUpDown,
   ChevronsDownUp,
   Loader2,
+  Save,
   User as UserIcon 
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
@@ -22,6 +23,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/features/auth/hooks";
 import { signOutUserAction } from "@/features/auth/actions";
+import { GUEST_UPGRADE_PATH } from "@/features/auth/utils/route-policy";
 import {
   AlertDialog,
   AlertDialogContent,
@@ -64,6 +66,13 @@ const userMenuItems: UserMenuItemType[] = [
   },
 ];
 
+/** Shown first for guests, who lose their data on sign-out unless they save the account. */
+const guestMenuItem: UserMenuItemType = {
+  title: "Save account",
+  href: GUEST_UPGRADE_PATH,
+  icon: <Save className="h-5 w-5" />,
+};
+
 interface DashboardUserMenuProps {
   collapsed: boolean;
   notificationCount?: number;
@@ -84,6 +93,7 @@ export function DashboardUserMenu({
   const {
     user, 
     profile, 
+    isGuest,
     isSessionLoading, // Used for the primary skeleton display
     sessionError,  // Error from AuthSessionProvider
     // isLoadingAuth is still available if needed for fine-grained profile loading state
@@ -126,12 +136,15 @@ export function DashboardUserMenu({
     const userMetaFirstName = user?.user_metadata?.first_name as string | undefined;
     if (userMetaFirstName) return userMetaFirstName;
     if (user?.email) return user.email.split('@')[0];
-    return "User"; 
+    return isGuest ? "Guest" : "User"; 
   };
 
   const getEmailDisplay = () => {
-    return profile?.email || user?.email || "No email available";
+    if (isGuest) return "Guest account, not saved";
+    return profile?.email || user?.email || profile?.phoneNumber || "No email available";
   };
+
+  const menuItems = isGuest ? [guestMenuItem, ...userMenuItems] : userMenuItems;
   
   const getInitials = (baseUser = user, baseProfile = profile) => {
     const first = baseProfile?.firstName || (baseUser?.user_metadata?.first_name as string)?.[0] || '';
@@ -226,7 +239,7 @@ export function DashboardUserMenu({
               className="absolute bottom-full left-2 right-2 mb-2 z-20 bg-popover text-popover-foreground border border-border rounded-md shadow-xl p-2"
             >
               <div className="space-y-1">
-                {userMenuItems.map((item) => (
+                {menuItems.map((item) => (
                   <Link
                     key={item.title}
                     href={item.href}
@@ -267,7 +280,9 @@ export function DashboardUserMenu({
           <AlertDialogHeader>
             <AlertDialogTitle>Confirm Logout</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to log out of your account?
+              {isGuest
+                ? "You're using a guest account. Once you log out you can't get back to it, and everything you did as a guest is lost. Save your account first to keep it."
+                : "Are you sure you want to log out of your account?"}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -2,3 +2,4 @@
 export * from "./dashboard-header";
 export * from "./dashboard-sidebar";
 export * from "./dashboard-user-menu";
+export * from "./workspace-switcher";
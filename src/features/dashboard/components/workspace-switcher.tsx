@@ -0,0 +1,82 @@
+// src/features/dashboard/components/workspace-switcher.tsx
+"use client";
+
+import Link from "next/link";
+import { Building2, Check, ChevronsUpDown, Loader2, Plus, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/features/auth/hooks";
+import { useActiveOrganization } from "@/features/organizations/hooks";
+import { ORGANIZATION_ROLE_LABELS } from "@/features/organizations/constants";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Dropdown in the dashboard header for switching the active workspace, with links to the
+ * workspace settings and to create a new one. Hidden for guests, who cannot join workspaces.
+ *
+ * @returns {JSX.Element | null} The workspace switcher.
+ */
+export function WorkspaceSwitcher(): JSX.Element | null {
+  const { toast } = useToast();
+  const { user, isGuest } = useAuth();
+  const { organization, organizations, isLoading, isSwitching, switchOrganization } = useActiveOrganization();
+
+  if (!user || isGuest) return null;
+  if (isLoading) return <Skeleton className="h-9 w-40" />;
+
+  const handleSelect = async (organizationId: string) => {
+    if (organizationId === organization?.id) return;
+    const result = await switchOrganization(organizationId);
+    if (!result.success) {
+      toast({ title: "Could Not Switch Workspace", description: result.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="max-w-[14rem] gap-2" aria-label="Switch workspace" disabled={isSwitching}>
+          {isSwitching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Building2 className="h-4 w-4" />}
+          <span className="truncate">{organization?.name ?? "No workspace"}</span>
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+        {organizations.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">You are not in any workspace yet.</p>
+        )}
+        {organizations.map((candidate) => (
+          <DropdownMenuItem key={candidate.id} onSelect={() => handleSelect(candidate.id)} className="gap-2">
+            <Check className={candidate.id === organization?.id ? "h-4 w-4" : "h-4 w-4 opacity-0"} />
+            <span className="flex-1 truncate">{candidate.name}</span>
+            <span className="text-xs text-muted-foreground">{ORGANIZATION_ROLE_LABELS[candidate.role]}</span>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        {organization && (
+          <DropdownMenuItem asChild className="gap-2">
+            <Link href="/dashboard/organization">
+              <Settings className="h-4 w-4" />
+              Workspace settings
+            </Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem asChild className="gap-2">
+          <Link href="/dashboard/organization#create">
+            <Plus className="h-4 w-4" />
+            Create workspace
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
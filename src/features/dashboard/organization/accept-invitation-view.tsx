@@ -0,0 +1,19 @@
+// src/features/dashboard/organization/accept-invitation-view.tsx
+'use client';
+
+import { AcceptInvitationCard } from './components';
+
+/**
+ * Renders the page an invitation email links to, where the signed-in user joins the workspace.
+ *
+ * @param {object} props - The component props.
+ * @param {string | null} props.token - The token from the invitation link.
+ * @returns {JSX.Element} The accept invitation view.
+ */
+export function AcceptInvitationView({ token }: { token: string | null }): JSX.Element {
+  return (
+    <div className="mx-auto max-w-xl space-y-6">
+      <AcceptInvitationCard token={token} />
+    </div>
+  );
+}
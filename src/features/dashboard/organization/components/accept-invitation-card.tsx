@@ -0,0 +1,72 @@
+// src/features/dashboard/organization/components/accept-invitation-card.tsx
+'use client';
+
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useAuth } from '@/features/auth/hooks';
+import { acceptOrganizationInvitation } from '@/features/organizations/actions';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Building2, Loader2 } from 'lucide-react';
+
+/**
+ * The submit button, showing a spinner while the invitation is being accepted.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Building2 className="mr-2 h-4 w-4" />}
+      Join workspace
+    </Button>
+  );
+}
+
+/**
+ * Card on the invitation page that accepts an emailed invitation with `acceptOrganizationInvitation`.
+ * Joining takes a click rather than happening on page load, so link scanners in mail clients
+ * cannot accept invitations. On success the action redirects to the workspace settings.
+ *
+ * @param {object} props - The component props.
+ * @param {string | null} props.token - The token from the invitation link.
+ * @returns {JSX.Element} The accept invitation card.
+ */
+export function AcceptInvitationCard({ token }: { token: string | null }): JSX.Element {
+  const { user } = useAuth();
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(acceptOrganizationInvitation, initialState);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Workspace Invitation
+        </CardTitle>
+        <CardDescription>
+          You have been invited to a workspace. The invitation must have been sent to {user?.email ?? 'your email address'}.
+        </CardDescription>
+      </CardHeader>
+      <form action={formAction}>
+        <CardContent>
+          {!token && (
+            <Alert variant="destructive">
+              <AlertDescription>This invitation link is incomplete. Open the link from the email again.</AlertDescription>
+            </Alert>
+          )}
+          {state?.message && !state.success && (
+            <Alert variant="destructive">
+              <AlertDescription>{state.message}</AlertDescription>
+            </Alert>
+          )}
+          <input type="hidden" name="token" value={token ?? ''} />
+        </CardContent>
+        <CardFooter>
+          {token && <SubmitButton />}
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
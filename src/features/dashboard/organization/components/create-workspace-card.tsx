@@ -0,0 +1,90 @@
+// src/features/dashboard/organization/components/create-workspace-card.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { createOrganization } from '@/features/organizations/actions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Building2, Loader2, Plus } from 'lucide-react';
+
+/**
+ * The submit button, showing a spinner while the workspace is being created.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+      Create workspace
+    </Button>
+  );
+}
+
+/**
+ * Card on the workspace settings page for creating a workspace with `createOrganization`.
+ * The creator becomes its owner and it becomes the active workspace, so all queries are refetched.
+ *
+ * @returns {JSX.Element} The create workspace card.
+ */
+export function CreateWorkspaceCard(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(createOrganization, initialState);
+  const nameError = state?.errorFields?.["name"];
+
+  useEffect(() => {
+    if (!state?.message) return;
+    if (state.success) {
+      toast({ title: "Workspace Created", description: state.message });
+      formRef.current?.reset();
+      queryClient.invalidateQueries();
+      router.refresh();
+    } else if (!state.errorFields) {
+      toast({ title: "Could Not Create Workspace", description: state.message, variant: "destructive" });
+    }
+  }, [state, toast, queryClient, router]);
+
+  return (
+    <Card id="create">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          New Workspace
+        </CardTitle>
+        <CardDescription>
+          Workspaces let you share with your team. You become the owner and can invite others.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form ref={formRef} action={formAction} className="flex flex-col gap-4 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              name="name"
+              type="text"
+              maxLength={80}
+              placeholder="Acme Inc."
+              required
+              aria-describedby={nameError ? "workspace-name-error" : undefined}
+            />
+            {nameError && <p id="workspace-name-error" className="text-sm text-destructive">{nameError}</p>}
+          </div>
+          <SubmitButton />
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,6 @@
+// src/features/dashboard/organization/components/index.ts
+export * from './accept-invitation-card';
+export * from './create-workspace-card';
+export * from './invite-member-card';
+export * from './pending-invitations-card';
+export * from './workspace-members-card';
@@ -0,0 +1,108 @@
+// src/features/dashboard/organization/components/invite-member-card.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { inviteOrganizationMember } from '@/features/organizations/actions';
+import { INVITABLE_ORGANIZATION_ROLES, ORGANIZATION_ROLE_LABELS } from '@/features/organizations/constants';
+import type { OrganizationMembershipSummary } from '@/features/organizations/types';
+import { getGrantableRoles } from '@/features/organizations/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, MailPlus } from 'lucide-react';
+
+/**
+ * The submit button, showing a spinner while the invitation is being sent.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MailPlus className="mr-2 h-4 w-4" />}
+      Send invitation
+    </Button>
+  );
+}
+
+/**
+ * Card on the workspace settings page for inviting someone by email with `inviteOrganizationMember`.
+ * Only rendered for owners and admins; the role list offers what the current user may grant.
+ * The invitation shows up in the pending list (`['organizationInvitations', id]` is invalidated).
+ *
+ * @param {object} props - The component props.
+ * @param {OrganizationMembershipSummary} props.organization - The active workspace.
+ * @returns {JSX.Element} The invite member card.
+ */
+export function InviteMemberCard({ organization }: { organization: OrganizationMembershipSummary }): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const formRef = useRef<HTMLFormElement>(null);
+  const roles = getGrantableRoles(organization.role, INVITABLE_ORGANIZATION_ROLES);
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(inviteOrganizationMember, initialState);
+  const errors = state?.errorFields;
+
+  useEffect(() => {
+    if (!state?.message) return;
+    if (state.success) {
+      toast({ title: "Invitation Sent", description: state.message });
+      formRef.current?.reset();
+      queryClient.invalidateQueries({ queryKey: ['organizationInvitations', organization.id] });
+    } else if (!state.errorFields) {
+      toast({ title: "Could Not Send Invitation", description: state.message, variant: "destructive" });
+    }
+  }, [state, toast, queryClient, organization.id]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MailPlus className="h-5 w-5" />
+          Invite Members
+        </CardTitle>
+        <CardDescription>
+          We email a link that lets the recipient join {organization.name} after signing in with that address.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form ref={formRef} action={formAction} className="grid gap-4 sm:grid-cols-[1fr_10rem_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="invitation-email">Email</Label>
+            <Input
+              id="invitation-email"
+              name="email"
+              type="email"
+              placeholder="teammate@example.com"
+              required
+              aria-describedby={errors?.["email"] ? "invitation-email-error" : undefined}
+            />
+            {errors?.["email"] && <p id="invitation-email-error" className="text-sm text-destructive">{errors["email"]}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invitation-role">Role</Label>
+            <Select name="role" defaultValue="member">
+              <SelectTrigger id="invitation-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map((role) => (
+                  <SelectItem key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors?.["role"] && <p className="text-sm text-destructive">{errors["role"]}</p>}
+          </div>
+          <SubmitButton />
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
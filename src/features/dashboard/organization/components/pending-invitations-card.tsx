@@ -0,0 +1,110 @@
+// src/features/dashboard/organization/components/pending-invitations-card.tsx
+'use client';
+
+import { useEffect } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { useOrganizationInvitationsQuery } from '@/features/organizations/hooks';
+import { revokeOrganizationInvitation } from '@/features/organizations/actions';
+import { ORGANIZATION_ROLE_LABELS } from '@/features/organizations/constants';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Ban, Loader2, Mail } from 'lucide-react';
+
+/**
+ * The withdraw button, showing a spinner while the invitation is being withdrawn.
+ * @returns {JSX.Element} The submit button.
+ */
+function WithdrawButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" size="sm" variant="outline" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+      Withdraw
+    </Button>
+  );
+}
+
+/**
+ * Card on the workspace settings page listing invitations that were not accepted yet, for owners
+ * and admins. Each can be withdrawn so its link stops working.
+ *
+ * @param {object} props - The component props.
+ * @param {string} props.organizationId - The ID of the active workspace.
+ * @returns {JSX.Element} The pending invitations card.
+ */
+export function PendingInvitationsCard({ organizationId }: { organizationId: string }): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: invitations, isLoading, error } = useOrganizationInvitationsQuery(organizationId);
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [revokeState, revokeAction] = useActionState(revokeOrganizationInvitation, initialState);
+
+  useEffect(() => {
+    if (!revokeState?.message) return;
+    if (revokeState.success) {
+      toast({ title: "Invitation Withdrawn", description: revokeState.message });
+    } else {
+      toast({ title: "Could Not Withdraw Invitation", description: revokeState.message, variant: "destructive" });
+    }
+    queryClient.invalidateQueries({ queryKey: ['organizationInvitations', organizationId] });
+  }, [revokeState, toast, queryClient, organizationId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Pending Invitations
+        </CardTitle>
+        <CardDescription>Invitations that have not been accepted yet, newest first.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && <Skeleton className="h-12 w-full" />}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not load invitations</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && invitations && invitations.length === 0 && (
+          <p className="text-sm text-muted-foreground">No pending invitations.</p>
+        )}
+
+        {!isLoading && !error && invitations && invitations.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {invitations.map((invitation) => (
+              <li key={invitation.id} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <p className="flex items-center gap-2 font-medium">
+                    {invitation.email}
+                    <Badge variant="secondary">{ORGANIZATION_ROLE_LABELS[invitation.role]}</Badge>
+                    {invitation.expired && <Badge variant="outline">Expired</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Sent {formatDistanceToNow(new Date(invitation.createdAt), { addSuffix: true })}
+                    {' · '}
+                    {invitation.expired ? 'expired' : 'expires'} {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <form action={revokeAction}>
+                  <input type="hidden" name="invitationId" value={invitation.id} />
+                  <WithdrawButton />
+                </form>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
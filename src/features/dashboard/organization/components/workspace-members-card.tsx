@@ -0,0 +1,161 @@
+// src/features/dashboard/organization/components/workspace-members-card.tsx
+'use client';
+
+import { useEffect } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/features/auth/hooks';
+import { useOrganizationMembersQuery } from '@/features/organizations/hooks';
+import { removeOrganizationMember, updateOrganizationMemberRole } from '@/features/organizations/actions';
+import { ORGANIZATION_ROLES, ORGANIZATION_ROLE_LABELS } from '@/features/organizations/constants';
+import type { OrganizationMembershipSummary } from '@/features/organizations/types';
+import { canManageOrganizationRole, getGrantableRoles } from '@/features/organizations/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, LogOut, Save, UserMinus, Users } from 'lucide-react';
+
+/**
+ * A submit button showing a spinner while its form is pending.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.icon - The icon shown when idle.
+ * @param {string} props.label - The button label.
+ * @returns {JSX.Element} The submit button.
+ */
+function PendingButton({ icon, label }: { icon: React.ReactNode; label: string }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" size="sm" variant="outline" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : icon}
+      {label}
+    </Button>
+  );
+}
+
+/**
+ * Card on the workspace settings page listing its members. Owners and admins can change the role
+ * of members they manage or remove them; everyone can leave. The database keeps at least one owner.
+ *
+ * @param {object} props - The component props.
+ * @param {OrganizationMembershipSummary} props.organization - The active workspace, with the user's role.
+ * @returns {JSX.Element} The members card.
+ */
+export function WorkspaceMembersCard({ organization }: { organization: OrganizationMembershipSummary }): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { data: members, isLoading, error } = useOrganizationMembersQuery(organization.id);
+  const grantableRoles = getGrantableRoles(organization.role, ORGANIZATION_ROLES);
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [roleState, roleAction] = useActionState(updateOrganizationMemberRole, initialState);
+  const [removeState, removeAction] = useActionState(removeOrganizationMember, initialState);
+
+  useEffect(() => {
+    if (!roleState?.message) return;
+    if (roleState.success) {
+      toast({ title: "Role Changed", description: roleState.message });
+    } else {
+      toast({ title: "Could Not Change Role", description: roleState.message, variant: "destructive" });
+    }
+    queryClient.invalidateQueries({ queryKey: ['organizationMembers', organization.id] });
+  }, [roleState, toast, queryClient, organization.id]);
+
+  useEffect(() => {
+    if (!removeState?.message) return;
+    if (!removeState.success) {
+      toast({ title: "Could Not Remove Member", description: removeState.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Member Removed", description: removeState.message });
+    // Leaving changes the active workspace, so everything that depends on it is reloaded.
+    queryClient.invalidateQueries();
+    router.refresh();
+  }, [removeState, toast, queryClient, router]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Members
+        </CardTitle>
+        <CardDescription>
+          Owners manage everyone, admins manage members and viewers, members use the workspace and viewers can only look.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not load members</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && members && (
+          <ul className="divide-y rounded-md border">
+            {members.map((member) => {
+              const isSelf = member.userId === user?.id;
+              const manageable = !isSelf && canManageOrganizationRole(organization.role, member.role);
+              return (
+                <li key={member.userId} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <p className="flex items-center gap-2 font-medium">
+                      {member.name ?? member.email}
+                      {isSelf && <span className="text-sm font-normal text-muted-foreground">(you)</span>}
+                      {!manageable && <Badge variant="secondary">{ORGANIZATION_ROLE_LABELS[member.role]}</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {member.name ? `${member.email} · ` : ''}joined {formatDistanceToNow(new Date(member.joinedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {manageable && (
+                      <form action={roleAction} className="flex gap-2">
+                        <input type="hidden" name="userId" value={member.userId} />
+                        <Select name="role" defaultValue={member.role}>
+                          <SelectTrigger className="h-9 w-32" aria-label={`Role of ${member.email}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {grantableRoles.map((role) => (
+                              <SelectItem key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <PendingButton icon={<Save className="mr-2 h-4 w-4" />} label="Save" />
+                      </form>
+                    )}
+                    {(manageable || isSelf) && (
+                      <form action={removeAction}>
+                        <input type="hidden" name="userId" value={member.userId} />
+                        {isSelf
+                          ? <PendingButton icon={<LogOut className="mr-2 h-4 w-4" />} label="Leave" />
+                          : <PendingButton icon={<UserMinus className="mr-2 h-4 w-4" />} label="Remove" />}
+                      </form>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
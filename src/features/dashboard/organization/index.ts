@@ -0,0 +1,3 @@
+// src/features/dashboard/organization/index.ts
+export * from './accept-invitation-view';
+export * from './organization-view';
@@ -0,0 +1,47 @@
+// src/features/dashboard/organization/organization-view.tsx
+'use client';
+
+import { useActiveOrganization } from '@/features/organizations/hooks';
+import { hasOrganizationRole } from '@/features/organizations/utils';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { CreateWorkspaceCard, InviteMemberCard, PendingInvitationsCard, WorkspaceMembersCard } from './components';
+
+/**
+ * Renders the settings of the active workspace within the dashboard: its members, and for owners
+ * and admins the invitation form and pending invitations. The form for creating another workspace
+ * is always shown, and is all there is for users without a workspace.
+ *
+ * @returns {JSX.Element} The workspace settings view.
+ */
+export function OrganizationView(): JSX.Element {
+  const { organization, isLoading, error } = useActiveOrganization();
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6">
+      {isLoading && <Skeleton className="h-40 w-full" />}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Could not load your workspaces</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {organization && (
+        <>
+          <h2 className="text-2xl font-semibold">{organization.name}</h2>
+          <WorkspaceMembersCard organization={organization} />
+          {hasOrganizationRole(organization.role, 'admin') && (
+            <>
+              <InviteMemberCard organization={organization} />
+              <PendingInvitationsCard organizationId={organization.id} />
+            </>
+          )}
+        </>
+      )}
+
+      <CreateWorkspaceCard />
+    </div>
+  );
+}
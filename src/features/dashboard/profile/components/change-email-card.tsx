@@ -0,0 +1,125 @@
+// src/features/dashboard/profile/components/change-email-card.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { requestEmailChange } from '@/features/auth/actions';
+import { EMAIL_CHANGE_RETURN_PATH, type EmailChangeStatus } from '@/features/auth/constants';
+import { useAuth, useRetryCountdown } from '@/features/auth/hooks';
+import { RetryCountdownNotice } from '@/features/auth/components';
+import { createClient } from '@/lib/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Mail, Send } from 'lucide-react';
+
+/**
+ * The submit button, showing a spinner while the request is pending.
+ * @param {object} props - The component props.
+ * @param {boolean} props.disabled - Whether the button is disabled, e.g. while rate limited.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+      Send confirmation links
+    </Button>
+  );
+}
+
+/**
+ * Card on the profile page for changing the account's email address.
+ * Submitting calls `requestEmailChange`, which sends confirmation links to both addresses.
+ * When the user comes back from a link, `/auth/confirm` reports the outcome as `emailChangeStatus`:
+ * on `complete` the browser session is refreshed (so `useAuth` sees the new address) and the cached
+ * profile (`['userProfile', id]`) is invalidated.
+ *
+ * @param {object} props - The component props.
+ * @param {EmailChangeStatus} [props.emailChangeStatus] - The outcome of the email change link the user just followed, if any.
+ * @returns {JSX.Element} The change email card.
+ */
+export function ChangeEmailCard({ emailChangeStatus }: { emailChangeStatus?: EmailChangeStatus }): JSX.Element {
+  const { toast } = useToast();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const formRef = useRef<HTMLFormElement>(null);
+  const handledStatusRef = useRef(false);
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(requestEmailChange, initialState);
+  const secondsLeft = useRetryCountdown(state);
+
+  useEffect(() => {
+    if (!state?.message) return;
+    if (state.success) {
+      toast({ title: "Check Both Inboxes", description: state.message, duration: 10000 });
+      formRef.current?.reset();
+    } else if (!state.errorFields && !state.retryAfterSeconds) {
+      toast({ title: "Email Change Failed", description: state.message, variant: "destructive" });
+    }
+  }, [state, toast]);
+
+  useEffect(() => {
+    if (!emailChangeStatus || !user || handledStatusRef.current) return;
+    handledStatusRef.current = true;
+
+    const finish = async () => {
+      if (emailChangeStatus === 'complete') {
+        // The new session cookies were written by /auth/confirm; refreshing emits TOKEN_REFRESHED
+        // with the updated user to AuthSessionProvider.
+        await createClient().auth.refreshSession();
+        await queryClient.invalidateQueries({ queryKey: ['userProfile', user.id] });
+        toast({ title: "Email Changed", description: "Your new email address is now active." });
+      } else {
+        toast({ title: "One More Step", description: "Link confirmed. Now click the link we sent to your other email address." });
+      }
+      router.replace(EMAIL_CHANGE_RETURN_PATH);
+    };
+    void finish();
+  }, [emailChangeStatus, user, queryClient, toast, router]);
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Change Email
+        </CardTitle>
+        <CardDescription>
+          Your current email is <span className="font-medium text-foreground">{user?.email ?? '…'}</span>.
+          We&apos;ll send a confirmation link to both your current and your new address; the change
+          takes effect once you&apos;ve clicked both.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form ref={formRef} action={formAction} className="space-y-4 max-w-sm">
+          <div className="space-y-2">
+            <Label htmlFor="change-email-address">New email address</Label>
+            <Input
+              id="change-email-address"
+              name="email"
+              type="email"
+              autoComplete="email"
+              placeholder="you@example.com"
+              required
+              aria-describedby={state?.errorFields?.["email"] ? "change-email-address-error" : undefined}
+            />
+            {state?.errorFields?.["email"] && (
+              <p id="change-email-address-error" className="text-sm text-destructive">{state.errorFields["email"]}</p>
+            )}
+          </div>
+          <RetryCountdownNotice secondsLeft={secondsLeft} />
+          <SubmitButton disabled={secondsLeft > 0} />
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+// src/features/dashboard/profile/components/delete-account-card.tsx
+'use client';
+
+import { useEffect } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useRouter } from 'next/navigation';
+import { requestAccountDeletion } from '@/features/user-auth-data/actions';
+import { ACCOUNT_DELETION_CONFIRMATION_PHRASE, ACCOUNT_DELETION_GRACE_PERIOD_DAYS } from '@/features/user-auth-data/constants';
+import { LOGIN_PATH } from '@/features/auth/utils/route-policy';
+import { useRetryCountdown } from '@/features/auth/hooks';
+import { RetryCountdownNotice } from '@/features/auth/components';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Trash2 } from 'lucide-react';
+
+/**
+ * The destructive submit button, showing a spinner while the deletion is pending.
+ * @param {object} props - The component props.
+ * @param {boolean} props.disabled - Whether the button is disabled, e.g. while rate limited.
+ * @returns {JSX.Element} The submit button.
+ */
+function DeleteButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" variant="destructive" disabled={pending || disabled}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+      Delete my account
+    </Button>
+  );
+}
+
+/**
+ * Card at the bottom of the profile page for deleting the account.
+ * Asks for the current password and the confirmation phrase, then calls `requestAccountDeletion`.
+ * On success every session is signed out server-side, so the card shows the restore deadline in
+ * a toast and sends the user to the login page.
+ *
+ * @returns {JSX.Element} The delete account card.
+ */
+export function DeleteAccountCard(): JSX.Element {
+  const { toast } = useToast();
+  const router = useRouter();
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(requestAccountDeletion, initialState);
+  const secondsLeft = useRetryCountdown(state);
+
+  useEffect(() => {
+    if (!state?.message) return;
+    if (state.success) {
+      toast({ title: "Account Deleted", description: state.message, duration: 10000 });
+      router.replace(LOGIN_PATH);
+      router.refresh();
+    } else if (!state.errorFields && !state.retryAfterSeconds) {
+      toast({ title: "Deletion Failed", description: state.message, variant: "destructive" });
+    }
+  }, [state, toast, router]);
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <Trash2 className="h-5 w-5" />
+          Delete Account
+        </CardTitle>
+        <CardDescription>
+          Your account will be deactivated and signed out everywhere. You can restore it by signing in
+          within {ACCOUNT_DELETION_GRACE_PERIOD_DAYS} days; after that, your profile, images and login are
+          permanently removed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form action={formAction} className="space-y-4 max-w-sm">
+          <div className="space-y-2">
+            <Label htmlFor="delete-account-password">Current password</Label>
+            <Input
+              id="delete-account-password"
+              name="password"
+              type="password"
+              autoComplete="current-password"
+              required
+              aria-describedby={state?.errorFields?.["password"] ? "delete-account-password-error" : undefined}
+            />
+            {state?.errorFields?.["password"] && (
+              <p id="delete-account-password-error" className="text-sm text-destructive">{state.errorFields["password"]}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delete-account-confirmation">
+              Type <span className="font-mono font-semibold">{ACCOUNT_DELETION_CONFIRMATION_PHRASE}</span> to confirm
+            </Label>
+            <Input
+              id="delete-account-confirmation"
+              name="confirmation"
+              type="text"
+              autoComplete="off"
+              required
+              aria-describedby={state?.errorFields?.["confirmation"] ? "delete-account-confirmation-error" : undefined}
+            />
+            {state?.errorFields?.["confirmation"] && (
+              <p id="delete-account-confirmation-error" className="text-sm text-destructive">{state.errorFields["confirmation"]}</p>
+            )}
+          </div>
+          <RetryCountdownNotice secondsLeft={secondsLeft} />
+          <DeleteButton disabled={secondsLeft > 0} />
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
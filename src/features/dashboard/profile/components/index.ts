@@ -6,4 +6,6 @@ export { default as ProfileBannerUploader } from "./profile-banner-uploader"; //
 export * from "./profile-avatar-uploader";
 export * from "./profile-subscription-details";
 export * from "./profile-account-info";
-export { default as ProfileAccountInfo } from "./profile-account-info"; // Explicitly re-export the default export
\ No newline at end of file
+export { default as ProfileAccountInfo } from "./profile-account-info"; // Explicitly re-export the default export
+export * from "./change-email-card";
+export * from "./delete-account-card";
@@ -1,6 +1,7 @@
 // src/features/dashboard/profile/components/profile-account-info.tsx
 import React from 'react';
 import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
 import { Briefcase, CalendarDays, Languages, UserCircle2 } from 'lucide-react';
 import { User } from '@supabase/supabase-js';
 import { UserProfile } from '@/features/user-auth-data/schemas'; // Assuming UserProfile is needed for types
@@ -23,6 +24,15 @@ const ProfileAccountInfo: React.FC<ProfileAccountInfoProps> = ({ currentFormValu
             <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Role</p>
             <p className="text-foreground bg-muted/30 p-2 rounded-md h-9 flex items-center">{currentFormValues.role ? currentFormValues.role.charAt(0).toUpperCase() + currentFormValues.role.slice(1) : 'User'}</p>
          </div>
+          {currentFormValues.phoneNumber && <div className="space-y-1">
+            <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Phone</p>
+            <p className="text-foreground bg-muted/30 p-2 rounded-md h-9 flex items-center gap-2">
+              {currentFormValues.phoneNumber}
+              {currentFormValues.phoneVerified
+                ? <Badge variant="secondary">Verified</Badge>
+                : <Badge variant="outline">Unverified</Badge>}
+            </p>
+          </div>}
           {currentFormValues.createdAt && <div className="space-y-1">
             <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Profile Created</p>
             <p className="text-foreground bg-muted/30 p-2 rounded-md h-9 flex items-center">{new Date(currentFormValues.createdAt).toLocaleDateString()}</p>
@@ -393,7 +393,7 @@ export function ProfileView() {
                         </FormControl>
                         <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                       </div>
-                      <FormDescription>Your email address cannot be changed here.</FormDescription>
+                      <FormDescription>To change your email address, use Change Email below.</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -0,0 +1,229 @@
+// src/features/dashboard/security/components/api-tokens-card.tsx
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/features/auth/hooks';
+import { useApiTokensQuery } from '@/features/api-tokens/hooks';
+import { createApiToken, revokeApiToken } from '@/features/api-tokens/actions';
+import {
+  API_TOKEN_DEFAULT_EXPIRY_DAYS,
+  API_TOKEN_EXPIRY_OPTIONS_DAYS,
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_DESCRIPTIONS,
+  type ApiTokenStatus,
+} from '@/features/api-tokens/constants';
+import type { ApiTokenActionState } from '@/features/api-tokens/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Ban, Copy, KeyRound, Loader2, Plus } from 'lucide-react';
+
+const STATUS_BADGES: Record<ApiTokenStatus, { label: string; variant: 'default' | 'outline' | 'destructive' }> = {
+  active: { label: 'Active', variant: 'default' },
+  expired: { label: 'Expired', variant: 'outline' },
+  revoked: { label: 'Revoked', variant: 'destructive' },
+};
+
+/**
+ * A submit button that displays a loading spinner while its form action is pending.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.icon - The icon shown when not pending.
+ * @param {React.ReactNode} props.children - The button label.
+ * @param {'default' | 'outline'} [props.variant] - The button variant.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton({ icon, children, variant = 'default' }: { icon: React.ReactNode; children: React.ReactNode; variant?: 'default' | 'outline' }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" size={variant === 'outline' ? 'sm' : 'default'} variant={variant} disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : icon}
+      {children}
+    </Button>
+  );
+}
+
+/**
+ * Card on the security page for personal access tokens, which let scripts and CI call the API
+ * (e.g. `GET /api/me`) with `Authorization: Bearer <token>`. A new token is shown once, right after
+ * it is created; the list shows each token's start, scopes, expiry and when it was last used.
+ * Tokens are loaded with `useApiTokensQuery` and refetched after each change.
+ *
+ * @returns {JSX.Element} The API tokens card.
+ */
+export function ApiTokensCard(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isGuest } = useAuth();
+  const { data: tokens, isLoading, error } = useApiTokensQuery(user?.id);
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const initialState: ApiTokenActionState = { message: null, success: false, errorFields: null, token: null };
+  const [createState, createAction] = useActionState(createApiToken, initialState);
+  const [revokeState, revokeAction] = useActionState(revokeApiToken, initialState);
+  const errors = createState?.errorFields;
+
+  useEffect(() => {
+    if (!createState?.message) return;
+    if (createState.success) {
+      formRef.current?.reset();
+      queryClient.invalidateQueries({ queryKey: ['apiTokens', user?.id] });
+    } else if (!createState.errorFields) {
+      toast({ title: "Could Not Create Token", description: createState.message, variant: "destructive" });
+    }
+  }, [createState, toast, queryClient, user?.id]);
+
+  useEffect(() => {
+    if (!revokeState?.message) return;
+    if (revokeState.success) {
+      toast({ title: "Token Revoked", description: revokeState.message });
+    } else {
+      toast({ title: "Could Not Revoke Token", description: revokeState.message, variant: "destructive" });
+    }
+    queryClient.invalidateQueries({ queryKey: ['apiTokens', user?.id] });
+  }, [revokeState, toast, queryClient, user?.id]);
+
+  const copyToken = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast({ title: "Token Copied", description: "Store it somewhere safe, such as your CI secrets." });
+    } catch {
+      toast({ title: "Could Not Copy Token", description: "Select the token and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Tokens
+        </CardTitle>
+        <CardDescription>
+          Personal access tokens let scripts and CI reach your account through the API. Send one as
+          <code className="mx-1">Authorization: Bearer &lt;token&gt;</code>; treat it like a password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isGuest ? (
+          <p className="text-sm text-muted-foreground">Save your account to create API tokens.</p>
+        ) : (
+          <form ref={formRef} action={createAction} className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                name="name"
+                maxLength={60}
+                placeholder="Nightly export"
+                required
+                aria-describedby={errors?.["name"] ? "api-token-name-error" : undefined}
+              />
+              {errors?.["name"] && <p id="api-token-name-error" className="text-sm text-destructive">{errors["name"]}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-token-expiry">Expires after</Label>
+              <Select name="expiresInDays" defaultValue={String(API_TOKEN_DEFAULT_EXPIRY_DAYS)}>
+                <SelectTrigger id="api-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {API_TOKEN_EXPIRY_OPTIONS_DAYS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <fieldset className="space-y-2 sm:col-span-2">
+              <legend className="text-sm font-medium">Scopes</legend>
+              {API_TOKEN_SCOPES.map((scope) => (
+                <div key={scope} className="flex items-center gap-2">
+                  <Checkbox id={`api-token-scope-${scope}`} name="scopes" value={scope} defaultChecked={scope === 'profile:read'} />
+                  <Label htmlFor={`api-token-scope-${scope}`} className="font-normal">
+                    <span className="font-mono">{scope}</span> · {API_TOKEN_SCOPE_DESCRIPTIONS[scope]}
+                  </Label>
+                </div>
+              ))}
+              {errors?.["scopes"] && <p className="text-sm text-destructive">{errors["scopes"]}</p>}
+            </fieldset>
+            <div className="sm:col-span-2">
+              <SubmitButton icon={<Plus className="mr-2 h-4 w-4" />}>Create token</SubmitButton>
+            </div>
+          </form>
+        )}
+
+        {createState?.success && createState.token && (
+          <Alert>
+            <AlertTitle>{createState.message}</AlertTitle>
+            <AlertDescription className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-center">
+              <code className="break-all rounded bg-muted px-2 py-1 font-mono text-sm">{createState.token}</code>
+              <Button type="button" size="sm" variant="outline" onClick={() => copyToken(createState.token!)}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && <Skeleton className="h-12 w-full" />}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not load API tokens</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && tokens && tokens.length === 0 && (
+          <p className="text-sm text-muted-foreground">No API tokens yet.</p>
+        )}
+
+        {!isLoading && !error && tokens && tokens.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {tokens.map((token) => {
+              const badge = STATUS_BADGES[token.status];
+              return (
+                <li key={token.id} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <p className="flex items-center gap-2 font-medium">
+                      {token.name}
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      <span className="font-mono">{token.tokenPrefix}…</span> · {token.scopes.join(', ')}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                        : 'Never used'}
+                      {' · '}
+                      {token.status === 'active'
+                        ? `expires ${formatDistanceToNow(new Date(token.expiresAt), { addSuffix: true })}`
+                        : `created ${formatDistanceToNow(new Date(token.createdAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  {token.status === 'active' && (
+                    <form action={revokeAction}>
+                      <input type="hidden" name="tokenId" value={token.id} />
+                      <SubmitButton icon={<Ban className="mr-2 h-4 w-4" />} variant="outline">Revoke</SubmitButton>
+                    </form>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
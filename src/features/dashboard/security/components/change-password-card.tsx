@@ -0,0 +1,193 @@
+// src/features/dashboard/security/components/change-password-card.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { changePassword, requestReauthenticationCode } from '@/features/auth/actions';
+import { useAuth, useRetryCountdown } from '@/features/auth/hooks';
+import { PasswordStrengthMeter, RetryCountdownNotice } from '@/features/auth/components';
+import { PASSWORD_POLICY } from '@/features/auth/constants';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { KeyRound, Loader2, Mail } from 'lucide-react';
+
+/**
+ * A submit button that displays a loading spinner while its form action is pending.
+ * @param {object} props - The component props.
+ * @param {boolean} props.disabled - Whether the button is disabled, e.g. while rate limited.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+      Change password
+    </Button>
+  );
+}
+
+/**
+ * A field error line, linked to its input through `aria-describedby`.
+ * @param {object} props - The component props.
+ * @param {string} props.id - The element ID.
+ * @param {string} [props.message] - The error message; nothing is rendered without one.
+ * @returns {JSX.Element | null} The error line.
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null;
+  return <p id={id} className="text-sm text-destructive">{message}</p>;
+}
+
+/**
+ * Card on the security page for changing the password while signed in.
+ * The user confirms it's them with the current password or, if they don't know it (e.g. after a
+ * social sign-up), with a code emailed by `requestReauthenticationCode`. `changePassword` then
+ * sets the new password, optionally signs out other devices, and emails a notification.
+ *
+ * @returns {JSX.Element} The change password card.
+ */
+export function ChangePasswordCard(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [useEmailCode, setUseEmailCode] = useState(false);
+  const [password, setPassword] = useState('');
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(changePassword, initialState);
+  const [codeState, requestCodeAction] = useActionState(requestReauthenticationCode, initialState);
+  const secondsLeft = useRetryCountdown(state);
+  const codeSecondsLeft = useRetryCountdown(codeState);
+  const errors = state?.errorFields;
+
+  useEffect(() => {
+    if (!state?.message) return;
+    if (state.success) {
+      toast({ title: "Password Changed", description: state.message });
+      formRef.current?.reset();
+      setPassword('');
+      setUseEmailCode(false);
+      queryClient.invalidateQueries({ queryKey: ['userSessions', user?.id] });
+    } else if (!state.errorFields && !state.retryAfterSeconds) {
+      toast({ title: "Password Change Failed", description: state.message, variant: "destructive" });
+    }
+  }, [state, toast, queryClient, user?.id]);
+
+  useEffect(() => {
+    if (!codeState?.message || codeState.retryAfterSeconds) return;
+    if (codeState.success) {
+      toast({ title: "Code Sent", description: codeState.message });
+      setUseEmailCode(true);
+    } else {
+      toast({ title: "Could Not Send Code", description: codeState.message, variant: "destructive" });
+    }
+  }, [codeState, toast]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Change Password
+        </CardTitle>
+        <CardDescription>
+          Choose a new password. We&apos;ll email you to confirm the change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form ref={formRef} action={formAction} className="space-y-4 max-w-sm">
+          {useEmailCode ? (
+            <div className="space-y-2">
+              <Label htmlFor="change-password-nonce">Verification code</Label>
+              <Input
+                id="change-password-nonce"
+                name="nonce"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                maxLength={6}
+                required
+                className="tracking-widest"
+                aria-describedby={errors?.["nonce"] ? "change-password-nonce-error" : undefined}
+              />
+              <FieldError id="change-password-nonce-error" message={errors?.["nonce"]} />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="change-password-current">Current password</Label>
+              <Input
+                id="change-password-current"
+                name="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                required
+                aria-describedby={errors?.["currentPassword"] ? "change-password-current-error" : undefined}
+              />
+              <FieldError id="change-password-current-error" message={errors?.["currentPassword"]} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="change-password-new">New password</Label>
+            <Input
+              id="change-password-new"
+              name="password"
+              type="password"
+              autoComplete="new-password"
+              required
+              minLength={PASSWORD_POLICY.minLength}
+              maxLength={PASSWORD_POLICY.maxLength}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              aria-describedby={errors?.["password"] ? "change-password-new-error" : "change-password-strength"}
+            />
+            <PasswordStrengthMeter password={password} id="change-password-strength" />
+            <FieldError id="change-password-new-error" message={errors?.["password"]} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="change-password-confirm">Confirm new password</Label>
+            <Input
+              id="change-password-confirm"
+              name="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              required
+              aria-describedby={errors?.["confirmPassword"] ? "change-password-confirm-error" : undefined}
+            />
+            <FieldError id="change-password-confirm-error" message={errors?.["confirmPassword"]} />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="change-password-sign-out" name="signOutOtherSessions" defaultChecked />
+            <Label htmlFor="change-password-sign-out" className="font-normal">
+              Sign out of all other devices
+            </Label>
+          </div>
+
+          <RetryCountdownNotice secondsLeft={secondsLeft} />
+          <SubmitButton disabled={secondsLeft > 0} />
+        </form>
+
+        {!useEmailCode && (
+          <form action={requestCodeAction} className="space-y-2">
+            <RetryCountdownNotice secondsLeft={codeSecondsLeft} />
+            <Button type="submit" variant="link" className="h-auto p-0 text-muted-foreground" disabled={codeSecondsLeft > 0}>
+              <Mail className="mr-2 h-4 w-4" />
+              Don&apos;t know your current password? Email me a code instead
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
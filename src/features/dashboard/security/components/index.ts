@@ -0,0 +1,7 @@
+// src/features/dashboard/security/components/index.ts
+export * from './api-tokens-card';
+export * from './change-password-card';
+export * from './login-history-card';
+export * from './mfa-settings-card';
+export * from './passkeys-card';
+export * from './sessions-card';
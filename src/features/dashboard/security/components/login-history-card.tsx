@@ -0,0 +1,103 @@
+// src/features/dashboard/security/components/login-history-card.tsx
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth, useAuthEventsQuery } from '@/features/auth/hooks';
+import { AUTH_EVENT_LABELS, AUTH_EVENT_RETENTION_DAYS, AUTH_SIGN_IN_METHOD_LABELS } from '@/features/auth/constants';
+import type { AuthEventSummary } from '@/features/auth/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { History } from 'lucide-react';
+
+/**
+ * Describes an event for the "Event" column, adding the sign-in method where there is one.
+ * @param {AuthEventSummary} event - The event.
+ * @returns {string} The event description, e.g. "Sign in · Magic link".
+ */
+function describeEvent(event: AuthEventSummary): string {
+  const label = AUTH_EVENT_LABELS[event.type] ?? event.type;
+  const method = event.method ? AUTH_SIGN_IN_METHOD_LABELS[event.method] : undefined;
+  return method ? `${label} · ${method}` : label;
+}
+
+/**
+ * Card on the security page showing the user's recent authentication events from the audit log:
+ * sign-ins (including failed attempts against their email address), sign-outs and credential changes,
+ * with the device and IP address of each.
+ * Events are loaded with `useAuthEventsQuery`.
+ *
+ * @returns {JSX.Element} The login history card.
+ */
+export function LoginHistoryCard(): JSX.Element {
+  const { user } = useAuth();
+  const { data: events, isLoading, error } = useAuthEventsQuery(user?.id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Login History
+        </CardTitle>
+        <CardDescription>
+          Recent activity on your account from the last {AUTH_EVENT_RETENTION_DAYS} days. If you see a
+          sign-in you don&apos;t recognise, change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="space-y-3">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not load your login history</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && events && events.length === 0 && (
+          <p className="text-sm text-muted-foreground">No activity recorded yet.</p>
+        )}
+
+        {!isLoading && !error && events && events.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Device</TableHead>
+                <TableHead>IP address</TableHead>
+                <TableHead>When</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="font-medium">{describeEvent(event)}</TableCell>
+                  <TableCell>
+                    {event.outcome === 'success'
+                      ? <Badge variant="secondary">Success</Badge>
+                      : <Badge variant="destructive">Failed</Badge>}
+                  </TableCell>
+                  <TableCell>{event.browser} on {event.os}</TableCell>
+                  <TableCell>{event.ipAddress ?? 'Unknown'}</TableCell>
+                  <TableCell title={new Date(event.createdAt).toLocaleString()}>
+                    {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
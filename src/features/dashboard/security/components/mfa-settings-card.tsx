@@ -0,0 +1,184 @@
+// src/features/dashboard/security/components/mfa-settings-card.tsx
+'use client';
+
+import React, { useEffect, useState, useTransition } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth, useMfaFactorsQuery } from '@/features/auth/hooks';
+import { startTotpEnrollment, verifyTotpEnrollment, unenrollTotpFactor } from '@/features/auth/actions';
+import type { TotpEnrollment } from '@/features/auth/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Hash, Loader2, ShieldCheck, ShieldOff, Smartphone } from 'lucide-react';
+
+/**
+ * A submit button that displays a loading spinner while its form action is pending.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.icon - The icon shown when not pending.
+ * @param {React.ReactNode} props.children - The button label.
+ * @param {'default' | 'destructive'} [props.variant] - The button variant.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton({ icon, children, variant = 'default' }: { icon: React.ReactNode; children: React.ReactNode; variant?: 'default' | 'destructive' }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" variant={variant} disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : icon}
+      {children}
+    </Button>
+  );
+}
+
+/**
+ * Card on the security page for managing two-factor authentication with an authenticator app.
+ * Shows the enrolled app with a remove button, or a setup flow: a QR code (and the secret for
+ * manual entry) followed by a code to verify. Enrollment and removal run through Server Actions;
+ * the list of factors is loaded with `useMfaFactorsQuery` and refetched after each change.
+ *
+ * @returns {JSX.Element} The MFA settings card.
+ */
+export function MfaSettingsCard(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { data: factors, isLoading, error } = useMfaFactorsQuery(user?.id);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [isStarting, startTransition] = useTransition();
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [verifyState, verifyAction] = useActionState(verifyTotpEnrollment, initialState);
+  const [unenrollState, unenrollAction] = useActionState(unenrollTotpFactor, initialState);
+
+  const enrolledFactor = factors?.find((factor) => factor.factorType === 'totp');
+
+  useEffect(() => {
+    if (!verifyState?.message) return;
+    if (verifyState.success) {
+      toast({ title: "Two-Factor Enabled", description: verifyState.message });
+      setEnrollment(null);
+      queryClient.invalidateQueries({ queryKey: ['mfaFactors', user?.id] });
+    } else {
+      toast({ title: "Verification Failed", description: verifyState.message, variant: "destructive" });
+    }
+  }, [verifyState, toast, queryClient, user?.id]);
+
+  useEffect(() => {
+    if (!unenrollState?.message) return;
+    if (unenrollState.success) {
+      toast({ title: "Two-Factor Disabled", description: unenrollState.message });
+      queryClient.invalidateQueries({ queryKey: ['mfaFactors', user?.id] });
+    } else {
+      toast({ title: "Could Not Remove App", description: unenrollState.message, variant: "destructive" });
+    }
+  }, [unenrollState, toast, queryClient, user?.id]);
+
+  const handleStartEnrollment = () => {
+    startTransition(async () => {
+      const result = await startTotpEnrollment();
+      if (result.error) {
+        toast({ title: "Setup Failed", description: result.error, variant: "destructive" });
+        return;
+      }
+      setEnrollment(result);
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Smartphone className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app, in addition to your password, when you log in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <Skeleton className="h-10 w-full" />}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not load your settings</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && enrolledFactor && (
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <p className="font-medium">{enrolledFactor.friendlyName || 'Authenticator app'}</p>
+              <p className="text-sm text-muted-foreground">
+                Enabled on {new Date(enrolledFactor.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+            <form action={unenrollAction}>
+              <input type="hidden" name="factorId" value={enrolledFactor.id} />
+              <SubmitButton variant="destructive" icon={<ShieldOff className="mr-2 h-4 w-4" />}>
+                Remove
+              </SubmitButton>
+            </form>
+          </div>
+        )}
+
+        {!isLoading && !error && !enrolledFactor && !enrollment && (
+          <Button type="button" onClick={handleStartEnrollment} disabled={isStarting}>
+            {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+            Set up authenticator app
+          </Button>
+        )}
+
+        {!enrolledFactor && enrollment?.factorId && (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+              </p>
+              {/* The QR code is an SVG data URI returned by Supabase, so next/image is not needed. */}
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={enrollment.qrCode} alt="QR code for your authenticator app" className="h-48 w-48 rounded-md border bg-white p-2" />
+              <p className="text-sm text-muted-foreground">
+                Can&apos;t scan it? Enter this key instead:{' '}
+                <code className="break-all rounded bg-muted px-1 py-0.5 font-mono text-foreground">{enrollment.secret}</code>
+              </p>
+            </div>
+            <form action={verifyAction} className="space-y-4">
+              <input type="hidden" name="factorId" value={enrollment.factorId} />
+              <div className="space-y-2">
+                <Label htmlFor="mfa-code">Authentication code</Label>
+                <div className="relative max-w-xs">
+                  <Hash className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    id="mfa-code"
+                    name="code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    maxLength={6}
+                    required
+                    className="pl-10 tracking-widest"
+                    aria-describedby={verifyState?.errorFields?.["code"] ? "mfa-code-error" : undefined}
+                  />
+                </div>
+                {verifyState?.errorFields?.["code"] && <p id="mfa-code-error" className="text-sm text-destructive">{verifyState.errorFields["code"]}</p>}
+              </div>
+              <div className="flex gap-2">
+                <SubmitButton icon={<ShieldCheck className="mr-2 h-4 w-4" />}>Verify and enable</SubmitButton>
+                <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
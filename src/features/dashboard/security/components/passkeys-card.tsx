@@ -0,0 +1,225 @@
+// src/features/dashboard/security/components/passkeys-card.tsx
+'use client';
+
+import React, { useEffect, useState, useTransition } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth, usePasskeysQuery } from '@/features/auth/hooks';
+import { finishPasskeyRegistration, removePasskey, renamePasskey, startPasskeyRegistration } from '@/features/auth/actions';
+import { parseUserAgent } from '@/features/auth/utils/user-agent';
+import { createPasskey, isWebAuthnSupported } from '@/lib/webauthn/browser';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Fingerprint, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+/**
+ * A submit button that displays a loading spinner while its form action is pending.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.icon - The icon shown when not pending.
+ * @param {React.ReactNode} props.children - The button label.
+ * @param {'outline' | 'destructive'} [props.variant] - The button variant.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton({ icon, children, variant = 'outline' }: { icon: React.ReactNode; children: React.ReactNode; variant?: 'outline' | 'destructive' }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" size="sm" variant={variant} disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : icon}
+      {children}
+    </Button>
+  );
+}
+
+/**
+ * Card on the security page for managing passkeys. Lists each passkey with its name, when it was
+ * added and when it was last used; passkeys can be renamed inline and removed. Adding one asks for a
+ * name (suggested from this browser, e.g. "Chrome on macOS"), then runs the browser's passkey dialog
+ * between `startPasskeyRegistration` and `finishPasskeyRegistration`.
+ * Passkeys are loaded with `usePasskeysQuery` and refetched after each change.
+ *
+ * @returns {JSX.Element} The passkeys card.
+ */
+export function PasskeysCard(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { data: passkeys, isLoading, error } = usePasskeysQuery(user?.id);
+  const [isSupported, setIsSupported] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, startTransition] = useTransition();
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [renameState, renameAction] = useActionState(renamePasskey, initialState);
+  const [removeState, removeAction] = useActionState(removePasskey, initialState);
+
+  useEffect(() => {
+    setIsSupported(isWebAuthnSupported());
+    const { browser, os } = parseUserAgent(navigator.userAgent);
+    setNewName(`${browser} on ${os}`);
+  }, []);
+
+  useEffect(() => {
+    if (!renameState?.message) return;
+    if (renameState.success) {
+      toast({ title: "Passkey Renamed", description: renameState.message });
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ['passkeys', user?.id] });
+    } else {
+      toast({ title: "Could Not Rename Passkey", description: renameState.message, variant: "destructive" });
+    }
+  }, [renameState, toast, queryClient, user?.id]);
+
+  useEffect(() => {
+    if (!removeState?.message) return;
+    if (removeState.success) {
+      toast({ title: "Passkey Removed", description: removeState.message });
+    } else {
+      toast({ title: "Could Not Remove Passkey", description: removeState.message, variant: "destructive" });
+    }
+    queryClient.invalidateQueries({ queryKey: ['passkeys', user?.id] });
+  }, [removeState, toast, queryClient, user?.id]);
+
+  const handleAdd = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    startTransition(async () => {
+      const { options, error: startError } = await startPasskeyRegistration();
+      if (!options) {
+        toast({ title: "Could Not Add Passkey", description: startError ?? "Please try again.", variant: "destructive" });
+        return;
+      }
+
+      let response;
+      try {
+        response = await createPasskey(options);
+      } catch (ceremonyError) {
+        toast({
+          title: "Passkey Not Added",
+          description: ceremonyError instanceof DOMException && ceremonyError.name === 'InvalidStateError'
+            ? "This device already has a passkey for your account."
+            : "The passkey dialog was closed before a passkey was created.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const result = await finishPasskeyRegistration(response, newName);
+      if (result.success) {
+        toast({ title: "Passkey Added", description: result.message ?? undefined });
+        queryClient.invalidateQueries({ queryKey: ['passkeys', user?.id] });
+      } else {
+        toast({ title: "Could Not Add Passkey", description: result.message ?? undefined, variant: "destructive" });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          Passkeys
+        </CardTitle>
+        <CardDescription>
+          Log in with your fingerprint, face or device PIN instead of your password. Your password keeps working.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <Skeleton className="h-12 w-full" />}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not load your passkeys</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && passkeys && passkeys.length === 0 && (
+          <p className="text-sm text-muted-foreground">You haven&apos;t added any passkeys yet.</p>
+        )}
+
+        {!isLoading && !error && passkeys && passkeys.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {passkeys.map((passkey) => (
+              <li key={passkey.id} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+                {editingId === passkey.id ? (
+                  <form action={renameAction} className="flex flex-1 flex-col gap-2 sm:flex-row sm:items-center">
+                    <input type="hidden" name="passkeyId" value={passkey.id} />
+                    <Label htmlFor={`passkey-name-${passkey.id}`} className="sr-only">Passkey name</Label>
+                    <Input
+                      id={`passkey-name-${passkey.id}`}
+                      name="deviceName"
+                      defaultValue={passkey.deviceName}
+                      maxLength={50}
+                      required
+                      autoFocus
+                      className="sm:max-w-xs"
+                    />
+                    <div className="flex gap-2">
+                      <SubmitButton icon={<Check className="mr-2 h-4 w-4" />}>Save</SubmitButton>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                ) : (
+                  <>
+                    <div>
+                      <p className="font-medium">{passkey.deviceName}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Added {new Date(passkey.createdAt).toLocaleDateString()}
+                        {' · '}
+                        {passkey.lastUsedAt
+                          ? `Last used ${formatDistanceToNow(new Date(passkey.lastUsedAt), { addSuffix: true })}`
+                          : 'Never used'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button type="button" size="sm" variant="outline" onClick={() => setEditingId(passkey.id)}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Rename
+                      </Button>
+                      <form action={removeAction}>
+                        <input type="hidden" name="passkeyId" value={passkey.id} />
+                        <SubmitButton variant="destructive" icon={<Trash2 className="mr-2 h-4 w-4" />}>Remove</SubmitButton>
+                      </form>
+                    </div>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isSupported ? (
+          <form onSubmit={handleAdd} className="space-y-2">
+            <Label htmlFor="new-passkey-name">Name for the new passkey</Label>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                id="new-passkey-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                maxLength={50}
+                required
+                className="sm:max-w-xs"
+              />
+              <Button type="submit" disabled={isAdding || !newName.trim()}>
+                {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Add a passkey
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-muted-foreground">This browser doesn&apos;t support passkeys.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+// src/features/dashboard/security/components/sessions-card.tsx
+'use client';
+
+import React, { useEffect } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth, useUserSessionsQuery } from '@/features/auth/hooks';
+import { revokeUserSession, signOutOtherSessions } from '@/features/auth/actions';
+import type { UserSessionSummary } from '@/features/auth/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Laptop, Loader2, LogOut, MonitorSmartphone, Smartphone, Tablet } from 'lucide-react';
+
+const DEVICE_ICONS: Record<UserSessionSummary['deviceType'], React.ElementType> = {
+  desktop: Laptop,
+  mobile: Smartphone,
+  tablet: Tablet,
+  unknown: MonitorSmartphone,
+};
+
+/**
+ * A submit button that displays a loading spinner while its form action is pending.
+ * @param {object} props - The component props.
+ * @param {React.ReactNode} props.children - The button label.
+ * @param {'outline' | 'destructive'} [props.variant] - The button variant.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton({ children, variant = 'outline' }: { children: React.ReactNode; variant?: 'outline' | 'destructive' }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" size="sm" variant={variant} disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+      {children}
+    </Button>
+  );
+}
+
+/**
+ * Card on the security page listing the user's active sessions: device, browser, IP address
+ * and last activity. Other sessions can be signed out one at a time or all at once; the current
+ * session is marked and can only be ended with the regular sign-out.
+ * Sessions are loaded with `useUserSessionsQuery` and refetched after each change.
+ *
+ * @returns {JSX.Element} The sessions card.
+ */
+export function SessionsCard(): JSX.Element {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { data: sessions, isLoading, error } = useUserSessionsQuery(user?.id);
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [revokeState, revokeAction] = useActionState(revokeUserSession, initialState);
+  const [signOutOthersState, signOutOthersAction] = useActionState(signOutOtherSessions, initialState);
+
+  const hasOtherSessions = !!sessions?.some((session) => !session.isCurrent);
+
+  useEffect(() => {
+    if (!revokeState?.message) return;
+    if (revokeState.success) {
+      toast({ title: "Device Signed Out", description: revokeState.message });
+    } else {
+      toast({ title: "Could Not Sign Out Device", description: revokeState.message, variant: "destructive" });
+    }
+    queryClient.invalidateQueries({ queryKey: ['userSessions', user?.id] });
+  }, [revokeState, toast, queryClient, user?.id]);
+
+  useEffect(() => {
+    if (!signOutOthersState?.message) return;
+    if (signOutOthersState.success) {
+      toast({ title: "Other Devices Signed Out", description: signOutOthersState.message });
+      queryClient.invalidateQueries({ queryKey: ['userSessions', user?.id] });
+    } else {
+      toast({ title: "Could Not Sign Out Devices", description: signOutOthersState.message, variant: "destructive" });
+    }
+  }, [signOutOthersState, toast, queryClient, user?.id]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices that are currently signed in to your account. Sign out any you don&apos;t recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Could not load your sessions</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && sessions && (
+          <ul className="divide-y rounded-md border">
+            {sessions.map((session) => {
+              const DeviceIcon = DEVICE_ICONS[session.deviceType];
+              return (
+                <li key={session.id} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="flex items-start gap-3">
+                    <DeviceIcon className="mt-0.5 h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="flex items-center gap-2 font-medium">
+                        {session.browser} on {session.os}
+                        {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {session.ipAddress ?? 'Unknown IP'}
+                        {' · '}
+                        {session.lastSeenAt
+                          ? `Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`
+                          : `Signed in ${formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.isCurrent && (
+                    <form action={revokeAction}>
+                      <input type="hidden" name="sessionId" value={session.id} />
+                      <SubmitButton>Sign out</SubmitButton>
+                    </form>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {hasOtherSessions && (
+          <form action={signOutOthersAction}>
+            <SubmitButton variant="destructive">Sign out of all other devices</SubmitButton>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
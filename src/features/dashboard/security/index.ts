@@ -0,0 +1,2 @@
+// src/features/dashboard/security/index.ts
+export * from './security-view';
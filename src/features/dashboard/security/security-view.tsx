@@ -0,0 +1,24 @@
+// src/features/dashboard/security/security-view.tsx
+'use client';
+
+import { ApiTokensCard, ChangePasswordCard, LoginHistoryCard, MfaSettingsCard, PasskeysCard, SessionsCard } from './components';
+
+/**
+ * Renders the account security settings within the dashboard.
+ * Groups the password change form, the two-factor authentication settings, the passkeys, the list of
+ * active sessions, the login history and the personal access tokens for the API.
+ *
+ * @returns {JSX.Element} The security settings view.
+ */
+export function SecurityView(): JSX.Element {
+  return (
+    <div className="mx-auto max-w-3xl space-y-6">
+      <ChangePasswordCard />
+      <MfaSettingsCard />
+      <PasskeysCard />
+      <SessionsCard />
+      <LoginHistoryCard />
+      <ApiTokensCard />
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+// src/features/dashboard/upgrade/components/index.ts
+export * from './save-guest-account-card';
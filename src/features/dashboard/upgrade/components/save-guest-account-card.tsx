@@ -0,0 +1,172 @@
+// src/features/dashboard/upgrade/components/save-guest-account-card.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { upgradeGuestWithEmail, upgradeGuestWithOAuth } from '@/features/auth/actions';
+import type { EmailChangeStatus } from '@/features/auth/constants';
+import { useAuth, useRetryCountdown } from '@/features/auth/hooks';
+import { OAuthProviderButtons, RetryCountdownNotice } from '@/features/auth/components';
+import { GUEST_UPGRADE_PATH } from '@/features/auth/utils/route-policy';
+import { createClient } from '@/lib/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle2, KeyRound, Loader2, Save, Send } from 'lucide-react';
+
+/**
+ * The submit button, showing a spinner while the request is pending.
+ * @param {object} props - The component props.
+ * @param {boolean} props.disabled - Whether the button is disabled, e.g. while rate limited.
+ * @returns {JSX.Element} The submit button.
+ */
+function SubmitButton({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending || disabled}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+      Send confirmation link
+    </Button>
+  );
+}
+
+/**
+ * Card on the upgrade page that turns a guest session into a permanent account, keeping the user ID
+ * and everything created as a guest. The guest either confirms an email address (`upgradeGuestWithEmail`)
+ * or links a social login (`upgradeGuestWithOAuth`). When the confirmation link brings them back,
+ * `/auth/confirm` reports `emailChangeStatus`; on `complete` the browser session is refreshed and the
+ * cached profile (`['userProfile', id]`) is invalidated.
+ * Once the account is saved, the card points to the security page for setting a password.
+ *
+ * @param {object} props - The component props.
+ * @param {EmailChangeStatus} [props.emailChangeStatus] - The outcome of the confirmation link the user just followed, if any.
+ * @returns {JSX.Element} The save guest account card.
+ */
+export function SaveGuestAccountCard({ emailChangeStatus }: { emailChangeStatus?: EmailChangeStatus }): JSX.Element {
+  const { toast } = useToast();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user, isGuest, isSessionLoading } = useAuth();
+  const formRef = useRef<HTMLFormElement>(null);
+  const handledStatusRef = useRef(false);
+
+  const initialState = { message: null, success: false, errorFields: null };
+  const [state, formAction] = useActionState(upgradeGuestWithEmail, initialState);
+  const secondsLeft = useRetryCountdown(state);
+
+  useEffect(() => {
+    if (!state?.message) return;
+    if (state.success) {
+      toast({ title: "Check Your Inbox", description: state.message, duration: 10000 });
+      formRef.current?.reset();
+    } else if (!state.errorFields && !state.retryAfterSeconds) {
+      toast({ title: "Could Not Save Account", description: state.message, variant: "destructive" });
+    }
+  }, [state, toast]);
+
+  useEffect(() => {
+    if (emailChangeStatus !== 'complete' || !user || handledStatusRef.current) return;
+    handledStatusRef.current = true;
+
+    const finish = async () => {
+      // The new session cookies were written by /auth/confirm; refreshing emits TOKEN_REFRESHED
+      // with the now permanent user to AuthSessionProvider.
+      await createClient().auth.refreshSession();
+      await queryClient.invalidateQueries({ queryKey: ['userProfile', user.id] });
+      toast({ title: "Account Saved", description: "Your email address is confirmed and your guest data is kept." });
+      router.replace(GUEST_UPGRADE_PATH);
+    };
+    void finish();
+  }, [emailChangeStatus, user, queryClient, toast, router]);
+
+  if (isSessionLoading) {
+    return (
+      <Card>
+        <CardContent className="space-y-3 pt-6">
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!isGuest) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CheckCircle2 className="h-5 w-5" />
+            Your Account Is Saved
+          </CardTitle>
+          <CardDescription>
+            {user?.email
+              ? <>You can sign in as <span className="font-medium text-foreground">{user.email}</span>. </>
+              : null}
+            To sign in with a password too, set one on the security page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          <Button asChild>
+            <Link href="/dashboard/security">
+              <KeyRound className="mr-2 h-4 w-4" />
+              Set a password
+            </Link>
+          </Button>
+          <Button asChild variant="outline">
+            <Link href="/dashboard">Back to the dashboard</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Save className="h-5 w-5" />
+          Save Your Guest Account
+        </CardTitle>
+        <CardDescription>
+          You&apos;re using a guest account. Add an email address or a social login to keep everything
+          you&apos;ve done so far and sign in again later. Logging out of a guest account loses it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {user?.new_email && (
+          <p role="status" className="text-sm text-muted-foreground">
+            We&apos;ve sent a confirmation link to <span className="font-medium text-foreground">{user.new_email}</span>.
+            Click it to finish saving your account, or enter another address below.
+          </p>
+        )}
+        <form ref={formRef} action={formAction} className="space-y-4 max-w-sm">
+          <div className="space-y-2">
+            <Label htmlFor="guest-upgrade-email">Email address</Label>
+            <Input
+              id="guest-upgrade-email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              placeholder="you@example.com"
+              required
+              aria-describedby={state?.errorFields?.["email"] ? "guest-upgrade-email-error" : undefined}
+            />
+            {state?.errorFields?.["email"] && (
+              <p id="guest-upgrade-email-error" className="text-sm text-destructive">{state.errorFields["email"]}</p>
+            )}
+          </div>
+          <RetryCountdownNotice secondsLeft={secondsLeft} />
+          <SubmitButton disabled={secondsLeft > 0} />
+        </form>
+        <OAuthProviderButtons action={upgradeGuestWithOAuth} dividerLabel="Or link" />
+      </CardContent>
+    </Card>
+  );
+}
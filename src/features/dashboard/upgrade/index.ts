@@ -0,0 +1,2 @@
+// src/features/dashboard/upgrade/index.ts
+export * from './upgrade-view';
@@ -0,0 +1,21 @@
+// src/features/dashboard/upgrade/upgrade-view.tsx
+'use client';
+
+import type { EmailChangeStatus } from '@/features/auth/constants';
+import { SaveGuestAccountCard } from './components';
+
+/**
+ * Renders the page where guests save their account within the dashboard.
+ * Guests are sent here from pages that need a permanent account (see the route policies).
+ *
+ * @param {object} props - The component props.
+ * @param {EmailChangeStatus} [props.emailChangeStatus] - The outcome of the confirmation link the user just followed, if any.
+ * @returns {JSX.Element} The upgrade view.
+ */
+export function UpgradeView({ emailChangeStatus }: { emailChangeStatus?: EmailChangeStatus }): JSX.Element {
+  return (
+    <div className="mx-auto max-w-3xl space-y-6">
+      <SaveGuestAccountCard emailChangeStatus={emailChangeStatus} />
+    </div>
+  );
+}
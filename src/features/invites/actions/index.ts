@@ -0,0 +1,2 @@
+// src/features/invites/actions/index.ts
+export * from './invite.actions';
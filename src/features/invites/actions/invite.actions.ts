@@ -0,0 +1,113 @@
+// src/features/invites/actions/invite.actions.ts
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { AuthActionState } from "@/features/auth/types";
+import * as inviteService from '../services/invite.service';
+import { CreateInviteSchema, inviteIdSchema } from "../schemas/invite.schema";
+import { generateInviteCode } from "../utils/invite-code";
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('InviteActions');
+
+/**
+ * Returns the current user if they are an admin (`app_metadata.role`, which only the service role can set).
+ * Row Level Security enforces the same rule; this check gives a clear message instead of an empty result.
+ *
+ * @returns {Promise<{ id: string } | null>} The admin user, or null.
+ */
+async function getCurrentAdmin(): Promise<{ id: string } | null> {
+  const supabase = await createClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user || user.app_metadata?.['role'] !== 'admin') {
+    return null;
+  }
+  return { id: user.id };
+}
+
+/**
+ * Server Action for admins to create an invite.
+ * The code is generated on the server. The invite can be bound to one email address, allow
+ * several uses, and expire after a number of days (0 for never).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'maxUses', 'expiresInDays' and optionally 'email' and 'note'.
+ * @returns {Promise<AuthActionState>} The new state, with the new code in the message on success.
+ */
+export async function createInvite(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const admin = await getCurrentAdmin();
+  if (!admin) {
+    logger.warn('Invite creation attempted by a non-admin user.');
+    return { success: false, message: "Only admins can create invites." };
+  }
+
+  const validation = CreateInviteSchema.safeParse({
+    email: formData.get("email") ?? undefined,
+    maxUses: formData.get("maxUses"),
+    expiresInDays: formData.get("expiresInDays"),
+    note: formData.get("note") || undefined,
+  });
+  if (!validation.success) {
+    const fieldErrors = validation.error.flatten().fieldErrors;
+    logger.warn('Invite creation validation failed.', { fields: Object.keys(fieldErrors) });
+    return {
+      success: false,
+      message: "Please check the highlighted fields.",
+      errorFields: Object.fromEntries(
+        Object.entries(fieldErrors).map(([field, messages]) => [field, (messages ?? []).join(", ")]),
+      ),
+    };
+  }
+
+  const { email, maxUses, expiresInDays, note } = validation.data;
+  const code = generateInviteCode();
+  const expiresAt = expiresInDays > 0
+    ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  const { error } = await inviteService.createInviteWithSupabase({
+    code,
+    email: email ?? null,
+    maxUses,
+    expiresAt,
+    note: note || null,
+    createdBy: admin.id,
+  });
+  if (error) {
+    return { success: false, message: "The invite could not be created. Please try again." };
+  }
+
+  logger.info(`Invite created by admin: ${admin.id}`);
+  return { success: true, message: `Invite ${code} created.` };
+}
+
+/**
+ * Server Action for admins to revoke an invite. Accounts already created with it are kept.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'inviteId'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function revokeInvite(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const admin = await getCurrentAdmin();
+  if (!admin) {
+    logger.warn('Invite revocation attempted by a non-admin user.');
+    return { success: false, message: "Only admins can revoke invites." };
+  }
+
+  const idValidation = inviteIdSchema.safeParse(formData.get("inviteId"));
+  if (!idValidation.success) {
+    return { success: false, message: idValidation.error.errors.map((e) => e.message).join(", ") };
+  }
+
+  const { revoked, error } = await inviteService.revokeInviteWithSupabase(idValidation.data);
+  if (error) {
+    return { success: false, message: "The invite could not be revoked. Please try again." };
+  }
+  if (!revoked) {
+    return { success: false, message: "This invite was not found or is already revoked." };
+  }
+
+  logger.info(`Invite ${idValidation.data} revoked by admin: ${admin.id}`);
+  return { success: true, message: "The invite has been revoked." };
+}
@@ -0,0 +1,2 @@
+// src/features/invites/constants/index.ts
+export * from './invites';
@@ -0,0 +1,47 @@
+// src/features/invites/constants/invites.ts
+
+/**
+ * Who can create an account, chosen with `REGISTRATION_MODE`:
+ * - `open`: anyone (the default).
+ * - `invite-only`: only people with a valid invite code.
+ * - `closed`: nobody; existing users can still sign in.
+ */
+export type RegistrationMode = 'open' | 'invite-only' | 'closed';
+
+export const REGISTRATION_MODES: readonly RegistrationMode[] = ['open', 'invite-only', 'closed'];
+
+/** The query parameter (and form field) carrying an invite code, e.g. `/register?invite=ABCD-EFGH-JKLM`. */
+export const INVITE_CODE_PARAM = 'invite';
+
+/** Why `claim_invite` refused a code; `ok` means a use was reserved. */
+export type InviteClaimStatus = 'ok' | 'invalid' | 'revoked' | 'expired' | 'exhausted' | 'email_mismatch';
+
+/** User-facing messages for refused invite codes. */
+export const INVITE_CLAIM_ERROR_MESSAGES: Record<Exclude<InviteClaimStatus, 'ok'>, string> = {
+  invalid: 'This invite code is not valid.',
+  revoked: 'This invite has been revoked.',
+  expired: 'This invite has expired.',
+  exhausted: 'This invite has already been used.',
+  email_mismatch: 'This invite was issued for a different email address.',
+};
+
+/** Why a sign-up was refused by the registration mode. */
+export type RegistrationRefusal = Exclude<InviteClaimStatus, 'ok'> | 'closed' | 'invite_required' | 'unavailable';
+
+/** User-facing messages for refused sign-ups, including refused invite codes. */
+export const REGISTRATION_REFUSAL_MESSAGES: Record<RegistrationRefusal, string> = {
+  ...INVITE_CLAIM_ERROR_MESSAGES,
+  closed: 'Registration is currently closed.',
+  invite_required: 'An invite is required to create an account.',
+  unavailable: 'Your invite could not be checked. Please try again.',
+};
+
+/** The query parameter `/auth/callback` uses to tell the registration page why a social sign-up was refused. */
+export const REGISTRATION_ERROR_PARAM = 'registration_error';
+
+/** The state of an invite as shown to admins. */
+export type InviteStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+export const INVITE_DEFAULT_EXPIRY_DAYS = 14;
+export const INVITE_MAX_EXPIRY_DAYS = 365;
+export const INVITE_MAX_USES = 1000;
@@ -0,0 +1,2 @@
+// src/features/invites/hooks/index.ts
+export * from './use-invites-query';
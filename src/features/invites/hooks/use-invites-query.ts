@@ -0,0 +1,22 @@
+// src/features/invites/hooks/use-invites-query.ts
+'use client';
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { getInvites } from '../queries/invite.queries';
+import { type InviteSummary } from '../types';
+
+/**
+ * Custom hook to fetch all invites for the admin invites page using TanStack Query.
+ *
+ * @param userId - The ID of the signed-in admin. The query is enabled only if it is provided.
+ * @returns The TanStack Query result, with `data` holding the invites.
+ */
+export const useInvitesQuery = (
+  userId: string | null | undefined,
+): UseQueryResult<InviteSummary[], Error> => {
+  return useQuery<InviteSummary[], Error, InviteSummary[], (string | null | undefined)[]>({
+    queryKey: ['invites', userId],
+    queryFn: () => getInvites(),
+    enabled: !!userId,
+  });
+};
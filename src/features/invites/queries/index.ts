@@ -0,0 +1,2 @@
+// src/features/invites/queries/index.ts
+export * from "./invite.queries";
@@ -0,0 +1,39 @@
+// src/features/invites/queries/invite.queries.ts
+"use server";
+
+import * as inviteService from '../services/invite.service';
+import type { InviteSummary } from '../types';
+import { getInviteStatus } from '../utils/invite-status';
+
+/**
+ * Server Action to get all invites with their redemption status, for the admin invites page.
+ * This function is intended to be used as a queryFn for TanStack Query.
+ *
+ * @returns {Promise<InviteSummary[]>} The invites, newest first.
+ * @throws {Error} If the invites cannot be listed.
+ */
+export async function getInvites(): Promise<InviteSummary[]> {
+  const { data, error } = await inviteService.listInvitesWithSupabase();
+  if (error || !data) {
+    throw new Error(`Failed to load invites: ${error?.message ?? 'no data returned'}`);
+  }
+
+  const now = new Date();
+  return data.map((invite) => {
+    const summary = {
+      id: invite.id,
+      code: invite.code,
+      email: invite.email,
+      maxUses: invite.max_uses,
+      useCount: invite.use_count,
+      expiresAt: invite.expires_at,
+      revokedAt: invite.revoked_at,
+      note: invite.note,
+      createdAt: invite.created_at,
+      redemptions: invite.invite_redemptions
+        .map((redemption) => ({ email: redemption.email, userId: redemption.user_id, redeemedAt: redemption.redeemed_at }))
+        .sort((a, b) => b.redeemedAt.localeCompare(a.redeemedAt)),
+    };
+    return { ...summary, status: getInviteStatus(summary, now) };
+  });
+}
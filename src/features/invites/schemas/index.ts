@@ -0,0 +1,2 @@
+// src/features/invites/schemas/index.ts
+export * from './invite.schema';
@@ -0,0 +1,45 @@
+// src/features/invites/schemas/invite.schema.ts
+import { z } from 'zod';
+import { INVITE_MAX_EXPIRY_DAYS, INVITE_MAX_USES } from '../constants/invites';
+
+/**
+ * Schema for an invite code typed or pasted by a user. Codes are case-insensitive.
+ */
+export const inviteCodeSchema = z
+  .string({ required_error: 'An invite code is required.' })
+  .trim()
+  .min(1, { message: 'An invite code is required.' })
+  .max(64, { message: 'This invite code is not valid.' })
+  .transform((code) => code.toUpperCase());
+
+/**
+ * Schema for the admin form that creates an invite.
+ * An empty email creates an invite anyone can redeem; `expiresInDays` of 0 creates one that never expires.
+ */
+export const CreateInviteSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email({ message: 'Invalid email address.' })
+    .optional()
+    .or(z.literal('').transform(() => undefined)),
+  maxUses: z.coerce
+    .number({ invalid_type_error: 'Enter a number of uses.' })
+    .int({ message: 'Enter a whole number of uses.' })
+    .min(1, { message: 'An invite must allow at least one use.' })
+    .max(INVITE_MAX_USES, { message: `An invite can allow at most ${INVITE_MAX_USES} uses.` }),
+  expiresInDays: z.coerce
+    .number({ invalid_type_error: 'Enter a number of days.' })
+    .int({ message: 'Enter a whole number of days.' })
+    .min(0, { message: 'Enter 0 for an invite that never expires.' })
+    .max(INVITE_MAX_EXPIRY_DAYS, { message: `An invite can last at most ${INVITE_MAX_EXPIRY_DAYS} days.` }),
+  note: z.string().trim().max(200, { message: 'The note must be at most 200 characters.' }).optional(),
+});
+
+export type CreateInviteInput = z.infer<typeof CreateInviteSchema>;
+
+/**
+ * Schema for the ID of an invite to revoke.
+ */
+export const inviteIdSchema = z.string().uuid({ message: 'Invalid invite.' });
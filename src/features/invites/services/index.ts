@@ -0,0 +1,2 @@
+// src/features/invites/services/index.ts
+export * from './invite.service';
@@ -0,0 +1,127 @@
+// src/features/invites/services/invite.service.ts
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('InviteService');
+
+/**
+ * An invite row with its redemptions, as selected by `listInvitesWithSupabase`.
+ */
+export interface InviteRow {
+  id: string;
+  code: string;
+  email: string | null;
+  max_uses: number;
+  use_count: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  note: string | null;
+  created_at: string;
+  invite_redemptions: { email: string; user_id: string | null; redeemed_at: string }[];
+}
+
+/**
+ * Lists all invites with their redemptions, newest first.
+ * Row Level Security only returns rows to admins; for anyone else the list is empty.
+ * Logs the attempt and the outcome.
+ *
+ * @returns {Promise<{ data: InviteRow[] | null, error: Error | null }>} The invites, or an error.
+ */
+export async function listInvitesWithSupabase() {
+  logger.info('Listing invites.');
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('invites')
+    .select('id, code, email, max_uses, use_count, expires_at, revoked_at, note, created_at, invite_redemptions (email, user_id, redeemed_at)')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error({
+      message: 'Listing invites failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  const invites = (data ?? []) as InviteRow[];
+  logger.info(`Listing invites successful. Invite count: ${invites.length}`);
+  return { data: invites, error: null };
+}
+
+/**
+ * Creates an invite on behalf of the current admin.
+ * Logs the attempt and the outcome (never the code).
+ *
+ * @param {object} invite - The invite to create.
+ * @param {string} invite.code - The invite code.
+ * @param {string | null} invite.email - The only address allowed to redeem it, or null for anyone.
+ * @param {number} invite.maxUses - How many accounts may redeem it.
+ * @param {string | null} invite.expiresAt - When it expires (ISO string), or null for never.
+ * @param {string | null} invite.note - A note for other admins.
+ * @param {string} invite.createdBy - The ID of the admin creating it.
+ * @returns {Promise<{ error: Error | null }>} An error if the invite could not be created.
+ */
+export async function createInviteWithSupabase(invite: {
+  code: string;
+  email: string | null;
+  maxUses: number;
+  expiresAt: string | null;
+  note: string | null;
+  createdBy: string;
+}) {
+  logger.info('Creating invite.', { emailBound: !!invite.email, maxUses: invite.maxUses, expiresAt: invite.expiresAt });
+  const supabase = await createClient();
+  const { error } = await supabase.from('invites').insert({
+    code: invite.code,
+    email: invite.email,
+    max_uses: invite.maxUses,
+    expires_at: invite.expiresAt,
+    note: invite.note,
+    created_by: invite.createdBy,
+  });
+
+  if (error) {
+    logger.error({
+      message: 'Creating invite failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+  } else {
+    logger.info('Invite created.');
+  }
+  return { error };
+}
+
+/**
+ * Revokes an invite so it can no longer be redeemed. Accounts already created with it are kept.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} inviteId - The ID of the invite to revoke.
+ * @returns {Promise<{ revoked: boolean, error: Error | null }>} Whether an active invite was revoked, or an error.
+ */
+export async function revokeInviteWithSupabase(inviteId: string) {
+  logger.info(`Revoking invite: ${inviteId}`);
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    logger.error({
+      message: `Revoking invite ${inviteId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { revoked: false, error };
+  }
+
+  const revoked = (data ?? []).length > 0;
+  logger.info(`Invite revocation completed. Revoked: ${revoked}`);
+  return { revoked, error: null };
+}
@@ -0,0 +1,2 @@
+// src/features/invites/types/index.ts
+export * from './invite.types';
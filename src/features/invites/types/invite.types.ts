@@ -0,0 +1,29 @@
+// src/features/invites/types/invite.types.ts
+import type { InviteStatus } from '../constants/invites';
+
+/**
+ * An account created with an invite.
+ */
+export interface InviteRedemptionSummary {
+  email: string;
+  userId: string | null;
+  redeemedAt: string;
+}
+
+/**
+ * An invite as listed on the admin invites page.
+ */
+export interface InviteSummary {
+  id: string;
+  code: string;
+  /** The only address that can redeem the invite, or null for anyone. */
+  email: string | null;
+  maxUses: number;
+  useCount: number;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  note: string | null;
+  createdAt: string;
+  status: InviteStatus;
+  redemptions: InviteRedemptionSummary[];
+}
@@ -0,0 +1,2 @@
+// src/features/invites/utils/index.ts
+export * from './invite-status';
@@ -0,0 +1,20 @@
+// src/features/invites/utils/invite-code.ts
+import { randomInt } from 'crypto';
+
+// Server-only (Node crypto). Not part of the utils barrel, which client components import.
+
+/** Letters and digits without look-alikes (0/O, 1/I/L), so codes can be read out or retyped. */
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_GROUPS = 3;
+const INVITE_CODE_GROUP_LENGTH = 4;
+
+/**
+ * Generates a random invite code such as `K7QM-3XRA-P9TW` (about 59 bits of entropy).
+ * @returns {string} The invite code, uppercase.
+ */
+export function generateInviteCode(): string {
+  const groups = Array.from({ length: INVITE_CODE_GROUPS }, () =>
+    Array.from({ length: INVITE_CODE_GROUP_LENGTH }, () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]).join(''),
+  );
+  return groups.join('-');
+}
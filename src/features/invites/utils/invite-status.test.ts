@@ -0,0 +1,20 @@
+import { getInviteStatus } from './invite-status';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const active = { revokedAt: null, expiresAt: '2026-11-02T12:00:00Z', useCount: 0, maxUses: 1 };
+
+describe('getInviteStatus', () => {
+  it('reports invites that can still be redeemed as active', () => {
+    expect(getInviteStatus(active, NOW)).toBe('active');
+    expect(getInviteStatus({ ...active, expiresAt: null, useCount: 4, maxUses: 5 }, NOW)).toBe('active');
+  });
+
+  it('reports expired and used-up invites', () => {
+    expect(getInviteStatus({ ...active, expiresAt: '2026-10-19T12:00:00Z' }, NOW)).toBe('expired');
+    expect(getInviteStatus({ ...active, useCount: 1 }, NOW)).toBe('exhausted');
+  });
+
+  it('reports revocation before any other state', () => {
+    expect(getInviteStatus({ ...active, revokedAt: '2026-10-18T00:00:00Z', expiresAt: '2026-10-01T00:00:00Z', useCount: 1 }, NOW)).toBe('revoked');
+  });
+});
@@ -0,0 +1,24 @@
+// src/features/invites/utils/invite-status.ts
+import type { InviteStatus } from '../constants/invites';
+
+/**
+ * Works out whether an invite can still be redeemed, with the same precedence as `claim_invite`:
+ * revoked, then expired, then used up.
+ *
+ * @param {object} invite - The invite's limits.
+ * @param {string | null} invite.revokedAt - When the invite was revoked, if it was.
+ * @param {string | null} invite.expiresAt - When the invite expires, if ever.
+ * @param {number} invite.useCount - How many accounts have redeemed it.
+ * @param {number} invite.maxUses - How many accounts may redeem it.
+ * @param {Date} [now=new Date()] - The current time.
+ * @returns {InviteStatus} The invite's status.
+ */
+export function getInviteStatus(
+  invite: { revokedAt: string | null; expiresAt: string | null; useCount: number; maxUses: number },
+  now: Date = new Date(),
+): InviteStatus {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.expiresAt && new Date(invite.expiresAt).getTime() <= now.getTime()) return 'expired';
+  if (invite.useCount >= invite.maxUses) return 'exhausted';
+  return 'active';
+}
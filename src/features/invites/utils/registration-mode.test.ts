@@ -0,0 +1,21 @@
+import { getAdmissionRefusal } from './registration-mode';
+
+const admitted = { app_metadata: { provider: 'email', admitted: true } };
+const notAdmitted = { app_metadata: { provider: 'email' } };
+
+describe('getAdmissionRefusal', () => {
+  it('lets every account in while registration is open', () => {
+    expect(getAdmissionRefusal(notAdmitted, 'open')).toBeNull();
+  });
+
+  it('only lets admitted accounts in otherwise, however old they are', () => {
+    expect(getAdmissionRefusal(admitted, 'invite-only')).toBeNull();
+    expect(getAdmissionRefusal(admitted, 'closed')).toBeNull();
+    expect(getAdmissionRefusal(notAdmitted, 'invite-only')).toBe('invite_required');
+    expect(getAdmissionRefusal(notAdmitted, 'closed')).toBe('closed');
+  });
+
+  it('only counts an admitted flag that is exactly true', () => {
+    expect(getAdmissionRefusal({ app_metadata: { admitted: 'true' } }, 'invite-only')).toBe('invite_required');
+  });
+});
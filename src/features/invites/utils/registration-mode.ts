@@ -0,0 +1,41 @@
+// src/features/invites/utils/registration-mode.ts
+import type { User } from '@supabase/supabase-js';
+import { REGISTRATION_MODES, type RegistrationMode, type RegistrationRefusal } from '../constants/invites';
+
+// No server-only imports: the middleware runs this on every request.
+
+/**
+ * Returns the registration mode from `REGISTRATION_MODE`, defaulting to `open`.
+ * @returns {RegistrationMode} The registration mode.
+ */
+export function getRegistrationMode(): RegistrationMode {
+  const mode = process.env['REGISTRATION_MODE'] as RegistrationMode | undefined;
+  return mode && REGISTRATION_MODES.includes(mode) ? mode : 'open';
+}
+
+/**
+ * Whether the account was admitted by the registration mode: `app_metadata.admitted`, which only
+ * the service role can set (see `admitUser`). Accounts Supabase created without going through
+ * the app's sign-up flows (e.g. a direct call to its `/signup` endpoint) do not have it.
+ *
+ * @param {Pick<User, 'app_metadata'>} user - The user.
+ * @returns {boolean} True if the account was admitted.
+ */
+export function isAdmittedUser(user: Pick<User, 'app_metadata'>): boolean {
+  return user.app_metadata?.['admitted'] === true;
+}
+
+/**
+ * Returns why a signed-in account may not be used under the registration mode: while registration
+ * is not open, only admitted accounts (`isAdmittedUser`) can use the app.
+ *
+ * @param {Pick<User, 'app_metadata'>} user - The signed-in user.
+ * @param {RegistrationMode} mode - The registration mode.
+ * @returns {RegistrationRefusal | null} The refusal, or null if the account may be used.
+ */
+export function getAdmissionRefusal(user: Pick<User, 'app_metadata'>, mode: RegistrationMode): RegistrationRefusal | null {
+  if (mode === 'open' || isAdmittedUser(user)) {
+    return null;
+  }
+  return mode === 'closed' ? 'closed' : 'invite_required';
+}
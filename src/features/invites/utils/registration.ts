@@ -0,0 +1,154 @@
+// src/features/invites/utils/registration.ts
+import type { User } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getServerLogger } from '@/lib/logger';
+import type { InviteClaimStatus, RegistrationRefusal } from '../constants/invites';
+import { getRegistrationMode, isAdmittedUser } from './registration-mode';
+
+// Deliberately not a "use server" module: it claims invites with the service role, and its
+// exports would otherwise become endpoints callable from the browser.
+
+export { getRegistrationMode } from './registration-mode';
+
+const logger = getServerLogger('Registration');
+
+/**
+ * Marks an account as admitted by the registration mode (`app_metadata.admitted`), which the
+ * middleware requires while registration is not open. Failures are logged.
+ *
+ * @param {string} userId - The user's ID.
+ * @returns {Promise<boolean>} True if the account was marked.
+ */
+export async function admitUser(userId: string): Promise<boolean> {
+  const admin = createAdminClient();
+  const { error } = await admin.auth.admin.updateUserById(userId, { app_metadata: { admitted: true } });
+  if (error) {
+    logger.error({
+      message: `Admitting the account ${userId} failed.`,
+      error: { name: error.name, message: error.message, status: error.status },
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Reserves one use of an invite for a sign-up, through the `claim_invite` database function.
+ * Give the use back with `releaseInvite` if the sign-up then fails.
+ *
+ * @param {string} code - The invite code.
+ * @param {string} email - The email address signing up, checked against the invite's email binding.
+ * @returns {Promise<{ inviteId: string | null, status: InviteClaimStatus }>} The claimed invite, or why it was refused.
+ * @throws {Error} If the database call fails.
+ */
+export async function claimInvite(code: string, email: string): Promise<{ inviteId: string | null; status: InviteClaimStatus }> {
+  const admin = createAdminClient();
+  const { data, error } = await admin.rpc('claim_invite', { p_code: code, p_email: email });
+  if (error) {
+    throw new Error(`Failed to claim invite: ${error.message}`);
+  }
+
+  const row = (data as { invite_id: string | null; status: InviteClaimStatus }[] | null)?.[0];
+  const result = { inviteId: row?.invite_id ?? null, status: row?.status ?? 'invalid' };
+  logger.info(`Invite claim for ${email.substring(0, 3)}...: ${result.status}`);
+  return result;
+}
+
+/**
+ * Gives back an invite use reserved by `claimInvite`. Best effort: failures are logged.
+ *
+ * @param {string} inviteId - The invite ID.
+ * @returns {Promise<void>}
+ */
+export async function releaseInvite(inviteId: string): Promise<void> {
+  const admin = createAdminClient();
+  const { error } = await admin.rpc('release_invite', { p_invite_id: inviteId });
+  if (error) {
+    logger.error({
+      message: `Releasing invite ${inviteId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+    });
+  }
+}
+
+/**
+ * Records which account redeemed an invite, for the admin invites list. Best effort: failures are logged.
+ *
+ * @param {string} inviteId - The invite ID.
+ * @param {string | null} userId - The new user's ID, if Supabase returned it.
+ * @param {string} email - The email address the account was created with.
+ * @returns {Promise<void>}
+ */
+export async function recordInviteRedemption(inviteId: string, userId: string | null, email: string): Promise<void> {
+  const admin = createAdminClient();
+  const { error } = await admin
+    .from('invite_redemptions')
+    .insert({ invite_id: inviteId, user_id: userId, email: email.toLowerCase() });
+  if (error) {
+    logger.error({
+      message: `Recording the redemption of invite ${inviteId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+    });
+  }
+}
+
+/**
+ * Applies the registration mode to a user who just signed in with OAuth. Supabase creates the
+ * account before the app sees it, so an account that was never admitted (see `admitUser`) is
+ * admitted now if the mode allows it (registration open, or a valid invite), and deleted otherwise.
+ *
+ * @param {User} user - The user returned by the code exchange.
+ * @param {string | null} inviteCode - The invite code carried through the OAuth redirect, if any.
+ * @returns {Promise<{ allowed: true } | { allowed: false, reason: RegistrationRefusal }>} Whether the user may keep the account.
+ */
+export async function admitOAuthUser(
+  user: User,
+  inviteCode: string | null,
+): Promise<{ allowed: true } | { allowed: false; reason: RegistrationRefusal }> {
+  if (isAdmittedUser(user)) {
+    return { allowed: true };
+  }
+
+  const mode = getRegistrationMode();
+  if (mode === 'open') {
+    // The middleware does not check admission while registration is open, so a failure here is only logged.
+    await admitUser(user.id);
+    return { allowed: true };
+  }
+
+  let reason: RegistrationRefusal = 'closed';
+  if (mode === 'invite-only') {
+    reason = 'invite_required';
+    if (inviteCode) {
+      try {
+        const { inviteId, status } = await claimInvite(inviteCode, user.email ?? '');
+        if (inviteId && status === 'ok') {
+          if (await admitUser(user.id)) {
+            await recordInviteRedemption(inviteId, user.id, user.email ?? '');
+            return { allowed: true };
+          }
+          await releaseInvite(inviteId);
+          reason = 'unavailable';
+        } else {
+          reason = status === 'ok' ? 'invalid' : status;
+        }
+      } catch (error) {
+        logger.error({
+          message: 'Claiming an invite for an OAuth sign-up failed.',
+          error: { name: (error as Error).name, message: (error as Error).message },
+        });
+        reason = 'unavailable';
+      }
+    }
+  }
+
+  logger.warn(`Removing OAuth account not admitted while registration is ${mode} (${reason}). User ID: ${user.id}`);
+  const { error } = await createAdminClient().auth.admin.deleteUser(user.id);
+  if (error) {
+    logger.error({
+      message: `Deleting the OAuth account ${user.id} failed.`,
+      error: { name: error.name, message: error.message, status: error.status },
+    });
+  }
+  return { allowed: false, reason };
+}
@@ -0,0 +1,2 @@
+// src/features/organizations/actions/index.ts
+export * from './organization.actions';
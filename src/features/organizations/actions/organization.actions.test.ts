@@ -0,0 +1,194 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import {
+  acceptOrganizationInvitation,
+  createOrganization,
+  inviteOrganizationMember,
+  switchActiveOrganization,
+} from './organization.actions';
+import { getOrganizationMembers, getUserOrganizations } from '../queries/organization.queries';
+import { getActiveOrganization } from '../utils/active-organization';
+import { ACTIVE_ORGANIZATION_COOKIE } from '../constants/organizations';
+import { FakeSupabase, type FakeRow } from '@/lib/supabase/testing';
+import type { EmailMessage } from '@/lib/email';
+
+const mockRequestHeaders = new Headers({ origin: 'http://localhost:9002' });
+const mockCookies = new Map<string, string>();
+const mockSentEmails: EmailMessage[] = [];
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(() => mockRequestHeaders),
+  cookies: jest.fn(() => ({
+    get: (name: string) => (mockCookies.has(name) ? { name, value: mockCookies.get(name) } : undefined),
+    set: (name: string, value: string) => mockCookies.set(name, value),
+  })),
+}));
+
+jest.mock('@/lib/email', () => ({
+  getEmailSender: () => ({ send: async (message: EmailMessage) => { mockSentEmails.push(message); } }),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  getServerLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const initialState = { success: false, message: null };
+
+function form(fields: Record<string, string>): FormData {
+  const formData = new FormData();
+  Object.keys(fields).forEach((name) => formData.set(name, fields[name]!));
+  return formData;
+}
+
+/** Resolves to the redirect target when the action redirects, as `redirect()` throws. */
+async function redirectOf(action: Promise<unknown>): Promise<string | null> {
+  try {
+    await action;
+    return null;
+  } catch (error) {
+    const digest = (error as { digest?: string }).digest ?? '';
+    if (!digest.startsWith('NEXT_REDIRECT')) throw error;
+    return digest.split(';')[2] ?? null;
+  }
+}
+
+/** The token from the invitation link in the last email sent to `to`. */
+function invitationToken(to: string): string {
+  const email = mockSentEmails.filter((message) => message.to === to).pop();
+  const link = email?.text.match(/http\S+/)?.[0];
+  return new URL(link!).searchParams.get('token')!;
+}
+
+/**
+ * Implements the database functions of the organizations migration on the fake database,
+ * with the same rules, so the actions run against them end to end.
+ */
+function defineOrganizationFunctions(supabase: FakeSupabase, emails: Map<string, string>): void {
+  const { db } = supabase;
+  const roleOf = (organizationId: unknown, userId: string | null) =>
+    db.rows('organization_members').find((row) => row['organization_id'] === organizationId && row['user_id'] === userId)?.['role'] ?? null;
+
+  db.defineRpc('create_organization', ({ p_name }, { userId }) => {
+    if (!userId) throw new PostgrestError({ code: '42501', message: 'not authenticated', details: '', hint: '' });
+    const organization = db.insertRow('organizations', { name: p_name, created_by: userId });
+    db.insertRow('organization_members', { organization_id: organization['id'], user_id: userId, role: 'owner' });
+    return organization['id'];
+  });
+
+  db.defineRpc('list_organization_members', ({ p_organization_id }, { userId }) => {
+    if (!roleOf(p_organization_id, userId)) return [];
+    return db.rows('organization_members')
+      .filter((row) => row['organization_id'] === p_organization_id)
+      .map((row: FakeRow) => ({
+        user_id: row['user_id'],
+        role: row['role'],
+        email: emails.get(row['user_id'] as string),
+        first_name: null,
+        last_name: null,
+        joined_at: row['created_at'],
+      }));
+  });
+
+  db.defineRpc('accept_organization_invitation', ({ p_token_hash }, { userId }) => {
+    const invitation = db.rows('organization_invitations').find((row) => row['token_hash'] === p_token_hash);
+    if (!invitation || !userId) return [{ organization_id: null, status: 'invalid' }];
+    const email = emails.get(userId) || null;
+    if (email === null || invitation['email'] !== email) return [{ organization_id: null, status: 'email_mismatch' }];
+    invitation['accepted_at'] = new Date().toISOString();
+    db.insertRow('organization_members', { organization_id: invitation['organization_id'], user_id: userId, role: invitation['role'] });
+    return [{ organization_id: invitation['organization_id'], status: 'ok' }];
+  });
+}
+
+describe('organization actions against the fake Supabase', () => {
+  let supabase: FakeSupabase;
+  const emails = new Map<string, string>();
+
+  function signIn(email: string): string {
+    const user = supabase.auth.findUserByEmail(email) ?? supabase.auth.createUser({ email });
+    emails.set(user.id, email);
+    supabase.auth.setCurrentUser(user.id);
+    mockCookies.clear();
+    return user.id;
+  }
+
+  beforeEach(() => {
+    supabase = new FakeSupabase();
+    supabase.install();
+    defineOrganizationFunctions(supabase, emails);
+    mockCookies.clear();
+    mockSentEmails.length = 0;
+  });
+
+  afterEach(() => supabase.uninstall());
+
+  it('creates a workspace, invites a teammate by email and lets them join', async () => {
+    const ownerId = signIn('ada@example.com');
+    expect(await createOrganization(initialState, form({ name: 'Analytical Engines' }))).toEqual(expect.objectContaining({ success: true }));
+    const organizationId = supabase.db.rows('organizations')[0]!['id'];
+    expect(mockCookies.get(ACTIVE_ORGANIZATION_COOKIE)).toBe(organizationId);
+
+    const invite = await inviteOrganizationMember(initialState, form({ email: 'Grace@Example.com', role: 'member' }));
+    expect(invite).toEqual(expect.objectContaining({ success: true, message: 'Invitation sent to grace@example.com.' }));
+    const token = invitationToken('grace@example.com');
+    expect(supabase.db.rows('organization_invitations')).toEqual([
+      expect.objectContaining({ organization_id: organizationId, email: 'grace@example.com', role: 'member', invited_by: ownerId }),
+    ]);
+    expect(JSON.stringify(supabase.db.rows('organization_invitations'))).not.toContain(token);
+
+    const memberId = signIn('grace@example.com');
+    expect(await redirectOf(acceptOrganizationInvitation(initialState, form({ token })))).toBe('/dashboard/organization');
+    expect(await getActiveOrganization()).toEqual({ id: organizationId, name: 'Analytical Engines', role: 'member', userId: memberId });
+    expect(await getOrganizationMembers()).toEqual([
+      expect.objectContaining({ userId: ownerId, email: 'ada@example.com', role: 'owner' }),
+      expect.objectContaining({ userId: memberId, email: 'grace@example.com', role: 'member' }),
+    ]);
+  });
+
+  it('refuses an invitation sent to another address', async () => {
+    signIn('ada@example.com');
+    await createOrganization(initialState, form({ name: 'Analytical Engines' }));
+    await inviteOrganizationMember(initialState, form({ email: 'grace@example.com', role: 'viewer' }));
+    const token = invitationToken('grace@example.com');
+
+    const intruderId = signIn('mallory@example.com');
+    const result = await acceptOrganizationInvitation(initialState, form({ token }));
+
+    expect(result).toEqual(expect.objectContaining({ success: false, message: expect.stringContaining('different email address') }));
+    expect(supabase.db.rows('organization_members').some((row) => row['user_id'] === intruderId)).toBe(false);
+  });
+
+  it('refuses an invitation to users without an email address', async () => {
+    signIn('ada@example.com');
+    await createOrganization(initialState, form({ name: 'Analytical Engines' }));
+    await inviteOrganizationMember(initialState, form({ email: 'grace@example.com', role: 'member' }));
+    const token = invitationToken('grace@example.com');
+
+    // A phone-only account: its session carries no email address.
+    const phoneUser = supabase.auth.createUser({ email: 'phone-only@example.com' });
+    phoneUser.email = '';
+    supabase.auth.setCurrentUser(phoneUser.id);
+    const result = await acceptOrganizationInvitation(initialState, form({ token }));
+
+    expect(result).toEqual(expect.objectContaining({ success: false, message: expect.stringContaining('different email address') }));
+    expect(supabase.db.rows('organization_members').some((row) => row['user_id'] === phoneUser.id)).toBe(false);
+    expect(supabase.db.rows('organization_invitations')[0]?.['accepted_at']).toBeFalsy();
+  });
+
+  it('only lets members switch to and act on their own workspaces', async () => {
+    signIn('ada@example.com');
+    await createOrganization(initialState, form({ name: 'First' }));
+    await createOrganization(initialState, form({ name: 'Second' }));
+    const [first, second] = supabase.db.rows('organizations').map((row) => row['id'] as string);
+
+    expect(await switchActiveOrganization(first!)).toEqual(expect.objectContaining({ success: true }));
+    expect(await getUserOrganizations()).toEqual(expect.objectContaining({ activeOrganizationId: first }));
+
+    signIn('mallory@example.com');
+    expect(await switchActiveOrganization(second!)).toEqual(expect.objectContaining({ success: false }));
+    mockCookies.set(ACTIVE_ORGANIZATION_COOKIE, second!);
+    expect(await getActiveOrganization()).toBeNull();
+    expect(await inviteOrganizationMember(initialState, form({ email: 'eve@example.com', role: 'member' })))
+      .toEqual(expect.objectContaining({ success: false }));
+    expect(mockSentEmails).toEqual([]);
+  });
+});
@@ -0,0 +1,300 @@
+// src/features/organizations/actions/organization.actions.ts
+"use server";
+
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import type { AuthActionState } from "@/features/auth/types";
+import * as organizationService from '../services/organization.service';
+import {
+  InviteMemberSchema,
+  UpdateMemberRoleSchema,
+  invitationIdSchema,
+  invitationTokenSchema,
+  memberIdSchema,
+  organizationIdSchema,
+  organizationNameSchema,
+} from "../schemas/organization.schema";
+import {
+  INVITATION_ACCEPT_ERROR_MESSAGES,
+  MEMBER_UPDATE_ERROR_MESSAGES,
+  ORGANIZATION_INVITATION_EXPIRY_DAYS,
+  ORGANIZATION_INVITATION_PATH,
+} from "../constants/organizations";
+import { canManageOrganizationRole } from "../utils/organization-roles";
+import { getActiveOrganization, loadUserMemberships, setActiveOrganizationCookie } from "../utils/active-organization";
+import { generateInvitationToken, hashInvitationToken } from "../utils/invitation-token";
+import { sendOrganizationInvitationEmail } from "../utils/invitation-email";
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('OrganizationActions');
+
+const NO_WORKSPACE_MESSAGE = "You are not a member of a workspace. Create one first.";
+
+/**
+ * Server Action to create a workspace with the current user as its owner. The new workspace
+ * becomes the active one.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'name'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function createOrganization(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const validation = organizationNameSchema.safeParse(formData.get("name"));
+  if (!validation.success) {
+    return {
+      success: false,
+      message: "Please check the highlighted fields.",
+      errorFields: { name: validation.error.errors.map((e) => e.message).join(", ") },
+    };
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    logger.warn('Workspace creation attempted without a session.');
+    return { success: false, message: "Please log in to create a workspace." };
+  }
+
+  const { data: organizationId, error } = await organizationService.createOrganizationWithSupabase(validation.data);
+  if (error || !organizationId) {
+    return { success: false, message: "The workspace could not be created. Please try again." };
+  }
+
+  await setActiveOrganizationCookie(organizationId);
+  logger.info(`Workspace ${organizationId} created by user: ${user.id}`);
+  return { success: true, message: `Workspace "${validation.data}" created.` };
+}
+
+/**
+ * Server Action to switch the active workspace, which later actions and queries act on.
+ * Only workspaces the user belongs to can be chosen.
+ *
+ * @param {string} organizationId - The ID of the workspace to switch to.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function switchActiveOrganization(organizationId: string): Promise<AuthActionState> {
+  const idValidation = organizationIdSchema.safeParse(organizationId);
+  if (!idValidation.success) {
+    return { success: false, message: idValidation.error.errors.map((e) => e.message).join(", ") };
+  }
+
+  let loaded: Awaited<ReturnType<typeof loadUserMemberships>>;
+  try {
+    loaded = await loadUserMemberships();
+  } catch {
+    return { success: false, message: "Your workspaces could not be loaded. Please try again." };
+  }
+  const membership = loaded?.memberships.find((row) => row.organization_id === idValidation.data);
+  if (!loaded || !membership) {
+    logger.warn(`Switch to workspace ${idValidation.data} refused: not a member.`, { userId: loaded?.userId });
+    return { success: false, message: "You are not a member of this workspace." };
+  }
+
+  await setActiveOrganizationCookie(membership.organization_id);
+  logger.info(`User ${loaded.userId} switched to workspace ${membership.organization_id}.`);
+  return { success: true, message: `Switched to ${membership.name}.` };
+}
+
+/**
+ * Server Action for owners and admins to invite someone to the active workspace by email.
+ * The link carries a random token; only its hash is stored. If the email cannot be sent, the
+ * invitation is withdrawn again.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'email' and 'role'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function inviteOrganizationMember(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const validation = InviteMemberSchema.safeParse({
+    email: formData.get("email"),
+    role: formData.get("role"),
+  });
+  if (!validation.success) {
+    const fieldErrors = validation.error.flatten().fieldErrors;
+    return {
+      success: false,
+      message: "Please check the highlighted fields.",
+      errorFields: Object.fromEntries(
+        Object.entries(fieldErrors).map(([field, messages]) => [field, (messages ?? []).join(", ")]),
+      ),
+    };
+  }
+
+  const organization = await getActiveOrganization();
+  if (!organization) {
+    return { success: false, message: NO_WORKSPACE_MESSAGE };
+  }
+  const { email, role } = validation.data;
+  if (!canManageOrganizationRole(organization.role, role)) {
+    logger.warn(`Invitation as ${role} refused for a ${organization.role} of workspace ${organization.id}.`);
+    return { success: false, message: MEMBER_UPDATE_ERROR_MESSAGES.forbidden };
+  }
+
+  const origin = (await headers()).get("origin");
+  if (!origin) {
+    logger.error('Could not determine the request origin for the invitation link.');
+    return { success: false, message: "The invitation could not be sent. Please try again." };
+  }
+
+  const { token, tokenHash } = generateInvitationToken();
+  const { data: invitation, error } = await organizationService.createInvitationWithSupabase({
+    organizationId: organization.id,
+    email,
+    role,
+    tokenHash,
+    invitedBy: organization.userId,
+    expiresAt: new Date(Date.now() + ORGANIZATION_INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  });
+  if (error || !invitation) {
+    return { success: false, message: "The invitation could not be created. Please try again." };
+  }
+
+  const sent = await sendOrganizationInvitationEmail({
+    to: email,
+    organizationName: organization.name,
+    role,
+    link: `${origin}${ORGANIZATION_INVITATION_PATH}?token=${token}`,
+  });
+  if (!sent) {
+    await organizationService.revokeInvitationWithSupabase(organization.id, invitation.id);
+    return { success: false, message: "The invitation email could not be sent. Please check the address and try again." };
+  }
+
+  logger.info(`Invitation ${invitation.id} to workspace ${organization.id} sent by user: ${organization.userId}`);
+  return { success: true, message: `Invitation sent to ${email}.` };
+}
+
+/**
+ * Server Action for owners and admins to withdraw a pending invitation to the active workspace.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'invitationId'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function revokeOrganizationInvitation(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const idValidation = invitationIdSchema.safeParse(formData.get("invitationId"));
+  if (!idValidation.success) {
+    return { success: false, message: idValidation.error.errors.map((e) => e.message).join(", ") };
+  }
+
+  const organization = await getActiveOrganization();
+  if (!organization) {
+    return { success: false, message: NO_WORKSPACE_MESSAGE };
+  }
+
+  const { revoked, error } = await organizationService.revokeInvitationWithSupabase(organization.id, idValidation.data);
+  if (error) {
+    return { success: false, message: "The invitation could not be withdrawn. Please try again." };
+  }
+  if (!revoked) {
+    return { success: false, message: "This invitation was not found or is no longer pending." };
+  }
+
+  logger.info(`Invitation ${idValidation.data} withdrawn by user: ${organization.userId}`);
+  return { success: true, message: "The invitation has been withdrawn." };
+}
+
+/**
+ * Server Action to change the role of a member of the active workspace.
+ * Owners manage everyone; admins manage members and viewers. A workspace keeps at least one owner.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'userId' and 'role'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function updateOrganizationMemberRole(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const validation = UpdateMemberRoleSchema.safeParse({
+    userId: formData.get("userId"),
+    role: formData.get("role"),
+  });
+  if (!validation.success) {
+    return { success: false, message: validation.error.errors.map((e) => e.message).join(", ") };
+  }
+
+  const organization = await getActiveOrganization();
+  if (!organization) {
+    return { success: false, message: NO_WORKSPACE_MESSAGE };
+  }
+
+  const { userId, role } = validation.data;
+  const { status, error } = await organizationService.updateMemberWithSupabase(organization.id, userId, role);
+  if (error || !status) {
+    return { success: false, message: "The role could not be changed. Please try again." };
+  }
+  if (status !== 'ok') {
+    return { success: false, message: MEMBER_UPDATE_ERROR_MESSAGES[status] };
+  }
+
+  logger.info(`Role of member ${userId} in workspace ${organization.id} set to ${role} by user: ${organization.userId}`);
+  return { success: true, message: "The role has been changed." };
+}
+
+/**
+ * Server Action to remove a member from the active workspace, or to leave it when the member is
+ * the current user. The last owner cannot leave.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'userId'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure.
+ */
+export async function removeOrganizationMember(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const idValidation = memberIdSchema.safeParse(formData.get("userId"));
+  if (!idValidation.success) {
+    return { success: false, message: idValidation.error.errors.map((e) => e.message).join(", ") };
+  }
+
+  const organization = await getActiveOrganization();
+  if (!organization) {
+    return { success: false, message: NO_WORKSPACE_MESSAGE };
+  }
+
+  const leaving = idValidation.data === organization.userId;
+  const { status, error } = await organizationService.updateMemberWithSupabase(organization.id, idValidation.data, null);
+  if (error || !status) {
+    return { success: false, message: "The member could not be removed. Please try again." };
+  }
+  if (status !== 'ok') {
+    return { success: false, message: MEMBER_UPDATE_ERROR_MESSAGES[status] };
+  }
+
+  logger.info(`Member ${idValidation.data} removed from workspace ${organization.id} by user: ${organization.userId}`);
+  return { success: true, message: leaving ? `You have left ${organization.name}.` : "The member has been removed." };
+}
+
+/**
+ * Server Action to accept an emailed invitation with the token from its link. The invitation must
+ * have been sent to the signed-in user's address, so guests and accounts without an email address
+ * are refused. On success the workspace becomes the active one and the user is redirected to its settings page.
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'token'.
+ * @returns {Promise<AuthActionState>} The new state on failure; redirects on success.
+ */
+export async function acceptOrganizationInvitation(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const tokenValidation = invitationTokenSchema.safeParse(formData.get("token"));
+  if (!tokenValidation.success) {
+    return { success: false, message: INVITATION_ACCEPT_ERROR_MESSAGES.invalid };
+  }
+
+  // Invitations are bound to an email address; guests and accounts without one can never match it.
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user || user.is_anonymous || !user.email) {
+    logger.warn(`Invitation refused: ${user ? `user ${user.id} has no email address` : 'no session'}.`);
+    return { success: false, message: INVITATION_ACCEPT_ERROR_MESSAGES.email_mismatch };
+  }
+
+  const { data, error } = await organizationService.acceptInvitationWithSupabase(hashInvitationToken(tokenValidation.data));
+  if (error || !data) {
+    return { success: false, message: "The invitation could not be accepted. Please try again." };
+  }
+  if (data.status !== 'ok' || !data.organizationId) {
+    logger.warn(`Invitation refused: ${data.status}`);
+    return { success: false, message: INVITATION_ACCEPT_ERROR_MESSAGES[data.status === 'ok' ? 'invalid' : data.status] };
+  }
+
+  await setActiveOrganizationCookie(data.organizationId);
+  logger.info(`Invitation to workspace ${data.organizationId} accepted.`);
+  redirect('/dashboard/organization');
+}
@@ -0,0 +1,2 @@
+// src/features/organizations/constants/index.ts
+export * from './organizations';
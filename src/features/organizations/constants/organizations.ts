@@ -0,0 +1,55 @@
+// src/features/organizations/constants/organizations.ts
+
+/**
+ * A member's role in an organization (workspace), from most to least privileged:
+ * - `owner`: everything, including managing other owners. Every organization keeps at least one.
+ * - `admin`: invites people and manages members and viewers.
+ * - `member`: uses the workspace.
+ * - `viewer`: read-only access.
+ *
+ * Unrelated to the account-wide `role` of the user profile (`user | premium | admin`).
+ */
+export type OrganizationRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+/** All roles, most privileged first. */
+export const ORGANIZATION_ROLES: readonly OrganizationRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+/** The roles an invitation can grant; ownership is only handed over to existing members. */
+export const INVITABLE_ORGANIZATION_ROLES: readonly OrganizationRole[] = ['admin', 'member', 'viewer'];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+/** The cookie holding the ID of the workspace the user is working in. */
+export const ACTIVE_ORGANIZATION_COOKIE = 'active_organization';
+
+/** Where invitation links point; the token is in the `token` query parameter. */
+export const ORGANIZATION_INVITATION_PATH = '/dashboard/organization/accept';
+
+export const ORGANIZATION_INVITATION_EXPIRY_DAYS = 7;
+
+/** Why `accept_organization_invitation` refused a token; `ok` means the user joined. */
+export type InvitationAcceptStatus = 'ok' | 'invalid' | 'revoked' | 'expired' | 'accepted' | 'email_mismatch';
+
+/** User-facing messages for refused invitations. */
+export const INVITATION_ACCEPT_ERROR_MESSAGES: Record<Exclude<InvitationAcceptStatus, 'ok'>, string> = {
+  invalid: 'This invitation link is not valid.',
+  revoked: 'This invitation has been withdrawn.',
+  expired: 'This invitation has expired. Ask for a new one.',
+  accepted: 'This invitation has already been used.',
+  email_mismatch: 'This invitation was sent to a different email address. Sign in with that address to accept it.',
+};
+
+/** Why `update_organization_member` refused a change; `ok` means it was applied. */
+export type MemberUpdateStatus = 'ok' | 'forbidden' | 'not_found' | 'last_owner';
+
+/** User-facing messages for refused member changes. */
+export const MEMBER_UPDATE_ERROR_MESSAGES: Record<Exclude<MemberUpdateStatus, 'ok'>, string> = {
+  forbidden: 'You do not have permission to make this change.',
+  not_found: 'This member was not found.',
+  last_owner: 'A workspace must keep at least one owner. Make someone else an owner first.',
+};
@@ -0,0 +1,5 @@
+// src/features/organizations/hooks/index.ts
+export * from './use-active-organization';
+export * from './use-organization-invitations-query';
+export * from './use-organization-members-query';
+export * from './use-user-organizations-query';
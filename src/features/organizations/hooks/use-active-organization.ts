@@ -0,0 +1,59 @@
+// src/features/organizations/hooks/use-active-organization.ts
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/features/auth/hooks';
+import type { AuthActionState } from '@/features/auth/types';
+import { switchActiveOrganization } from '../actions/organization.actions';
+import type { OrganizationMembershipSummary } from '../types';
+import { useUserOrganizationsQuery } from './use-user-organizations-query';
+
+/**
+ * The active workspace on the client, the counterpart of `getActiveOrganization` on the server.
+ */
+export interface ActiveOrganizationState {
+  /** The workspace the user is working in, or null when they belong to none. */
+  organization: OrganizationMembershipSummary | null;
+  organizations: OrganizationMembershipSummary[];
+  isLoading: boolean;
+  isSwitching: boolean;
+  error: Error | null;
+  /** Makes another workspace the active one, then reloads everything that depends on it. */
+  switchOrganization: (organizationId: string) => Promise<AuthActionState>;
+}
+
+/**
+ * Custom hook for the signed-in user's active workspace and switching between workspaces.
+ * Switching stores the choice in a cookie (so Server Actions and queries act on the new workspace),
+ * refetches all queries and refreshes Server Components.
+ *
+ * @returns {ActiveOrganizationState} The active workspace and the switch function.
+ */
+export const useActiveOrganization = (): ActiveOrganizationState => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const { data, isLoading, error } = useUserOrganizationsQuery(user?.id);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const organizations = data?.organizations ?? [];
+  const organization = organizations.find((candidate) => candidate.id === data?.activeOrganizationId) ?? null;
+
+  const switchOrganization = useCallback(async (organizationId: string) => {
+    setIsSwitching(true);
+    try {
+      const result = await switchActiveOrganization(organizationId);
+      if (result.success) {
+        await queryClient.invalidateQueries();
+        router.refresh();
+      }
+      return result;
+    } finally {
+      setIsSwitching(false);
+    }
+  }, [queryClient, router]);
+
+  return { organization, organizations, isLoading, isSwitching, error, switchOrganization };
+};
@@ -0,0 +1,22 @@
+// src/features/organizations/hooks/use-organization-invitations-query.ts
+'use client';
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { getOrganizationInvitations } from '../queries/organization.queries';
+import { type OrganizationInvitationSummary } from '../types';
+
+/**
+ * Custom hook to fetch the pending invitations of the active workspace using TanStack Query.
+ *
+ * @param organizationId - The ID of the active workspace. The query is enabled only if it is provided.
+ * @returns The TanStack Query result, with `data` holding the invitations.
+ */
+export const useOrganizationInvitationsQuery = (
+  organizationId: string | null | undefined,
+): UseQueryResult<OrganizationInvitationSummary[], Error> => {
+  return useQuery<OrganizationInvitationSummary[], Error, OrganizationInvitationSummary[], (string | null | undefined)[]>({
+    queryKey: ['organizationInvitations', organizationId],
+    queryFn: () => getOrganizationInvitations(),
+    enabled: !!organizationId,
+  });
+};
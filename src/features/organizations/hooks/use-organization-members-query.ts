@@ -0,0 +1,23 @@
+// src/features/organizations/hooks/use-organization-members-query.ts
+'use client';
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { getOrganizationMembers } from '../queries/organization.queries';
+import { type OrganizationMemberSummary } from '../types';
+
+/**
+ * Custom hook to fetch the members of the active workspace using TanStack Query.
+ * The workspace is part of the key, so switching workspaces loads its members.
+ *
+ * @param organizationId - The ID of the active workspace. The query is enabled only if it is provided.
+ * @returns The TanStack Query result, with `data` holding the members.
+ */
+export const useOrganizationMembersQuery = (
+  organizationId: string | null | undefined,
+): UseQueryResult<OrganizationMemberSummary[], Error> => {
+  return useQuery<OrganizationMemberSummary[], Error, OrganizationMemberSummary[], (string | null | undefined)[]>({
+    queryKey: ['organizationMembers', organizationId],
+    queryFn: () => getOrganizationMembers(),
+    enabled: !!organizationId,
+  });
+};
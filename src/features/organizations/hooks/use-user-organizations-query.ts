@@ -0,0 +1,22 @@
+// src/features/organizations/hooks/use-user-organizations-query.ts
+'use client';
+
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { getUserOrganizations } from '../queries/organization.queries';
+import { type UserOrganizations } from '../types';
+
+/**
+ * Custom hook to fetch the signed-in user's workspaces and the active one using TanStack Query.
+ *
+ * @param userId - The ID of the signed-in user. The query is enabled only if it is provided.
+ * @returns The TanStack Query result, with `data` holding the workspaces.
+ */
+export const useUserOrganizationsQuery = (
+  userId: string | null | undefined,
+): UseQueryResult<UserOrganizations, Error> => {
+  return useQuery<UserOrganizations, Error, UserOrganizations, (string | null | undefined)[]>({
+    queryKey: ['userOrganizations', userId],
+    queryFn: () => getUserOrganizations(),
+    enabled: !!userId,
+  });
+};
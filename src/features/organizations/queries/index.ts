@@ -0,0 +1,2 @@
+// src/features/organizations/queries/index.ts
+export * from "./organization.queries";
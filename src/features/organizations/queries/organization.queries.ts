@@ -0,0 +1,81 @@
+// src/features/organizations/queries/organization.queries.ts
+"use server";
+
+import * as organizationService from '../services/organization.service';
+import type { OrganizationInvitationSummary, OrganizationMemberSummary, UserOrganizations } from '../types';
+import { getActiveOrganization, loadUserMemberships } from '../utils/active-organization';
+import { hasOrganizationRole } from '../utils/organization-roles';
+
+/**
+ * Server Action to get the signed-in user's workspaces and the active one, for the workspace switcher.
+ * This function is intended to be used as a queryFn for TanStack Query.
+ *
+ * @returns {Promise<UserOrganizations>} The workspaces, oldest membership first. Empty without a session.
+ * @throws {Error} If the workspaces cannot be loaded.
+ */
+export async function getUserOrganizations(): Promise<UserOrganizations> {
+  const loaded = await loadUserMemberships();
+  if (!loaded) {
+    return { organizations: [], activeOrganizationId: null };
+  }
+  return {
+    organizations: loaded.memberships.map((membership) => ({
+      id: membership.organization_id,
+      name: membership.name,
+      role: membership.role,
+      joinedAt: membership.created_at,
+    })),
+    activeOrganizationId: loaded.active?.organization_id ?? null,
+  };
+}
+
+/**
+ * Server Action to get the members of the active workspace.
+ * This function is intended to be used as a queryFn for TanStack Query.
+ *
+ * @returns {Promise<OrganizationMemberSummary[]>} The members, earliest to join first. Empty without an active workspace.
+ * @throws {Error} If the members cannot be listed.
+ */
+export async function getOrganizationMembers(): Promise<OrganizationMemberSummary[]> {
+  const organization = await getActiveOrganization();
+  if (!organization) return [];
+
+  const { data, error } = await organizationService.listMembersWithSupabase(organization.id);
+  if (error || !data) {
+    throw new Error(`Failed to load workspace members: ${error?.message ?? 'no data returned'}`);
+  }
+  return data.map((member) => ({
+    userId: member.user_id,
+    email: member.email,
+    name: [member.first_name, member.last_name].filter(Boolean).join(' ') || null,
+    role: member.role,
+    joinedAt: member.joined_at,
+  }));
+}
+
+/**
+ * Server Action to get the pending invitations of the active workspace. Only owners and admins
+ * see them; for other members the list is empty.
+ * This function is intended to be used as a queryFn for TanStack Query.
+ *
+ * @returns {Promise<OrganizationInvitationSummary[]>} The invitations, newest first.
+ * @throws {Error} If the invitations cannot be listed.
+ */
+export async function getOrganizationInvitations(): Promise<OrganizationInvitationSummary[]> {
+  const organization = await getActiveOrganization();
+  if (!organization || !hasOrganizationRole(organization.role, 'admin')) return [];
+
+  const { data, error } = await organizationService.listInvitationsWithSupabase(organization.id);
+  if (error || !data) {
+    throw new Error(`Failed to load invitations: ${error?.message ?? 'no data returned'}`);
+  }
+  const now = Date.now();
+  return data.map((invitation) => ({
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    expiresAt: invitation.expires_at,
+    createdAt: invitation.created_at,
+    expired: new Date(invitation.expires_at).getTime() <= now,
+  }));
+}
@@ -0,0 +1,2 @@
+// src/features/organizations/schemas/index.ts
+export * from './organization.schema';
@@ -0,0 +1,58 @@
+// src/features/organizations/schemas/organization.schema.ts
+import { z } from 'zod';
+import { INVITABLE_ORGANIZATION_ROLES, ORGANIZATION_ROLES, type OrganizationRole } from '../constants/organizations';
+
+/**
+ * Schema for a workspace name.
+ */
+export const organizationNameSchema = z
+  .string({ required_error: 'A workspace name is required.' })
+  .trim()
+  .min(1, { message: 'A workspace name is required.' })
+  .max(80, { message: 'The name must be at most 80 characters.' });
+
+/**
+ * Schema for the ID of a workspace, e.g. when switching to it.
+ */
+export const organizationIdSchema = z.string().uuid({ message: 'Invalid workspace.' });
+
+const roleSchema = (roles: readonly OrganizationRole[]) =>
+  z
+    .string({ required_error: 'Choose a role.' })
+    .refine((role): role is OrganizationRole => (roles as readonly string[]).includes(role), { message: 'Choose a valid role.' })
+    .transform((role) => role as OrganizationRole);
+
+/**
+ * Schema for the form that invites someone to the active workspace.
+ */
+export const InviteMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email({ message: 'Invalid email address.' }),
+  role: roleSchema(INVITABLE_ORGANIZATION_ROLES),
+});
+
+export type InviteMemberInput = z.infer<typeof InviteMemberSchema>;
+
+/**
+ * Schema for changing a member's role.
+ */
+export const UpdateMemberRoleSchema = z.object({
+  userId: z.string().uuid({ message: 'Invalid member.' }),
+  role: roleSchema(ORGANIZATION_ROLES),
+});
+
+/**
+ * Schema for the ID of a member to remove.
+ */
+export const memberIdSchema = z.string().uuid({ message: 'Invalid member.' });
+
+/**
+ * Schema for the ID of an invitation to withdraw.
+ */
+export const invitationIdSchema = z.string().uuid({ message: 'Invalid invitation.' });
+
+/**
+ * Schema for the token of an emailed invitation link.
+ */
+export const invitationTokenSchema = z
+  .string({ required_error: 'This invitation link is not valid.' })
+  .regex(/^[A-Za-z0-9_-]{43}$/, { message: 'This invitation link is not valid.' });
@@ -0,0 +1,2 @@
+// src/features/organizations/services/index.ts
+export * from './organization.service';
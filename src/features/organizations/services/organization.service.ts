@@ -0,0 +1,325 @@
+// src/features/organizations/services/organization.service.ts
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getServerLogger } from '@/lib/logger';
+import type { InvitationAcceptStatus, MemberUpdateStatus, OrganizationRole } from '../constants/organizations';
+
+const logger = getServerLogger('OrganizationService');
+
+/**
+ * An organization the user belongs to, as returned by `listMembershipsWithSupabase`.
+ */
+export interface MembershipRow {
+  organization_id: string;
+  name: string;
+  role: OrganizationRole;
+  created_at: string;
+}
+
+/**
+ * A member row as returned by the `list_organization_members` function.
+ */
+export interface OrganizationMemberRow {
+  user_id: string;
+  role: OrganizationRole;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  joined_at: string;
+}
+
+/**
+ * A pending invitation as selected by `listInvitationsWithSupabase`.
+ */
+export interface OrganizationInvitationRow {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  expires_at: string;
+  created_at: string;
+}
+
+/**
+ * Lists the organizations a user belongs to with their role in each, oldest membership first.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<{ data: MembershipRow[] | null, error: Error | null }>} The memberships, or an error.
+ */
+export async function listMembershipsWithSupabase(userId: string) {
+  logger.info(`Listing organization memberships for user: ${userId}`);
+  const supabase = await createClient();
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('organization_members')
+    .select('organization_id, role, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (membershipsError) {
+    logger.error({
+      message: `Listing organization memberships for user ${userId} failed.`,
+      error: { name: membershipsError.name, message: membershipsError.message, code: membershipsError.code },
+      supabaseError: membershipsError,
+    });
+    return { data: null, error: membershipsError };
+  }
+
+  const rows = (memberships ?? []) as Omit<MembershipRow, 'name'>[];
+  if (rows.length === 0) {
+    logger.info('Listing organization memberships successful. Membership count: 0');
+    return { data: [] as MembershipRow[], error: null };
+  }
+
+  const { data: organizations, error: organizationsError } = await supabase
+    .from('organizations')
+    .select('id, name')
+    .in('id', rows.map((row) => row.organization_id));
+
+  if (organizationsError) {
+    logger.error({
+      message: `Loading the organizations of user ${userId} failed.`,
+      error: { name: organizationsError.name, message: organizationsError.message, code: organizationsError.code },
+      supabaseError: organizationsError,
+    });
+    return { data: null, error: organizationsError };
+  }
+
+  const names = ((organizations ?? []) as { id: string; name: string }[])
+    .reduce<Record<string, string>>((byId, organization) => ({ ...byId, [organization.id]: organization.name }), {});
+  const data = rows
+    .filter((row) => names[row.organization_id] !== undefined)
+    .map((row) => ({ ...row, name: names[row.organization_id]! }));
+  logger.info(`Listing organization memberships successful. Membership count: ${data.length}`);
+  return { data, error: null };
+}
+
+/**
+ * Creates an organization with the current user as its owner (`create_organization`).
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} name - The organization's name.
+ * @returns {Promise<{ data: string | null, error: Error | null }>} The new organization's ID, or an error.
+ */
+export async function createOrganizationWithSupabase(name: string) {
+  logger.info('Creating organization.');
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('create_organization', { p_name: name });
+
+  if (error) {
+    logger.error({
+      message: 'Creating organization failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  logger.info(`Organization created: ${data}`);
+  return { data: data as string, error: null };
+}
+
+/**
+ * Lists the members of an organization with their email and name (`list_organization_members`).
+ * Only members of the organization get any rows back.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} organizationId - The ID of the organization.
+ * @returns {Promise<{ data: OrganizationMemberRow[] | null, error: Error | null }>} The members, or an error.
+ */
+export async function listMembersWithSupabase(organizationId: string) {
+  logger.info(`Listing members of organization: ${organizationId}`);
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('list_organization_members', { p_organization_id: organizationId });
+
+  if (error) {
+    logger.error({
+      message: `Listing members of organization ${organizationId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  const members = (data ?? []) as OrganizationMemberRow[];
+  logger.info(`Listing members successful. Member count: ${members.length}`);
+  return { data: members, error: null };
+}
+
+/**
+ * Changes a member's role, or removes them when `role` is null (`update_organization_member`).
+ * The database checks the current user's permission and keeps at least one owner.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} organizationId - The ID of the organization.
+ * @param {string} userId - The ID of the member to change.
+ * @param {OrganizationRole | null} role - The new role, or null to remove the member.
+ * @returns {Promise<{ status: MemberUpdateStatus | null, error: Error | null }>} The outcome, or an error.
+ */
+export async function updateMemberWithSupabase(organizationId: string, userId: string, role: OrganizationRole | null) {
+  logger.info(`${role ? `Changing the role of` : 'Removing'} member ${userId} in organization ${organizationId}.`, { role });
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('update_organization_member', {
+    p_organization_id: organizationId,
+    p_user_id: userId,
+    p_role: role,
+  });
+
+  if (error) {
+    logger.error({
+      message: `Updating member ${userId} in organization ${organizationId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { status: null, error };
+  }
+
+  const status = data as MemberUpdateStatus;
+  logger.info(`Member update completed. Status: ${status}`);
+  return { status, error: null };
+}
+
+/**
+ * Stores an invitation on behalf of the current user. Row Level Security only lets owners and
+ * admins invite, and admins only as member or viewer.
+ * Logs the attempt and the outcome (never the token).
+ *
+ * @param {object} invitation - The invitation to create.
+ * @param {string} invitation.organizationId - The organization to join.
+ * @param {string} invitation.email - The invited address, lowercased.
+ * @param {OrganizationRole} invitation.role - The role granted on acceptance.
+ * @param {string} invitation.tokenHash - The hash of the token in the emailed link.
+ * @param {string} invitation.invitedBy - The ID of the inviting user.
+ * @param {string} invitation.expiresAt - When the link stops working (ISO string).
+ * @returns {Promise<{ data: { id: string } | null, error: Error | null }>} The new invitation's ID, or an error.
+ */
+export async function createInvitationWithSupabase(invitation: {
+  organizationId: string;
+  email: string;
+  role: OrganizationRole;
+  tokenHash: string;
+  invitedBy: string;
+  expiresAt: string;
+}) {
+  logger.info(`Creating invitation to organization ${invitation.organizationId}.`, { role: invitation.role });
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('organization_invitations')
+    .insert({
+      organization_id: invitation.organizationId,
+      email: invitation.email,
+      role: invitation.role,
+      token_hash: invitation.tokenHash,
+      invited_by: invitation.invitedBy,
+      expires_at: invitation.expiresAt,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    logger.error({
+      message: `Creating invitation to organization ${invitation.organizationId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  logger.info('Invitation created.');
+  return { data: data as { id: string }, error: null };
+}
+
+/**
+ * Lists the invitations of an organization that were neither accepted nor withdrawn, newest first.
+ * Row Level Security only returns rows to owners and admins.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} organizationId - The ID of the organization.
+ * @returns {Promise<{ data: OrganizationInvitationRow[] | null, error: Error | null }>} The invitations, or an error.
+ */
+export async function listInvitationsWithSupabase(organizationId: string) {
+  logger.info(`Listing invitations of organization: ${organizationId}`);
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('organization_invitations')
+    .select('id, email, role, expires_at, created_at')
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error({
+      message: `Listing invitations of organization ${organizationId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  const invitations = (data ?? []) as OrganizationInvitationRow[];
+  logger.info(`Listing invitations successful. Invitation count: ${invitations.length}`);
+  return { data: invitations, error: null };
+}
+
+/**
+ * Withdraws a pending invitation so its link stops working.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} organizationId - The ID of the organization the invitation belongs to.
+ * @param {string} invitationId - The ID of the invitation.
+ * @returns {Promise<{ revoked: boolean, error: Error | null }>} Whether a pending invitation was withdrawn, or an error.
+ */
+export async function revokeInvitationWithSupabase(organizationId: string, invitationId: string) {
+  logger.info(`Revoking invitation ${invitationId} of organization ${organizationId}.`);
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('organization_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', invitationId)
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    logger.error({
+      message: `Revoking invitation ${invitationId} failed.`,
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { revoked: false, error };
+  }
+
+  const revoked = (data ?? []).length > 0;
+  logger.info(`Invitation revocation completed. Revoked: ${revoked}`);
+  return { revoked, error: null };
+}
+
+/**
+ * Accepts an invitation for the current user (`accept_organization_invitation`), which checks that
+ * it was sent to their email address.
+ * Logs the attempt and the outcome.
+ *
+ * @param {string} tokenHash - The hash of the token from the invitation link.
+ * @returns {Promise<{ data: { organizationId: string | null, status: InvitationAcceptStatus } | null, error: Error | null }>} The outcome, or an error.
+ */
+export async function acceptInvitationWithSupabase(tokenHash: string) {
+  logger.info('Accepting organization invitation.');
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('accept_organization_invitation', { p_token_hash: tokenHash });
+
+  if (error) {
+    logger.error({
+      message: 'Accepting organization invitation failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { data: null, error };
+  }
+
+  const [result] = (data ?? []) as { organization_id: string | null; status: InvitationAcceptStatus }[];
+  const outcome = { organizationId: result?.organization_id ?? null, status: result?.status ?? 'invalid' };
+  logger.info(`Invitation acceptance completed. Status: ${outcome.status}`);
+  return { data: outcome, error: null };
+}
@@ -0,0 +1,2 @@
+// src/features/organizations/types/index.ts
+export * from './organization.types';
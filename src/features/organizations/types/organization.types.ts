@@ -0,0 +1,54 @@
+// src/features/organizations/types/organization.types.ts
+import type { OrganizationRole } from '../constants/organizations';
+
+/**
+ * An organization the signed-in user belongs to, with their role in it.
+ */
+export interface OrganizationMembershipSummary {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+/**
+ * The user's workspaces and the one they are working in, for the workspace switcher.
+ */
+export interface UserOrganizations {
+  organizations: OrganizationMembershipSummary[];
+  /** The active workspace, or null when the user belongs to none. */
+  activeOrganizationId: string | null;
+}
+
+/**
+ * The workspace a request acts on, as resolved by `getActiveOrganization`.
+ */
+export interface ActiveOrganization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  userId: string;
+}
+
+/**
+ * A member as listed on the workspace settings page.
+ */
+export interface OrganizationMemberSummary {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+/**
+ * An invitation that has not been accepted or withdrawn yet.
+ */
+export interface OrganizationInvitationSummary {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  expiresAt: string;
+  createdAt: string;
+  expired: boolean;
+}
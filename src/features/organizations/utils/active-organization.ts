@@ -0,0 +1,73 @@
+// src/features/organizations/utils/active-organization.ts
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { ACTIVE_ORGANIZATION_COOKIE } from '../constants/organizations';
+import { listMembershipsWithSupabase, type MembershipRow } from '../services/organization.service';
+import type { ActiveOrganization } from '../types';
+
+// Server-only: reads the session and cookies of the current request. Not part of the utils barrel,
+// which client components import. Deliberately not a "use server" module, so these helpers cannot be
+// called from the client.
+
+/** How long the workspace choice is remembered. */
+const ACTIVE_ORGANIZATION_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+/**
+ * Picks the workspace a user works in: the one remembered in the cookie if they are still a member,
+ * otherwise their oldest membership.
+ *
+ * @param {MembershipRow[]} memberships - The user's memberships, oldest first.
+ * @param {string | undefined} preferredId - The organization ID from the cookie.
+ * @returns {MembershipRow | null} The active membership, or null when the user belongs to none.
+ */
+function pickActiveMembership(memberships: MembershipRow[], preferredId: string | undefined): MembershipRow | null {
+  return memberships.find((membership) => membership.organization_id === preferredId) ?? memberships[0] ?? null;
+}
+
+/**
+ * Loads the signed-in user's memberships and the active one.
+ * @returns {Promise<{ userId: string, memberships: MembershipRow[], active: MembershipRow | null } | null>} Null without a session.
+ * @throws {Error} If the memberships cannot be loaded.
+ */
+export async function loadUserMemberships(): Promise<{ userId: string; memberships: MembershipRow[]; active: MembershipRow | null } | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data, error } = await listMembershipsWithSupabase(user.id);
+  if (error || !data) {
+    throw new Error(`Failed to load workspaces: ${error?.message ?? 'no data returned'}`);
+  }
+  const preferredId = (await cookies()).get(ACTIVE_ORGANIZATION_COOKIE)?.value;
+  return { userId: user.id, memberships: data, active: pickActiveMembership(data, preferredId) };
+}
+
+/**
+ * Returns the workspace the current request acts on, with the user's role in it, for Server Actions
+ * and queries that read or change workspace data. Membership is checked on every call, so a stale
+ * or forged cookie never grants access to another workspace.
+ *
+ * @returns {Promise<ActiveOrganization | null>} The active workspace, or null without a session or membership.
+ * @throws {Error} If the memberships cannot be loaded.
+ */
+export async function getActiveOrganization(): Promise<ActiveOrganization | null> {
+  const loaded = await loadUserMemberships();
+  if (!loaded?.active) return null;
+  const { organization_id: id, name, role } = loaded.active;
+  return { id, name, role, userId: loaded.userId };
+}
+
+/**
+ * Remembers the workspace the user switched to. The caller must have checked the membership.
+ * @param {string} organizationId - The ID of the organization.
+ * @returns {Promise<void>}
+ */
+export async function setActiveOrganizationCookie(organizationId: string): Promise<void> {
+  (await cookies()).set(ACTIVE_ORGANIZATION_COOKIE, organizationId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ACTIVE_ORGANIZATION_COOKIE_MAX_AGE_SECONDS,
+  });
+}
@@ -0,0 +1,2 @@
+// src/features/organizations/utils/index.ts
+export * from './organization-roles';
@@ -0,0 +1,50 @@
+// src/features/organizations/utils/invitation-email.ts
+import { getEmailSender } from '@/lib/email';
+import { getServerLogger } from '@/lib/logger';
+import { ORGANIZATION_INVITATION_EXPIRY_DAYS, ORGANIZATION_ROLE_LABELS, type OrganizationRole } from '../constants/organizations';
+
+// Server-only: sends emails. Not part of the utils barrel.
+
+const logger = getServerLogger('OrganizationInvitationEmail');
+
+/**
+ * Emails an invitation link to join a workspace.
+ *
+ * @param {object} invitation - The invitation.
+ * @param {string} invitation.to - The invited address.
+ * @param {string} invitation.organizationName - The name of the workspace.
+ * @param {OrganizationRole} invitation.role - The role granted on acceptance.
+ * @param {string} invitation.link - The acceptance link, with the token.
+ * @returns {Promise<boolean>} Whether the email was handed to the provider.
+ */
+export async function sendOrganizationInvitationEmail(invitation: {
+  to: string;
+  organizationName: string;
+  role: OrganizationRole;
+  link: string;
+}): Promise<boolean> {
+  try {
+    await getEmailSender().send({
+      to: invitation.to,
+      subject: `You have been invited to ${invitation.organizationName} on PassForge`,
+      text: [
+        `You have been invited to join the workspace "${invitation.organizationName}" on PassForge`,
+        `as ${ORGANIZATION_ROLE_LABELS[invitation.role].toLowerCase()}.`,
+        '',
+        'Accept the invitation by opening this link and signing in with this email address',
+        `(or creating an account with it):`,
+        invitation.link,
+        '',
+        `The link expires in ${ORGANIZATION_INVITATION_EXPIRY_DAYS} days. If you did not expect this invitation, you can ignore this email.`,
+      ].join('\n'),
+    });
+    logger.info(`Organization invitation sent to ${invitation.to.substring(0, 3)}...`);
+    return true;
+  } catch (error) {
+    logger.error({
+      message: 'Sending the organization invitation failed.',
+      error: { name: (error as Error).name, message: (error as Error).message },
+    });
+    return false;
+  }
+}
@@ -0,0 +1,24 @@
+// src/features/organizations/utils/invitation-token.ts
+import { createHash, randomBytes } from 'crypto';
+
+// Server-only (Node crypto). Not part of the utils barrel, which client components import.
+
+/**
+ * Hashes an invitation token for storage and lookup. Only the hash is stored, so a leaked
+ * `organization_invitations` table does not contain usable links.
+ *
+ * @param {string} token - The token from the invitation link.
+ * @returns {string} The SHA-256 hash, hex-encoded.
+ */
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generates the token of an invitation link (256 random bits, 43 base64url characters).
+ * @returns {{ token: string, tokenHash: string }} The token for the link and its hash for the database.
+ */
+export function generateInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashInvitationToken(token) };
+}
@@ -0,0 +1,37 @@
+import { INVITABLE_ORGANIZATION_ROLES, ORGANIZATION_ROLES } from '../constants/organizations';
+import { canManageOrganizationRole, getGrantableRoles, hasOrganizationRole } from './organization-roles';
+
+describe('hasOrganizationRole', () => {
+  it('treats more privileged roles as including less privileged ones', () => {
+    expect(hasOrganizationRole('owner', 'admin')).toBe(true);
+    expect(hasOrganizationRole('admin', 'admin')).toBe(true);
+    expect(hasOrganizationRole('member', 'admin')).toBe(false);
+    expect(hasOrganizationRole('viewer', 'member')).toBe(false);
+  });
+});
+
+describe('canManageOrganizationRole', () => {
+  it('lets owners manage every role', () => {
+    expect(ORGANIZATION_ROLES.every((role) => canManageOrganizationRole('owner', role))).toBe(true);
+  });
+
+  it('lets admins manage only members and viewers', () => {
+    expect(canManageOrganizationRole('admin', 'member')).toBe(true);
+    expect(canManageOrganizationRole('admin', 'viewer')).toBe(true);
+    expect(canManageOrganizationRole('admin', 'admin')).toBe(false);
+    expect(canManageOrganizationRole('admin', 'owner')).toBe(false);
+  });
+
+  it('lets members and viewers manage nobody', () => {
+    expect(ORGANIZATION_ROLES.some((role) => canManageOrganizationRole('member', role))).toBe(false);
+    expect(ORGANIZATION_ROLES.some((role) => canManageOrganizationRole('viewer', role))).toBe(false);
+  });
+});
+
+describe('getGrantableRoles', () => {
+  it('offers the roles the actor may grant, in order', () => {
+    expect(getGrantableRoles('owner', INVITABLE_ORGANIZATION_ROLES)).toEqual(['admin', 'member', 'viewer']);
+    expect(getGrantableRoles('admin', INVITABLE_ORGANIZATION_ROLES)).toEqual(['member', 'viewer']);
+    expect(getGrantableRoles('member', ORGANIZATION_ROLES)).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+// src/features/organizations/utils/organization-roles.ts
+import { ORGANIZATION_ROLES, type OrganizationRole } from '../constants/organizations';
+
+/**
+ * Whether a role is at least as privileged as another, e.g. an owner has every admin permission.
+ * @param {OrganizationRole} role - The member's role.
+ * @param {OrganizationRole} minimum - The least privileged role that is allowed.
+ * @returns {boolean} Whether `role` is `minimum` or above.
+ */
+export function hasOrganizationRole(role: OrganizationRole, minimum: OrganizationRole): boolean {
+  return ORGANIZATION_ROLES.indexOf(role) <= ORGANIZATION_ROLES.indexOf(minimum);
+}
+
+/**
+ * Whether a member with `actorRole` may manage people holding `role`: invite someone with it,
+ * grant it, or change or remove a member who has it. Owners manage everyone; admins manage members
+ * and viewers. Mirrors `update_organization_member` and the invitation policies, which enforce
+ * the same rules in the database.
+ *
+ * @param {OrganizationRole} actorRole - The role of the member making the change.
+ * @param {OrganizationRole} role - The role being granted, or held by the member being changed.
+ * @returns {boolean} Whether the change is allowed.
+ */
+export function canManageOrganizationRole(actorRole: OrganizationRole, role: OrganizationRole): boolean {
+  if (actorRole === 'owner') return true;
+  return actorRole === 'admin' && (role === 'member' || role === 'viewer');
+}
+
+/**
+ * The roles a member may choose from when inviting someone or changing a member's role.
+ * @param {OrganizationRole} actorRole - The role of the member making the change.
+ * @param {readonly OrganizationRole[]} roles - The candidate roles.
+ * @returns {OrganizationRole[]} The roles they may grant.
+ */
+export function getGrantableRoles(actorRole: OrganizationRole, roles: readonly OrganizationRole[]): OrganizationRole[] {
+  return roles.filter((role) => canManageOrganizationRole(actorRole, role));
+}
@@ -0,0 +1,96 @@
+// src/features/user-auth-data/actions/account-deletion.actions.ts
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import * as authService from '@/features/auth/services/auth.service';
+import type { AuthActionState } from "@/features/auth/types";
+import { checkAuthRateLimit } from "@/features/auth/utils/auth-rate-limit";
+import { verifyUserPassword } from "@/features/auth/utils/password-verification";
+import * as accountDeletionService from '../services/account-deletion.service';
+import { AccountDeletionSchema } from "../schemas/account-deletion.schema";
+import { ACCOUNT_DELETION_GRACE_PERIOD_DAYS } from "../constants/account-deletion";
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('AccountDeletionActions');
+
+/**
+ * Server Action to delete the current user's account.
+ * Requires the current password and the typed confirmation phrase. The account is soft-deleted
+ * for `ACCOUNT_DELETION_GRACE_PERIOD_DAYS` and every session is signed out; signing in again
+ * before then restores it. Afterwards the purge job removes the profile, the uploaded images
+ * and the auth user.
+ * Password attempts count against the sign-in rate limit (`AUTH_RATE_LIMITS.signIn`).
+ *
+ * @param {AuthActionState} prevState - The previous state of the form action.
+ * @param {FormData} formData - The form data, expected to contain 'password' and 'confirmation'.
+ * @returns {Promise<AuthActionState>} The new state indicating success or failure, with messages.
+ */
+export async function requestAccountDeletion(_prevState: AuthActionState, formData: FormData): Promise<AuthActionState> {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    logger.warn('Account deletion requested without an authenticated user.');
+    return {
+      success: false,
+      message: "You must be signed in to delete your account.",
+    };
+  }
+
+  const validation = AccountDeletionSchema.safeParse({
+    password: formData.get("password"),
+    confirmation: formData.get("confirmation"),
+  });
+  if (!validation.success) {
+    const fieldErrors = validation.error.flatten().fieldErrors;
+    logger.warn('Account deletion validation failed.', { fields: Object.keys(fieldErrors) });
+    return {
+      success: false,
+      message: "Please check the highlighted fields.",
+      errorFields: {
+        ...(fieldErrors.password && { password: fieldErrors.password.join(", ") }),
+        ...(fieldErrors.confirmation && { confirmation: fieldErrors.confirmation.join(", ") }),
+      },
+    };
+  }
+
+  const rateLimitState = await checkAuthRateLimit('signIn', user.email);
+  if (rateLimitState) {
+    return rateLimitState;
+  }
+
+  const { valid, error: verifyError } = await verifyUserPassword(user.id, validation.data.password);
+  if (verifyError) {
+    return {
+      success: false,
+      message: "We couldn't verify your password. Please try again.",
+    };
+  }
+  if (!valid) {
+    logger.warn(`Account deletion rejected: incorrect password for user ID: ${user.id}`);
+    return {
+      success: false,
+      message: "Incorrect password. If you signed up with a social account, set a password with \"Forgot password\" first.",
+      errorFields: { password: "Incorrect password." },
+    };
+  }
+
+  const { purgeAfter, error: scheduleError } = await accountDeletionService.scheduleAccountDeletion(ACCOUNT_DELETION_GRACE_PERIOD_DAYS);
+  if (scheduleError || !purgeAfter) {
+    return {
+      success: false,
+      message: "We couldn't delete your account. Please try again.",
+    };
+  }
+
+  // The pending deletion is only cancelled by a new sign-in, so no existing session may stay active.
+  const { error: signOutError } = await authService.signOutWithSupabase('global');
+  if (signOutError) {
+    logger.error(`Account deletion scheduled but global sign-out failed for user ID: ${user.id}`, { serviceError: signOutError.message });
+  }
+
+  logger.info(`Account deletion scheduled for user ID: ${user.id}, purge after ${purgeAfter}`);
+  return {
+    success: true,
+    message: `Your account has been deleted. You can restore it by signing in again before ${new Date(purgeAfter).toLocaleDateString('en-US', { dateStyle: 'long' })}.`,
+  };
+}
@@ -1,3 +1,4 @@
 
 // src/features/user-auth-data/actions/index.ts
 export * from './profile.actions';
+export * from './account-deletion.actions';
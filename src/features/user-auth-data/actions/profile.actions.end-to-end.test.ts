@@ -0,0 +1,56 @@
+// src/features/user-auth-data/actions/profile.actions.end-to-end.test.ts
+import { updateUserProfile } from './profile.actions';
+import { getProfileByUserId } from '../services/profile.service';
+import { FakeSupabase } from '@/lib/supabase/testing';
+
+jest.mock('@/lib/logger', () => ({
+  getServerLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+// The profile service logs with console; keep the test output readable.
+jest.spyOn(console, 'log').mockImplementation(() => {});
+
+describe('updateUserProfile against the fake Supabase', () => {
+  let supabase: FakeSupabase;
+
+  beforeEach(() => {
+    supabase = new FakeSupabase();
+    supabase.install();
+  });
+
+  afterEach(() => supabase.uninstall());
+
+  it('updates the signed-in user\'s profile row', async () => {
+    const user = supabase.auth.createUser({ email: 'ada@example.com', userMetadata: { first_name: 'Ada', last_name: 'Byron' } });
+    supabase.auth.setCurrentUser(user.id);
+
+    const result = await updateUserProfile({ lastName: 'Lovelace', bio: 'Analyst' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toEqual(expect.objectContaining({ id: user.id, email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace', bio: 'Analyst' }));
+    const { data: profile } = await getProfileByUserId(user.id, user.email);
+    expect(profile).toEqual(expect.objectContaining({ firstName: 'Ada', lastName: 'Lovelace' }));
+  });
+
+  it('uploads a new avatar and stores its public URL', async () => {
+    const user = supabase.auth.createUser({ email: 'grace@example.com' });
+    supabase.auth.setCurrentUser(user.id);
+
+    const result = await updateUserProfile({ avatarDataUri: 'data:image/png;base64,iVBORw0KGgo=' });
+
+    const stored = supabase.storage.objects('profiles').get(`avatars/${user.id}.png`);
+    expect(stored).toEqual({ body: Buffer.from('iVBORw0KGgo=', 'base64'), contentType: 'image/png' });
+    expect(result.data?.avatarUrl).toBe(`http://fake-supabase.local/storage/v1/object/public/profiles/avatars/${user.id}.png`);
+    expect(supabase.db.rows('profiles')[0]).toEqual(expect.objectContaining({ avatar_url: result.data?.avatarUrl }));
+  });
+
+  it('refuses to update anything without a session', async () => {
+    const user = supabase.auth.createUser({ email: 'katherine@example.com' });
+
+    const result = await updateUserProfile({ firstName: 'Someone' });
+
+    expect(result.data).toBeUndefined();
+    expect(result.error).toMatch(/Auth session missing/);
+    expect(supabase.db.rows('profiles')).toEqual([expect.objectContaining({ id: user.id, first_name: null })]);
+  });
+});
@@ -4,6 +4,7 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { UserProfileSchema, type UserProfile } from "../schemas/profile.schema"; // Assuming UserProfile is exported
+import { fromSupabasePhone } from "@/features/auth/utils/phone";
 import { getServerLogger } from '@/lib/logger';
 
 const logger = getServerLogger('ProfileActions');
@@ -180,6 +181,8 @@ export async function updateUserProfile(
   const resultProfile: UserProfile = {
     id: updatedProfile.id,
     email: user.email, // Use email from auth user
+    phoneNumber: fromSupabasePhone(user.phone),
+    phoneVerified: !!user.phone && !!user.phone_confirmed_at,
     firstName: updatedProfile.first_name,
     lastName: updatedProfile.last_name,
     gender: updatedProfile.gender,
@@ -0,0 +1,11 @@
+// src/features/user-auth-data/constants/account-deletion.ts
+
+/** Days a deleted account can still be restored by signing in, before the purge job removes it. */
+export const ACCOUNT_DELETION_GRACE_PERIOD_DAYS = 14;
+
+/** The phrase users must type to confirm that they want to delete their account. */
+export const ACCOUNT_DELETION_CONFIRMATION_PHRASE = 'delete my account';
+
+/** The storage bucket and folders that hold a user's uploaded profile images. */
+export const PROFILE_STORAGE_BUCKET = 'profiles';
+export const PROFILE_STORAGE_FOLDERS = ['avatars', 'banners'] as const;
@@ -0,0 +1,2 @@
+// src/features/user-auth-data/constants/index.ts
+export * from './account-deletion';
@@ -1,4 +1,5 @@
 // src/features/user-profile/index.ts
+export * from './constants';
 export * from './hooks';
 export * from './queries';
 export * from './schemas';
@@ -31,8 +31,8 @@ export async function getCurrentUserProfile(): Promise<UserProfile> {
   }
   console.log(`[${getTimestamp()}] getCurrentUserProfile: Auth user ID: ${user.id}, Email: ${user.email ? user.email.substring(0,3) + '...' : 'N/A'}. Fetching profile by ID.`);
 
-  // Pass the user's email directly to the service
-  const { data: profile, error: serviceError } = await getProfileByUserId(user.id, user.email);
+  // Pass the user's email and phone directly to the service
+  const { data: profile, error: serviceError } = await getProfileByUserId(user.id, user.email, user);
   console.log(`[${getTimestamp()}] getCurrentUserProfile: Profile service call completed.`);
 
   if (serviceError) {
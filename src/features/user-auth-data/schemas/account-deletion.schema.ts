@@ -0,0 +1,19 @@
+// src/features/user-auth-data/schemas/account-deletion.schema.ts
+import { z } from 'zod';
+import { ACCOUNT_DELETION_CONFIRMATION_PHRASE } from '../constants/account-deletion';
+
+/**
+ * Schema for the "Delete my account" form: the current password and the typed confirmation phrase.
+ * The phrase is compared case-insensitively and ignoring surrounding whitespace.
+ */
+export const AccountDeletionSchema = z.object({
+  password: z.string().min(1, "Enter your current password."),
+  confirmation: z
+    .string()
+    .trim()
+    .refine((value) => value.toLowerCase() === ACCOUNT_DELETION_CONFIRMATION_PHRASE, {
+      message: `Type "${ACCOUNT_DELETION_CONFIRMATION_PHRASE}" to confirm.`,
+    }),
+});
+
+export type AccountDeletionInput = z.infer<typeof AccountDeletionSchema>;
@@ -1,2 +1,3 @@
 // src/features/user-profile/schemas/index.ts
 export * from './profile.schema';
+export * from './account-deletion.schema';
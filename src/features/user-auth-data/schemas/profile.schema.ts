@@ -6,6 +6,8 @@ const MAX_BIO_LENGTH = 180;
 export const UserProfileSchema = z.object({
   id: z.string().uuid().describe("User's unique identifier, matches auth.users.id"),
   email: z.string().email().optional().nullable().describe("User's email address from auth.users"),
+  phoneNumber: z.string().regex(/^\+[1-9]\d{7,14}$/, "Invalid phone number.").optional().nullable().describe("User's phone number from auth.users, in E.164 format"),
+  phoneVerified: z.boolean().default(false).describe("Whether the phone number was confirmed with an SMS code"),
   firstName: z.string().min(1, "First name is required.").max(50, "First name must be 50 characters or less.").optional().nullable().describe("User's first name"),
   lastName: z.string().min(1, "Last name is required.").max(50, "Last name must be 50 characters or less.").optional().nullable().describe("User's last name"),
   gender: z.string().optional().nullable().describe("User's gender"),
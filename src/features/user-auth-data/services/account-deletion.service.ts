@@ -0,0 +1,33 @@
+// src/features/user-auth-data/services/account-deletion.service.ts
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getServerLogger } from '@/lib/logger';
+
+const logger = getServerLogger('AccountDeletionService');
+
+/**
+ * Soft-deletes the current user's account. It can be restored by signing in until the
+ * returned purge date, after which the purge job removes it for good.
+ * Logs the attempt and the outcome.
+ *
+ * @param {number} gracePeriodDays - Days until the account is purged.
+ * @returns {Promise<{ purgeAfter: string | null, error: Error | null }>} The purge date (ISO string), or an error.
+ */
+export async function scheduleAccountDeletion(gracePeriodDays: number) {
+  logger.info(`Scheduling account deletion with a ${gracePeriodDays}-day grace period.`);
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('schedule_account_deletion', { p_grace_period_days: gracePeriodDays });
+
+  if (error) {
+    logger.error({
+      message: 'Scheduling account deletion failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+      supabaseError: error,
+    });
+    return { purgeAfter: null, error };
+  }
+
+  logger.info(`Account deletion scheduled. Purge after: ${data}`);
+  return { purgeAfter: data as string, error: null };
+}
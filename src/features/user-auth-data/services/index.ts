@@ -1,2 +1,3 @@
 // src/features/user-profile/services/index.ts
 export * from './profile.service';
+export * from './account-deletion.service';
@@ -0,0 +1,64 @@
+import { getProfileByUserId } from './profile.service';
+import { createClient } from '@/lib/supabase/server';
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+const USER_ID = 'a1b2c3d4-e5f6-4780-9123-456789abcdef';
+
+const mockDbProfile = {
+  id: USER_ID,
+  first_name: null,
+  last_name: null,
+  language: 'en',
+  role: 'user',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+/** Mocks `from('profiles').select().eq().maybeSingle()` to resolve with the given row. */
+function mockProfileRow(row: typeof mockDbProfile | null) {
+  const maybeSingle = jest.fn().mockResolvedValue({ data: row, error: null });
+  (createClient as jest.Mock).mockResolvedValue({
+    from: jest.fn(() => ({ select: jest.fn(() => ({ eq: jest.fn(() => ({ maybeSingle })) })) })),
+  });
+}
+
+describe('getProfileByUserId', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('combines the profile row with the email', async () => {
+    mockProfileRow(mockDbProfile);
+
+    const { data, error } = await getProfileByUserId(USER_ID, 'user@example.com');
+
+    expect(error).toBeNull();
+    expect(data).toMatchObject({ id: USER_ID, email: 'user@example.com', role: 'user' });
+  });
+
+  it('adds the phone number in E.164 format and whether it was confirmed', async () => {
+    mockProfileRow(mockDbProfile);
+
+    const confirmed = await getProfileByUserId(USER_ID, null, { phone: '14155550123', phone_confirmed_at: '2026-01-02T00:00:00Z' });
+    expect(confirmed.data).toMatchObject({ phoneNumber: '+14155550123', phoneVerified: true });
+
+    const unconfirmed = await getProfileByUserId(USER_ID, 'user@example.com', { phone: '14155550123' });
+    expect(unconfirmed.data).toMatchObject({ phoneNumber: '+14155550123', phoneVerified: false });
+
+    const none = await getProfileByUserId(USER_ID, 'user@example.com', { phone: '' });
+    expect(none.data).toMatchObject({ phoneNumber: null, phoneVerified: false });
+  });
+
+  it.each([[''], [null], [undefined]])('loads the profile of a guest without an email (%p)', async (email) => {
+    mockProfileRow(mockDbProfile);
+
+    const { data, error } = await getProfileByUserId(USER_ID, email);
+
+    expect(error).toBeNull();
+    expect(data).toMatchObject({ id: USER_ID, email: null });
+  });
+});
@@ -2,8 +2,9 @@
 'use server'; // Important: This service will be called by a Server Action
 
 import { createClient } from '@/lib/supabase/server';
+import { fromSupabasePhone } from '@/features/auth/utils/phone';
 import { type UserProfile, UserProfileSchema } from '../schemas/profile.schema';
-import { PostgrestError } from '@supabase/supabase-js';
+import { PostgrestError, type User } from '@supabase/supabase-js';
 
 const getTimestamp = () => new Date().toISOString();
 
@@ -14,12 +15,20 @@ export interface ProfileServiceResponse {
 
 /**
  * Fetches a user's profile data from the 'profiles' table and uses the provided email.
+ * Guests (anonymous users) have no email until they save their account; Supabase reports it as
+ * an empty string, which is stored as null. The phone number and whether it was confirmed also come
+ * from the auth user, since Supabase keeps them there rather than in `profiles`.
  *
  * @param userId The ID of the user whose profile is to be fetched.
- * @param userEmail The email of the user, passed from an authenticated context.
+ * @param userEmail The email of the user, passed from an authenticated context, if they have one.
+ * @param userPhone The phone fields of the auth user, if known.
  * @returns An object containing the user profile data or an error.
  */
-export async function getProfileByUserId(userId: string, userEmail: string | null | undefined): Promise<ProfileServiceResponse> {
+export async function getProfileByUserId(
+  userId: string,
+  userEmail?: string | null,
+  userPhone?: Pick<User, 'phone' | 'phone_confirmed_at'>,
+): Promise<ProfileServiceResponse> {
   console.log(`[${getTimestamp()}] getProfileByUserId: Service started for user ID: ${userId}, with email: ${userEmail ? userEmail.substring(0,3) + '...' : 'N/A'}.`);
   const supabase = await createClient();
 
@@ -44,7 +53,9 @@ export async function getProfileByUserId(userId: string, userEmail: string | nul
     // 3. Combine data and validate with Zod
     const combinedData = {
       id: userId,
-      email: userEmail, // Use the passed email
+      email: userEmail || null, // Use the passed email; guests have none
+      phoneNumber: fromSupabasePhone(userPhone?.phone),
+      phoneVerified: !!userPhone?.phone && !!userPhone.phone_confirmed_at,
       firstName: profileData?.first_name ?? null,
       lastName: profileData?.last_name ?? null,
       gender: profileData?.gender ?? null,
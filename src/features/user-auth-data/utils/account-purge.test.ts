@@ -0,0 +1,81 @@
+import { purgeDueAccountDeletions } from './account-purge';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+jest.mock('@/lib/supabase/admin', () => ({
+  createAdminClient: jest.fn(),
+}));
+
+jest.mock('@/lib/logger', () => ({
+  getServerLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const USER_A = '11111111-1111-4111-8111-111111111111';
+const USER_B = '22222222-2222-4222-8222-222222222222';
+
+/** The chain `purgeDueAccountDeletions` runs on `account_deletions` to find the due accounts. */
+interface DueDeletionsQuery {
+  select: (columns: string) => DueDeletionsQuery;
+  lte: (column: string, value: string) => DueDeletionsQuery;
+  order: (column: string, options?: { ascending?: boolean }) => DueDeletionsQuery;
+  limit: (count: number) => Promise<{ data: { user_id: string }[]; error: null }>;
+}
+
+function createMockAdmin(dueUserIds: string[]) {
+  const storageObjects: Record<string, { name: string }[]> = {
+    avatars: [{ name: `${USER_A}.png` }, { name: `${USER_A}0.png` }],
+    banners: [],
+  };
+  const bucket = {
+    list: jest.fn(async (folder: string) => ({ data: storageObjects[folder] ?? [], error: null })),
+    remove: jest.fn(async () => ({ data: [], error: null })),
+  };
+  const profileDeleteEq = jest.fn(async () => ({ error: null }));
+  const dueQuery: DueDeletionsQuery = {
+    select: jest.fn(() => dueQuery),
+    lte: jest.fn(() => dueQuery),
+    order: jest.fn(() => dueQuery),
+    limit: jest.fn(async () => ({ data: dueUserIds.map((user_id) => ({ user_id })), error: null })),
+  };
+
+  return {
+    bucket,
+    profileDeleteEq,
+    rpc: jest.fn(async () => ({ data: null, error: null })),
+    from: jest.fn((table: string) =>
+      table === 'profiles' ? { delete: () => ({ eq: profileDeleteEq }) } : dueQuery
+    ),
+    storage: { from: jest.fn(() => bucket) },
+    auth: {
+      admin: {
+        deleteUser: jest.fn(async (userId: string) => ({
+          data: null,
+          error: userId === USER_B ? { status: 500, name: 'AuthApiError', message: 'boom' } : null,
+        })),
+      },
+    },
+  };
+}
+
+describe('purgeDueAccountDeletions', () => {
+  it('removes the images, profile and auth user of each due account', async () => {
+    const admin = createMockAdmin([USER_A]);
+    (createAdminClient as jest.Mock).mockReturnValue(admin);
+
+    const summary = await purgeDueAccountDeletions(new Date('2026-11-02T00:00:00Z'));
+
+    expect(summary).toEqual({ purged: [USER_A], failed: [] });
+    expect(admin.bucket.remove).toHaveBeenCalledWith([`avatars/${USER_A}.png`]);
+    expect(admin.rpc).toHaveBeenCalledWith('hand_over_owned_organizations', { p_user_id: USER_A });
+    expect(admin.profileDeleteEq).toHaveBeenCalledWith('id', USER_A);
+    expect(admin.auth.admin.deleteUser).toHaveBeenCalledWith(USER_A);
+  });
+
+  it('keeps purging other accounts when one fails', async () => {
+    const admin = createMockAdmin([USER_B, USER_A]);
+    (createAdminClient as jest.Mock).mockReturnValue(admin);
+
+    const summary = await purgeDueAccountDeletions();
+
+    expect(summary).toEqual({ purged: [USER_A], failed: [USER_B] });
+  });
+});
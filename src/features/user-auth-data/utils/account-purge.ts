@@ -0,0 +1,109 @@
+// src/features/user-auth-data/utils/account-purge.ts
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getServerLogger } from '@/lib/logger';
+import { PROFILE_STORAGE_BUCKET, PROFILE_STORAGE_FOLDERS } from '../constants/account-deletion';
+
+// Deliberately not a "use server" module: it runs with the service role and must only be
+// reachable through the purge route, which checks the cron secret.
+
+const logger = getServerLogger('AccountPurge');
+
+/** How many accounts one run purges at most, to keep the request within platform time limits. */
+const PURGE_BATCH_SIZE = 50;
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export interface AccountPurgeSummary {
+  purged: string[];
+  failed: string[];
+}
+
+/**
+ * Removes every uploaded profile image of a user. Uploads are stored as `<folder>/<userId>.<ext>`.
+ * @param {AdminClient} admin - The service role client.
+ * @param {string} userId - The user's ID.
+ * @throws {Error} If listing or removing the objects fails.
+ */
+async function removeProfileImages(admin: AdminClient, userId: string): Promise<void> {
+  const bucket = admin.storage.from(PROFILE_STORAGE_BUCKET);
+  for (const folder of PROFILE_STORAGE_FOLDERS) {
+    const { data: objects, error: listError } = await bucket.list(folder, { search: userId });
+    if (listError) throw listError;
+
+    const paths = (objects ?? [])
+      .filter((object) => object.name.startsWith(`${userId}.`))
+      .map((object) => `${folder}/${object.name}`);
+    if (paths.length === 0) continue;
+
+    const { error: removeError } = await bucket.remove(paths);
+    if (removeError) throw removeError;
+  }
+}
+
+/**
+ * Permanently deletes one account: its profile images, its `profiles` row and the auth user.
+ * Workspaces the user is the only owner of are handed to another member first, or deleted when
+ * nobody else is left (`hand_over_owned_organizations`), so none is left without an owner.
+ * Deleting the auth user cascades to its pending deletion, memberships, sessions and MFA factors.
+ * The steps are idempotent, so a run that fails halfway is completed by the next one.
+ *
+ * @param {AdminClient} admin - The service role client.
+ * @param {string} userId - The user's ID.
+ * @throws {Error} If any step fails.
+ */
+async function purgeAccount(admin: AdminClient, userId: string): Promise<void> {
+  await removeProfileImages(admin, userId);
+
+  const { error: handOverError } = await admin.rpc('hand_over_owned_organizations', { p_user_id: userId });
+  if (handOverError) throw handOverError;
+
+  const { error: profileError } = await admin.from('profiles').delete().eq('id', userId);
+  if (profileError) throw profileError;
+
+  const { error: userError } = await admin.auth.admin.deleteUser(userId);
+  if (userError && userError.status !== 404) throw userError;
+}
+
+/**
+ * Purges all accounts whose deletion grace period has ended.
+ * Each account is purged independently; failures are logged and retried on the next run.
+ *
+ * @param {Date} [now=new Date()] - The current time.
+ * @returns {Promise<AccountPurgeSummary>} The IDs of the purged accounts and of those that failed.
+ * @throws {Error} If the due deletions cannot be loaded.
+ */
+export async function purgeDueAccountDeletions(now: Date = new Date()): Promise<AccountPurgeSummary> {
+  const admin = createAdminClient();
+  const { data: dueDeletions, error } = await admin
+    .from('account_deletions')
+    .select('user_id')
+    .lte('purge_after', now.toISOString())
+    .order('purge_after', { ascending: true })
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) {
+    logger.error({
+      message: 'Loading due account deletions failed.',
+      error: { name: error.name, message: error.message, code: error.code },
+    });
+    throw new Error(`Failed to load due account deletions: ${error.message}`);
+  }
+
+  const summary: AccountPurgeSummary = { purged: [], failed: [] };
+  for (const { user_id: userId } of (dueDeletions ?? []) as { user_id: string }[]) {
+    try {
+      await purgeAccount(admin, userId);
+      summary.purged.push(userId);
+      logger.info(`Account purged for user ID: ${userId}`);
+    } catch (purgeError) {
+      summary.failed.push(userId);
+      logger.error({
+        message: `Account purge failed for user ID: ${userId}`,
+        error: { name: (purgeError as Error).name, message: (purgeError as Error).message },
+      });
+    }
+  }
+
+  logger.info(`Account purge run finished. Purged: ${summary.purged.length}, failed: ${summary.failed.length}`);
+  return summary;
+}
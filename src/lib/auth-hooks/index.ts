@@ -0,0 +1,2 @@
+// src/lib/auth-hooks/index.ts
+export * from './verify-auth-hook-request';
@@ -0,0 +1,41 @@
+import { createHmac } from 'crypto';
+import { verifyAuthHookRequest } from './verify-auth-hook-request';
+
+const key = Buffer.from('a-test-signing-key-of-some-length');
+const secret = `v1,whsec_${key.toString('base64')}`;
+const now = new Date('2026-10-19T12:00:00Z');
+const timestamp = String(now.getTime() / 1000);
+const body = JSON.stringify({ user: { phone: '+14155550123' }, sms: { otp: '123456' } });
+
+function sign(payload: string, at: string = timestamp): string {
+  return createHmac('sha256', key).update(`msg_1.${at}.${payload}`).digest('base64');
+}
+
+function hookRequest(headers: Record<string, string>): Request {
+  return new Request('https://example.com/api/auth/hooks/send-sms', { method: 'POST', headers, body });
+}
+
+describe('verifyAuthHookRequest', () => {
+  it('accepts a request signed with the hook secret', () => {
+    const request = hookRequest({
+      'webhook-id': 'msg_1',
+      'webhook-timestamp': timestamp,
+      'webhook-signature': `v1,bm90LXRoaXMtb25l v1,${sign(body)}`,
+    });
+    expect(verifyAuthHookRequest(request, body, secret, now)).toBe('ok');
+  });
+
+  it('rejects a tampered body, a missing signature and a stale timestamp', () => {
+    const headers = { 'webhook-id': 'msg_1', 'webhook-timestamp': timestamp, 'webhook-signature': `v1,${sign(body)}` };
+    expect(verifyAuthHookRequest(hookRequest(headers), body.replace('123456', '000000'), secret, now)).toBe('unauthorized');
+    expect(verifyAuthHookRequest(hookRequest({ ...headers, 'webhook-signature': '' }), body, secret, now)).toBe('unauthorized');
+
+    const stale = String(now.getTime() / 1000 - 10 * 60);
+    const staleRequest = hookRequest({ ...headers, 'webhook-timestamp': stale, 'webhook-signature': `v1,${sign(body, stale)}` });
+    expect(verifyAuthHookRequest(staleRequest, body, secret, now)).toBe('unauthorized');
+  });
+
+  it('never lets requests through without a secret', () => {
+    expect(verifyAuthHookRequest(hookRequest({}), body, undefined, now)).toBe('not-configured');
+  });
+});
@@ -0,0 +1,52 @@
+// src/lib/auth-hooks/verify-auth-hook-request.ts
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** Signed requests older (or newer) than this are rejected, so captured requests cannot be replayed later. */
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Checks the signature Supabase puts on requests to HTTP auth hooks (e.g. the Send SMS hook).
+ * Supabase signs them per the Standard Webhooks spec: `webhook-signature` holds one or more
+ * space-separated `v1,<base64 HMAC-SHA256>` values over `<webhook-id>.<webhook-timestamp>.<body>`,
+ * keyed with the hook secret shown in the dashboard (`v1,whsec_<base64>`). Hook routes sit under the
+ * public `/api/**` route policy, so this check is their only protection.
+ *
+ * @param {Request} request - The incoming request.
+ * @param {string} body - The raw request body, exactly as received.
+ * @param {string | undefined} secret - The hook secret.
+ * @param {Date} [now=new Date()] - The current time.
+ * @returns {'ok' | 'unauthorized' | 'not-configured'} `not-configured` when no secret is set,
+ *   so a missing secret never lets requests through.
+ */
+export function verifyAuthHookRequest(
+  request: Request,
+  body: string,
+  secret: string | undefined,
+  now: Date = new Date(),
+): 'ok' | 'unauthorized' | 'not-configured' {
+  if (!secret) {
+    return 'not-configured';
+  }
+
+  const id = request.headers.get('webhook-id');
+  const timestamp = request.headers.get('webhook-timestamp');
+  const signatures = request.headers.get('webhook-signature');
+  if (!id || !timestamp || !signatures) {
+    return 'unauthorized';
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt) || Math.abs(now.getTime() / 1000 - sentAt) > TIMESTAMP_TOLERANCE_SECONDS) {
+    return 'unauthorized';
+  }
+
+  const key = Buffer.from(secret.replace(/^v1,/, '').replace(/^whsec_/, ''), 'base64');
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest();
+  const matches = signatures.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) return false;
+    const received = Buffer.from(signature, 'base64');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+  return matches ? 'ok' : 'unauthorized';
+}
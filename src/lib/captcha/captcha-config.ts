@@ -0,0 +1,25 @@
+// src/lib/captcha/captcha-config.ts
+import type { CaptchaProvider } from './types';
+
+const PROVIDERS: CaptchaProvider[] = ['turnstile', 'hcaptcha', 'test'];
+
+export interface CaptchaClientConfig {
+  provider: CaptchaProvider;
+  /** The public site key for the widget; empty for the test provider. */
+  siteKey: string;
+}
+
+/**
+ * Reads the CAPTCHA configuration shared by the widget and the server:
+ * `NEXT_PUBLIC_CAPTCHA_PROVIDER` (`turnstile`, `hcaptcha` or `test`) and `NEXT_PUBLIC_CAPTCHA_SITE_KEY`.
+ * Safe to call in the browser.
+ *
+ * @returns {CaptchaClientConfig | null} The configuration, or null when CAPTCHA is disabled.
+ */
+export function getCaptchaClientConfig(): CaptchaClientConfig | null {
+  const provider = process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER as CaptchaProvider | undefined;
+  if (!provider || !PROVIDERS.includes(provider)) {
+    return null;
+  }
+  return { provider, siteKey: process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY ?? '' };
+}
@@ -0,0 +1,80 @@
+import { SiteverifyCaptchaVerifier } from './siteverify-verifier';
+import { TEST_CAPTCHA_TOKEN, TestCaptchaVerifier } from './test-verifier';
+
+describe('SiteverifyCaptchaVerifier', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('posts the token, secret and client IP to the provider', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ success: true }) });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await new SiteverifyCaptchaVerifier('turnstile', 'secret').verify('token', '203.0.113.7');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://challenges.cloudflare.com/turnstile/v0/siteverify');
+    expect(Object.fromEntries(init.body)).toEqual({ secret: 'secret', response: 'token', remoteip: '203.0.113.7' });
+    expect(result).toEqual({ success: true, errorCodes: [] });
+  });
+
+  it('reports rejected tokens with their error codes', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: false, 'error-codes': ['invalid-input-response'] }),
+    }) as unknown as typeof fetch;
+
+    const result = await new SiteverifyCaptchaVerifier('hcaptcha', 'secret').verify('bad', 'unknown');
+
+    expect(result).toEqual({ success: false, errorCodes: ['invalid-input-response'] });
+    expect(Object.fromEntries((global.fetch as jest.Mock).mock.calls[0][1].body)).not.toHaveProperty('remoteip');
+  });
+
+  it('throws when the provider cannot be reached', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503 }) as unknown as typeof fetch;
+
+    await expect(new SiteverifyCaptchaVerifier('hcaptcha', 'secret').verify('token')).rejects.toThrow('hcaptcha responded with 503');
+  });
+});
+
+describe('TestCaptchaVerifier', () => {
+  it('accepts only the test token', async () => {
+    const verifier = new TestCaptchaVerifier();
+    expect((await verifier.verify(TEST_CAPTCHA_TOKEN)).success).toBe(true);
+    expect((await verifier.verify('anything-else')).success).toBe(false);
+  });
+});
+
+describe('getCaptchaVerifier', () => {
+  const originalEnv = process.env;
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  function loadGetCaptchaVerifier() {
+    let getCaptchaVerifier!: typeof import('./captcha-verifier').getCaptchaVerifier;
+    jest.isolateModules(() => {
+      ({ getCaptchaVerifier } = require('./captcha-verifier'));
+    });
+    return getCaptchaVerifier;
+  }
+
+  it('is disabled unless a provider is configured', () => {
+    process.env = { ...originalEnv, NEXT_PUBLIC_CAPTCHA_PROVIDER: undefined };
+    expect(loadGetCaptchaVerifier()()).toBeNull();
+  });
+
+  it('requires the secret key for real providers', () => {
+    process.env = { ...originalEnv, NEXT_PUBLIC_CAPTCHA_PROVIDER: 'turnstile', CAPTCHA_SECRET_KEY: 'secret' };
+    expect(loadGetCaptchaVerifier()()?.provider).toBe('turnstile');
+
+    process.env = { ...originalEnv, NEXT_PUBLIC_CAPTCHA_PROVIDER: 'hcaptcha', CAPTCHA_SECRET_KEY: undefined };
+    expect(() => loadGetCaptchaVerifier()()).toThrow('CAPTCHA_SECRET_KEY');
+  });
+
+  it('refuses the test provider in production', () => {
+    process.env = { ...originalEnv, NEXT_PUBLIC_CAPTCHA_PROVIDER: 'test', NODE_ENV: 'production' };
+    expect(() => loadGetCaptchaVerifier()()).toThrow('production');
+  });
+});
@@ -0,0 +1,36 @@
+// src/lib/captcha/captcha-verifier.ts
+import { getCaptchaClientConfig } from './captcha-config';
+import { SiteverifyCaptchaVerifier } from './siteverify-verifier';
+import { TestCaptchaVerifier } from './test-verifier';
+import type { CaptchaVerifier } from './types';
+
+let verifier: CaptchaVerifier | null | undefined;
+
+/**
+ * Returns the configured CAPTCHA verifier, chosen by `NEXT_PUBLIC_CAPTCHA_PROVIDER`:
+ * `turnstile` or `hcaptcha` (with `CAPTCHA_SECRET_KEY`) verify with the provider; `test` accepts
+ * only `TEST_CAPTCHA_TOKEN`. Server-only, since it reads the secret key.
+ *
+ * @returns {CaptchaVerifier | null} The shared verifier instance, or null when CAPTCHA is disabled.
+ * @throws {Error} If the secret key is missing, or the test provider is configured in production.
+ */
+export function getCaptchaVerifier(): CaptchaVerifier | null {
+  if (verifier !== undefined) return verifier;
+
+  const config = getCaptchaClientConfig();
+  if (!config) {
+    verifier = null;
+  } else if (config.provider === 'test') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The test CAPTCHA provider cannot be used in production. Please check environment variables.');
+    }
+    verifier = new TestCaptchaVerifier();
+  } else {
+    const secretKey = process.env['CAPTCHA_SECRET_KEY'];
+    if (!secretKey) {
+      throw new Error('CAPTCHA_SECRET_KEY is not defined. Please check environment variables.');
+    }
+    verifier = new SiteverifyCaptchaVerifier(config.provider, secretKey);
+  }
+  return verifier;
+}
@@ -0,0 +1,6 @@
+// src/lib/captcha/index.ts
+export * from './types';
+export * from './captcha-config';
+export * from './siteverify-verifier';
+export * from './test-verifier';
+export * from './captcha-verifier';
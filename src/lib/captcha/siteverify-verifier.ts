@@ -0,0 +1,34 @@
+// src/lib/captcha/siteverify-verifier.ts
+import type { CaptchaProvider, CaptchaVerificationResult, CaptchaVerifier } from './types';
+
+const SITEVERIFY_URLS: Record<Exclude<CaptchaProvider, 'test'>, string> = {
+  turnstile: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+  hcaptcha: 'https://api.hcaptcha.com/siteverify',
+};
+
+/**
+ * Verifies tokens with a provider's `siteverify` endpoint. Cloudflare Turnstile and hCaptcha share
+ * the same protocol: a form-encoded POST of `secret`, `response` and `remoteip`, answered with
+ * `{ success, "error-codes" }`.
+ */
+export class SiteverifyCaptchaVerifier implements CaptchaVerifier {
+  constructor(
+    readonly provider: Exclude<CaptchaProvider, 'test'>,
+    private readonly secretKey: string,
+  ) {}
+
+  async verify(token: string, remoteIp?: string): Promise<CaptchaVerificationResult> {
+    const body = new URLSearchParams({ secret: this.secretKey, response: token });
+    if (remoteIp && remoteIp !== 'unknown') {
+      body.set('remoteip', remoteIp);
+    }
+
+    const response = await fetch(SITEVERIFY_URLS[this.provider], { method: 'POST', body });
+    if (!response.ok) {
+      throw new Error(`Failed to verify CAPTCHA: ${this.provider} responded with ${response.status}`);
+    }
+
+    const result = (await response.json()) as { success?: boolean; 'error-codes'?: string[] };
+    return { success: result.success === true, errorCodes: result['error-codes'] ?? [] };
+  }
+}
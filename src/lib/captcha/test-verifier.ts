@@ -0,0 +1,19 @@
+// src/lib/captcha/test-verifier.ts
+import type { CaptchaVerificationResult, CaptchaVerifier } from './types';
+
+/** The only token the test verifier accepts. The test widget submits it once its checkbox is ticked. */
+export const TEST_CAPTCHA_TOKEN = 'test-captcha-pass';
+
+/**
+ * A verifier that accepts exactly `TEST_CAPTCHA_TOKEN`, without any network call.
+ * For local development and automated tests only; `getCaptchaVerifier` refuses it in production.
+ */
+export class TestCaptchaVerifier implements CaptchaVerifier {
+  readonly provider = 'test' as const;
+
+  async verify(token: string): Promise<CaptchaVerificationResult> {
+    return token === TEST_CAPTCHA_TOKEN
+      ? { success: true, errorCodes: [] }
+      : { success: false, errorCodes: ['invalid-input-response'] };
+  }
+}
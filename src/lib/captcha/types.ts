@@ -0,0 +1,20 @@
+// src/lib/captcha/types.ts
+
+/** The supported bot-challenge providers. `test` is a deterministic verifier for local development and tests. */
+export type CaptchaProvider = 'turnstile' | 'hcaptcha' | 'test';
+
+export interface CaptchaVerificationResult {
+  success: boolean;
+  /** Provider error codes, e.g. `invalid-input-response` or `timeout-or-duplicate`. */
+  errorCodes: string[];
+}
+
+/**
+ * Verifies the token a CAPTCHA widget produced in the browser.
+ * Implementations throw only if the provider could not be reached; a rejected token is a
+ * result with `success: false`.
+ */
+export interface CaptchaVerifier {
+  readonly provider: CaptchaProvider;
+  verify(token: string, remoteIp?: string): Promise<CaptchaVerificationResult>;
+}
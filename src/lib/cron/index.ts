@@ -0,0 +1,2 @@
+// src/lib/cron/index.ts
+export * from './verify-cron-request';
@@ -0,0 +1,25 @@
+// src/lib/cron/verify-cron-request.ts
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Checks that a request to a scheduled-job route carries the cron secret as a bearer token
+ * (`Authorization: Bearer <CRON_SECRET>`). Job routes sit under the public `/api/**` route policy,
+ * so this check is their only protection.
+ *
+ * @param {Request} request - The incoming request.
+ * @returns {'ok' | 'unauthorized' | 'not-configured'} `not-configured` when `CRON_SECRET` is not set,
+ *   so a missing secret never lets requests through.
+ */
+export function verifyCronRequest(request: Request): 'ok' | 'unauthorized' | 'not-configured' {
+  const secret = process.env['CRON_SECRET'];
+  if (!secret) {
+    return 'not-configured';
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') ?? '');
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return 'unauthorized';
+  }
+  return 'ok';
+}
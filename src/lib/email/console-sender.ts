@@ -0,0 +1,15 @@
+// src/lib/email/console-sender.ts
+import { getServerLogger } from '@/lib/logger';
+import type { EmailMessage, EmailSender } from './types';
+
+const logger = getServerLogger('ConsoleEmailSender');
+
+/**
+ * An email sender that only logs messages instead of delivering them.
+ * The default in development and tests, so no provider account is needed.
+ */
+export class ConsoleEmailSender implements EmailSender {
+  async send(message: EmailMessage): Promise<void> {
+    logger.info(`Email (not delivered) to ${message.to.substring(0, 3)}...: ${message.subject}`, { text: message.text });
+  }
+}
@@ -0,0 +1,65 @@
+import { ResendEmailSender } from './resend-sender';
+
+jest.mock('@/lib/logger', () => ({
+  getServerLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const message = { to: 'ada@example.com', subject: 'Hello', text: 'Plain body' };
+
+describe('ResendEmailSender', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('posts the message to the Resend API', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await new ResendEmailSender('re_test', 'PassForge <noreply@example.com>').send(message);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.resend.com/emails');
+    expect(init.headers.Authorization).toBe('Bearer re_test');
+    expect(JSON.parse(init.body)).toEqual({
+      from: 'PassForge <noreply@example.com>',
+      to: ['ada@example.com'],
+      subject: 'Hello',
+      text: 'Plain body',
+    });
+  });
+
+  it('throws when the API rejects the message', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 422, text: async () => 'invalid from' }) as unknown as typeof fetch;
+
+    await expect(new ResendEmailSender('re_test', 'bad').send(message)).rejects.toThrow('422 invalid from');
+  });
+});
+
+describe('getEmailSender', () => {
+  const originalEnv = process.env;
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  function loadGetEmailSender() {
+    let getEmailSender!: typeof import('./email-sender').getEmailSender;
+    jest.isolateModules(() => {
+      ({ getEmailSender } = require('./email-sender'));
+    });
+    return getEmailSender;
+  }
+
+  it('logs emails unless a provider is configured', () => {
+    process.env = { ...originalEnv, EMAIL_PROVIDER: undefined };
+    expect(loadGetEmailSender()().constructor.name).toBe('ConsoleEmailSender');
+  });
+
+  it('uses Resend when configured, and requires its settings', () => {
+    process.env = { ...originalEnv, EMAIL_PROVIDER: 'resend', RESEND_API_KEY: 're_test', EMAIL_FROM: 'noreply@example.com' };
+    expect(loadGetEmailSender()().constructor.name).toBe('ResendEmailSender');
+
+    process.env = { ...originalEnv, EMAIL_PROVIDER: 'resend', RESEND_API_KEY: undefined };
+    expect(() => loadGetEmailSender()()).toThrow('RESEND_API_KEY or EMAIL_FROM');
+  });
+});
@@ -0,0 +1,29 @@
+// src/lib/email/email-sender.ts
+import { ConsoleEmailSender } from './console-sender';
+import { ResendEmailSender } from './resend-sender';
+import type { EmailSender } from './types';
+
+let sender: EmailSender | null = null;
+
+/**
+ * Returns the configured email sender, chosen by `EMAIL_PROVIDER`:
+ * `resend` (with `RESEND_API_KEY` and `EMAIL_FROM`) delivers real emails; anything else logs them.
+ *
+ * @returns {EmailSender} The shared sender instance.
+ * @throws {Error} If `EMAIL_PROVIDER=resend` but its API key or sender address is missing.
+ */
+export function getEmailSender(): EmailSender {
+  if (sender) return sender;
+
+  if (process.env['EMAIL_PROVIDER'] === 'resend') {
+    const apiKey = process.env['RESEND_API_KEY'];
+    const from = process.env['EMAIL_FROM'];
+    if (!apiKey || !from) {
+      throw new Error('RESEND_API_KEY or EMAIL_FROM is not defined. Please check environment variables.');
+    }
+    sender = new ResendEmailSender(apiKey, from);
+  } else {
+    sender = new ConsoleEmailSender();
+  }
+  return sender;
+}
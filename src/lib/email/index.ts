@@ -0,0 +1,5 @@
+// src/lib/email/index.ts
+export * from './types';
+export * from './console-sender';
+export * from './resend-sender';
+export * from './email-sender';
@@ -0,0 +1,36 @@
+// src/lib/email/resend-sender.ts
+import type { EmailMessage, EmailSender } from './types';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+/**
+ * An email sender that delivers through the Resend HTTP API.
+ * Uses `fetch` directly, so no provider SDK is needed.
+ */
+export class ResendEmailSender implements EmailSender {
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string,
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        ...(message.html && { html: message.html }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to send email: Resend responded with ${response.status} ${await response.text()}`);
+    }
+  }
+}
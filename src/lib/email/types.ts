@@ -0,0 +1,18 @@
+// src/lib/email/types.ts
+
+/** A transactional email sent by the app itself (Supabase sends the auth emails). */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  /** Plain-text body. Always required, so every message is readable without HTML. */
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers transactional emails.
+ * Implementations throw if the message could not be handed to the provider.
+ */
+export interface EmailSender {
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,5 @@
+// src/lib/rate-limit/index.ts
+export * from './types';
+export * from './rate-limiter';
+export * from './memory-store';
+export * from './postgres-store';
@@ -0,0 +1,28 @@
+// src/lib/rate-limit/memory-store.ts
+import type { RateLimitStore } from './types';
+
+/**
+ * A rate-limit store that keeps hits in process memory.
+ * Suitable for development, tests and single-instance deployments. With several server
+ * instances (or serverless functions) each keeps its own counts, so use the Postgres store there.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly hits = new Map<string, number[]>();
+
+  async hit(key: string, now: number, windowMs: number): Promise<number[]> {
+    const windowStart = now - windowMs;
+    const timestamps = (this.hits.get(key) ?? []).filter((timestamp) => timestamp > windowStart);
+    timestamps.push(now);
+    this.hits.set(key, timestamps);
+    return [...timestamps];
+  }
+
+  async count(key: string, now: number, windowMs: number): Promise<number> {
+    const windowStart = now - windowMs;
+    return (this.hits.get(key) ?? []).filter((timestamp) => timestamp > windowStart).length;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+}
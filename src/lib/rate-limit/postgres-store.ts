@@ -0,0 +1,45 @@
+// src/lib/rate-limit/postgres-store.ts
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { RateLimitStore } from './types';
+
+/**
+ * A rate-limit store backed by the `rate_limit_hits` table in Postgres, shared by all server instances.
+ * Hits are recorded through the `rate_limit_hit` database function, which inserts the hit, prunes the
+ * window and returns it in one statement (see `supabase/migrations/*_rate_limit_hits.sql`).
+ * Uses the service role client because the table is not accessible to users.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async hit(key: string, now: number, windowMs: number): Promise<number[]> {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase.rpc('rate_limit_hit', {
+      p_key: key,
+      p_now_ms: now,
+      p_window_ms: windowMs,
+    });
+    if (error) {
+      throw new Error(`Failed to record rate limit hit: ${error.message}`);
+    }
+    return ((data as number[] | null) ?? []).map(Number);
+  }
+
+  async count(key: string, now: number, windowMs: number): Promise<number> {
+    const supabase = createAdminClient();
+    const { count, error } = await supabase
+      .from('rate_limit_hits')
+      .select('id', { count: 'exact', head: true })
+      .eq('key', key)
+      .gt('hit_at', new Date(now - windowMs).toISOString());
+    if (error) {
+      throw new Error(`Failed to count rate limit hits: ${error.message}`);
+    }
+    return count ?? 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    const supabase = createAdminClient();
+    const { error } = await supabase.from('rate_limit_hits').delete().eq('key', key);
+    if (error) {
+      throw new Error(`Failed to reset rate limit: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { createRateLimiter } from './rate-limiter';
+import { MemoryRateLimitStore } from './memory-store';
+
+const WINDOW_MS = 60_000;
+
+describe('createRateLimiter', () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+  const limiter = () => createRateLimiter(store, { limit: 3, windowMs: WINDOW_MS }, () => now);
+
+  beforeEach(() => {
+    now = 1_000_000;
+    store = new MemoryRateLimitStore();
+  });
+
+  it('allows hits up to the limit and reports the remaining hits', async () => {
+    const rateLimiter = limiter();
+    expect(await rateLimiter.consume('key')).toEqual({ allowed: true, remaining: 2, retryAfterMs: 0 });
+    expect(await rateLimiter.consume('key')).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(await rateLimiter.consume('key')).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+  });
+
+  it('rejects hits over the limit until the window slides past the oldest ones', async () => {
+    const rateLimiter = limiter();
+    await rateLimiter.consume('key'); // t = 0
+    now += 10_000;
+    await rateLimiter.consume('key'); // t = 10s
+    now += 10_000;
+    await rateLimiter.consume('key'); // t = 20s
+
+    now += 10_000; // t = 30s
+    const rejected = await rateLimiter.consume('key');
+    expect(rejected.allowed).toBe(false);
+    // Hits at 20s and 30s stay in the window, so the hit at 10s has to expire first (at 70s).
+    expect(rejected.retryAfterMs).toBe(40_000);
+
+    now += 40_000; // t = 70s
+    expect((await rateLimiter.consume('key')).allowed).toBe(true);
+  });
+
+  it('keeps keys independent and can reset one', async () => {
+    const rateLimiter = limiter();
+    for (let i = 0; i < 4; i++) await rateLimiter.consume('a');
+    expect((await rateLimiter.consume('b')).allowed).toBe(true);
+    expect((await rateLimiter.consume('a')).allowed).toBe(false);
+
+    await rateLimiter.reset('a');
+    expect((await rateLimiter.consume('a')).allowed).toBe(true);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('counts the hits in the window without recording one', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.hit('key', 1_000, WINDOW_MS);
+    await store.hit('key', 30_000, WINDOW_MS);
+
+    expect(await store.count('key', 30_000, WINDOW_MS)).toBe(2);
+    expect(await store.count('key', 61_000, WINDOW_MS)).toBe(1);
+    expect(await store.count('key', 61_000, WINDOW_MS)).toBe(1);
+    expect(await store.count('other', 61_000, WINDOW_MS)).toBe(0);
+  });
+});
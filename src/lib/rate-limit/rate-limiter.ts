@@ -0,0 +1,50 @@
+// src/lib/rate-limit/rate-limiter.ts
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+
+export interface RateLimiter {
+  /** Records a hit for `key` and reports whether it is within the limit. */
+  consume(key: string): Promise<RateLimitResult>;
+  /** Forgets all hits for `key`. */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Creates a sliding-window rate limiter.
+ * Every call to `consume` counts as a hit, including rejected ones, so a client that keeps
+ * retrying while limited does not get through as soon as the oldest hit expires.
+ *
+ * @param store - Where hits are kept (memory or Postgres).
+ * @param rule - The number of hits allowed per window.
+ * @param now - The clock, injectable for tests.
+ * @returns The rate limiter.
+ */
+export function createRateLimiter(
+  store: RateLimitStore,
+  rule: RateLimitRule,
+  now: () => number = Date.now,
+): RateLimiter {
+  return {
+    async consume(key: string): Promise<RateLimitResult> {
+      const currentTime = now();
+      const timestamps = await store.hit(key, currentTime, rule.windowMs);
+      const count = timestamps.length;
+
+      if (count <= rule.limit) {
+        return { allowed: true, remaining: rule.limit - count, retryAfterMs: 0 };
+      }
+
+      // The next hit is allowed once enough hits have left the window to leave room for it,
+      // i.e. when the hit at index `count - limit` expires.
+      const unblockingHit = timestamps[count - rule.limit] ?? currentTime;
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.max(unblockingHit + rule.windowMs - currentTime, 0),
+      };
+    },
+
+    reset(key: string): Promise<void> {
+      return store.reset(key);
+    },
+  };
+}
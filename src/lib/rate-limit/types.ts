@@ -0,0 +1,46 @@
+// src/lib/rate-limit/types.ts
+
+/**
+ * Persists the hits of sliding-window rate limits.
+ * Implementations must record a hit and return the window atomically, so that concurrent
+ * requests cannot both slip under the limit.
+ */
+export interface RateLimitStore {
+  /**
+   * Records a hit for `key` at `now` and drops hits older than the window.
+   * @param key - The limited subject, e.g. `signIn:ip:203.0.113.7`.
+   * @param now - The current time, in epoch milliseconds.
+   * @param windowMs - The length of the sliding window, in milliseconds.
+   * @returns The timestamps of all hits in the window, including this one, oldest first.
+   */
+  hit(key: string, now: number, windowMs: number): Promise<number[]>;
+
+  /**
+   * Counts the hits for `key` within the window, without recording one.
+   * @param key - The limited subject.
+   * @param now - The current time, in epoch milliseconds.
+   * @param windowMs - The length of the sliding window, in milliseconds.
+   * @returns The number of hits in the window.
+   */
+  count(key: string, now: number, windowMs: number): Promise<number>;
+
+  /**
+   * Forgets all hits for `key`, e.g. after a successful sign-in.
+   * @param key - The limited subject.
+   */
+  reset(key: string): Promise<void>;
+}
+
+/** How many hits are allowed within a sliding window. */
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Hits left in the current window. */
+  remaining: number;
+  /** How long to wait before the next hit is allowed; 0 when allowed. */
+  retryAfterMs: number;
+}
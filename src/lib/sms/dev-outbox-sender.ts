@@ -0,0 +1,36 @@
+// src/lib/sms/dev-outbox-sender.ts
+import { getServerLogger } from '@/lib/logger';
+import type { SmsMessage, SmsSender } from './types';
+
+const logger = getServerLogger('DevOutboxSmsSender');
+
+/** How many messages the outbox keeps; older ones are dropped. */
+const OUTBOX_SIZE = 50;
+
+export interface SmsOutboxEntry extends SmsMessage {
+  sentAt: string;
+}
+
+// Kept on globalThis so every route bundle in the dev server shares the same outbox.
+const globalOutbox = globalThis as typeof globalThis & { __smsOutbox?: SmsOutboxEntry[] };
+
+/**
+ * Returns the messages `DevOutboxSmsSender` has "sent", newest first.
+ * @returns {SmsOutboxEntry[]} The outbox.
+ */
+export function getDevSmsOutbox(): SmsOutboxEntry[] {
+  return [...(globalOutbox.__smsOutbox ?? [])];
+}
+
+/**
+ * An SMS sender for local work that logs messages and keeps them in an in-memory outbox
+ * (see `/api/dev/sms-outbox`) instead of delivering them. Never used in production.
+ */
+export class DevOutboxSmsSender implements SmsSender {
+  async send(message: SmsMessage): Promise<void> {
+    const outbox = (globalOutbox.__smsOutbox ??= []);
+    outbox.unshift({ ...message, sentAt: new Date().toISOString() });
+    outbox.splice(OUTBOX_SIZE);
+    logger.info(`SMS (not delivered) to ${message.to.substring(0, 5)}...: ${message.body}`);
+  }
+}
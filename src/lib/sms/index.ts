@@ -0,0 +1,5 @@
+// src/lib/sms/index.ts
+export * from './types';
+export * from './dev-outbox-sender';
+export * from './twilio-sender';
+export * from './sms-sender';
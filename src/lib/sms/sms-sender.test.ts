@@ -0,0 +1,80 @@
+import { getDevSmsOutbox } from './dev-outbox-sender';
+import { TwilioSmsSender } from './twilio-sender';
+
+jest.mock('@/lib/logger', () => ({
+  getServerLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }),
+}));
+
+const message = { to: '+14155550123', body: 'Your code is 123456' };
+
+describe('TwilioSmsSender', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('posts the message to the Twilio Messages API', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    await new TwilioSmsSender('AC123', 'secret', '+15005550006').send(message);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json');
+    expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('AC123:secret').toString('base64')}`);
+    expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+      From: '+15005550006',
+      To: '+14155550123',
+      Body: 'Your code is 123456',
+    });
+  });
+
+  it('throws when the API rejects the message', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 400, text: async () => 'invalid To' }) as unknown as typeof fetch;
+
+    await expect(new TwilioSmsSender('AC123', 'secret', 'bad').send(message)).rejects.toThrow('400 invalid To');
+  });
+});
+
+describe('getSmsSender', () => {
+  const originalEnv = process.env;
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  function loadGetSmsSender() {
+    let getSmsSender!: typeof import('./sms-sender').getSmsSender;
+    jest.isolateModules(() => {
+      ({ getSmsSender } = require('./sms-sender'));
+    });
+    return getSmsSender;
+  }
+
+  it('keeps messages in the development outbox unless a provider is configured', async () => {
+    process.env = { ...originalEnv, SMS_PROVIDER: undefined, NODE_ENV: 'development' };
+    const sender = loadGetSmsSender()();
+    expect(sender.constructor.name).toBe('DevOutboxSmsSender');
+
+    await sender.send(message);
+    expect(getDevSmsOutbox()[0]).toMatchObject(message);
+  });
+
+  it('refuses to run without a provider in production', () => {
+    process.env = { ...originalEnv, SMS_PROVIDER: undefined, NODE_ENV: 'production' };
+    expect(() => loadGetSmsSender()()).toThrow('SMS_PROVIDER is not configured');
+  });
+
+  it('uses Twilio when configured, and requires its settings', () => {
+    process.env = {
+      ...originalEnv,
+      SMS_PROVIDER: 'twilio',
+      TWILIO_ACCOUNT_SID: 'AC123',
+      TWILIO_AUTH_TOKEN: 'secret',
+      TWILIO_FROM_NUMBER: '+15005550006',
+    };
+    expect(loadGetSmsSender()().constructor.name).toBe('TwilioSmsSender');
+
+    process.env = { ...originalEnv, SMS_PROVIDER: 'twilio', TWILIO_AUTH_TOKEN: undefined };
+    expect(() => loadGetSmsSender()()).toThrow('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM_NUMBER');
+  });
+});
@@ -0,0 +1,34 @@
+// src/lib/sms/sms-sender.ts
+import { DevOutboxSmsSender } from './dev-outbox-sender';
+import { TwilioSmsSender } from './twilio-sender';
+import type { SmsSender } from './types';
+
+let sender: SmsSender | null = null;
+
+/**
+ * Returns the configured SMS sender, chosen by `SMS_PROVIDER`:
+ * `twilio` (with `TWILIO_ACCOUNT_SID`, `TWILIO_AUTH_TOKEN` and `TWILIO_FROM_NUMBER`) delivers real
+ * messages; otherwise they go to the development outbox. Unlike emails, text messages carry sign-in
+ * codes, so production refuses to run without a provider rather than logging them.
+ *
+ * @returns {SmsSender} The shared sender instance.
+ * @throws {Error} If the Twilio settings are missing, or no provider is configured in production.
+ */
+export function getSmsSender(): SmsSender {
+  if (sender) return sender;
+
+  if (process.env['SMS_PROVIDER'] === 'twilio') {
+    const accountSid = process.env['TWILIO_ACCOUNT_SID'];
+    const authToken = process.env['TWILIO_AUTH_TOKEN'];
+    const from = process.env['TWILIO_FROM_NUMBER'];
+    if (!accountSid || !authToken || !from) {
+      throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM_NUMBER is not defined. Please check environment variables.');
+    }
+    sender = new TwilioSmsSender(accountSid, authToken, from);
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('SMS_PROVIDER is not configured. The development outbox cannot be used in production.');
+  } else {
+    sender = new DevOutboxSmsSender();
+  }
+  return sender;
+}
@@ -0,0 +1,30 @@
+// src/lib/sms/twilio-sender.ts
+import type { SmsMessage, SmsSender } from './types';
+
+/**
+ * An SMS sender that delivers through the Twilio Messages API.
+ * Uses `fetch` directly, so no provider SDK is needed.
+ */
+export class TwilioSmsSender implements SmsSender {
+  constructor(
+    private readonly accountSid: string,
+    private readonly authToken: string,
+    private readonly from: string,
+  ) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const url = `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(this.accountSid)}/Messages.json`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ From: this.from, To: message.to, Body: message.body }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to send SMS: Twilio responded with ${response.status} ${await response.text()}`);
+    }
+  }
+}
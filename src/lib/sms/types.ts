@@ -0,0 +1,16 @@
+// src/lib/sms/types.ts
+
+/** A text message sent by the app, e.g. a sign-in code handed over by the Supabase Send SMS hook. */
+export interface SmsMessage {
+  /** The recipient in E.164 format, e.g. `+14155550123`. */
+  to: string;
+  body: string;
+}
+
+/**
+ * Delivers text messages.
+ * Implementations throw if the message could not be handed to the provider.
+ */
+export interface SmsSender {
+  send(message: SmsMessage): Promise<void>;
+}
@@ -0,0 +1,38 @@
+import { createServerClient } from '@supabase/ssr'
+import { getSupabaseClientFactory } from './client-factory'
+
+/**
+ * Creates a Supabase client authenticated with the service role key.
+ * It bypasses Row Level Security, so it must only be used in server-side code (services, route handlers)
+ * for trusted operations, and never in a module marked "use server" whose exports are callable from the client.
+ * It does not read or write any session cookies. Tests can replace it with `setSupabaseClientFactory('admin', ...)`.
+ *
+ * @throws {Error} If the Supabase URL or service role key is not configured.
+ */
+export function createAdminClient() {
+  const factory = getSupabaseClientFactory('admin')
+  if (factory) return factory()
+
+  const supabaseUrl = process.env['NEXT_PUBLIC_SUPABASE_URL'];
+  const serviceRoleKey = process.env['SUPABASE_SERVICE_ROLE_KEY'];
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Supabase URL or service role key is not defined. Please check environment variables.');
+  }
+
+  return createServerClient(supabaseUrl, serviceRoleKey, {
+    cookies: {
+      getAll() {
+        return []
+      },
+      setAll() {
+        // The admin client has no user session to persist.
+      },
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  })
+}
@@ -0,0 +1,43 @@
+// src/lib/supabase/client-factory.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * @fileOverview Lets tests replace the Supabase clients that `createClient` (server) and
+ * `createAdminClient` return, e.g. with the in-memory fake from `@/lib/supabase/testing`,
+ * so Server Actions and services run unchanged without a network.
+ */
+
+/** Which client a factory replaces: the cookie-bound server client or the service-role admin client. */
+export type SupabaseClientKind = 'server' | 'admin';
+
+export type SupabaseClientFactory = () => SupabaseClient;
+
+const factories: Partial<Record<SupabaseClientKind, SupabaseClientFactory>> = {};
+
+/**
+ * Replaces the client of the given kind, or restores the real one when `factory` is null.
+ *
+ * @param {SupabaseClientKind} kind - The client to replace.
+ * @param {SupabaseClientFactory | null} factory - Creates the client to use instead.
+ * @throws {Error} If called with a factory in production.
+ */
+export function setSupabaseClientFactory(kind: SupabaseClientKind, factory: SupabaseClientFactory | null): void {
+  if (factory && process.env.NODE_ENV === 'production') {
+    throw new Error('Supabase clients cannot be replaced in production.');
+  }
+  if (factory) {
+    factories[kind] = factory;
+  } else {
+    delete factories[kind];
+  }
+}
+
+/**
+ * Returns the factory replacing the client of the given kind, if any.
+ *
+ * @param {SupabaseClientKind} kind - The client.
+ * @returns {SupabaseClientFactory | undefined} The factory, or undefined when the real client is used.
+ */
+export function getSupabaseClientFactory(kind: SupabaseClientKind): SupabaseClientFactory | undefined {
+  return factories[kind];
+}
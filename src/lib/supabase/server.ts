@@ -3,8 +3,12 @@
 
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import { getSupabaseClientFactory } from './client-factory'
 
 export async function createClient() { // This is the server client, note: async function
+  const factory = getSupabaseClientFactory('server'); // Set by tests only
+  if (factory) return factory()
+
   const cookieStore = await cookies(); // Corrected: await cookies() is asynchronous
 
   return createServerClient(
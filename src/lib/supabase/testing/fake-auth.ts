@@ -0,0 +1,417 @@
+// src/lib/supabase/testing/fake-auth.ts
+import { randomBytes, randomInt, randomUUID } from 'crypto';
+import { AuthApiError, AuthSessionMissingError, type Session, type User } from '@supabase/supabase-js';
+
+/** What an email sent by `FakeAuth` was for. */
+export type FakeAuthEmailType = 'signup' | 'magiclink' | 'recovery' | 'email_change' | 'reauthentication';
+
+/**
+ * An email Supabase would have sent, e.g. a confirmation link. Tests complete the flow with
+ * `verifyOtp`, using `token` (the 6-digit code) or `tokenHash` (what the link carries).
+ */
+export interface FakeAuthEmail {
+  type: FakeAuthEmailType;
+  to: string;
+  token: string;
+  tokenHash: string;
+  redirectTo: string | null;
+  used: boolean;
+}
+
+export interface FakeAuthOptions {
+  /** Confirm new accounts at once and sign them in, like Supabase with "Confirm email" turned off. */
+  autoConfirm?: boolean;
+  /** Called for every new account, e.g. to create its `profiles` row like a `handle_new_user` trigger. */
+  onUserCreated?: (user: User) => void;
+}
+
+interface StoredUser {
+  user: User;
+  password: string | null;
+}
+
+/** A Supabase authenticator assurance level: `aal2` once a second factor has been verified. */
+export type FakeAssuranceLevel = 'aal1' | 'aal2';
+
+type AuthResult<T> = { data: T; error: null } | { data: { [K in keyof T]: null }; error: AuthApiError | AuthSessionMissingError };
+
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * The error Supabase returns for a wrong, used or expired code or link.
+ * @returns {AuthApiError} The error.
+ */
+function invalidOtpError(): AuthApiError {
+  return new AuthApiError('Token has expired or is invalid', 403, 'otp_expired');
+}
+
+/**
+ * An in-memory stand-in for Supabase Auth, implementing the `supabase.auth` methods the app uses.
+ * It holds one session, like one browser's cookies. Emails are collected in `outbox` instead of
+ * being sent. Errors carry the same codes and statuses as the real Auth server.
+ */
+export class FakeAuth {
+  /** Emails "sent" so far, oldest first. */
+  readonly outbox: FakeAuthEmail[] = [];
+
+  private readonly users = new Map<string, StoredUser>();
+  private sessionUserId: string | null = null;
+  // The Supabase session ID, sign-in time (epoch seconds) and method carried by the access token.
+  private currentSession: { id: string; signedInAt: number; method: string } | null = null;
+  private assurance: { currentLevel: FakeAssuranceLevel; nextLevel: FakeAssuranceLevel } = { currentLevel: 'aal1', nextLevel: 'aal1' };
+
+  /** The `auth.admin` methods the app uses. The real ones need the service role key. */
+  readonly admin = {
+    getUserById: async (userId: string): Promise<AuthResult<{ user: User }>> => {
+      const stored = this.users.get(userId);
+      if (!stored) {
+        return { data: { user: null }, error: new AuthApiError('User not found', 404, 'user_not_found') };
+      }
+      return { data: { user: stored.user }, error: null };
+    },
+    // Like the Auth server, top-level `app_metadata` keys are merged into the existing ones.
+    // `ban_duration` only takes whole hours (e.g. `24h`) or `none`.
+    updateUserById: async (
+      userId: string,
+      attributes: { app_metadata?: Record<string, unknown>; ban_duration?: string },
+    ): Promise<AuthResult<{ user: User }>> => {
+      const stored = this.users.get(userId);
+      if (!stored) {
+        return { data: { user: null }, error: new AuthApiError('User not found', 404, 'user_not_found') };
+      }
+      const now = new Date();
+      const user: User & { banned_until?: string } = { ...stored.user, app_metadata: { ...stored.user.app_metadata, ...attributes.app_metadata }, updated_at: now.toISOString() };
+      if (attributes.ban_duration === 'none') {
+        delete user.banned_until;
+      } else if (attributes.ban_duration) {
+        user.banned_until = new Date(now.getTime() + parseInt(attributes.ban_duration, 10) * 3600 * 1000).toISOString();
+      }
+      stored.user = user;
+      return { data: { user }, error: null };
+    },
+  };
+
+  /** The `auth.mfa` methods the app uses. Set the levels with `setAssuranceLevel`. */
+  readonly mfa = {
+    getAuthenticatorAssuranceLevel: async () => ({
+      data: { ...this.assurance, currentAuthenticationMethods: [] },
+      error: null,
+    }),
+  };
+
+  constructor(private readonly options: FakeAuthOptions = {}) {}
+
+  /** The signed-in user's ID, or null when signed out. */
+  get signedInUserId(): string | null {
+    return this.sessionUserId;
+  }
+
+  /**
+   * Creates an account directly, for test setup.
+   * @param {object} input - The account.
+   * @param {string} input.email - The email address.
+   * @param {string} [input.password] - The password; accounts without one can only use codes and links.
+   * @param {boolean} [input.confirmed=true] - Whether the address is confirmed.
+   * @param {Record<string, unknown>} [input.userMetadata] - The user metadata, e.g. `first_name`.
+   * @returns {User} The new user.
+   */
+  createUser(input: { email: string; password?: string; confirmed?: boolean; userMetadata?: Record<string, unknown> }): User {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    const confirmedAt = input.confirmed === false ? undefined : now;
+    const user: User = {
+      id,
+      aud: 'authenticated',
+      role: 'authenticated',
+      email: input.email.toLowerCase(),
+      phone: '',
+      email_confirmed_at: confirmedAt,
+      confirmed_at: confirmedAt,
+      app_metadata: { provider: 'email', providers: ['email'] },
+      user_metadata: { ...input.userMetadata },
+      identities: [{
+        id,
+        identity_id: randomUUID(),
+        user_id: id,
+        provider: 'email',
+        identity_data: { sub: id, email: input.email.toLowerCase() },
+        created_at: now,
+        updated_at: now,
+        last_sign_in_at: now,
+      }],
+      is_anonymous: false,
+      created_at: now,
+      updated_at: now,
+    };
+    this.users.set(id, { user, password: input.password ?? null });
+    this.options.onUserCreated?.(user);
+    return user;
+  }
+
+  /**
+   * Returns an account by email address.
+   * @param {string} email - The email address.
+   * @returns {User | undefined} The user, if there is one.
+   */
+  findUserByEmail(email: string): User | undefined {
+    return this.findStored(email)?.user;
+  }
+
+  /**
+   * Signs a user in directly, or signs out with null, for test setup.
+   * @param {string | null} userId - The user.
+   */
+  setCurrentUser(userId: string | null): void {
+    this.startSessionAs(userId, 'password');
+  }
+
+  /**
+   * Sets the assurance level of the current session, for test setup. A user with a verified
+   * factor who has not completed the challenge has `nextLevel` 'aal2' and `currentLevel` 'aal1'.
+   * @param {FakeAssuranceLevel} currentLevel - The level the session has reached.
+   * @param {FakeAssuranceLevel} nextLevel - The level the user can reach.
+   */
+  setAssuranceLevel(currentLevel: FakeAssuranceLevel, nextLevel: FakeAssuranceLevel): void {
+    this.assurance = { currentLevel, nextLevel };
+  }
+
+  /**
+   * Returns the newest unused email of a type sent to an address.
+   * @param {string} to - The recipient.
+   * @param {FakeAuthEmailType} [type] - The email type; any when omitted.
+   * @returns {FakeAuthEmail | undefined} The email.
+   */
+  lastEmail(to: string, type?: FakeAuthEmailType): FakeAuthEmail | undefined {
+    return this.outbox
+      .filter((email) => email.to === to.toLowerCase() && !email.used && (!type || email.type === type))
+      .pop();
+  }
+
+  async signUp(credentials: { email: string; password: string; options?: { emailRedirectTo?: string; data?: Record<string, unknown> } }): Promise<AuthResult<{ user: User | null; session: Session | null }>> {
+    if (credentials.password.length < MIN_PASSWORD_LENGTH) {
+      return { data: { user: null, session: null }, error: new AuthApiError(`Password should be at least ${MIN_PASSWORD_LENGTH} characters.`, 422, 'weak_password') };
+    }
+
+    const existing = this.findStored(credentials.email);
+    if (existing?.user.email_confirmed_at) {
+      // Supabase answers with an obfuscated user so the response does not reveal the account.
+      const obfuscated: User = { ...existing.user, id: randomUUID(), identities: [], user_metadata: {}, app_metadata: {} };
+      return { data: { user: obfuscated, session: null }, error: null };
+    }
+    if (existing) {
+      this.sendEmail('signup', existing.user.email!, credentials.options?.emailRedirectTo);
+      return { data: { user: existing.user, session: null }, error: null };
+    }
+
+    const user = this.createUser({
+      email: credentials.email,
+      password: credentials.password,
+      confirmed: !!this.options.autoConfirm,
+      userMetadata: credentials.options?.data,
+    });
+    if (this.options.autoConfirm) {
+      return { data: { user, session: this.startSession(user.id) }, error: null };
+    }
+    this.sendEmail('signup', user.email!, credentials.options?.emailRedirectTo);
+    return { data: { user, session: null }, error: null };
+  }
+
+  async signInWithPassword(credentials: { email: string; password: string }): Promise<AuthResult<{ user: User; session: Session }>> {
+    const stored = this.findStored(credentials.email);
+    if (!stored || stored.password === null || stored.password !== credentials.password) {
+      return { data: { user: null, session: null }, error: new AuthApiError('Invalid login credentials', 400, 'invalid_credentials') };
+    }
+    if (!stored.user.email_confirmed_at) {
+      return { data: { user: null, session: null }, error: new AuthApiError('Email not confirmed', 400, 'email_not_confirmed') };
+    }
+    return { data: { user: stored.user, session: this.startSession(stored.user.id) }, error: null };
+  }
+
+  async signInWithOtp(credentials: { email: string; options?: { emailRedirectTo?: string; shouldCreateUser?: boolean } }): Promise<AuthResult<{ user: null; session: null }>> {
+    const user = this.findUserByEmail(credentials.email);
+    if (!user && credentials.options?.shouldCreateUser === false) {
+      return { data: { user: null, session: null }, error: new AuthApiError('Signups not allowed for otp', 422, 'otp_disabled') };
+    }
+    const recipient = user ?? this.createUser({ email: credentials.email, confirmed: false });
+    this.sendEmail('magiclink', recipient.email!, credentials.options?.emailRedirectTo);
+    return { data: { user: null, session: null }, error: null };
+  }
+
+  async resetPasswordForEmail(email: string, options?: { redirectTo?: string }): Promise<AuthResult<Record<string, never>>> {
+    if (this.findStored(email)) {
+      this.sendEmail('recovery', email, options?.redirectTo);
+    }
+    return { data: {}, error: null };
+  }
+
+  async resend(params: { type: 'signup' | 'email_change'; email: string; options?: { emailRedirectTo?: string } }): Promise<AuthResult<{ user: null; session: null }>> {
+    const stored = this.findStored(params.email);
+    if (params.type === 'signup' && stored && !stored.user.email_confirmed_at) {
+      this.sendEmail('signup', params.email, params.options?.emailRedirectTo);
+    }
+    return { data: { user: null, session: null }, error: null };
+  }
+
+  /**
+   * Redeems an emailed code (`email` and `token`) or link (`token_hash`), then signs the user in.
+   * Type `email` accepts sign-up and magic link emails, as on the real server.
+   */
+  async verifyOtp(params: { email?: string; token?: string; token_hash?: string; type: string }): Promise<AuthResult<{ user: User; session: Session }>> {
+    const types: FakeAuthEmailType[] = params.type === 'email' ? ['signup', 'magiclink'] : [params.type as FakeAuthEmailType];
+    const email = this.outbox.find((candidate) => !candidate.used
+      && types.includes(candidate.type)
+      && (params.token_hash
+        ? candidate.tokenHash === params.token_hash
+        : candidate.token === params.token && candidate.to === params.email?.toLowerCase()));
+    if (!email) {
+      return { data: { user: null, session: null }, error: invalidOtpError() };
+    }
+    email.used = true;
+
+    const stored = email.type === 'email_change'
+      ? Array.from(this.users.values()).find((candidate) => candidate.user.new_email === email.to)
+      : this.findStored(email.to);
+    if (!stored) {
+      return { data: { user: null, session: null }, error: invalidOtpError() };
+    }
+
+    const now = new Date().toISOString();
+    if (email.type === 'email_change') {
+      stored.user = { ...stored.user, email: email.to, new_email: undefined, updated_at: now };
+    } else if (!stored.user.email_confirmed_at) {
+      stored.user = { ...stored.user, email_confirmed_at: now, confirmed_at: now, updated_at: now };
+    }
+    return { data: { user: stored.user, session: this.startSession(stored.user.id, email.type === 'recovery' ? 'recovery' : 'otp') }, error: null };
+  }
+
+  async getUser(): Promise<AuthResult<{ user: User }>> {
+    const stored = this.sessionUserId ? this.users.get(this.sessionUserId) : undefined;
+    if (!stored) {
+      return { data: { user: null }, error: new AuthSessionMissingError() };
+    }
+    return { data: { user: stored.user }, error: null };
+  }
+
+  async getSession(): Promise<{ data: { session: Session | null }; error: null }> {
+    return { data: { session: this.sessionUserId ? this.buildSession(this.sessionUserId) : null }, error: null };
+  }
+
+  /**
+   * Updates the signed-in user. A new password must differ from the old one, and needs the
+   * `nonce` from `reauthenticate` when given one. A new email address is only applied once the
+   * `email_change` email sent to it is verified.
+   */
+  async updateUser(
+    attributes: { email?: string; password?: string; nonce?: string; data?: Record<string, unknown> },
+    options?: { emailRedirectTo?: string },
+  ): Promise<AuthResult<{ user: User }>> {
+    const stored = this.sessionUserId ? this.users.get(this.sessionUserId) : undefined;
+    if (!stored) {
+      return { data: { user: null }, error: new AuthSessionMissingError() };
+    }
+
+    if (attributes.nonce !== undefined) {
+      const reauthentication = this.lastEmail(stored.user.email ?? '', 'reauthentication');
+      if (!reauthentication || reauthentication.token !== attributes.nonce) {
+        return { data: { user: null }, error: new AuthApiError('Requested entity was not found', 400, 'reauthentication_not_valid') };
+      }
+      reauthentication.used = true;
+    }
+
+    if (attributes.password !== undefined) {
+      if (attributes.password.length < MIN_PASSWORD_LENGTH) {
+        return { data: { user: null }, error: new AuthApiError(`Password should be at least ${MIN_PASSWORD_LENGTH} characters.`, 422, 'weak_password') };
+      }
+      if (attributes.password === stored.password) {
+        return { data: { user: null }, error: new AuthApiError('New password should be different from the old password.', 422, 'same_password') };
+      }
+      stored.password = attributes.password;
+    }
+
+    if (attributes.email !== undefined) {
+      const newEmail = attributes.email.toLowerCase();
+      if (this.findStored(newEmail)) {
+        return { data: { user: null }, error: new AuthApiError('A user with this email address has already been registered', 422, 'email_exists') };
+      }
+      stored.user = { ...stored.user, new_email: newEmail };
+      this.sendEmail('email_change', newEmail, options?.emailRedirectTo);
+    }
+
+    if (attributes.data) {
+      stored.user = { ...stored.user, user_metadata: { ...stored.user.user_metadata, ...attributes.data } };
+    }
+    stored.user = { ...stored.user, updated_at: new Date().toISOString() };
+    return { data: { user: stored.user }, error: null };
+  }
+
+  async reauthenticate(): Promise<AuthResult<{ user: null; session: null }>> {
+    const stored = this.sessionUserId ? this.users.get(this.sessionUserId) : undefined;
+    if (!stored?.user.email) {
+      return { data: { user: null, session: null }, error: new AuthSessionMissingError() };
+    }
+    this.sendEmail('reauthentication', stored.user.email);
+    return { data: { user: null, session: null }, error: null };
+  }
+
+  async signOut(options?: { scope?: 'global' | 'local' | 'others' }): Promise<{ error: null }> {
+    if (options?.scope !== 'others') {
+      this.setCurrentUser(null);
+    }
+    return { error: null };
+  }
+
+  private findStored(email: string): StoredUser | undefined {
+    const normalized = email.toLowerCase();
+    return Array.from(this.users.values()).find((stored) => stored.user.email === normalized);
+  }
+
+  private sendEmail(type: FakeAuthEmailType, to: string, redirectTo?: string): FakeAuthEmail {
+    const email: FakeAuthEmail = {
+      type,
+      to: to.toLowerCase(),
+      token: String(randomInt(0, 1_000_000)).padStart(6, '0'),
+      tokenHash: randomBytes(28).toString('hex'),
+      redirectTo: redirectTo ?? null,
+      used: false,
+    };
+    this.outbox.push(email);
+    return email;
+  }
+
+  private startSessionAs(userId: string | null, method: string): void {
+    this.sessionUserId = userId;
+    this.currentSession = userId ? { id: randomUUID(), signedInAt: Math.floor(Date.now() / 1000), method } : null;
+  }
+
+  private startSession(userId: string, method = 'password'): Session {
+    this.startSessionAs(userId, method);
+    const stored = this.users.get(userId)!;
+    stored.user = { ...stored.user, last_sign_in_at: new Date().toISOString() };
+    return this.buildSession(userId);
+  }
+
+  private buildSession(userId: string): Session {
+    const expiresIn = 3600;
+    const user = this.users.get(userId)!.user;
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    // Shaped like a Supabase access token, with the claims the app reads; the signature is not real.
+    const claims = {
+      sub: userId,
+      role: 'authenticated',
+      email: user.email ?? '',
+      is_anonymous: !!user.is_anonymous,
+      session_id: this.currentSession?.id,
+      aal: this.assurance.currentLevel,
+      amr: [{ method: this.currentSession?.method, timestamp: this.currentSession?.signedInAt }],
+      exp: Math.floor(Date.now() / 1000) + expiresIn,
+    };
+    return {
+      access_token: `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.${randomBytes(32).toString('base64url')}`,
+      refresh_token: randomBytes(16).toString('hex'),
+      token_type: 'bearer',
+      expires_in: expiresIn,
+      expires_at: Math.floor(Date.now() / 1000) + expiresIn,
+      user: this.users.get(userId)!.user,
+    };
+  }
+}
@@ -0,0 +1,353 @@
+// src/lib/supabase/testing/fake-database.ts
+import { randomUUID } from 'crypto';
+import { PostgrestError } from '@supabase/supabase-js';
+
+/** A table row, with database (snake_case) column names. */
+export type FakeRow = Record<string, unknown>;
+
+/**
+ * Implements a database function for `supabase.rpc`. `userId` is the signed-in user, which real
+ * functions read with `auth.uid()`. Throw a `PostgrestError` to make the call fail.
+ */
+export type FakeRpcHandler = (args: Record<string, unknown>, context: { userId: string | null }) => unknown;
+
+export interface FakePostgrestResponse {
+  data: unknown;
+  error: PostgrestError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+type Operation = 'select' | 'insert' | 'upsert' | 'update' | 'delete';
+type Filter = (row: FakeRow) => boolean;
+
+interface CountOption {
+  count?: 'exact' | 'planned' | 'estimated';
+}
+
+/**
+ * Copies only the selected columns. Embedded resources (`profiles(*)`) are not supported.
+ * @param {FakeRow} row - The row.
+ * @param {string} columns - The select list, e.g. `*` or `id, first_name`.
+ * @returns {FakeRow} The projected row.
+ */
+function project(row: FakeRow, columns: string): FakeRow {
+  const names = columns.split(',').map((name) => name.trim()).filter(Boolean);
+  if (names.length === 0 || names.includes('*')) return { ...row };
+  return names.reduce<FakeRow>((projected, name) => ({ ...projected, [name]: row[name] ?? null }), {});
+}
+
+/**
+ * Compares two column values the way `order` does; nulls sort last.
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @returns {number} Negative, zero or positive.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return String(a) < String(b) ? -1 : 1;
+}
+
+/**
+ * Runs one PostgREST query against a `FakeDatabase`. Like the real builder it is thenable, so the
+ * query runs when awaited, and filters, `order`, `limit`, `select`, `single` and `maybeSingle` chain.
+ */
+export class FakeQueryBuilder implements PromiseLike<FakePostgrestResponse> {
+  private readonly filters: Filter[] = [];
+  private columns: string | null = null;
+  private countRequested = false;
+  private head = false;
+  private ordering: { column: string; ascending: boolean }[] = [];
+  private maxRows: number | null = null;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+  private readonly onConflict: string;
+
+  constructor(
+    private readonly database: FakeDatabase,
+    private readonly table: string,
+    private readonly operation: Operation,
+    private readonly values: FakeRow[] = [],
+    options: CountOption & { head?: boolean; columns?: string; onConflict?: string } = {},
+  ) {
+    this.countRequested = !!options.count;
+    this.head = !!options.head;
+    if (operation === 'select') this.columns = options.columns ?? '*';
+    this.onConflict = options.onConflict ?? 'id';
+  }
+
+  /** Returns the affected rows as well, for inserts, updates and deletes. */
+  select(columns = '*', options: CountOption & { head?: boolean } = {}): this {
+    this.columns = columns;
+    if (options.count) this.countRequested = true;
+    if (options.head) this.head = true;
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push((row) => compareValues(row[column], value) > 0 && row[column] != null);
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((row) => compareValues(row[column], value) >= 0 && row[column] != null);
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((row) => compareValues(row[column], value) < 0 && row[column] != null);
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push((row) => compareValues(row[column], value) <= 0 && row[column] != null);
+    return this;
+  }
+
+  in(column: string, values: readonly unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  match(query: FakeRow): this {
+    Object.keys(query).forEach((column) => this.eq(column, query[column]));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = FakePostgrestResponse, TResult2 = never>(
+    onfulfilled?: ((value: FakePostgrestResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): FakePostgrestResponse {
+    let affected: FakeRow[];
+    try {
+      affected = this.apply();
+    } catch (error) {
+      if (error instanceof PostgrestError) {
+        return { data: null, error, count: null, status: 409, statusText: 'Conflict' };
+      }
+      throw error;
+    }
+
+    const count = this.countRequested ? affected.length : null;
+    if (this.columns === null || this.head) {
+      return { data: null, error: null, count, status: this.operation === 'insert' ? 201 : 204, statusText: 'OK' };
+    }
+
+    const columns = this.columns;
+    const rows = affected.map((row) => project(row, columns));
+    if (this.cardinality === 'many') {
+      return { data: rows, error: null, count, status: 200, statusText: 'OK' };
+    }
+    if (rows.length === 1 || (rows.length === 0 && this.cardinality === 'maybeSingle')) {
+      return { data: rows[0] ?? null, error: null, count, status: 200, statusText: 'OK' };
+    }
+    return {
+      data: null,
+      error: new PostgrestError({
+        code: 'PGRST116',
+        message: 'JSON object requested, multiple (or no) rows returned',
+        details: `The result contains ${rows.length} rows`,
+        hint: '',
+      }),
+      count,
+      status: 406,
+      statusText: 'Not Acceptable',
+    };
+  }
+
+  private apply(): FakeRow[] {
+    const rows = this.database.rows(this.table);
+    const matches = (row: FakeRow) => this.filters.every((filter) => filter(row));
+
+    switch (this.operation) {
+      case 'insert':
+        return this.values.map((values) => this.database.insertRow(this.table, values));
+      case 'upsert':
+        return this.values.map((values) => {
+          const keys = this.onConflict.split(',').map((key) => key.trim());
+          const existing = rows.find((row) => keys.every((key) => row[key] === values[key]));
+          return existing ? Object.assign(existing, values) : this.database.insertRow(this.table, values);
+        });
+      case 'update': {
+        const patch = this.values[0] ?? {};
+        return rows.filter(matches).map((row) => Object.assign(row, patch));
+      }
+      case 'delete': {
+        const removed = rows.filter(matches);
+        this.database.replaceRows(this.table, rows.filter((row) => !matches(row)));
+        return removed;
+      }
+      default: {
+        const selected = rows.filter(matches).sort((a, b) => this.ordering.reduce(
+          (result, { column, ascending }) => result || compareValues(a[column], b[column]) * (ascending ? 1 : -1),
+          0,
+        ));
+        return this.maxRows === null ? selected : selected.slice(0, this.maxRows);
+      }
+    }
+  }
+}
+
+/**
+ * An in-memory stand-in for the Postgres database behind PostgREST. Tables spring into existence
+ * on first use. Inserted rows get an `id` (a UUID) and `created_at` when they have none, like the
+ * column defaults in the migrations; unique keys other than `id` must be declared with `defineUniqueKey`.
+ * Row Level Security is not simulated: tests see what the service role would.
+ */
+export class FakeDatabase {
+  private readonly tables = new Map<string, FakeRow[]>();
+  private readonly uniqueKeys = new Map<string, string[][]>();
+  private readonly rpcHandlers = new Map<string, FakeRpcHandler>();
+
+  /**
+   * Returns the live rows of a table, for seeding and for assertions.
+   * @param {string} table - The table.
+   * @returns {FakeRow[]} The rows.
+   */
+  rows(table: string): FakeRow[] {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = [];
+      this.tables.set(table, rows);
+    }
+    return rows;
+  }
+
+  /** Replaces every row of a table. */
+  replaceRows(table: string, rows: FakeRow[]): void {
+    this.tables.set(table, rows);
+  }
+
+  /**
+   * Makes inserts fail with a unique violation (`23505`) when a row with the same values exists.
+   * @param {string} table - The table.
+   * @param {string[]} columns - The columns of the unique constraint.
+   */
+  defineUniqueKey(table: string, columns: string[]): void {
+    this.uniqueKeys.set(table, [...(this.uniqueKeys.get(table) ?? []), columns]);
+  }
+
+  /**
+   * Inserts one row, filling in `id` and `created_at` when missing.
+   * @param {string} table - The table.
+   * @param {FakeRow} values - The column values.
+   * @returns {FakeRow} The stored row.
+   * @throws {PostgrestError} On a unique violation.
+   */
+  insertRow(table: string, values: FakeRow): FakeRow {
+    const rows = this.rows(table);
+    const row: FakeRow = { id: randomUUID(), created_at: new Date().toISOString(), ...values };
+    const conflict = [['id'], ...(this.uniqueKeys.get(table) ?? [])]
+      .find((columns) => rows.some((existing) => columns.every((column) => existing[column] === row[column])));
+    if (conflict) {
+      throw new PostgrestError({
+        code: '23505',
+        message: `duplicate key value violates unique constraint "${table}_${conflict.join('_')}_key"`,
+        details: `Key (${conflict.join(', ')}) already exists.`,
+        hint: '',
+      });
+    }
+    rows.push(row);
+    return row;
+  }
+
+  /**
+   * Implements a database function for `supabase.rpc`.
+   * @param {string} name - The function name.
+   * @param {FakeRpcHandler} handler - Returns the function's result.
+   */
+  defineRpc(name: string, handler: FakeRpcHandler): void {
+    this.rpcHandlers.set(name, handler);
+  }
+
+  /** Starts a query on a table, like `supabase.from(table)`. */
+  from(table: string) {
+    return {
+      select: (columns = '*', options: CountOption & { head?: boolean } = {}) =>
+        new FakeQueryBuilder(this, table, 'select', [], { ...options, columns }),
+      insert: (values: FakeRow | FakeRow[], options: CountOption = {}) =>
+        new FakeQueryBuilder(this, table, 'insert', Array.isArray(values) ? values : [values], options),
+      upsert: (values: FakeRow | FakeRow[], options: CountOption & { onConflict?: string } = {}) =>
+        new FakeQueryBuilder(this, table, 'upsert', Array.isArray(values) ? values : [values], options),
+      update: (values: FakeRow, options: CountOption = {}) =>
+        new FakeQueryBuilder(this, table, 'update', [values], options),
+      delete: (options: CountOption = {}) => new FakeQueryBuilder(this, table, 'delete', [], options),
+    };
+  }
+
+  /**
+   * Calls a database function defined with `defineRpc`, like `supabase.rpc(name, args)`.
+   * Unknown functions fail like PostgREST does (`PGRST202`).
+   *
+   * @param {string} name - The function name.
+   * @param {Record<string, unknown>} args - The arguments.
+   * @param {string | null} userId - The signed-in user.
+   * @returns {Promise<FakePostgrestResponse>} The result.
+   */
+  async rpc(name: string, args: Record<string, unknown>, userId: string | null): Promise<FakePostgrestResponse> {
+    const handler = this.rpcHandlers.get(name);
+    if (!handler) {
+      return {
+        data: null,
+        error: new PostgrestError({
+          code: 'PGRST202',
+          message: `Could not find the function public.${name} in the schema cache`,
+          details: '',
+          hint: '',
+        }),
+        count: null,
+        status: 404,
+        statusText: 'Not Found',
+      };
+    }
+    try {
+      return { data: (await handler(args, { userId })) ?? null, error: null, count: null, status: 200, statusText: 'OK' };
+    } catch (error) {
+      if (error instanceof PostgrestError) {
+        return { data: null, error, count: null, status: 400, statusText: 'Bad Request' };
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+// src/lib/supabase/testing/fake-storage.ts
+
+/** A file stored by `FakeStorage`. */
+export interface FakeStoredObject {
+  body: unknown;
+  contentType: string | null;
+}
+
+/**
+ * Builds an error shaped like the Storage API's.
+ * @param {string} message - The message.
+ * @param {number} status - The HTTP status.
+ * @returns {Error} The error.
+ */
+function storageError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { name: 'StorageApiError', status });
+}
+
+/**
+ * An in-memory stand-in for Supabase Storage, implementing `upload`, `download`, `remove` and
+ * `getPublicUrl` on a bucket. Public URLs use `baseUrl`, so tests can assert on them.
+ */
+export class FakeStorage {
+  private readonly buckets = new Map<string, Map<string, FakeStoredObject>>();
+
+  constructor(private readonly baseUrl = 'http://fake-supabase.local') {}
+
+  /**
+   * Returns the files of a bucket, for assertions.
+   * @param {string} bucket - The bucket.
+   * @returns {Map<string, FakeStoredObject>} The files by path.
+   */
+  objects(bucket: string): Map<string, FakeStoredObject> {
+    let objects = this.buckets.get(bucket);
+    if (!objects) {
+      objects = new Map();
+      this.buckets.set(bucket, objects);
+    }
+    return objects;
+  }
+
+  from(bucket: string) {
+    const objects = this.objects(bucket);
+    return {
+      upload: async (path: string, body: unknown, options: { upsert?: boolean; contentType?: string } = {}) => {
+        if (objects.has(path) && !options.upsert) {
+          return { data: null, error: storageError('The resource already exists', 409) };
+        }
+        objects.set(path, { body, contentType: options.contentType ?? null });
+        return { data: { id: path, path, fullPath: `${bucket}/${path}` }, error: null };
+      },
+      download: async (path: string) => {
+        const object = objects.get(path);
+        return object
+          ? { data: object.body, error: null }
+          : { data: null, error: storageError('Object not found', 404) };
+      },
+      remove: async (paths: string[]) => {
+        const removed = paths.filter((path) => objects.delete(path));
+        return { data: removed.map((name) => ({ name })), error: null };
+      },
+      getPublicUrl: (path: string) => ({
+        data: { publicUrl: `${this.baseUrl}/storage/v1/object/public/${bucket}/${path}` },
+      }),
+    };
+  }
+}
@@ -0,0 +1,87 @@
+// src/lib/supabase/testing/fake-supabase.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { setSupabaseClientFactory } from '../client-factory';
+import { FakeAuth } from './fake-auth';
+import { FakeDatabase } from './fake-database';
+import { FakeStorage } from './fake-storage';
+
+export interface FakeSupabaseOptions {
+  /** Confirm new accounts at once, like Supabase with "Confirm email" turned off. */
+  autoConfirm?: boolean;
+  /** Create a `profiles` row for every new account, like the `handle_new_user` trigger. Defaults to true. */
+  createProfiles?: boolean;
+}
+
+/**
+ * An in-memory Supabase project for Jest: auth (`FakeAuth`), the database behind PostgREST and
+ * `rpc` (`FakeDatabase`), and storage (`FakeStorage`). `install` makes `createClient` and
+ * `createAdminClient` return clients backed by it, so Server Actions and services run their real
+ * code with no network. Only the methods the app uses are implemented; of `auth.admin`, only `getUserById` and
+ * `updateUserById` (for `app_metadata` and bans).
+ *
+ * @example
+ * const supabase = new FakeSupabase();
+ * beforeEach(() => supabase.install());
+ * afterEach(() => supabase.uninstall());
+ */
+export class FakeSupabase {
+  readonly db = new FakeDatabase();
+  readonly storage = new FakeStorage();
+  readonly auth: FakeAuth;
+
+  constructor(options: FakeSupabaseOptions = {}) {
+    this.auth = new FakeAuth({
+      autoConfirm: options.autoConfirm,
+      onUserCreated: options.createProfiles === false ? undefined : (user) => {
+        this.db.insertRow('profiles', {
+          id: user.id,
+          first_name: user.user_metadata['first_name'] ?? null,
+          last_name: user.user_metadata['last_name'] ?? null,
+          language: 'en',
+          role: 'user',
+          created_at: user.created_at,
+          updated_at: user.created_at,
+        });
+      },
+    });
+  }
+
+  /**
+   * Returns a client for the signed-in user, as `createClient` would.
+   * @returns {SupabaseClient} The client.
+   */
+  client(): SupabaseClient {
+    return this.buildClient(() => this.auth.signedInUserId);
+  }
+
+  /**
+   * Returns a service-role client, as `createAdminClient` would. Database functions see no user.
+   * @returns {SupabaseClient} The client.
+   */
+  adminClient(): SupabaseClient {
+    return this.buildClient(() => null);
+  }
+
+  /** Makes `createClient` and `createAdminClient` return clients backed by this project. */
+  install(): void {
+    setSupabaseClientFactory('server', () => this.client());
+    setSupabaseClientFactory('admin', () => this.adminClient());
+  }
+
+  /** Restores the real clients. */
+  uninstall(): void {
+    setSupabaseClientFactory('server', null);
+    setSupabaseClientFactory('admin', null);
+  }
+
+  private buildClient(userId: () => string | null): SupabaseClient {
+    const client = {
+      auth: this.auth,
+      from: (table: string) => this.db.from(table),
+      rpc: (name: string, args: Record<string, unknown> = {}) => this.db.rpc(name, args, userId()),
+      storage: this.storage,
+    };
+    // Only the subset of the client the app uses is implemented.
+    return client as unknown as SupabaseClient;
+  }
+}
@@ -0,0 +1,5 @@
+// src/lib/supabase/testing/index.ts
+export * from './fake-auth';
+export * from './fake-database';
+export * from './fake-storage';
+export * from './fake-supabase';
@@ -0,0 +1,46 @@
+// src/lib/webauthn/authenticator-data.ts
+import { decodeCborItem } from './cbor';
+
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  /** User present (UP) flag. */
+  userPresent: boolean;
+  /** User verified (UV) flag: the authenticator checked a PIN or biometric. */
+  userVerified: boolean;
+  signCount: number;
+  /** Present after registrations (the AT flag). */
+  attestedCredential?: { credentialId: Uint8Array; publicKey: Uint8Array };
+}
+
+/**
+ * Parses the authenticator data structure (WebAuthn §6.1).
+ * @param {Uint8Array} data - The raw authenticator data.
+ * @returns {AuthenticatorData} The parsed fields.
+ * @throws {Error} If the data is truncated.
+ */
+export function parseAuthenticatorData(data: Uint8Array): AuthenticatorData {
+  if (data.length < 37) throw new Error('Authenticator data is truncated.');
+  const flags = data[32]!;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: (flags & 0x01) !== 0,
+    userVerified: (flags & 0x04) !== 0,
+    signCount: view.getUint32(33),
+  };
+
+  if (flags & 0x40) {
+    // AAGUID (16 bytes), then the credential ID length and ID, then the COSE public key.
+    if (data.length < 55) throw new Error('Attested credential data is truncated.');
+    const idLength = view.getUint16(53);
+    const idEnd = 55 + idLength;
+    if (data.length < idEnd) throw new Error('Attested credential data is truncated.');
+    const keyBytes = data.subarray(idEnd);
+    const { length } = decodeCborItem(keyBytes);
+    parsed.attestedCredential = {
+      credentialId: data.subarray(55, idEnd),
+      publicKey: keyBytes.subarray(0, length),
+    };
+  }
+  return parsed;
+}
@@ -0,0 +1,101 @@
+// src/lib/webauthn/browser.ts
+import type {
+  AuthenticationResponseJSON,
+  CreationOptionsJSON,
+  RegistrationResponseJSON,
+  RequestOptionsJSON,
+} from './types';
+
+/**
+ * Browser helpers for the WebAuthn ceremonies: they turn the server's JSON options into the
+ * `ArrayBuffer`-based options `navigator.credentials` expects, and its credentials back into JSON.
+ */
+
+function toBuffer(base64url: string): ArrayBuffer {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(base64url.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  const binary = Array.from(new Uint8Array(buffer), (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Whether this browser can use passkeys at all.
+ * @returns {boolean} True if the WebAuthn API is available.
+ */
+export function isWebAuthnSupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function' && !!navigator.credentials;
+}
+
+/**
+ * Runs a registration ceremony: asks the browser to create a passkey with the server's options.
+ * @param {CreationOptionsJSON} options - The options from the server.
+ * @returns {Promise<RegistrationResponseJSON>} The new credential, ready to send to the server.
+ * @throws {DOMException} If the user cancels, or the authenticator refuses (e.g. it is already registered).
+ */
+export async function createPasskey(options: CreationOptionsJSON): Promise<RegistrationResponseJSON> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      user: { ...options.user, id: toBuffer(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map((descriptor) => ({
+        ...descriptor,
+        id: toBuffer(descriptor.id),
+        transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+      })),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new DOMException('No passkey was created.', 'NotAllowedError');
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: typeof response.getTransports === 'function' ? response.getTransports() : [],
+    },
+  };
+}
+
+/**
+ * Runs an authentication ceremony: asks the browser to sign the server's challenge with a passkey.
+ * @param {RequestOptionsJSON} options - The options from the server.
+ * @returns {Promise<AuthenticationResponseJSON>} The assertion, ready to send to the server.
+ * @throws {DOMException} If the user cancels or has no passkey for this site.
+ */
+export async function getPasskeyAssertion(options: RequestOptionsJSON): Promise<AuthenticationResponseJSON> {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      allowCredentials: options.allowCredentials.map((descriptor) => ({
+        ...descriptor,
+        id: toBuffer(descriptor.id),
+        transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+      })),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new DOMException('No passkey was selected.', 'NotAllowedError');
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+    },
+  };
+}
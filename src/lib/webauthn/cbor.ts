@@ -0,0 +1,90 @@
+// src/lib/webauthn/cbor.ts
+
+/**
+ * A minimal CBOR (RFC 8949) decoder covering what WebAuthn uses: integers, byte and text strings,
+ * arrays, maps and the simple values. Attestation objects and COSE keys never contain floats, tags
+ * or indefinite lengths, so those are rejected.
+ */
+
+export type CborValue = number | Uint8Array | string | boolean | null | undefined | CborValue[] | Map<CborValue, CborValue>;
+
+/**
+ * Decodes the first CBOR item in `bytes`.
+ * @param {Uint8Array} bytes - The encoded data.
+ * @returns {{ value: CborValue, length: number }} The decoded item and how many bytes it took, so
+ *   callers can find data that follows it (e.g. extensions after a credential public key).
+ * @throws {Error} If the data is truncated or uses an unsupported feature.
+ */
+export function decodeCborItem(bytes: Uint8Array): { value: CborValue; length: number } {
+  let offset = 0;
+
+  const take = (count: number): Uint8Array => {
+    if (offset + count > bytes.length) throw new Error('CBOR data is truncated.');
+    const slice = bytes.subarray(offset, offset + count);
+    offset += count;
+    return slice;
+  };
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (!size) throw new Error('Indefinite-length CBOR items are not supported.');
+    const length = take(size).reduce((value, byte) => value * 256 + byte, 0);
+    if (!Number.isSafeInteger(length)) throw new Error('CBOR length is too large.');
+    return length;
+  };
+
+  const readItem = (): CborValue => {
+    const initial = take(1)[0]!;
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2:
+        return take(readLength(info)).slice();
+      case 3:
+        return new TextDecoder().decode(take(readLength(info)));
+      case 4: {
+        const length = readLength(info);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) items.push(readItem());
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        throw new Error('CBOR floats are not supported.');
+      default:
+        throw new Error('CBOR tags are not supported.');
+    }
+  };
+
+  const value = readItem();
+  return { value, length: offset };
+}
+
+/**
+ * Decodes a buffer holding exactly one CBOR item.
+ * @param {Uint8Array} bytes - The encoded data.
+ * @returns {CborValue} The decoded item.
+ * @throws {Error} If the data is malformed or has trailing bytes.
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const { value, length } = decodeCborItem(bytes);
+  if (length !== bytes.length) throw new Error('CBOR data has trailing bytes.');
+  return value;
+}
@@ -0,0 +1,48 @@
+// src/lib/webauthn/cose.ts
+import { createPublicKey, type KeyObject } from 'crypto';
+import { decodeCbor } from './cbor';
+import { SUPPORTED_COSE_ALGORITHMS, type CoseAlgorithm } from './types';
+
+// COSE key parameters (RFC 9053): kty = 1, alg = 3; curve and coordinates use negative labels.
+const KTY = 1;
+const ALG = 3;
+const CRV = -1;
+const X = -2;
+const Y = -3;
+const RSA_N = -1;
+const RSA_E = -2;
+
+/**
+ * Converts a COSE-encoded credential public key to a Node.js key.
+ * @param {Uint8Array} coseKey - The COSE key, as found in the authenticator data.
+ * @returns {{ key: KeyObject, algorithm: CoseAlgorithm }} The public key and its signature algorithm.
+ * @throws {Error} If the key is malformed or uses an unsupported algorithm or curve.
+ */
+export function coseKeyToPublicKey(coseKey: Uint8Array): { key: KeyObject; algorithm: CoseAlgorithm } {
+  const map = decodeCbor(coseKey);
+  if (!(map instanceof Map)) throw new Error('The credential public key is not a COSE key.');
+
+  const algorithm = map.get(ALG) as CoseAlgorithm;
+  if (!SUPPORTED_COSE_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported credential algorithm: ${String(map.get(ALG))}.`);
+  }
+  const bytes = (label: number): string => {
+    const value = map.get(label);
+    if (!(value instanceof Uint8Array)) throw new Error('The credential public key is incomplete.');
+    return Buffer.from(value).toString('base64url');
+  };
+
+  switch (map.get(KTY)) {
+    case 2: // EC2
+      if (algorithm !== -7 || map.get(CRV) !== 1) throw new Error('Only P-256 is supported for EC keys.');
+      return { key: createPublicKey({ key: { kty: 'EC', crv: 'P-256', x: bytes(X), y: bytes(Y) }, format: 'jwk' }), algorithm };
+    case 1: // OKP
+      if (algorithm !== -8 || map.get(CRV) !== 6) throw new Error('Only Ed25519 is supported for OKP keys.');
+      return { key: createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: bytes(X) }, format: 'jwk' }), algorithm };
+    case 3: // RSA
+      if (algorithm !== -257) throw new Error('Only RS256 is supported for RSA keys.');
+      return { key: createPublicKey({ key: { kty: 'RSA', n: bytes(RSA_N), e: bytes(RSA_E) }, format: 'jwk' }), algorithm };
+    default:
+      throw new Error('Unsupported credential key type.');
+  }
+}
@@ -0,0 +1,8 @@
+// src/lib/webauthn/index.ts
+// Server-side only (uses Node's crypto). Browser code imports `@/lib/webauthn/browser` directly.
+export * from './types';
+export * from './cbor';
+export * from './cose';
+export * from './authenticator-data';
+export * from './options';
+export * from './verify';
@@ -0,0 +1,67 @@
+// src/lib/webauthn/options.ts
+import { randomBytes } from 'crypto';
+import {
+  SUPPORTED_COSE_ALGORITHMS,
+  type CreationOptionsJSON,
+  type CredentialDescriptorJSON,
+  type RelyingParty,
+  type RequestOptionsJSON,
+} from './types';
+
+/** How long the browser waits for the user, in milliseconds. */
+export const WEBAUTHN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Generates a random challenge for a registration or authentication ceremony.
+ * @returns {string} 32 random bytes, base64url.
+ */
+export function generateChallenge(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Builds the options for `navigator.credentials.create`. Passkeys are discoverable credentials
+ * (`residentKey: required`) with user verification, so they can sign in without a username.
+ *
+ * @param {object} params - The option parameters.
+ * @param {RelyingParty} params.relyingParty - The relying party.
+ * @param {string} params.challenge - The challenge from `generateChallenge`.
+ * @param {{ id: string, name: string, displayName: string }} params.user - The user; `id` is base64url and must not contain personal data.
+ * @param {CredentialDescriptorJSON[]} params.excludeCredentials - The user's existing credentials, so an authenticator is not registered twice.
+ * @returns {CreationOptionsJSON} The options, in JSON form.
+ */
+export function buildCreationOptions(params: {
+  relyingParty: RelyingParty;
+  challenge: string;
+  user: { id: string; name: string; displayName: string };
+  excludeCredentials: CredentialDescriptorJSON[];
+}): CreationOptionsJSON {
+  return {
+    challenge: params.challenge,
+    rp: { id: params.relyingParty.id, name: params.relyingParty.name },
+    user: params.user,
+    pubKeyCredParams: SUPPORTED_COSE_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+    timeout: WEBAUTHN_TIMEOUT_MS,
+    excludeCredentials: params.excludeCredentials,
+    authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+    attestation: 'none',
+  };
+}
+
+/**
+ * Builds the options for `navigator.credentials.get`. No credentials are listed, so the browser
+ * offers every passkey the user has for this site.
+ *
+ * @param {RelyingParty} relyingParty - The relying party.
+ * @param {string} challenge - The challenge from `generateChallenge`.
+ * @returns {RequestOptionsJSON} The options, in JSON form.
+ */
+export function buildRequestOptions(relyingParty: RelyingParty, challenge: string): RequestOptionsJSON {
+  return {
+    challenge,
+    rpId: relyingParty.id,
+    timeout: WEBAUTHN_TIMEOUT_MS,
+    allowCredentials: [],
+    userVerification: 'required',
+  };
+}
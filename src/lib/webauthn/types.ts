@@ -0,0 +1,82 @@
+// src/lib/webauthn/types.ts
+
+/**
+ * The JSON forms of the WebAuthn options and responses exchanged between the browser and the server.
+ * Binary fields are base64url strings; `browser.ts` converts them to and from the `ArrayBuffer`s the
+ * browser API works with.
+ */
+
+/** COSE algorithm identifiers the verifier supports: ES256, EdDSA (Ed25519) and RS256. */
+export const SUPPORTED_COSE_ALGORITHMS = [-7, -8, -257] as const;
+
+export type CoseAlgorithm = (typeof SUPPORTED_COSE_ALGORITHMS)[number];
+
+export interface RelyingParty {
+  /** The domain passkeys are scoped to, e.g. `example.com`. */
+  id: string;
+  name: string;
+  /** The origins the browser may report, e.g. `https://example.com`. */
+  origins: string[];
+}
+
+export interface CredentialDescriptorJSON {
+  id: string;
+  type: 'public-key';
+  transports?: string[];
+}
+
+export interface CreationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  excludeCredentials: CredentialDescriptorJSON[];
+  authenticatorSelection: { residentKey: 'required'; userVerification: 'required' };
+  attestation: 'none';
+}
+
+export interface RequestOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  allowCredentials: CredentialDescriptorJSON[];
+  userVerification: 'required';
+}
+
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+/** A credential the server stores after a successful registration. */
+export interface VerifiedCredential {
+  /** The credential ID, base64url. */
+  id: string;
+  /** The COSE-encoded public key, base64url. */
+  publicKey: string;
+  signCount: number;
+  transports: string[];
+}
+
+export type WebAuthnVerificationResult<T> =
+  | ({ verified: true } & T)
+  | { verified: false; error: string };
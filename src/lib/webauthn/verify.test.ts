@@ -0,0 +1,149 @@
+import { createHash, generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import { verifyAuthenticationResponse, verifyRegistrationResponse } from './verify';
+import type { RelyingParty } from './types';
+
+const relyingParty: RelyingParty = { id: 'example.com', name: 'PassForge', origins: ['https://example.com'] };
+const challenge = 'c2VydmVyLWNoYWxsZW5nZQ';
+const credentialId = Buffer.from('credential-1');
+
+/** Encodes the small subset of CBOR these fixtures need: non-negative and negative integers, bytes, strings and maps. */
+function encodeCbor(value: number | string | Uint8Array | Map<number | string, unknown>): Buffer {
+  const head = (major: number, length: number): Buffer =>
+    length < 24 ? Buffer.from([(major << 5) | length])
+      : length < 256 ? Buffer.from([(major << 5) | 24, length])
+        : Buffer.from([(major << 5) | 25, length >> 8, length & 0xff]);
+  if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value);
+  if (typeof value === 'string') return Buffer.concat([head(3, Buffer.byteLength(value)), Buffer.from(value)]);
+  if (value instanceof Uint8Array) return Buffer.concat([head(2, value.length), value]);
+  return Buffer.concat([
+    head(5, value.size),
+    ...Array.from(value).flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item as Parameters<typeof encodeCbor>[0])]),
+  ]);
+}
+
+function makeEs256Key(): { privateKey: KeyObject; coseKey: Buffer } {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const coseKey = encodeCbor(new Map<number, unknown>([
+    [1, 2], [3, -7], [-1, 1],
+    [-2, Buffer.from(jwk.x!, 'base64url')],
+    [-3, Buffer.from(jwk.y!, 'base64url')],
+  ]));
+  return { privateKey, coseKey };
+}
+
+function authenticatorData(flags: number, signCount: number, attested?: Buffer): Buffer {
+  const counter = Buffer.alloc(4);
+  counter.writeUInt32BE(signCount);
+  return Buffer.concat([createHash('sha256').update(relyingParty.id).digest(), Buffer.from([flags]), counter, attested ?? Buffer.alloc(0)]);
+}
+
+function clientData(type: string, overrides: Record<string, string> = {}): Buffer {
+  return Buffer.from(JSON.stringify({ type, challenge, origin: 'https://example.com', ...overrides }));
+}
+
+function registrationResponse(coseKey: Buffer, options: { flags?: number; clientData?: Buffer } = {}) {
+  const idLength = Buffer.alloc(2);
+  idLength.writeUInt16BE(credentialId.length);
+  const attested = Buffer.concat([Buffer.alloc(16), idLength, credentialId, coseKey]);
+  const attestationObject = encodeCbor(new Map<string, unknown>([
+    ['fmt', 'none'],
+    ['attStmt', new Map()],
+    ['authData', authenticatorData(options.flags ?? 0x45, 0, attested)],
+  ]));
+  return {
+    id: credentialId.toString('base64url'),
+    rawId: credentialId.toString('base64url'),
+    type: 'public-key' as const,
+    response: {
+      clientDataJSON: (options.clientData ?? clientData('webauthn.create')).toString('base64url'),
+      attestationObject: attestationObject.toString('base64url'),
+      transports: ['internal'],
+    },
+  };
+}
+
+function authenticationResponse(privateKey: KeyObject, signCount: number) {
+  const authData = authenticatorData(0x05, signCount);
+  const clientDataJSON = clientData('webauthn.get');
+  const signature = sign('sha256', Buffer.concat([authData, createHash('sha256').update(clientDataJSON).digest()]), privateKey);
+  return {
+    id: credentialId.toString('base64url'),
+    rawId: credentialId.toString('base64url'),
+    type: 'public-key' as const,
+    response: {
+      clientDataJSON: clientDataJSON.toString('base64url'),
+      authenticatorData: authData.toString('base64url'),
+      signature: signature.toString('base64url'),
+    },
+  };
+}
+
+describe('verifyRegistrationResponse', () => {
+  it('returns the credential to store', () => {
+    const { coseKey } = makeEs256Key();
+
+    const result = verifyRegistrationResponse({ response: registrationResponse(coseKey), expectedChallenge: challenge, relyingParty });
+
+    expect(result).toEqual({
+      verified: true,
+      credential: { id: credentialId.toString('base64url'), publicKey: coseKey.toString('base64url'), signCount: 0, transports: ['internal'] },
+    });
+  });
+
+  it.each([
+    ['another challenge', { clientData: clientData('webauthn.create', { challenge: 'b3RoZXI' }) }, 'challenge'],
+    ['another origin', { clientData: clientData('webauthn.create', { origin: 'https://evil.example' }) }, 'origin'],
+    ['an authentication ceremony', { clientData: clientData('webauthn.get') }, 'ceremony type'],
+    ['no user verification', { flags: 0x41 }, 'not verified'],
+  ])('rejects %s', (_label, options, error) => {
+    const { coseKey } = makeEs256Key();
+
+    const result = verifyRegistrationResponse({ response: registrationResponse(coseKey, options), expectedChallenge: challenge, relyingParty });
+
+    expect(result.verified).toBe(false);
+    expect(!result.verified && result.error).toContain(error);
+  });
+});
+
+describe('verifyAuthenticationResponse', () => {
+  it('accepts a valid signature and returns the new counter', () => {
+    const { privateKey, coseKey } = makeEs256Key();
+
+    const result = verifyAuthenticationResponse({
+      response: authenticationResponse(privateKey, 8),
+      expectedChallenge: challenge,
+      relyingParty,
+      credential: { publicKey: coseKey.toString('base64url'), signCount: 7 },
+    });
+
+    expect(result).toEqual({ verified: true, signCount: 8 });
+  });
+
+  it('rejects a signature from another key', () => {
+    const { coseKey } = makeEs256Key();
+    const { privateKey: otherKey } = makeEs256Key();
+
+    const result = verifyAuthenticationResponse({
+      response: authenticationResponse(otherKey, 1),
+      expectedChallenge: challenge,
+      relyingParty,
+      credential: { publicKey: coseKey.toString('base64url'), signCount: 0 },
+    });
+
+    expect(result).toEqual({ verified: false, error: 'The signature is invalid.' });
+  });
+
+  it('rejects a counter that did not increase', () => {
+    const { privateKey, coseKey } = makeEs256Key();
+
+    const result = verifyAuthenticationResponse({
+      response: authenticationResponse(privateKey, 7),
+      expectedChallenge: challenge,
+      relyingParty,
+      credential: { publicKey: coseKey.toString('base64url'), signCount: 7 },
+    });
+
+    expect(result.verified).toBe(false);
+  });
+});
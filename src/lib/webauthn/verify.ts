@@ -0,0 +1,154 @@
+// src/lib/webauthn/verify.ts
+import { createHash, verify as verifySignature } from 'crypto';
+import { parseAuthenticatorData, type AuthenticatorData } from './authenticator-data';
+import { decodeCbor } from './cbor';
+import { coseKeyToPublicKey } from './cose';
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+  RelyingParty,
+  VerifiedCredential,
+  WebAuthnVerificationResult,
+} from './types';
+
+/**
+ * Decodes a base64url field of a response.
+ * @param {string} value - The base64url string.
+ * @returns {Uint8Array} The bytes.
+ */
+function fromBase64Url(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'base64url'));
+}
+
+/**
+ * Checks the client data the browser signed over: the ceremony type, the challenge and the origin.
+ * @returns {string | null} Why the client data is rejected, or null if it is valid.
+ */
+function checkClientData(
+  clientDataJSON: Uint8Array,
+  type: 'webauthn.create' | 'webauthn.get',
+  expectedChallenge: string,
+  relyingParty: RelyingParty,
+): string | null {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(clientDataJSON));
+  } catch {
+    return 'The client data is not valid JSON.';
+  }
+  if (clientData.type !== type) return `Unexpected ceremony type: ${String(clientData.type)}.`;
+  if (clientData.challenge !== expectedChallenge) return 'The challenge does not match.';
+  if (typeof clientData.origin !== 'string' || !relyingParty.origins.includes(clientData.origin)) {
+    return `Unexpected origin: ${String(clientData.origin)}.`;
+  }
+  return null;
+}
+
+/**
+ * Checks that the authenticator data is scoped to the relying party and that the user was present
+ * and verified (PIN or biometric), which is what lets a passkey stand in for a password.
+ * @returns {string | null} Why the authenticator data is rejected, or null if it is valid.
+ */
+function checkAuthenticatorData(authData: AuthenticatorData, relyingParty: RelyingParty): string | null {
+  const expectedRpIdHash = createHash('sha256').update(relyingParty.id).digest();
+  if (!expectedRpIdHash.equals(authData.rpIdHash)) return 'The credential belongs to a different site.';
+  if (!authData.userPresent) return 'The user was not present.';
+  if (!authData.userVerified) return 'The user was not verified by the authenticator.';
+  return null;
+}
+
+/**
+ * Verifies the browser's response to a registration ceremony (`navigator.credentials.create`).
+ * Registrations ask for `none` attestation, so the attestation statement is not checked: the app
+ * trusts any authenticator the user chooses, as with passwords.
+ *
+ * @param {object} params - The verification parameters.
+ * @param {RegistrationResponseJSON} params.response - The response from the browser.
+ * @param {string} params.expectedChallenge - The challenge issued for this ceremony.
+ * @param {RelyingParty} params.relyingParty - The relying party the credential must be scoped to.
+ * @returns {WebAuthnVerificationResult<{ credential: VerifiedCredential }>} The credential to store, or why it was rejected.
+ */
+export function verifyRegistrationResponse(params: {
+  response: RegistrationResponseJSON;
+  expectedChallenge: string;
+  relyingParty: RelyingParty;
+}): WebAuthnVerificationResult<{ credential: VerifiedCredential }> {
+  const { response, expectedChallenge, relyingParty } = params;
+  try {
+    const clientDataError = checkClientData(fromBase64Url(response.response.clientDataJSON), 'webauthn.create', expectedChallenge, relyingParty);
+    if (clientDataError) return { verified: false, error: clientDataError };
+
+    const attestation = decodeCbor(fromBase64Url(response.response.attestationObject));
+    const authDataBytes = attestation instanceof Map ? attestation.get('authData') : undefined;
+    if (!(authDataBytes instanceof Uint8Array)) return { verified: false, error: 'The attestation object has no authenticator data.' };
+
+    const authData = parseAuthenticatorData(authDataBytes);
+    const authDataError = checkAuthenticatorData(authData, relyingParty);
+    if (authDataError) return { verified: false, error: authDataError };
+    if (!authData.attestedCredential) return { verified: false, error: 'The response does not contain a credential.' };
+
+    const credentialId = Buffer.from(authData.attestedCredential.credentialId).toString('base64url');
+    if (credentialId !== response.rawId) return { verified: false, error: 'The credential ID does not match.' };
+
+    // Throws for keys the login step could not verify, so they are never stored.
+    coseKeyToPublicKey(authData.attestedCredential.publicKey);
+
+    return {
+      verified: true,
+      credential: {
+        id: credentialId,
+        publicKey: Buffer.from(authData.attestedCredential.publicKey).toString('base64url'),
+        signCount: authData.signCount,
+        transports: response.response.transports ?? [],
+      },
+    };
+  } catch (error) {
+    return { verified: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Verifies the browser's response to an authentication ceremony (`navigator.credentials.get`)
+ * against a stored credential: the client data, the authenticator data and the signature over both.
+ * A signature counter that did not increase means the authenticator may have been cloned, so the
+ * assertion is rejected (authenticators that do not count always report 0).
+ *
+ * @param {object} params - The verification parameters.
+ * @param {AuthenticationResponseJSON} params.response - The response from the browser.
+ * @param {string} params.expectedChallenge - The challenge issued for this ceremony.
+ * @param {RelyingParty} params.relyingParty - The relying party the credential must be scoped to.
+ * @param {{ publicKey: string, signCount: number }} params.credential - The stored credential.
+ * @returns {WebAuthnVerificationResult<{ signCount: number }>} The new signature counter to store, or why the assertion was rejected.
+ */
+export function verifyAuthenticationResponse(params: {
+  response: AuthenticationResponseJSON;
+  expectedChallenge: string;
+  relyingParty: RelyingParty;
+  credential: { publicKey: string; signCount: number };
+}): WebAuthnVerificationResult<{ signCount: number }> {
+  const { response, expectedChallenge, relyingParty, credential } = params;
+  try {
+    const clientDataJSON = fromBase64Url(response.response.clientDataJSON);
+    const clientDataError = checkClientData(clientDataJSON, 'webauthn.get', expectedChallenge, relyingParty);
+    if (clientDataError) return { verified: false, error: clientDataError };
+
+    const authDataBytes = fromBase64Url(response.response.authenticatorData);
+    const authData = parseAuthenticatorData(authDataBytes);
+    const authDataError = checkAuthenticatorData(authData, relyingParty);
+    if (authDataError) return { verified: false, error: authDataError };
+
+    const { key, algorithm } = coseKeyToPublicKey(fromBase64Url(credential.publicKey));
+    const signedData = Buffer.concat([authDataBytes, createHash('sha256').update(clientDataJSON).digest()]);
+    const signature = fromBase64Url(response.response.signature);
+    // ES256 signatures are DER-encoded, which is Node's default; EdDSA takes no digest.
+    const isValid = verifySignature(algorithm === -8 ? null : 'sha256', signedData, key, signature);
+    if (!isValid) return { verified: false, error: 'The signature is invalid.' };
+
+    if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+      return { verified: false, error: 'The signature counter did not increase; the authenticator may have been cloned.' };
+    }
+    return { verified: true, signCount: authData.signCount };
+  } catch (error) {
+    return { verified: false, error: (error as Error).message };
+  }
+}
@@ -26,7 +26,10 @@ export async function middleware(request: NextRequest) {
     // Consider how to handle this case based on your app's requirements.
     // For now, we'll let the request proceed, and the utility will log another error.
   }
-  
+  if (!process.env['SESSION_ACTIVITY_SECRET']) {
+    console.error("SESSION_ACTIVITY_SECRET is not defined: session activity cannot be recorded, so sessions end at the idle timeout.");
+  }
+
   return await updateSession(request);
 }
 
@@ -4,13 +4,17 @@
 import { type User } from '@supabase/supabase-js';
 import {
   createContext,
+  useCallback,
   useContext,
   useEffect,
   useState,
   useRef,
   type ReactNode,
 } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
+import { SessionTimeoutDialog } from '@/features/auth/components/session-timeout-dialog';
+import { getAuthBroadcastEvent, openAuthBroadcast, type AuthBroadcast } from '@/features/auth/utils/auth-broadcast';
 import * as Sentry from '@sentry/nextjs';
 
 interface AuthSessionContextType {
@@ -25,14 +29,71 @@ const AuthSessionContext = createContext<AuthSessionContextType | undefined>(
 
 const getTimestampLog = () => new Date().toISOString(); 
 
-export const AuthSessionProvider = ({ children }: { children: ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState(true); 
+/**
+ * Where a user change was noticed: the initial session, this tab (its own auth events, or a
+ * server-side sign-in or sign-out followed by navigation), or outside it (another tab, or a
+ * change found when the tab is focused again).
+ */
+type UserChangeSource = 'initial' | 'local' | 'external';
+
+/**
+ * Provides the live Supabase user to the app (see `useAuthSession`).
+ * While a user with an account is signed in, it also enforces the idle timeout and maximum session
+ * age in the browser with `SessionTimeoutDialog`, which warns a minute before signing them out.
+ *
+ * Keeps all open tabs on the same user (`auth-broadcast.ts`): when this tab sees the user sign in,
+ * sign out or change, it tells the other tabs, which read the session from their cookies again and
+ * refresh their server-rendered content. The session is also read again after each navigation,
+ * since Server Actions sign in and out on the server without an auth event here, and when the tab
+ * is focused, for browsers without `BroadcastChannel`. `QueryClientProvider` resets its cache on
+ * every change of user.
+ *
+ * The root layout passes the user it verified on the server as `initialUser`, so the first render
+ * already has the real state and `isLoading` starts out false; later auth events take over from it.
+ * Without an initial user (undefined), it waits for the first event, or at most 3 seconds.
+ *
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The app.
+ * @param {User | null} [props.initialUser] - The server-verified user, or null when signed out.
+ */
+export const AuthSessionProvider = ({ children, initialUser }: { children: ReactNode; initialUser?: User | null }) => {
+  const [user, setUser] = useState<User | null>(initialUser ?? null);
+  const [isLoading, setIsLoading] = useState(initialUser === undefined); 
   const [error, setError] = useState<Error | null>(null);
   const [supabaseClient] = useState(() => createClient());
+  const router = useRouter();
+  const pathname = usePathname();
 
   const isMountedRef = useRef(true);
   const initialSessionProcessedRef = useRef(false); // Tracks if INITIAL_SESSION event logic has run
+  // undefined until the initial session is known, from the server or the first auth event.
+  const userIdRef = useRef<string | null | undefined>(initialUser === undefined ? undefined : initialUser?.id ?? null);
+  const broadcastRef = useRef<AuthBroadcast | null>(null);
+
+  const applyUser = useCallback((nextUser: User | null, source: UserChangeSource) => {
+    setUser(nextUser);
+    const previousUserId = userIdRef.current;
+    const nextUserId = nextUser?.id ?? null;
+    userIdRef.current = nextUserId;
+    if (source === 'initial' || previousUserId === undefined) return;
+
+    const event = getAuthBroadcastEvent(previousUserId, nextUserId);
+    if (!event) return;
+    console.log(`[${getTimestampLog()}] AuthSessionProvider (Client): User changed (${event}, noticed ${source === 'local' ? 'in this tab' : 'from outside'}).`);
+    if (source === 'local') {
+      broadcastRef.current?.post({ event, userId: nextUserId });
+    } else {
+      router.refresh();
+    }
+  }, [router]);
+
+  const rereadSession = useCallback(async (source: UserChangeSource) => {
+    if (userIdRef.current === undefined) return; // The initial session is still being resolved.
+    const { data: { session } } = await supabaseClient.auth.getSession();
+    if (isMountedRef.current) {
+      applyUser(session?.user ?? null, source);
+    }
+  }, [supabaseClient, applyUser]);
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -52,7 +113,7 @@ export const AuthSessionProvider = ({ children }: { children: ReactNode }) => {
         // Use the `isLoading` state variable directly from the closure of this callback.
         console.log(`[${getTimestampLog()}] AuthSessionProvider (Client): onAuthStateChange event: ${event}. Session user ID: ${session?.user?.id}. Current isLoading state variable: ${isLoading}, initialSessionProcessedRef: ${initialSessionProcessedRef.current}`);
         
-        setUser(session?.user ?? null);
+        applyUser(session?.user ?? null, event === 'INITIAL_SESSION' ? 'initial' : 'local');
         
         const sessionWithError = session as (typeof session & { error?: any });
         if (sessionWithError?.user && sessionWithError?.error) {
@@ -101,6 +162,7 @@ export const AuthSessionProvider = ({ children }: { children: ReactNode }) => {
         }
     }
 
+    // Only needed when the server did not provide the initial user.
     const loadingFallbackTimeoutId = setTimeout(() => {
       if (isMountedRef.current && isLoading) { 
         console.warn(`[${getTimestampLog()}] AuthSessionProvider (Client): isLoading fallback timeout (3s). Forcing isLoading to false as initial session state not definitively resolved by an event with a user.`);
@@ -115,7 +177,29 @@ export const AuthSessionProvider = ({ children }: { children: ReactNode }) => {
       clearTimeout(loadingFallbackTimeoutId);
       console.log(`[${getTimestampLog()}] AuthSessionProvider (Client): useEffect cleanup. Unsubscribed from onAuthStateChange.`);
     };
-  }, [supabaseClient]); // Effect only depends on the stable supabaseClient
+  }, [supabaseClient, applyUser]); // Effect only depends on the stable supabaseClient (applyUser is stable too)
+
+  useEffect(() => {
+    const broadcast = openAuthBroadcast(() => {
+      void rereadSession('external');
+    });
+    broadcastRef.current = broadcast;
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') void rereadSession('external');
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      broadcastRef.current = null;
+      broadcast.close();
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [rereadSession]);
+
+  useEffect(() => {
+    void rereadSession('local');
+  }, [pathname, rereadSession]);
 
   useEffect(() => {
     console.log(`[${getTimestampLog()}] AuthSessionProvider (Client): State update render. isLoading: ${isLoading}, user ID: ${user?.id}`);
@@ -124,6 +208,7 @@ export const AuthSessionProvider = ({ children }: { children: ReactNode }) => {
   return (
     <AuthSessionContext.Provider value={{ user, isLoading, error }}>
       {children}
+      <SessionTimeoutDialog enabled={!!user && !user.is_anonymous} />
     </AuthSessionContext.Provider>
   );
 };
@@ -3,12 +3,16 @@
 import { QueryClient, QueryClientProvider as TanstackQueryClientProvider } from '@tanstack/react-query';
 // ReactQueryDevtools import removed from here
 import React, { type ReactNode } from 'react';
+import { useAuthSession } from './auth-session-provider';
 
 /**
  * Provides a TanStack Query (React Query) client to the application.
  * This component initializes a QueryClient and wraps its children with QueryClientProvider.
  * It's crucial for enabling client-side data fetching, caching, and synchronization capabilities
  * provided by TanStack Query.
+ * Whenever the signed-in user changes (sign-in, sign-out, or another account, also from another
+ * tab), every query is reset: cached data of the previous user is dropped and the queries on
+ * screen fetch again for the new one. It must therefore be rendered inside `AuthSessionProvider`.
  *
  * @param {object} props - The component's props.
  * @param {ReactNode} props.children - The child components to render.
@@ -24,6 +28,19 @@ export default function QueryClientProvider({ children }: { children: ReactNode
     },
   }));
 
+  const { user, isLoading } = useAuthSession();
+  const userId = isLoading ? undefined : user?.id ?? null;
+  const cachedUserIdRef = React.useRef<string | null | undefined>(undefined);
+
+  React.useEffect(() => {
+    if (userId === undefined) return;
+    // The first known user keeps the cache, which may hold data hydrated from the server for them.
+    if (cachedUserIdRef.current !== undefined && cachedUserIdRef.current !== userId) {
+      void queryClient.resetQueries();
+    }
+    cachedUserIdRef.current = userId;
+  }, [userId, queryClient]);
+
   return (
     <TanstackQueryClientProvider client={queryClient}>
       {children}
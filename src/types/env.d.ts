@@ -0,0 +1,23 @@
+// src/types/env.d.ts
+
+declare namespace NodeJS {
+  interface ProcessEnv {
+    /**
+     * Password policy level (`basic`, `standard` or `strict`), see `features/auth/constants/password-policy.ts`.
+     * Must be read with dot access so Next.js inlines it into the browser bundle.
+     */
+    NEXT_PUBLIC_PASSWORD_POLICY_LEVEL?: string;
+    /**
+     * CAPTCHA provider (`turnstile`, `hcaptcha` or `test`) and its public site key, see `lib/captcha/captcha-config.ts`.
+     * Unset disables CAPTCHA. Read with dot access for the same reason.
+     */
+    NEXT_PUBLIC_CAPTCHA_PROVIDER?: string;
+    NEXT_PUBLIC_CAPTCHA_SITE_KEY?: string;
+    /**
+     * Idle timeout in minutes and maximum session age in hours, see `features/auth/constants/session-timeouts.ts`.
+     * Read with dot access for the same reason.
+     */
+    NEXT_PUBLIC_SESSION_IDLE_TIMEOUT_MINUTES?: string;
+    NEXT_PUBLIC_SESSION_MAX_AGE_HOURS?: string;
+  }
+}
@@ -0,0 +1,50 @@
+-- Sliding-window rate limiting for auth server actions (src/lib/rate-limit/postgres-store.ts).
+-- Only the service role uses this table, so RLS is enabled without any policies.
+
+create table if not exists public.rate_limit_hits (
+  id bigint generated always as identity primary key,
+  key text not null,
+  hit_at timestamptz not null default now()
+);
+
+create index if not exists rate_limit_hits_key_hit_at_idx on public.rate_limit_hits (key, hit_at);
+create index if not exists rate_limit_hits_hit_at_idx on public.rate_limit_hits (hit_at);
+
+alter table public.rate_limit_hits enable row level security;
+
+-- Records a hit, prunes hits older than the window for the key, and returns the remaining
+-- hit timestamps (epoch milliseconds, oldest first). The advisory lock serializes concurrent
+-- hits on the same key so they cannot both pass under the limit.
+create or replace function public.rate_limit_hit(p_key text, p_now_ms bigint, p_window_ms bigint)
+returns bigint[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := to_timestamp(p_now_ms / 1000.0);
+  v_window_start timestamptz := to_timestamp((p_now_ms - p_window_ms) / 1000.0);
+  v_hits bigint[];
+begin
+  perform pg_advisory_xact_lock(hashtext(p_key));
+
+  delete from public.rate_limit_hits where key = p_key and hit_at <= v_window_start;
+  insert into public.rate_limit_hits (key, hit_at) values (p_key, v_now);
+
+  -- Keys that are never hit again are not pruned above; sweep them out now and then.
+  -- No auth rule uses a window longer than a day.
+  if random() < 0.01 then
+    delete from public.rate_limit_hits where hit_at < v_now - interval '1 day';
+  end if;
+
+  select coalesce(array_agg((extract(epoch from hit_at) * 1000)::bigint order by hit_at), '{}')
+    into v_hits
+    from public.rate_limit_hits
+   where key = p_key;
+
+  return v_hits;
+end;
+$$;
+
+revoke all on function public.rate_limit_hit(text, bigint, bigint) from public, anon, authenticated;
+grant execute on function public.rate_limit_hit(text, bigint, bigint) to service_role;
@@ -0,0 +1,104 @@
+-- Device metadata for Supabase Auth sessions, shown on the dashboard security page
+-- (src/features/auth/services/session.service.ts).
+-- Rows are keyed by the `session_id` claim of the access token and removed together with the
+-- auth session, so the table never lists a session Supabase has already ended.
+
+create table if not exists public.user_sessions (
+  session_id uuid primary key references auth.sessions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  user_agent text,
+  ip_address text,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now()
+);
+
+create index if not exists user_sessions_user_id_idx on public.user_sessions (user_id);
+
+alter table public.user_sessions enable row level security;
+
+create policy "Users can read their own sessions"
+  on public.user_sessions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Records (or refreshes) the metadata of the caller's current session.
+-- The session and user come from the caller's JWT, so a user can only describe their own session.
+create or replace function public.record_user_session(p_user_agent text, p_ip_address text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session_id uuid := nullif(auth.jwt() ->> 'session_id', '')::uuid;
+begin
+  if v_session_id is null or auth.uid() is null then
+    raise exception 'No authenticated session';
+  end if;
+
+  insert into public.user_sessions (session_id, user_id, user_agent, ip_address)
+  values (v_session_id, auth.uid(), left(p_user_agent, 512), left(p_ip_address, 64))
+  on conflict (session_id) do update
+    set user_agent = excluded.user_agent,
+        ip_address = excluded.ip_address,
+        last_seen_at = now();
+end;
+$$;
+
+-- Lists the caller's active sessions, newest activity first. Sessions started without recorded
+-- metadata (e.g. before this migration) fall back to what Supabase Auth stores itself.
+-- Last seen is the latest of the recorded sign-in and the last token refresh.
+create or replace function public.list_user_sessions()
+returns table (
+  id uuid,
+  user_agent text,
+  ip_address text,
+  created_at timestamptz,
+  last_seen_at timestamptz,
+  aal text,
+  is_current boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    s.id,
+    coalesce(us.user_agent, s.user_agent) as user_agent,
+    coalesce(us.ip_address, host(s.ip)) as ip_address,
+    s.created_at,
+    greatest(us.last_seen_at, s.refreshed_at::timestamptz, s.updated_at) as last_seen_at,
+    s.aal::text as aal,
+    s.id::text = auth.jwt() ->> 'session_id' as is_current
+  from auth.sessions s
+  left join public.user_sessions us on us.session_id = s.id
+  where s.user_id = auth.uid()
+    and (s.not_after is null or s.not_after > now())
+  order by last_seen_at desc nulls last;
+$$;
+
+-- Ends one of the caller's sessions. Deleting the auth session also deletes its refresh tokens,
+-- so that device is signed out the next time it tries to refresh (at the latest when its
+-- current access token expires). Returns false if the session does not belong to the caller.
+create or replace function public.revoke_user_session(p_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_deleted integer;
+begin
+  delete from auth.sessions where id = p_session_id and user_id = auth.uid();
+  get diagnostics v_deleted = row_count;
+  return v_deleted > 0;
+end;
+$$;
+
+revoke all on function public.record_user_session(text, text) from public, anon;
+revoke all on function public.list_user_sessions() from public, anon;
+revoke all on function public.revoke_user_session(uuid) from public, anon;
+grant execute on function public.record_user_session(text, text) to authenticated;
+grant execute on function public.list_user_sessions() to authenticated;
+grant execute on function public.revoke_user_session(uuid) to authenticated;
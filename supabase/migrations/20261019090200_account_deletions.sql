@@ -0,0 +1,91 @@
+-- Self-service account deletion with a grace period
+-- (src/features/user-auth-data/actions/account-deletion.actions.ts).
+-- A row here marks an account as soft-deleted. Signing in again before `purge_after` removes the
+-- row (see the trigger below); after it, the purge job (src/app/api/cron/purge-deleted-accounts)
+-- deletes the profile, its storage objects and the auth user, which also deletes this row.
+
+create table if not exists public.account_deletions (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  requested_at timestamptz not null default now(),
+  purge_after timestamptz not null
+);
+
+create index if not exists account_deletions_purge_after_idx on public.account_deletions (purge_after);
+
+alter table public.account_deletions enable row level security;
+
+create policy "Users can read their own pending deletion"
+  on public.account_deletions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Checks a user's password without creating a new session.
+-- Returns false for accounts without a password (e.g. OAuth-only sign-ups).
+-- Only the service role may call it, so passwords are checked behind the rate-limited Server Actions.
+create or replace function public.verify_user_password(p_user_id uuid, p_password text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select coalesce(
+    (select u.encrypted_password = crypt(p_password, u.encrypted_password)
+       from auth.users u
+      where u.id = p_user_id
+        and u.encrypted_password is not null
+        and u.encrypted_password <> ''),
+    false
+  );
+$$;
+
+-- Soft-deletes the caller's account and returns when it will be purged.
+-- Requesting again restarts the grace period.
+create or replace function public.schedule_account_deletion(p_grace_period_days integer)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_purge_after timestamptz := now() + make_interval(days => greatest(p_grace_period_days, 1));
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.account_deletions (user_id, purge_after)
+  values (auth.uid(), v_purge_after)
+  on conflict (user_id) do update
+    set requested_at = now(),
+        purge_after = excluded.purge_after;
+
+  return v_purge_after;
+end;
+$$;
+
+-- Every sign-in creates a new auth session, whatever the method (password, OTP, OAuth), so a
+-- pending deletion is cancelled here rather than in each sign-in path. Token refreshes do not
+-- insert sessions, and the deletion request signs out all existing sessions.
+create or replace function public.cancel_account_deletion_on_sign_in()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.account_deletions where user_id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists cancel_account_deletion_on_sign_in on auth.sessions;
+create trigger cancel_account_deletion_on_sign_in
+  after insert on auth.sessions
+  for each row execute function public.cancel_account_deletion_on_sign_in();
+
+revoke all on function public.verify_user_password(uuid, text) from public, anon, authenticated;
+revoke all on function public.schedule_account_deletion(integer) from public, anon;
+revoke all on function public.cancel_account_deletion_on_sign_in() from public, anon, authenticated;
+grant execute on function public.verify_user_password(uuid, text) to service_role;
+grant execute on function public.schedule_account_deletion(integer) to authenticated;
@@ -0,0 +1,46 @@
+-- Persistent audit log of authentication events (src/features/auth/utils/auth-event-log.ts).
+-- Rows are written by the service layer with the service role, including failed attempts made
+-- without a session. Failed attempts carry only a SHA-256 hash of the email, never the address.
+-- Rows older than the retention period are deleted by src/app/api/cron/prune-auth-events.
+
+create table if not exists public.auth_events (
+  id bigint generated always as identity primary key,
+  user_id uuid references auth.users (id) on delete cascade,
+  email_hash text,
+  event_type text not null,
+  outcome text not null check (outcome in ('success', 'failure')),
+  ip_address text,
+  user_agent text,
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists auth_events_user_id_created_at_idx on public.auth_events (user_id, created_at desc);
+create index if not exists auth_events_email_hash_created_at_idx on public.auth_events (email_hash, created_at desc);
+create index if not exists auth_events_created_at_idx on public.auth_events (created_at);
+
+alter table public.auth_events enable row level security;
+
+-- Lists the caller's events: those recorded for their user ID, plus attempts (e.g. failed
+-- sign-ins) recorded only under the hash of their current email address.
+create or replace function public.list_my_auth_events(p_limit integer default 50)
+returns setof public.auth_events
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select e.*
+    from public.auth_events e
+   where e.user_id = auth.uid()
+      or e.email_hash = (
+        select encode(digest(lower(trim(u.email)), 'sha256'), 'hex')
+          from auth.users u
+         where u.id = auth.uid()
+      )
+   order by e.created_at desc
+   limit least(greatest(p_limit, 1), 200);
+$$;
+
+revoke all on function public.list_my_auth_events(integer) from public, anon;
+grant execute on function public.list_my_auth_events(integer) to authenticated;
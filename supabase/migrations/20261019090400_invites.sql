@@ -0,0 +1,100 @@
+-- Invite codes for the invite-only registration mode (src/features/invites).
+-- Admins (app_metadata.role = 'admin') manage invites through RLS. Sign-ups claim them with the
+-- service role through claim_invite/release_invite, since the registering user has no session yet.
+
+create table if not exists public.invites (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  -- When set, only this address (lowercased) can redeem the invite.
+  email text,
+  max_uses integer not null default 1 check (max_uses > 0),
+  use_count integer not null default 0 check (use_count >= 0),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  note text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.invite_redemptions (
+  id bigint generated always as identity primary key,
+  invite_id uuid not null references public.invites (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete set null,
+  email text not null,
+  redeemed_at timestamptz not null default now()
+);
+
+create index if not exists invite_redemptions_invite_id_idx on public.invite_redemptions (invite_id);
+
+alter table public.invites enable row level security;
+alter table public.invite_redemptions enable row level security;
+
+create policy "Admins can read invites"
+  on public.invites for select to authenticated
+  using ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+create policy "Admins can create invites"
+  on public.invites for insert to authenticated
+  with check ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin' and created_by = auth.uid());
+
+create policy "Admins can update invites"
+  on public.invites for update to authenticated
+  using ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+  with check ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+create policy "Admins can read invite redemptions"
+  on public.invite_redemptions for select to authenticated
+  using ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+-- Reserves one use of an invite for p_email. Returns the invite ID with status 'ok', or a null ID
+-- with the reason it cannot be used: 'invalid', 'revoked', 'expired', 'exhausted' or 'email_mismatch'.
+-- The row lock serializes concurrent claims, so a single-use invite cannot be redeemed twice.
+create or replace function public.claim_invite(p_code text, p_email text)
+returns table (invite_id uuid, status text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.invites;
+begin
+  select * into v_invite from public.invites where code = upper(trim(p_code)) for update;
+
+  if not found then
+    return query select null::uuid, 'invalid';
+  elsif v_invite.revoked_at is not null then
+    return query select null::uuid, 'revoked';
+  elsif v_invite.expires_at is not null and v_invite.expires_at <= now() then
+    return query select null::uuid, 'expired';
+  elsif v_invite.use_count >= v_invite.max_uses then
+    return query select null::uuid, 'exhausted';
+  elsif v_invite.email is not null and v_invite.email <> lower(trim(p_email)) then
+    return query select null::uuid, 'email_mismatch';
+  else
+    update public.invites set use_count = use_count + 1 where id = v_invite.id;
+    return query select v_invite.id, 'ok';
+  end if;
+end;
+$$;
+
+-- Gives back a use reserved by claim_invite when the sign-up did not go through.
+create or replace function public.release_invite(p_invite_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.invites set use_count = greatest(use_count - 1, 0) where id = p_invite_id;
+$$;
+
+-- Accounts that existed before registration could be restricted are admitted. New accounts get
+-- app_metadata.admitted from the app's sign-up flows (admitUser); the middleware turns away
+-- accounts without it while registration is not open.
+update auth.users
+set raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || '{"admitted": true}'::jsonb
+where not coalesce(raw_app_meta_data ? 'admitted', false);
+
+revoke all on function public.claim_invite(text, text) from public, anon, authenticated;
+revoke all on function public.release_invite(uuid) from public, anon, authenticated;
+grant execute on function public.claim_invite(text, text) to service_role;
+grant execute on function public.release_invite(uuid) to service_role;
@@ -0,0 +1,52 @@
+-- Passkeys (WebAuthn credentials) for passwordless sign-in (src/features/auth/utils/passkeys.ts).
+-- Users list, rename and remove their own passkeys through RLS. Passkeys are only added by the service
+-- role, after the server has verified the registration, so users cannot store key material of their own.
+-- Sign-in looks credentials up with the service role, since the user has no session yet.
+
+create table if not exists public.passkeys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- The WebAuthn credential ID and COSE public key, base64url.
+  credential_id text not null unique,
+  public_key text not null,
+  sign_count bigint not null default 0 check (sign_count >= 0),
+  transports text[] not null default '{}',
+  device_name text not null check (char_length(device_name) between 1 and 50),
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz
+);
+
+create index if not exists passkeys_user_id_idx on public.passkeys (user_id);
+
+alter table public.passkeys enable row level security;
+
+create policy "Users can read their own passkeys"
+  on public.passkeys for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can rename their own passkeys"
+  on public.passkeys for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can remove their own passkeys"
+  on public.passkeys for delete to authenticated
+  using (user_id = auth.uid());
+
+-- Users may only change the name; the key material and counter are written by the service role.
+revoke update on public.passkeys from authenticated;
+grant update (device_name) on public.passkeys to authenticated;
+
+-- Single-use challenges for registration and sign-in ceremonies. Only the service role uses this
+-- table, so RLS is enabled without any policies. Expired rows are removed whenever a challenge is issued.
+create table if not exists public.webauthn_challenges (
+  challenge text primary key,
+  purpose text not null check (purpose in ('registration', 'authentication')),
+  -- Set for registrations, which belong to the signed-in user.
+  user_id uuid references auth.users (id) on delete cascade,
+  expires_at timestamptz not null
+);
+
+create index if not exists webauthn_challenges_expires_at_idx on public.webauthn_challenges (expires_at);
+
+alter table public.webauthn_challenges enable row level security;
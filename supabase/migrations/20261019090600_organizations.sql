@@ -0,0 +1,270 @@
+-- Organizations (workspaces) with memberships, roles and email invitations (src/features/organizations).
+-- Roles, from most to least privileged: owner, admin, member, viewer. Members read their organizations
+-- through RLS; everything that must check roles across rows goes through the security definer functions
+-- below, which read auth.uid() themselves.
+
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(name) between 1 and 80),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.organization_members (
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'admin', 'member', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (organization_id, user_id)
+);
+
+create index if not exists organization_members_user_id_idx on public.organization_members (user_id);
+
+create table if not exists public.organization_invitations (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  -- Lowercased; only the account with this address can accept.
+  email text not null,
+  role text not null check (role in ('admin', 'member', 'viewer')),
+  -- SHA-256 of the token in the emailed link; the token itself is never stored.
+  token_hash text not null unique,
+  invited_by uuid references auth.users (id) on delete set null,
+  expires_at timestamptz not null,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists organization_invitations_organization_id_idx on public.organization_invitations (organization_id);
+
+-- The caller's role in an organization, or null if they are not a member. Security definer so the
+-- policies below can use it without recursing into the organization_members policies.
+create or replace function public.organization_role(p_organization_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.organization_members
+  where organization_id = p_organization_id and user_id = auth.uid();
+$$;
+
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+alter table public.organization_invitations enable row level security;
+
+create policy "Members can read their organizations"
+  on public.organizations for select to authenticated
+  using (public.organization_role(id) is not null);
+
+create policy "Owners and admins can rename organizations"
+  on public.organizations for update to authenticated
+  using (public.organization_role(id) in ('owner', 'admin'))
+  with check (public.organization_role(id) in ('owner', 'admin'));
+
+create policy "Owners can delete organizations"
+  on public.organizations for delete to authenticated
+  using (public.organization_role(id) = 'owner');
+
+create policy "Members can read their own memberships"
+  on public.organization_members for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Owners and admins can read pending invitations"
+  on public.organization_invitations for select to authenticated
+  using (public.organization_role(organization_id) in ('owner', 'admin'));
+
+create policy "Owners and admins can invite"
+  on public.organization_invitations for insert to authenticated
+  with check (
+    invited_by = auth.uid()
+    and (
+      public.organization_role(organization_id) = 'owner'
+      or (public.organization_role(organization_id) = 'admin' and role in ('member', 'viewer'))
+    )
+  );
+
+create policy "Owners and admins can revoke invitations"
+  on public.organization_invitations for update to authenticated
+  using (public.organization_role(organization_id) in ('owner', 'admin'))
+  with check (public.organization_role(organization_id) in ('owner', 'admin') and revoked_at is not null);
+
+-- Revoking is the only change users may make; invitations are accepted by accept_organization_invitation.
+revoke update on public.organization_invitations from authenticated;
+grant update (revoked_at) on public.organization_invitations to authenticated;
+
+-- Creates an organization with the caller as its owner. Returns the new organization's ID.
+create or replace function public.create_organization(p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_organization_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  insert into public.organizations (name, created_by) values (trim(p_name), auth.uid())
+  returning id into v_organization_id;
+  insert into public.organization_members (organization_id, user_id, role)
+  values (v_organization_id, auth.uid(), 'owner');
+  return v_organization_id;
+end;
+$$;
+
+-- Lists the members of an organization with their email and name. Any member may call it; for
+-- anyone else the list is empty.
+create or replace function public.list_organization_members(p_organization_id uuid)
+returns table (user_id uuid, role text, email text, first_name text, last_name text, joined_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.user_id, m.role, u.email::text, p.first_name, p.last_name, m.created_at
+  from public.organization_members m
+  join auth.users u on u.id = m.user_id
+  left join public.profiles p on p.id = m.user_id
+  where m.organization_id = p_organization_id
+    and public.organization_role(p_organization_id) is not null
+  order by m.created_at;
+$$;
+
+-- Changes a member's role (p_role) or removes them (p_role null). Returns 'ok', or why it was
+-- refused: 'forbidden' (the caller may not manage that member or grant that role), 'not_found'
+-- or 'last_owner' (an organization always keeps at least one owner). Members may always leave.
+-- Owners manage everyone; admins manage members and viewers and cannot grant a higher role.
+create or replace function public.update_organization_member(p_organization_id uuid, p_user_id uuid, p_role text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller_role text := public.organization_role(p_organization_id);
+  v_target_role text;
+begin
+  select role into v_target_role from public.organization_members
+  where organization_id = p_organization_id and user_id = p_user_id
+  for update;
+
+  if v_caller_role is null or not found then
+    return 'not_found';
+  end if;
+
+  if not (
+    v_caller_role = 'owner'
+    or (v_caller_role = 'admin' and v_target_role in ('member', 'viewer') and coalesce(p_role, 'viewer') in ('member', 'viewer'))
+    or (p_user_id = auth.uid() and p_role is null)
+  ) then
+    return 'forbidden';
+  end if;
+
+  if v_target_role = 'owner' and coalesce(p_role, '') <> 'owner' and (
+    select count(*) from public.organization_members
+    where organization_id = p_organization_id and role = 'owner'
+  ) = 1 then
+    return 'last_owner';
+  end if;
+
+  if p_role is null then
+    delete from public.organization_members where organization_id = p_organization_id and user_id = p_user_id;
+  else
+    update public.organization_members set role = p_role
+    where organization_id = p_organization_id and user_id = p_user_id;
+  end if;
+  return 'ok';
+end;
+$$;
+
+-- Accepts the invitation whose token hashes to p_token_hash for the caller. Returns the organization
+-- ID with status 'ok' (also when the caller is already a member), or a null ID with the reason:
+-- 'invalid', 'revoked', 'expired', 'accepted' or 'email_mismatch'. Callers without an email address
+-- (guests, phone-only accounts) never match.
+create or replace function public.accept_organization_invitation(p_token_hash text)
+returns table (organization_id uuid, status text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation public.organization_invitations;
+  v_email text := nullif(lower(auth.jwt() ->> 'email'), '');
+begin
+  select * into v_invitation from public.organization_invitations where token_hash = p_token_hash for update;
+
+  if not found or auth.uid() is null then
+    return query select null::uuid, 'invalid';
+  elsif v_invitation.revoked_at is not null then
+    return query select null::uuid, 'revoked';
+  elsif v_invitation.accepted_at is not null then
+    return query select null::uuid, 'accepted';
+  elsif v_invitation.expires_at <= now() then
+    return query select null::uuid, 'expired';
+  elsif v_email is null
+     or coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false)
+     or v_invitation.email is distinct from v_email then
+    return query select null::uuid, 'email_mismatch';
+  else
+    update public.organization_invitations set accepted_at = now() where id = v_invitation.id;
+    insert into public.organization_members (organization_id, user_id, role)
+    values (v_invitation.organization_id, auth.uid(), v_invitation.role)
+    on conflict on constraint organization_members_pkey do nothing;
+    return query select v_invitation.organization_id, 'ok';
+  end if;
+end;
+$$;
+
+-- Called by the account purge (src/features/user-auth-data/utils/account-purge.ts) before a user is
+-- deleted, so no workspace is left without an owner. Where the user is the only owner, the longest-standing
+-- admin becomes owner, else the longest-standing member, then viewer. Workspaces without other members are deleted.
+create or replace function public.hand_over_owned_organizations(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_organization_id uuid;
+  v_successor uuid;
+begin
+  for v_organization_id in
+    select m.organization_id from public.organization_members m
+    where m.user_id = p_user_id
+      and m.role = 'owner'
+      and not exists (
+        select 1 from public.organization_members o
+        where o.organization_id = m.organization_id and o.role = 'owner' and o.user_id <> p_user_id
+      )
+  loop
+    select o.user_id into v_successor from public.organization_members o
+    where o.organization_id = v_organization_id and o.user_id <> p_user_id
+    order by array_position(array['admin', 'member', 'viewer'], o.role), o.created_at
+    limit 1;
+
+    if v_successor is null then
+      delete from public.organizations where id = v_organization_id;
+    else
+      update public.organization_members set role = 'owner'
+      where organization_id = v_organization_id and user_id = v_successor;
+    end if;
+  end loop;
+end;
+$$;
+
+revoke all on function public.organization_role(uuid) from public, anon;
+revoke all on function public.create_organization(text) from public, anon;
+revoke all on function public.list_organization_members(uuid) from public, anon;
+revoke all on function public.update_organization_member(uuid, uuid, text) from public, anon;
+revoke all on function public.accept_organization_invitation(text) from public, anon;
+revoke all on function public.hand_over_owned_organizations(uuid) from public, anon, authenticated;
+grant execute on function public.organization_role(uuid) to authenticated;
+grant execute on function public.create_organization(text) to authenticated;
+grant execute on function public.list_organization_members(uuid) to authenticated;
+grant execute on function public.update_organization_member(uuid, uuid, text) to authenticated;
+grant execute on function public.accept_organization_invitation(text) to authenticated;
+grant execute on function public.hand_over_owned_organizations(uuid) to service_role;
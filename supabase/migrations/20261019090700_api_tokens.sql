@@ -0,0 +1,36 @@
+-- Personal access tokens for the app's API (src/features/api-tokens).
+-- Users list and revoke their own tokens through RLS. Tokens are only created by the service role, from
+-- the createApiToken Server Action, so users cannot store hashes, scopes or expiry dates of their own.
+-- Route handlers look tokens up by hash with the service role, since a request carrying a token has no session.
+
+create table if not exists public.api_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 60),
+  -- The first characters of the token, so users can tell their tokens apart.
+  token_prefix text not null,
+  -- SHA-256 of the token; the token itself is only shown once, when it is created.
+  token_hash text not null unique,
+  scopes text[] not null check (cardinality(scopes) > 0 and scopes <@ array['profile:read', 'profile:write']),
+  expires_at timestamptz not null,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists api_tokens_user_id_idx on public.api_tokens (user_id);
+
+alter table public.api_tokens enable row level security;
+
+create policy "Users can read their own API tokens"
+  on public.api_tokens for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can revoke their own API tokens"
+  on public.api_tokens for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and revoked_at is not null);
+
+-- Revoking is the only change users may make; the last use is recorded by the service role.
+revoke update on public.api_tokens from authenticated;
+grant update (revoked_at) on public.api_tokens to authenticated;